@@ -22,6 +22,7 @@
 #include <string.h>
 
 #include "device_config.h"
+#include "owner_auth.h"
 
 // BLE Services
 BLEDfu bledfu;
@@ -318,7 +319,35 @@ bool configModeActive = false;
 bool configDirty = false;
 bool lastSavedStateValid = false;
 
-char verifiedUserId[MAX_USER_ID_LENGTH + 1] = {0};
+// Ownership: a session is verified by answering a single-use challenge
+bool ownershipVerified = false;
+bool challengeIssued = false;
+uint8_t challengeNonce[CHALLENGE_NONCE_LENGTH];
+uint8_t challengeSalt[OWNER_SALT_LENGTH];  // Owner salt, or a fresh one for the next claim
+
+// Framed protocol receive state
+uint8_t rxFrame[FRAME_HEADER_SIZE + MAX_FRAME_PAYLOAD + FRAME_TRAILER_SIZE];
+uint16_t rxFrameLen = 0;
+unsigned long lastRxByteTime = 0;
+
+// Pixel streaming: while frames keep arriving they replace the current pattern
+bool pixelStreamActive = false;
+unsigned long lastPixelFrameTime = 0;
+
+// Fragment receive state (fragment data bytes are fed to receiveFrameByte)
+uint8_t rxFragmentHeader[FRAGMENT_HEADER_SIZE];
+uint8_t rxFragmentHeaderLen = 0;
+uint8_t rxFragmentRemaining = 0;
+uint8_t rxMessageId = 0;
+uint8_t rxChunkCount = 0;      // 0 when no message is in progress
+uint8_t rxNextChunkIndex = 0;
+
+// Payload of the frame currently being handled (handlers read from here)
+const uint8_t* rxPayload = nullptr;
+uint16_t rxPayloadLen = 0;
+uint16_t rxPayloadPos = 0;
+uint8_t currentSequenceId = UNSOLICITED_SEQUENCE_ID;
+bool repliesSuppressed = false;  // Set while handling a fire-and-forget request
 
 
 const char* DEVELOPER_USER_IDS[] = { nullptr };
@@ -344,20 +373,40 @@ bool validatePowerMode(uint8_t powerMode);
 bool validateColor(uint8_t r, uint8_t g, uint8_t b);
 void applyPowerMode();
 
-bool isDeveloperOrTestUser(const char* userId);
 bool isOwnershipVerified();
-bool readUserIdFromBle(char* userId, uint8_t maxLen);
+void clearOwnershipSession();
+void fillRandom(uint8_t* buffer, uint8_t length);
+bool readProofFromBle(uint8_t* buffer, uint8_t length);
+bool checkOwnershipProof(const uint8_t* proof, uint8_t opcode);
 
+void handleRequestChallenge();
 void handleClaimDevice();
 void handleVerifyOwnership();
 void handleUnclaimDevice();
 
 void handleEnterConfigMode();
 void handleExitConfigMode();
+void handleReadConfig();
+void sendConfigSnapshot(const DeviceSettings* settings);
+bool configFieldsEqual(const DeviceSettings* a, const DeviceSettings* b);
+void copyConfigFields(DeviceSettings* to, const DeviceSettings* from);
 void handleCommitConfig();
 void handleConfigUpdate();
+void handleBatchUpdate();
+void handlePixelFrame();
 void handleRequestAnalytics();
 void handleConfirmAnalytics();
+void handleGetCapabilities();
+
+uint16_t crc16(const uint8_t* data, uint16_t length);
+bool receiveFrameByte(uint8_t byte);
+bool receiveFragmentByte(uint8_t byte);
+void dropIncompleteMessage(const char* reason);
+void dispatchFrame();
+int payloadAvailable();
+int payloadRead();
+void sendFrame(const uint8_t* payload, uint16_t length);
+void sendFragments(const uint8_t* frame, uint16_t length);
 
 void sendErrorResponse(uint8_t errorCode, const char* message);
 void sendConfigModeAck();
@@ -443,35 +492,247 @@ void loop() {
     }
   }
 
+  // Hand the strip back to the pattern once pixel frames stop
+  if (pixelStreamActive && millis() - lastPixelFrameTime > PIXEL_STREAM_TIMEOUT_MS) {
+    Serial.println("Pixel stream ended - resuming pattern");
+    pixelStreamActive = false;
+    setPattern(currentSettings.currentPattern);
+  }
+
   // Update and display current pattern/effect (non-blocking patterns recommended;
   // your current ones are mostly quick, except strobe toggling.)
-  updatePattern();
+  if (!pixelStreamActive) {
+    updatePattern();
+  }
 
-  // Echo received data
-  if (Bluefruit.connected() && bleuart.available()) {
-    lastActivityTime = millis();
+  // Drop a partial message if the rest never arrived
+  bool receiving = rxChunkCount > 0 || rxFragmentHeaderLen > 0 || rxFragmentRemaining > 0;
+  if (receiving && millis() - lastRxByteTime > FRAME_RX_TIMEOUT_MS) {
+    dropIncompleteMessage("Incomplete message: timeout");
+    rxFragmentHeaderLen = 0;
+    rxFragmentRemaining = 0;
+  }
 
-    int command = bleuart.read();
-    Serial.printf("Received command: 0x%02X (ASCII: %d)\n", command, command);
+  // Reassemble fragmented, framed commands
+  while (Bluefruit.connected() && bleuart.available()) {
+    lastActivityTime = millis();
+    lastRxByteTime = lastActivityTime;
 
-    if (command == CMD_STATUS) {
-      uint8_t ack = RESPONSE_ACK_SUCCESS;
-      bleuart.write(&ack, 1);
-      Serial.println("Status command acknowledged");
+    if (receiveFragmentByte((uint8_t)bleuart.read())) {
+      dispatchFrame();
       return;
     }
+  }
+}
+
+// ========================================
+// Framed protocol
+// ========================================
+
+uint16_t crc16(const uint8_t* data, uint16_t length) {
+  uint16_t crc = 0xFFFF;
+  for (uint16_t i = 0; i < length; i++) {
+    crc ^= (uint16_t)data[i] << 8;
+    for (uint8_t bit = 0; bit < 8; bit++) {
+      crc = (crc & 0x8000) ? (uint16_t)((crc << 1) ^ 0x1021) : (uint16_t)(crc << 1);
+    }
+  }
+  return crc;
+}
+
+// Strip fragment headers and pass the data bytes on to the frame parser.
+// Fragments must arrive in order; a gap drops the message. Returns true once a complete frame is buffered.
+bool receiveFragmentByte(uint8_t byte) {
+  if (rxFragmentRemaining == 0) {
+    rxFragmentHeader[rxFragmentHeaderLen++] = byte;
+    if (rxFragmentHeaderLen < FRAGMENT_HEADER_SIZE) {
+      return false;
+    }
+    rxFragmentHeaderLen = 0;
+
+    uint8_t messageId = rxFragmentHeader[0];
+    uint8_t chunkIndex = rxFragmentHeader[1];
+    uint8_t chunkCount = rxFragmentHeader[2];
+    rxFragmentRemaining = rxFragmentHeader[3];
+
+    if (chunkCount == 0 || chunkIndex >= chunkCount || rxFragmentRemaining == 0) {
+      Serial.println("Malformed fragment header - dropped");
+      rxFragmentRemaining = 0;
+      return false;
+    }
+
+    if (chunkIndex == 0) {
+      if (rxChunkCount > 0) {
+        dropIncompleteMessage("Incomplete message: superseded");
+      }
+      rxMessageId = messageId;
+      rxChunkCount = chunkCount;
+      rxNextChunkIndex = 0;
+      rxFrameLen = 0;
+    } else if (rxChunkCount > 0 &&
+               (messageId != rxMessageId || chunkCount != rxChunkCount || chunkIndex != rxNextChunkIndex)) {
+      dropIncompleteMessage("Incomplete message: missing chunk");
+    }
+    return false;
+  }
+
+  rxFragmentRemaining--;
+  if (rxChunkCount == 0) {
+    return false; // Discarding the rest of a dropped message
+  }
+
+  bool complete = receiveFrameByte(byte);
+  if (rxFragmentRemaining == 0 && ++rxNextChunkIndex == rxChunkCount) {
+    rxChunkCount = 0;
+  }
+  return complete;
+}
+
+// Report a message that could not be reassembled, against the request it started (if known)
+void dropIncompleteMessage(const char* reason) {
+  Serial.printf("%s (%d/%d chunks)\n", reason, rxNextChunkIndex, rxChunkCount);
+  if (rxFrameLen >= 2) {
+    currentSequenceId = rxFrame[1];
+    sendErrorResponse(ERROR_INCOMPLETE_MESSAGE, "Incomplete message");
+    currentSequenceId = UNSOLICITED_SEQUENCE_ID;
+  }
+  rxFrameLen = 0;
+  rxChunkCount = 0;
+}
+
+// Append one byte to the receive buffer. Returns true once a complete, valid frame is buffered.
+bool receiveFrameByte(uint8_t byte) {
+  // Resynchronise on the version byte
+  if (rxFrameLen == 0 && byte != PROTOCOL_VERSION) {
+    return false;
+  }
+
+  rxFrame[rxFrameLen++] = byte;
+  if (rxFrameLen < FRAME_HEADER_SIZE) {
+    return false;
+  }
+
+  uint16_t payloadLen = ((uint16_t)rxFrame[2] << 8) | rxFrame[3];
+  if (payloadLen == 0 || payloadLen > MAX_FRAME_PAYLOAD) {
+    Serial.printf("Invalid frame length: %d\n", payloadLen);
+    rxFrameLen = 0;
+    return false;
+  }
+
+  uint16_t frameLen = FRAME_HEADER_SIZE + payloadLen + FRAME_TRAILER_SIZE;
+  if (rxFrameLen < frameLen) {
+    return false;
+  }
+
+  uint16_t crcOffset = FRAME_HEADER_SIZE + payloadLen;
+  uint16_t expectedCrc = ((uint16_t)rxFrame[crcOffset] << 8) | rxFrame[crcOffset + 1];
+  if (crc16(rxFrame, crcOffset) != expectedCrc) {
+    Serial.println("Frame CRC mismatch - dropped");
+    currentSequenceId = rxFrame[1];
+    rxFrameLen = 0;
+    sendErrorResponse(ERROR_INVALID_COMMAND, "CRC mismatch");
+    currentSequenceId = UNSOLICITED_SEQUENCE_ID;
+    return false;
+  }
+
+  rxFrameLen = 0;
+  return true;
+}
+
+// Dispatch the buffered frame's opcode to its handler
+void dispatchFrame() {
+  currentSequenceId = rxFrame[1];
+  rxPayloadLen = ((uint16_t)rxFrame[2] << 8) | rxFrame[3];
+  rxPayload = &rxFrame[FRAME_HEADER_SIZE];
+  rxPayloadPos = 0;
+
+  // Requests sent with UNSOLICITED_SEQUENCE_ID (write-without-response previews) get no reply
+  repliesSuppressed = currentSequenceId == UNSOLICITED_SEQUENCE_ID;
+
+  int command = payloadRead();
+  Serial.printf("Received command: 0x%02X (seq %d)\n", command, currentSequenceId);
+
+  if (command == CMD_STATUS) {
+    sendSuccessAck();
+    Serial.println("Status command acknowledged");
+  }
+  else if (command == CMD_ENTER_CONFIG) { handleEnterConfigMode(); }
+  else if (command == CMD_COMMIT_CONFIG) { handleCommitConfig(); }
+  else if (command == CMD_EXIT_CONFIG)   { handleExitConfigMode(); }
+  else if (command == CMD_READ_CONFIG)   { handleReadConfig(); }
+  else if (command == CMD_CONFIG_UPDATE) { handleConfigUpdate(); }
+  else if (command == CMD_UPDATE_BATCH)  { handleBatchUpdate(); }
+  else if (command == CMD_PIXEL_FRAME)   { handlePixelFrame(); }
+  else if (command == CMD_REQUEST_CHALLENGE) { handleRequestChallenge(); }
+  else if (command == CMD_CLAIM_DEVICE)  { handleClaimDevice(); }
+  else if (command == CMD_VERIFY_OWNERSHIP) { handleVerifyOwnership(); }
+  else if (command == CMD_UNCLAIM_DEVICE) { handleUnclaimDevice(); }
+  else if (command == CMD_REQUEST_ANALYTICS) { handleRequestAnalytics(); }
+  else if (command == CMD_CONFIRM_ANALYTICS) { handleConfirmAnalytics(); }
+  else if (command == CMD_GET_CAPABILITIES) { handleGetCapabilities(); }
+  else { sendErrorResponse(ERROR_INVALID_COMMAND, "Unknown command"); }
+
+  // Anything sent outside a request (e.g. auto-off) is unsolicited
+  rxPayload = nullptr;
+  rxPayloadLen = 0;
+  rxPayloadPos = 0;
+  currentSequenceId = UNSOLICITED_SEQUENCE_ID;
+  repliesSuppressed = false;
+}
 
-    if (command == CMD_ENTER_CONFIG) { handleEnterConfigMode(); return; }
-    if (command == CMD_COMMIT_CONFIG) { handleCommitConfig(); return; }
-    if (command == CMD_EXIT_CONFIG)   { handleExitConfigMode(); return; }
-    if (command == CMD_CONFIG_UPDATE) { handleConfigUpdate(); return; }
-    if (command == CMD_CLAIM_DEVICE)  { handleClaimDevice(); return; }
-    if (command == CMD_VERIFY_OWNERSHIP) { handleVerifyOwnership(); return; }
-    if (command == CMD_UNCLAIM_DEVICE) { handleUnclaimDevice(); return; }
-    if (command == CMD_REQUEST_ANALYTICS) { handleRequestAnalytics(); return; }
-    if (command == CMD_CONFIRM_ANALYTICS) { handleConfirmAnalytics(); return; }
+int payloadAvailable() {
+  return rxPayload ? (int)(rxPayloadLen - rxPayloadPos) : 0;
+}
+
+int payloadRead() {
+  if (payloadAvailable() <= 0) return -1;
+  return rxPayload[rxPayloadPos++];
+}
+
+// Wrap a response payload in a frame echoing the current request's sequence ID
+void sendFrame(const uint8_t* payload, uint16_t length) {
+  static uint8_t txFrame[FRAME_HEADER_SIZE + MAX_FRAME_PAYLOAD + FRAME_TRAILER_SIZE];
+  if (length == 0 || length > MAX_FRAME_PAYLOAD || repliesSuppressed) return;
 
-    sendErrorResponse(ERROR_INVALID_COMMAND, "Unknown command");
+  txFrame[0] = PROTOCOL_VERSION;
+  txFrame[1] = currentSequenceId;
+  txFrame[2] = (length >> 8) & 0xFF;
+  txFrame[3] = length & 0xFF;
+  memcpy(&txFrame[FRAME_HEADER_SIZE], payload, length);
+
+  uint16_t crcOffset = FRAME_HEADER_SIZE + length;
+  uint16_t crc = crc16(txFrame, crcOffset);
+  txFrame[crcOffset] = (crc >> 8) & 0xFF;
+  txFrame[crcOffset + 1] = crc & 0xFF;
+
+  sendFragments(txFrame, crcOffset + FRAME_TRAILER_SIZE);
+}
+
+// Split a frame into fragments that fit the negotiated MTU, one notification each
+void sendFragments(const uint8_t* frame, uint16_t length) {
+  static uint8_t txMessageId = 0;
+  static uint8_t fragment[FRAGMENT_HEADER_SIZE + MAX_FRAGMENT_DATA];
+
+  BLEConnection* connection = Bluefruit.Connection(Bluefruit.connHandle());
+  uint16_t mtu = connection ? connection->getMtu() : DEFAULT_ATT_MTU;
+  uint16_t chunkSize = mtu - ATT_HEADER_SIZE - FRAGMENT_HEADER_SIZE;
+  if (chunkSize > MAX_FRAGMENT_DATA) chunkSize = MAX_FRAGMENT_DATA;
+
+  uint16_t chunkCount = (length + chunkSize - 1) / chunkSize;
+  if (chunkCount == 0 || chunkCount > MAX_FRAGMENT_COUNT) return;
+
+  txMessageId++;
+  for (uint16_t chunkIndex = 0; chunkIndex < chunkCount; chunkIndex++) {
+    uint16_t offset = chunkIndex * chunkSize;
+    uint16_t chunkLength = length - offset < chunkSize ? length - offset : chunkSize;
+
+    fragment[0] = txMessageId;
+    fragment[1] = chunkIndex;
+    fragment[2] = chunkCount;
+    fragment[3] = chunkLength;
+    memcpy(&fragment[FRAGMENT_HEADER_SIZE], &frame[offset], chunkLength);
+
+    bleuart.write(fragment, FRAGMENT_HEADER_SIZE + chunkLength);
   }
 }
 
@@ -512,7 +773,7 @@ void connect_callback(uint16_t conn_handle) {
   Serial.print("Connected to ");
   Serial.println(central_name);
 
-  memset(verifiedUserId, 0, sizeof(verifiedUserId));
+  clearOwnershipSession();
   Serial.println("LED Guitar Controller ready for commands!");
   
   // Flash LEDs to indicate connection (3 quick flashes)
@@ -535,7 +796,7 @@ void connect_callback(uint16_t conn_handle) {
 void disconnect_callback(uint16_t conn_handle, uint8_t reason) {
   Serial.printf("Disconnected, reason: %d\n", reason);
 
-  memset(verifiedUserId, 0, sizeof(verifiedUserId));
+  clearOwnershipSession();
 
   if (configModeActive) {
     configModeActive = false;
@@ -576,10 +837,12 @@ void resetToDefaultSettings() {
   currentSettings.color[2] = 255;
   currentSettings.speed = 50;
 
-  memset(currentSettings.ownerUserId, 0, sizeof(currentSettings.ownerUserId));
+  memset(currentSettings.ownerKey, 0, sizeof(currentSettings.ownerKey));
+  memset(currentSettings.ownerSalt, 0, sizeof(currentSettings.ownerSalt));
   currentSettings.hasOwner = false;
+  currentSettings.revision = 0;
 
-  for (int i = 0; i < 14; i++) currentSettings.reserved[i] = 0;
+  memset(currentSettings.reserved, 0, sizeof(currentSettings.reserved));
 
   currentSettings.checksum = calculateChecksum(&currentSettings);
 }
@@ -794,45 +1057,57 @@ void applyPowerMode() {
 }
 
 // ========================================
-// Ownership helpers + BLE parsing (unchanged)
+// Ownership helpers + BLE parsing
 // ========================================
 
-bool isDeveloperOrTestUser(const char* userId) {
-  if (!userId || strlen(userId) == 0) return false;
+bool isOwnershipVerified() { return ownershipVerified; }
 
-  for (int i = 0; DEVELOPER_USER_IDS[i] != nullptr; i++) {
-    if (strcmp(userId, DEVELOPER_USER_IDS[i]) == 0) return true;
-  }
-  for (int i = 0; TEST_USER_IDS[i] != nullptr; i++) {
-    if (strcmp(userId, TEST_USER_IDS[i]) == 0) return true;
-  }
-  return false;
+void clearOwnershipSession() {
+  ownershipVerified = false;
+  challengeIssued = false;
 }
 
-bool isOwnershipVerified() { return strlen(verifiedUserId) > 0; }
-
-bool readUserIdFromBle(char* userId, uint8_t maxLen) {
-  if (!bleuart.available()) {
-    sendErrorResponse(ERROR_INVALID_PARAMETER, "Insufficient data");
-    return false;
+void fillRandom(uint8_t* buffer, uint8_t length) {
+  uint8_t filled = 0;
+  while (filled < length) {
+    uint8_t available = 0;
+    sd_rand_application_bytes_available_get(&available);
+    if (available == 0) continue;
+    uint8_t count = min((uint8_t)(length - filled), available);
+    sd_rand_application_vector_get(buffer + filled, count);
+    filled += count;
   }
+}
 
-  uint8_t userIdLen = bleuart.read();
-  if (userIdLen == 0 || userIdLen > maxLen) {
-    sendErrorResponse(ERROR_INVALID_PARAMETER, "Invalid user ID length");
+bool readProofFromBle(uint8_t* buffer, uint8_t length) {
+  if (payloadAvailable() != length) {
+    sendErrorResponse(ERROR_INVALID_PARAMETER, "Invalid ownership data length");
     return false;
   }
+  for (uint8_t i = 0; i < length; i++) buffer[i] = (uint8_t)payloadRead();
+  return true;
+}
 
-  memset(userId, 0, maxLen + 1);
-  for (uint8_t i = 0; i < userIdLen; i++) {
-    if (!bleuart.available()) {
-      sendErrorResponse(ERROR_INVALID_PARAMETER, "Insufficient data");
-      return false;
+// The nonce is used up by any answer, right or wrong, so a recorded proof can never be replayed
+bool checkOwnershipProof(const uint8_t* proof, uint8_t opcode) {
+  if (!challengeIssued) return false;
+  challengeIssued = false;
+
+  uint8_t expected[SHA256_DIGEST_SIZE];
+  signChallenge(currentSettings.ownerKey, challengeNonce, opcode, expected);
+  if (constantTimeEquals(proof, expected, OWNERSHIP_PROOF_LENGTH)) return true;
+
+  // Developer and test accounts work on any device: derive their keys with this device's salt
+  const char** lists[] = { DEVELOPER_USER_IDS, TEST_USER_IDS };
+  for (const char** ids : lists) {
+    for (int i = 0; ids[i] != nullptr; i++) {
+      uint8_t key[OWNER_KEY_LENGTH];
+      deriveOwnerKey(ids[i], currentSettings.ownerSalt, key);
+      signChallenge(key, challengeNonce, opcode, expected);
+      if (constantTimeEquals(proof, expected, OWNERSHIP_PROOF_LENGTH)) return true;
     }
-    userId[i] = (char)bleuart.read();
   }
-  userId[userIdLen] = '\0';
-  return true;
+  return false;
 }
 
 #define CHECK_OWNERSHIP_OR_RETURN() \
@@ -845,87 +1120,90 @@ bool readUserIdFromBle(char* userId, uint8_t maxLen) {
   } while(0)
 
 // ========================================
-// Ownership handlers (unchanged)
+// Ownership handlers
 // ========================================
 
-void handleClaimDevice() {
-  char userId[MAX_USER_ID_LENGTH + 1] = {0};
-  if (!readUserIdFromBle(userId, MAX_USER_ID_LENGTH)) return;
-
+void handleRequestChallenge() {
   if (currentSettings.hasOwner) {
-    if (isDeveloperOrTestUser(userId) || strcmp(userId, currentSettings.ownerUserId) == 0) {
-      strncpy(currentSettings.ownerUserId, userId, MAX_USER_ID_LENGTH);
-      currentSettings.ownerUserId[MAX_USER_ID_LENGTH] = '\0';
-      saveSettingsToFlash();
-      sendSuccessAck();
-      Serial.print("[OWNERSHIP] Device reclaimed by: ");
-      Serial.println(userId);
-    } else {
-      sendErrorResponse(ERROR_ALREADY_CLAIMED, "Device already claimed");
-      Serial.print("[OWNERSHIP] Claim rejected - device already owned by: ");
-      Serial.println(currentSettings.ownerUserId);
-    }
+    memcpy(challengeSalt, currentSettings.ownerSalt, OWNER_SALT_LENGTH);
   } else {
-    strncpy(currentSettings.ownerUserId, userId, MAX_USER_ID_LENGTH);
-    currentSettings.ownerUserId[MAX_USER_ID_LENGTH] = '\0';
-    currentSettings.hasOwner = true;
-    saveSettingsToFlash();
-    sendSuccessAck();
-    Serial.print("[OWNERSHIP] Device claimed by: ");
-    Serial.println(userId);
-  }
+    fillRandom(challengeSalt, OWNER_SALT_LENGTH);
+  }
+  fillRandom(challengeNonce, CHALLENGE_NONCE_LENGTH);
+  challengeIssued = true;
+
+  uint8_t response[RESPONSE_CHALLENGE_SIZE];
+  uint8_t pos = 0;
+  response[pos++] = RESPONSE_CHALLENGE;
+  response[pos++] = currentSettings.hasOwner ? 1 : 0;
+  response[pos++] = OWNER_SALT_LENGTH;
+  memcpy(response + pos, challengeSalt, OWNER_SALT_LENGTH);
+  pos += OWNER_SALT_LENGTH;
+  response[pos++] = CHALLENGE_NONCE_LENGTH;
+  memcpy(response + pos, challengeNonce, CHALLENGE_NONCE_LENGTH);
+  pos += CHALLENGE_NONCE_LENGTH;
+  sendFrame(response, pos);
 }
 
-void handleVerifyOwnership() {
-  char userId[MAX_USER_ID_LENGTH + 1] = {0};
-  if (!readUserIdFromBle(userId, MAX_USER_ID_LENGTH)) return;
-
-  bool isAuthorized = false;
+void handleClaimDevice() {
+  uint8_t ownerKey[OWNER_KEY_LENGTH];
+  if (!readProofFromBle(ownerKey, OWNER_KEY_LENGTH)) return;
 
-  if (!currentSettings.hasOwner) {
-    isAuthorized = true;
-  } else if (strcmp(userId, currentSettings.ownerUserId) == 0) {
-    isAuthorized = true;
-  } else if (isDeveloperOrTestUser(userId)) {
-    isAuthorized = true;
+  if (!challengeIssued) {
+    sendErrorResponse(ERROR_INVALID_PARAMETER, "Request a challenge first");
+    return;
+  }
+  // Reclaiming (e.g. a developer taking over) needs a verified session
+  if (currentSettings.hasOwner && !isOwnershipVerified()) {
+    sendErrorResponse(ERROR_ALREADY_CLAIMED, "Device already claimed");
+    Serial.println("[OWNERSHIP] Claim rejected - device already owned");
+    return;
   }
 
-  if (isAuthorized) {
-    strncpy(verifiedUserId, userId, MAX_USER_ID_LENGTH);
-    verifiedUserId[MAX_USER_ID_LENGTH] = '\0';
+  // The key was derived from the salt in the challenge
+  memcpy(currentSettings.ownerKey, ownerKey, OWNER_KEY_LENGTH);
+  memcpy(currentSettings.ownerSalt, challengeSalt, OWNER_SALT_LENGTH);
+  currentSettings.hasOwner = true;
+  challengeIssued = false;
+  saveSettingsToFlash();
+  sendSuccessAck();
+  Serial.println("[OWNERSHIP] Device claimed");
+}
+
+void handleVerifyOwnership() {
+  uint8_t proof[OWNERSHIP_PROOF_LENGTH];
+  if (!readProofFromBle(proof, OWNERSHIP_PROOF_LENGTH)) return;
+
+  if (!currentSettings.hasOwner || checkOwnershipProof(proof, CMD_VERIFY_OWNERSHIP)) {
+    ownershipVerified = true;
     sendSuccessAck();
-    Serial.print("[OWNERSHIP] Ownership verified for: ");
-    Serial.println(userId);
+    Serial.println("[OWNERSHIP] Ownership verified");
   } else {
     sendErrorResponse(ERROR_NOT_OWNER, "Not authorized");
-    Serial.print("[OWNERSHIP] Ownership verification failed for: ");
-    Serial.println(userId);
+    Serial.println("[OWNERSHIP] Ownership verification failed");
   }
 }
 
 void handleUnclaimDevice() {
-  char userId[MAX_USER_ID_LENGTH + 1] = {0};
-  if (!readUserIdFromBle(userId, MAX_USER_ID_LENGTH)) return;
+  uint8_t proof[OWNERSHIP_PROOF_LENGTH];
+  if (!readProofFromBle(proof, OWNERSHIP_PROOF_LENGTH)) return;
 
   if (!currentSettings.hasOwner) {
     sendSuccessAck();
     return;
   }
 
-  bool isAuthorized = false;
-  if (strcmp(userId, currentSettings.ownerUserId) == 0) isAuthorized = true;
-  else if (isDeveloperOrTestUser(userId)) isAuthorized = true;
-
-  if (isAuthorized) {
-    memset(currentSettings.ownerUserId, 0, sizeof(currentSettings.ownerUserId));
+  if (checkOwnershipProof(proof, CMD_UNCLAIM_DEVICE)) {
+    memset(currentSettings.ownerKey, 0, sizeof(currentSettings.ownerKey));
+    memset(currentSettings.ownerSalt, 0, sizeof(currentSettings.ownerSalt));
     currentSettings.hasOwner = false;
+    ownershipVerified = false;
     saveSettingsToFlash();
     sendSuccessAck();
     Serial.println("[OWNERSHIP] Device unclaimed");
   } else {
     sendErrorResponse(ERROR_NOT_OWNER, "Not authorized");
-    Serial.print("[OWNERSHIP] Unclaim rejected - not authorized: ");
-    Serial.println(userId);
+    Serial.println("[OWNERSHIP] Unclaim rejected - not authorized");
   }
 }
 
@@ -942,23 +1220,62 @@ void handleEnterConfigMode() {
 
   memcpy(&ramBuffer, &currentSettings, sizeof(DeviceSettings));
 
-  // Send 8-byte config response: [0x90, brightness, speed, r, g, b, effectType, powerState]
-  // Note: App expects RGB color, not HSV
-  uint8_t configResponse[8];
-  configResponse[0] = RESPONSE_ACK_CONFIG_MODE;  // 0x90
-  configResponse[1] = currentSettings.brightness;
-  configResponse[2] = currentSettings.speed;
-  configResponse[3] = currentSettings.color[0];  // R
-  configResponse[4] = currentSettings.color[1];  // G
-  configResponse[5] = currentSettings.color[2];  // B
-  configResponse[6] = currentSettings.currentPattern;
-  configResponse[7] = currentSettings.powerMode > 0 ? 1 : 0;
-  
-  bleuart.write(configResponse, 8);
-  Serial.printf("Config mode active - sent config data: brightness=%d, speed=%d, color=(%d,%d,%d), pattern=%d\n",
+  sendConfigSnapshot(&currentSettings);
+  Serial.printf("Config mode active - sent config data: brightness=%d, speed=%d, color=(%d,%d,%d), pattern=%d, revision=%d\n",
                 currentSettings.brightness, currentSettings.speed,
                 currentSettings.color[0], currentSettings.color[1], currentSettings.color[2],
-                currentSettings.currentPattern);
+                currentSettings.currentPattern, currentSettings.revision);
+}
+
+// Apps read the staged config at live sync points to catch previews the device dropped
+void handleReadConfig() {
+  CHECK_OWNERSHIP_OR_RETURN();
+
+  if (!configModeActive) {
+    sendErrorResponse(ERROR_INVALID_COMMAND, "Not in config mode");
+    return;
+  }
+
+  sendConfigSnapshot(&ramBuffer);
+}
+
+// Send config response: [0x90, brightness, speed, r, g, b, effectType, powerState, revision(2)]
+// Note: App expects RGB color, not HSV
+void sendConfigSnapshot(const DeviceSettings* settings) {
+  uint8_t configResponse[RESPONSE_ACK_CONFIG_MODE_SIZE];
+  configResponse[0] = RESPONSE_ACK_CONFIG_MODE;  // 0x90
+  configResponse[1] = settings->brightness;
+  configResponse[2] = settings->speed;
+  configResponse[3] = settings->color[0];  // R
+  configResponse[4] = settings->color[1];  // G
+  configResponse[5] = settings->color[2];  // B
+  configResponse[6] = settings->currentPattern;
+  configResponse[7] = settings->powerMode > 0 ? 1 : 0;
+  configResponse[8] = (currentSettings.revision >> 8) & 0xFF;  // Staged edits are based on the stored revision
+  configResponse[9] = currentSettings.revision & 0xFF;
+
+  sendFrame(configResponse, RESPONSE_ACK_CONFIG_MODE_SIZE);
+}
+
+// The settings config mode stages; the ownership and bookkeeping fields of DeviceSettings are left alone
+bool configFieldsEqual(const DeviceSettings* a, const DeviceSettings* b) {
+  return a->brightness == b->brightness &&
+         a->currentPattern == b->currentPattern &&
+         a->powerMode == b->powerMode &&
+         a->autoOff == b->autoOff &&
+         a->maxEffects == b->maxEffects &&
+         memcmp(a->color, b->color, sizeof(a->color)) == 0 &&
+         a->speed == b->speed;
+}
+
+void copyConfigFields(DeviceSettings* to, const DeviceSettings* from) {
+  to->brightness = from->brightness;
+  to->currentPattern = from->currentPattern;
+  to->powerMode = from->powerMode;
+  to->autoOff = from->autoOff;
+  to->maxEffects = from->maxEffects;
+  memcpy(to->color, from->color, sizeof(to->color));
+  to->speed = from->speed;
 }
 
 void handleExitConfigMode() {
@@ -986,6 +1303,17 @@ void handleCommitConfig() {
 
   Serial.println("Committing config to flash...");
 
+  // Apps send the revision their edits were based on; older apps send a bare commit
+  if (payloadAvailable() >= 2) {
+    uint16_t expectedRevision = (uint16_t)payloadRead() << 8;
+    expectedRevision |= (uint16_t)payloadRead();
+    if (expectedRevision != currentSettings.revision) {
+      sendErrorResponse(ERROR_STALE_REVISION, "Config changed since it was read");
+      Serial.printf("Commit rejected - based on revision %d, flash has %d\n", expectedRevision, currentSettings.revision);
+      return;
+    }
+  }
+
   if (!configDirty) {
     Serial.println("No changes to commit");
     sendCommitAck();
@@ -997,7 +1325,12 @@ void handleCommitConfig() {
     return;
   }
 
-  memcpy(&currentSettings, &ramBuffer, sizeof(DeviceSettings));
+  // Apps compare revisions to notice commits they did not make (another phone). Only a commit that
+  // changes the config counts: ownership lives in the same struct but never moves the revision.
+  if (!configFieldsEqual(&ramBuffer, &currentSettings)) {
+    currentSettings.revision++;
+  }
+  copyConfigFields(&currentSettings, &ramBuffer);
 
   if (saveSettingsToFlash()) {
     applySettings();
@@ -1017,20 +1350,20 @@ void handleConfigUpdate() {
     return;
   }
 
-  if (bleuart.available() < 1) {
+  if (payloadAvailable() < 1) {
     sendErrorResponse(ERROR_INVALID_PARAMETER, "Insufficient data");
     return;
   }
 
-  int paramType = bleuart.read();
-  Serial.printf("Config update: paramType=0x%02X, available bytes: %d\n", paramType, bleuart.available());
+  int paramType = payloadRead();
+  Serial.printf("Config update: paramType=0x%02X, available bytes: %d\n", paramType, payloadAvailable());
 
   bool updated = false;
 
   switch (paramType) {
-    case 0x00: { // Brightness
-      if (bleuart.available() >= 1) {
-        int brightness = bleuart.read();
+    case CONFIG_PARAM_BRIGHTNESS: {
+      if (payloadAvailable() >= 1) {
+        int brightness = payloadRead();
         if (validateBrightness(brightness)) {
           ramBuffer.brightness = brightness;
           // Also update currentSettings for immediate preview
@@ -1047,9 +1380,9 @@ void handleConfigUpdate() {
       }
       break;
     }
-    case 0x01: { // Pattern
-      if (bleuart.available() >= 1) {
-        int pattern = bleuart.read();
+    case CONFIG_PARAM_PATTERN: {
+      if (payloadAvailable() >= 1) {
+        int pattern = payloadRead();
         Serial.printf("  Pattern update: %d (current: %d)\n", pattern, currentSettings.currentPattern);
         if (validatePattern(pattern)) {
           ramBuffer.currentPattern = pattern;
@@ -1068,11 +1401,11 @@ void handleConfigUpdate() {
       }
       break;
     }
-    case 0x02: { // Color (RGB)
-      if (bleuart.available() >= 3) {
-        int r = bleuart.read();
-        int g = bleuart.read();
-        int b = bleuart.read();
+    case CONFIG_PARAM_COLOR: { // RGB
+      if (payloadAvailable() >= 3) {
+        int r = payloadRead();
+        int g = payloadRead();
+        int b = payloadRead();
         Serial.printf("  Color update: RGB(%d, %d, %d), current pattern: %d\n", r, g, b, ramBuffer.currentPattern);
         if (validateColor(r, g, b)) {
           ramBuffer.color[0] = r;
@@ -1097,9 +1430,9 @@ void handleConfigUpdate() {
       }
       break;
     }
-    case 0x03: { // Power Mode
-      if (bleuart.available() >= 1) {
-        int powerMode = bleuart.read();
+    case CONFIG_PARAM_POWER_MODE: {
+      if (payloadAvailable() >= 1) {
+        int powerMode = payloadRead();
         if (validatePowerMode(powerMode)) {
           ramBuffer.powerMode = powerMode;
           updated = true;
@@ -1111,9 +1444,9 @@ void handleConfigUpdate() {
       }
       break;
     }
-    case 0x04: { // Speed
-      if (bleuart.available() >= 1) {
-        int speed = bleuart.read();
+    case CONFIG_PARAM_SPEED: {
+      if (payloadAvailable() >= 1) {
+        int speed = payloadRead();
         if (speed >= 0 && speed <= 100) {
           ramBuffer.speed = speed;
           // Also update currentSettings for immediate preview in loop
@@ -1143,13 +1476,203 @@ void handleConfigUpdate() {
   }
 }
 
+// Stage several parameters at once: every entry is validated first, and if any is
+// rejected nothing is applied and the device answers with RESPONSE_BATCH_REJECTED
+// [0x04, entryCount, ...(parameter, value1, value2, value3)]
+void handleBatchUpdate() {
+  CHECK_OWNERSHIP_OR_RETURN();
+
+  if (!configModeActive) {
+    sendErrorResponse(ERROR_INVALID_COMMAND, "Not in config mode");
+    return;
+  }
+
+  int entryCount = payloadAvailable() >= 1 ? payloadRead() : 0;
+  if (entryCount < 1 || entryCount > MAX_BATCH_ENTRIES ||
+      payloadAvailable() < entryCount * CMD_UPDATE_BATCH_ENTRIES_ITEM_SIZE) {
+    sendErrorResponse(ERROR_INVALID_PARAMETER, "Invalid batch size");
+    return;
+  }
+
+  uint8_t entries[MAX_BATCH_ENTRIES][CMD_UPDATE_BATCH_ENTRIES_ITEM_SIZE];
+  uint8_t rejected[RESPONSE_BATCH_REJECTED_MIN_SIZE + MAX_BATCH_ENTRIES * RESPONSE_BATCH_REJECTED_REJECTED_ITEM_SIZE];
+  int rejectedCount = 0;
+  uint8_t seen = 0;
+
+  for (int i = 0; i < entryCount; i++) {
+    for (int j = 0; j < CMD_UPDATE_BATCH_ENTRIES_ITEM_SIZE; j++) {
+      entries[i][j] = payloadRead();
+    }
+
+    uint8_t param = entries[i][0];
+    uint8_t value = entries[i][1];
+    uint8_t error = ERROR_NONE;
+
+    switch (param) {
+      case CONFIG_PARAM_BRIGHTNESS: if (!validateBrightness(value)) error = ERROR_OUT_OF_RANGE; break;
+      case CONFIG_PARAM_PATTERN:    if (!validatePattern(value)) error = ERROR_OUT_OF_RANGE; break;
+      case CONFIG_PARAM_COLOR:      if (!validateColor(value, entries[i][2], entries[i][3])) error = ERROR_OUT_OF_RANGE; break;
+      case CONFIG_PARAM_POWER_MODE: if (!validatePowerMode(value)) error = ERROR_OUT_OF_RANGE; break;
+      case CONFIG_PARAM_SPEED:      if (value > 100) error = ERROR_OUT_OF_RANGE; break;
+      default:                      error = ERROR_INVALID_PARAMETER; break;
+    }
+    if (error == ERROR_NONE && (seen & (1 << param))) {
+      error = ERROR_INVALID_PARAMETER;  // The same parameter twice
+    }
+    if (param < 8) {
+      seen |= 1 << param;
+    }
+
+    if (error != ERROR_NONE) {
+      uint8_t* item = &rejected[RESPONSE_BATCH_REJECTED_MIN_SIZE + rejectedCount * RESPONSE_BATCH_REJECTED_REJECTED_ITEM_SIZE];
+      item[0] = i;
+      item[1] = param;
+      item[2] = error;
+      rejectedCount++;
+    }
+  }
+
+  if (rejectedCount > 0) {
+    rejected[0] = RESPONSE_BATCH_REJECTED;
+    rejected[1] = rejectedCount;
+    sendFrame(rejected, RESPONSE_BATCH_REJECTED_MIN_SIZE + rejectedCount * RESPONSE_BATCH_REJECTED_REJECTED_ITEM_SIZE);
+    Serial.printf("Batch update rejected: %d of %d entries invalid\n", rejectedCount, entryCount);
+    return;
+  }
+
+  // Everything is valid: stage it and preview once
+  bool powerModeChanged = false;
+  for (int i = 0; i < entryCount; i++) {
+    uint8_t value = entries[i][1];
+    switch (entries[i][0]) {
+      case CONFIG_PARAM_BRIGHTNESS:
+        ramBuffer.brightness = value;
+        currentSettings.brightness = value;
+        globalBrightness = value;
+        break;
+      case CONFIG_PARAM_PATTERN:
+        ramBuffer.currentPattern = value;
+        currentSettings.currentPattern = value;
+        break;
+      case CONFIG_PARAM_COLOR:
+        for (int c = 0; c < 3; c++) {
+          ramBuffer.color[c] = entries[i][1 + c];
+          currentSettings.color[c] = entries[i][1 + c];
+        }
+        break;
+      case CONFIG_PARAM_POWER_MODE:
+        ramBuffer.powerMode = value;
+        powerModeChanged = true;
+        break;
+      case CONFIG_PARAM_SPEED:
+        ramBuffer.speed = value;
+        currentSettings.speed = value;
+        break;
+    }
+  }
+
+  if (powerModeChanged) {
+    applyPowerMode();
+  }
+  setPattern(ramBuffer.currentPattern);
+  showLeds();
+
+  configDirty = true;
+  sendSuccessAck();
+  Serial.printf("Batch update staged: %d entries\n", entryCount);
+}
+
+// Show a whole strip sent by the app. The frame is decoded into a scratch buffer first,
+// so a malformed frame leaves the LEDs untouched.
+// [0x05, encoding, pixelCount(2), ...data]
+void handlePixelFrame() {
+  CHECK_OWNERSHIP_OR_RETURN();
+
+  if (payloadAvailable() < 3) {
+    sendErrorResponse(ERROR_INVALID_PARAMETER, "Insufficient data");
+    return;
+  }
+
+  uint8_t encoding = payloadRead();
+  uint16_t pixelCount = (uint16_t)payloadRead() << 8;
+  pixelCount |= (uint16_t)payloadRead();
+  if (pixelCount != LED_COUNT) {
+    sendErrorResponse(ERROR_OUT_OF_RANGE, "Pixel count does not match the strip");
+    return;
+  }
+
+  static RGB frame[LED_COUNT];
+  bool valid = true;
+
+  switch (encoding) {
+    case PIXEL_ENCODING_RAW: {
+      valid = payloadAvailable() == LED_COUNT * 3;
+      for (int i = 0; valid && i < LED_COUNT; i++) {
+        frame[i].r = payloadRead();
+        frame[i].g = payloadRead();
+        frame[i].b = payloadRead();
+      }
+      break;
+    }
+    case PIXEL_ENCODING_RLE: {
+      int covered = 0;
+      while (valid && covered < LED_COUNT) {
+        int run = payloadAvailable() >= 4 ? payloadRead() : 0;
+        valid = run > 0 && covered + run <= LED_COUNT;
+        if (!valid) break;
+        RGB color = { (uint8_t)payloadRead(), (uint8_t)payloadRead(), (uint8_t)payloadRead() };
+        for (int i = 0; i < run; i++) frame[covered++] = color;
+      }
+      valid = valid && payloadAvailable() == 0;
+      break;
+    }
+    case PIXEL_ENCODING_DELTA: {
+      // Spans change the frame currently shown, so a stream must start with RAW or RLE
+      if (!pixelStreamActive) {
+        sendErrorResponse(ERROR_INVALID_PARAMETER, "Delta frame without a full frame first");
+        return;
+      }
+      memcpy(frame, ledBuf, sizeof(frame));
+      while (valid && payloadAvailable() > 0) {
+        if (payloadAvailable() < 3) { valid = false; break; }
+        int start = payloadRead() << 8;
+        start |= payloadRead();
+        int count = payloadRead();
+        valid = count > 0 && start + count <= LED_COUNT && payloadAvailable() >= count * 3;
+        for (int i = start; valid && i < start + count; i++) {
+          frame[i].r = payloadRead();
+          frame[i].g = payloadRead();
+          frame[i].b = payloadRead();
+        }
+      }
+      break;
+    }
+    default:
+      sendErrorResponse(ERROR_INVALID_PARAMETER, "Unknown pixel encoding");
+      return;
+  }
+
+  if (!valid) {
+    sendErrorResponse(ERROR_INVALID_PARAMETER, "Malformed pixel frame");
+    return;
+  }
+
+  memcpy(ledBuf, frame, sizeof(frame));
+  ledBufferChanged = true;
+  showLeds();
+
+  pixelStreamActive = true;
+  lastPixelFrameTime = millis();
+  sendSuccessAck();
+}
+
 // ========================================
 // Response functions (unchanged)
 // ========================================
 
 void sendErrorResponse(uint8_t errorCode, const char* message) {
   uint8_t errorEnvelope[64];
-  errorEnvelope[0] = 0x90;
+  errorEnvelope[0] = RESPONSE_ERROR;
   errorEnvelope[1] = errorCode;
 
   int msgLen = strlen(message);
@@ -1158,13 +1681,58 @@ void sendErrorResponse(uint8_t errorCode, const char* message) {
 
   memcpy(&errorEnvelope[2], message, totalLen - 2);
 
-  bleuart.write(errorEnvelope, totalLen);
+  sendFrame(errorEnvelope, totalLen);
   Serial.printf("Error %d: %s\n", errorCode, message);
 }
 
-void sendConfigModeAck() { uint8_t ack = RESPONSE_ACK_CONFIG_MODE; bleuart.write(&ack, 1); }
-void sendCommitAck()     { uint8_t ack = RESPONSE_ACK_COMMIT;      bleuart.write(&ack, 1); }
-void sendSuccessAck()    { uint8_t ack = RESPONSE_ACK_SUCCESS;     bleuart.write(&ack, 1); }
+void sendConfigModeAck() { uint8_t ack = RESPONSE_ACK_CONFIG_MODE; sendFrame(&ack, 1); }
+void sendCommitAck()     { uint8_t ack = RESPONSE_ACK_COMMIT;      sendFrame(&ack, 1); }
+void sendSuccessAck()    { uint8_t ack = RESPONSE_ACK_SUCCESS;     sendFrame(&ack, 1); }
+
+// ========================================
+// Capability Discovery
+// ========================================
+
+// Report hardware facts so the app does not have to assume one build:
+// [0x94, protocolVersion, fwMajor, fwMinor, fwPatch, ledCount(2), maxMilliamps(2), batteryMah(2),
+//  effectCount, ...effectIds, paramCount, ...paramIds]
+void handleGetCapabilities() {
+  static const uint8_t supportedEffects[] = {
+    PATTERN_OFF, PATTERN_SOLID_WHITE, PATTERN_RAINBOW, PATTERN_PULSE, PATTERN_FADE,
+    PATTERN_CHASE, PATTERN_TWINKLE, PATTERN_WAVE, PATTERN_BREATH, PATTERN_STROBE
+  };
+  static const uint8_t supportedParameters[] = {
+    PARAM_ID_BRIGHTNESS, PARAM_ID_SPEED, PARAM_ID_COLOR_HUE, PARAM_ID_COLOR_SATURATION,
+    PARAM_ID_COLOR_VALUE, PARAM_ID_EFFECT_TYPE, PARAM_ID_POWER_STATE
+  };
+  const uint8_t effectCount = sizeof(supportedEffects);
+  const uint8_t paramCount = sizeof(supportedParameters);
+
+  uint8_t response[13 + sizeof(supportedEffects) + sizeof(supportedParameters)];
+  uint16_t len = 0;
+  response[len++] = RESPONSE_CAPABILITIES;
+  response[len++] = PROTOCOL_VERSION;
+  response[len++] = FIRMWARE_VERSION_MAJOR;
+  response[len++] = FIRMWARE_VERSION_MINOR;
+  response[len++] = FIRMWARE_VERSION_PATCH;
+  response[len++] = (LED_COUNT >> 8) & 0xFF;
+  response[len++] = LED_COUNT & 0xFF;
+  response[len++] = (MAX_POWER_MILLIAMPS >> 8) & 0xFF;
+  response[len++] = MAX_POWER_MILLIAMPS & 0xFF;
+  response[len++] = (BATTERY_CAPACITY_MAH >> 8) & 0xFF;
+  response[len++] = BATTERY_CAPACITY_MAH & 0xFF;
+  response[len++] = effectCount;
+  memcpy(&response[len], supportedEffects, effectCount);
+  len += effectCount;
+  response[len++] = paramCount;
+  memcpy(&response[len], supportedParameters, paramCount);
+  len += paramCount;
+
+  sendFrame(response, len);
+  Serial.printf("Capabilities sent: %d LEDs, %d mA, fw %d.%d.%d\n",
+                LED_COUNT, MAX_POWER_MILLIAMPS,
+                FIRMWARE_VERSION_MAJOR, FIRMWARE_VERSION_MINOR, FIRMWARE_VERSION_PATCH);
+}
 
 // ========================================
 // Analytics Handlers
@@ -1176,13 +1744,8 @@ void handleRequestAnalytics() {
   Serial.println("Request analytics batch");
   
   // Send analytics batch response with empty data (0 sessions)
-  // Format: [RESPONSE_TYPE(1)] [BATCH_ID(1)] [SESSION_COUNT(1)] [FLASH_READS(2)] 
-  //          [FLASH_WRITES(2)] [ERROR_COUNT(2)] [LAST_ERROR_CODE(1)] 
-  //          [LAST_ERROR_TIMESTAMP(4)] [AVG_POWER(2)] [PEAK_POWER(2)]
-  //          [SESSIONS...]
-  
-  const uint8_t HEADER_SIZE = 1 + 1 + 1 + 2 + 2 + 2 + 1 + 4 + 2 + 2; // 18 bytes
-  uint8_t payload[HEADER_SIZE];
+  // Layout: see RESPONSE_ANALYTICS_BATCH in protocol.h
+  uint8_t payload[RESPONSE_ANALYTICS_BATCH_MIN_SIZE];
   uint8_t idx = 0;
   
   payload[idx++] = RESPONSE_ANALYTICS_BATCH;
@@ -1201,24 +1764,24 @@ void handleRequestAnalytics() {
   payload[idx++] = 0;
   payload[idx++] = 0;
   
-  // Last error code (1 byte, 0 = no error)
+  // Average power (2 bytes, 0 = not available)
   payload[idx++] = 0;
-  
-  // Last error timestamp (4 bytes, big-endian, 0 = no error)
   payload[idx++] = 0;
+  
+  // Peak power (2 bytes, 0 = not available)
   payload[idx++] = 0;
   payload[idx++] = 0;
+  
+  // Last error code (1 byte, 0 = no error)
   payload[idx++] = 0;
   
-  // Average power (2 bytes, 0 = not available)
+  // Last error timestamp (4 bytes, big-endian, 0 = no error)
   payload[idx++] = 0;
   payload[idx++] = 0;
-  
-  // Peak power (2 bytes, 0 = not available)
   payload[idx++] = 0;
   payload[idx++] = 0;
   
-  bleuart.write(payload, HEADER_SIZE);
+  sendFrame(payload, RESPONSE_ANALYTICS_BATCH_MIN_SIZE);
   Serial.println("Analytics batch sent (empty)");
 }
 
@@ -6,6 +6,11 @@
 // ========================================
 // Modify these settings for your specific guitar setup
 
+// Firmware Version (reported by GET_CAPABILITIES)
+#define FIRMWARE_VERSION_MAJOR 1
+#define FIRMWARE_VERSION_MINOR 0
+#define FIRMWARE_VERSION_PATCH 0
+
 // Device Identification
 #define DEVICE_NAME "LED_GUITAR_001"  // Change this to a unique name for your guitar
 #define MANUFACTURER_NAME "LED_GUITAR_CONTROLLER"
@@ -17,6 +22,7 @@
 #define CLOCK_PIN 25                    // Clock pin for APA102 (CI)
 #define LED_COUNT 10                    // Number of LEDs in your strip
 #define MAX_POWER_MILLIAMPS 500       // Max current draw in milliamps
+#define BATTERY_CAPACITY_MAH 500      // Battery capacity reported to the app
 #define BRIGHTNESS_FACTOR 0.50f       // Brightness factor (0.0-1.0)
 
 // Bluetooth Configuration
@@ -31,7 +37,7 @@
 #define MAX_EFFECTS 10                // Maximum number of effects
 
 // Settings Storage
-#define SETTINGS_VERSION 1            // Settings version for migration
+#define SETTINGS_VERSION 2            // Settings version for migration (2: owner key replaces owner user ID)
 #define SETTINGS_MAGIC 0x4C454447     // "LEDG" magic number for settings validation
 
 // ========================================
@@ -56,17 +62,8 @@
 // Serial Configuration
 #define SERIAL_BAUD_RATE 115200
 
-// LED Pattern Definitions
-#define PATTERN_OFF 0
-#define PATTERN_SOLID_WHITE 1
-#define PATTERN_RAINBOW 2
-#define PATTERN_PULSE 3
-#define PATTERN_FADE 4
-#define PATTERN_CHASE 5
-#define PATTERN_TWINKLE 6
-#define PATTERN_WAVE 7
-#define PATTERN_BREATH 8
-#define PATTERN_STROBE 9
+// Binary protocol: frame layout, opcodes, error codes, parameter and pattern IDs
+#include "protocol.h"
 
 // Command Definitions
 #define CMD_VERSION 'V'
@@ -85,17 +82,9 @@
 #define CMD_POWER_GET 'W'       // Get power consumption
 #define CMD_EFFECTS_GET 'F'     // Get available effects
 
-// Config Mode Commands (binary)
-#define CMD_STATUS 0x00           // Status/ping command for connection verification
-#define CMD_CONFIG_UPDATE 0x02  // Update config parameter (staged in RAM)
-#define CMD_ENTER_CONFIG 0x10    // Enter configuration mode
-#define CMD_COMMIT_CONFIG 0x11  // Commit staged config to flash
-#define CMD_EXIT_CONFIG 0x12    // Exit configuration mode
-#define CMD_CLAIM_DEVICE 0x13    // Claim device ownership (one-time, sets owner)
-#define CMD_VERIFY_OWNERSHIP 0x14 // Verify user can access device (per-session)
-#define CMD_UNCLAIM_DEVICE 0x15   // Unclaim device ownership (removes owner)
-#define CMD_REQUEST_ANALYTICS 0x20 // Request analytics batch from controller
-#define CMD_CONFIRM_ANALYTICS 0x21 // Confirm receipt of analytics batch
+// Protocol timing (wire constants live in protocol.h)
+#define FRAME_RX_TIMEOUT_MS 500       // Drop a partial message if the rest does not arrive in time
+#define PIXEL_STREAM_TIMEOUT_MS 2000  // Resume the current pattern once pixel frames stop arriving
 
 // Message Types
 #define MSG_TYPE_COMMAND 0x01
@@ -104,32 +93,6 @@
 #define MSG_TYPE_SETTINGS 0x04
 #define MSG_TYPE_STATUS 0x05
 
-// Error Codes (must match TypeScript ErrorCode enum in src/types/errors.ts)
-#define ERROR_NONE 0x00
-#define ERROR_INVALID_COMMAND 0x01
-#define ERROR_INVALID_PARAMETER 0x02
-#define ERROR_OUT_OF_RANGE 0x03
-#define ERROR_NOT_IN_CONFIG_MODE 0x04
-#define ERROR_ALREADY_IN_CONFIG_MODE 0x05
-#define ERROR_FLASH_WRITE_FAILED 0x06
-#define ERROR_VALIDATION_FAILED 0x07
-#define ERROR_NOT_OWNER 0x08        // User is not the owner and not a developer/test user
-#define ERROR_ALREADY_CLAIMED 0x09   // Device already has an owner
-#define ERROR_SETTINGS_CORRUPT 0x10
-#define ERROR_FLASH_FAILURE 0x11
-#define ERROR_LED_FAILURE 0x12
-#define ERROR_MEMORY_LOW 0x13
-#define ERROR_POWER_LOW 0x14
-
-// Response Codes
-#define RESPONSE_ACK_CONFIG_MODE 0x90  // Acknowledge config mode entry
-#define RESPONSE_ACK_COMMIT 0x91       // Acknowledge config commit
-#define RESPONSE_ACK_SUCCESS 0x92      // General success acknowledgment
-#define RESPONSE_ANALYTICS_BATCH 0xA0  // Analytics batch response
-
-// Ownership Configuration
-#define MAX_USER_ID_LENGTH 64  // Maximum length for user ID string
-
 // Settings Structure (for LittleFS persistent storage)
 struct DeviceSettings {
   uint32_t magic;              // Magic number for validation
@@ -141,9 +104,11 @@ struct DeviceSettings {
   uint8_t maxEffects;          // Maximum number of effects
   uint8_t color[3];            // RGB color
   uint8_t speed;               // Animation speed (0-100)
-  char ownerUserId[MAX_USER_ID_LENGTH + 1]; // Owner user ID (null-terminated string)
+  uint8_t ownerKey[OWNER_KEY_LENGTH];   // HMAC-SHA256(owner user ID, ownerSalt); the user ID itself is never stored
+  uint8_t ownerSalt[OWNER_SALT_LENGTH]; // Salt the owner key was derived with, handed out in challenges
   bool hasOwner;               // True if device has been claimed
-  uint8_t reserved[14];        // Reserved for future use (reduced to make room for ownership)
+  uint16_t revision;           // Bumped by every commit that changes the config (was reserved, so older files load as revision 0)
+  uint8_t reserved[12];        // Reserved for future use
   uint32_t checksum;           // Settings checksum
 };
 
@@ -0,0 +1,150 @@
+/*
+ * Ownership challenge-response helpers
+ * SHA-256 and HMAC-SHA256, matching src/domain/bluetooth/ownershipAuth.ts in the app.
+ *
+ *   ownerKey = HMAC-SHA256(userId, salt)            - stored at claim time
+ *   proof    = HMAC-SHA256(ownerKey, nonce + opcode) - answers a single-use challenge
+ */
+
+#ifndef OWNER_AUTH_H
+#define OWNER_AUTH_H
+
+#include <stdint.h>
+#include <string.h>
+
+#define SHA256_BLOCK_SIZE 64
+#define SHA256_DIGEST_SIZE 32
+
+struct Sha256 {
+  uint32_t state[8];
+  uint8_t block[SHA256_BLOCK_SIZE];
+  uint8_t blockLen;
+  uint64_t totalLen;
+};
+
+static const uint32_t SHA256_K[64] = {
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+};
+
+static inline uint32_t sha256Rotr(uint32_t x, uint8_t n) { return (x >> n) | (x << (32 - n)); }
+
+static void sha256Compress(Sha256* ctx) {
+  uint32_t w[64];
+  for (int i = 0; i < 16; i++) {
+    w[i] = ((uint32_t)ctx->block[i * 4] << 24) | ((uint32_t)ctx->block[i * 4 + 1] << 16) |
+           ((uint32_t)ctx->block[i * 4 + 2] << 8) | (uint32_t)ctx->block[i * 4 + 3];
+  }
+  for (int i = 16; i < 64; i++) {
+    uint32_t s0 = sha256Rotr(w[i - 15], 7) ^ sha256Rotr(w[i - 15], 18) ^ (w[i - 15] >> 3);
+    uint32_t s1 = sha256Rotr(w[i - 2], 17) ^ sha256Rotr(w[i - 2], 19) ^ (w[i - 2] >> 10);
+    w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+  }
+
+  uint32_t a = ctx->state[0], b = ctx->state[1], c = ctx->state[2], d = ctx->state[3];
+  uint32_t e = ctx->state[4], f = ctx->state[5], g = ctx->state[6], h = ctx->state[7];
+  for (int i = 0; i < 64; i++) {
+    uint32_t t1 = h + (sha256Rotr(e, 6) ^ sha256Rotr(e, 11) ^ sha256Rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i];
+    uint32_t t2 = (sha256Rotr(a, 2) ^ sha256Rotr(a, 13) ^ sha256Rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+    h = g; g = f; f = e; e = d + t1;
+    d = c; c = b; b = a; a = t1 + t2;
+  }
+
+  ctx->state[0] += a; ctx->state[1] += b; ctx->state[2] += c; ctx->state[3] += d;
+  ctx->state[4] += e; ctx->state[5] += f; ctx->state[6] += g; ctx->state[7] += h;
+}
+
+static void sha256Init(Sha256* ctx) {
+  static const uint32_t initial[8] = {
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  };
+  memcpy(ctx->state, initial, sizeof(initial));
+  ctx->blockLen = 0;
+  ctx->totalLen = 0;
+}
+
+static void sha256Update(Sha256* ctx, const uint8_t* data, size_t len) {
+  for (size_t i = 0; i < len; i++) {
+    ctx->block[ctx->blockLen++] = data[i];
+    if (ctx->blockLen == SHA256_BLOCK_SIZE) {
+      sha256Compress(ctx);
+      ctx->blockLen = 0;
+    }
+  }
+  ctx->totalLen += len;
+}
+
+static void sha256Final(Sha256* ctx, uint8_t digest[SHA256_DIGEST_SIZE]) {
+  uint64_t bitLen = ctx->totalLen * 8;
+  uint8_t pad = 0x80;
+  sha256Update(ctx, &pad, 1);
+  pad = 0;
+  while (ctx->blockLen != SHA256_BLOCK_SIZE - 8) sha256Update(ctx, &pad, 1);
+  for (int i = 7; i >= 0; i--) {
+    uint8_t lenByte = (uint8_t)(bitLen >> (i * 8));
+    sha256Update(ctx, &lenByte, 1);
+  }
+  for (int i = 0; i < 8; i++) {
+    digest[i * 4] = (uint8_t)(ctx->state[i] >> 24);
+    digest[i * 4 + 1] = (uint8_t)(ctx->state[i] >> 16);
+    digest[i * 4 + 2] = (uint8_t)(ctx->state[i] >> 8);
+    digest[i * 4 + 3] = (uint8_t)ctx->state[i];
+  }
+}
+
+// HMAC-SHA256 over two message parts (the second may be empty)
+static void hmacSha256(const uint8_t* key, size_t keyLen,
+                       const uint8_t* data, size_t dataLen,
+                       const uint8_t* extra, size_t extraLen,
+                       uint8_t mac[SHA256_DIGEST_SIZE]) {
+  uint8_t blockKey[SHA256_BLOCK_SIZE] = {0};
+  Sha256 ctx;
+  if (keyLen > SHA256_BLOCK_SIZE) {
+    sha256Init(&ctx);
+    sha256Update(&ctx, key, keyLen);
+    sha256Final(&ctx, blockKey);
+  } else {
+    memcpy(blockKey, key, keyLen);
+  }
+
+  uint8_t pad[SHA256_BLOCK_SIZE];
+  uint8_t innerDigest[SHA256_DIGEST_SIZE];
+
+  for (int i = 0; i < SHA256_BLOCK_SIZE; i++) pad[i] = blockKey[i] ^ 0x36;
+  sha256Init(&ctx);
+  sha256Update(&ctx, pad, SHA256_BLOCK_SIZE);
+  sha256Update(&ctx, data, dataLen);
+  if (extraLen > 0) sha256Update(&ctx, extra, extraLen);
+  sha256Final(&ctx, innerDigest);
+
+  for (int i = 0; i < SHA256_BLOCK_SIZE; i++) pad[i] = blockKey[i] ^ 0x5c;
+  sha256Init(&ctx);
+  sha256Update(&ctx, pad, SHA256_BLOCK_SIZE);
+  sha256Update(&ctx, innerDigest, SHA256_DIGEST_SIZE);
+  sha256Final(&ctx, mac);
+}
+
+// ownerKey = HMAC-SHA256(userId, salt)
+static void deriveOwnerKey(const char* userId, const uint8_t* salt, uint8_t key[SHA256_DIGEST_SIZE]) {
+  hmacSha256((const uint8_t*)userId, strlen(userId), salt, OWNER_SALT_LENGTH, nullptr, 0, key);
+}
+
+// proof = HMAC-SHA256(ownerKey, nonce + opcode)
+static void signChallenge(const uint8_t* key, const uint8_t* nonce, uint8_t opcode, uint8_t proof[SHA256_DIGEST_SIZE]) {
+  hmacSha256(key, OWNER_KEY_LENGTH, nonce, CHALLENGE_NONCE_LENGTH, &opcode, 1, proof);
+}
+
+// Compare without an early exit, so timing does not reveal how much of a proof matched
+static bool constantTimeEquals(const uint8_t* a, const uint8_t* b, size_t len) {
+  uint8_t diff = 0;
+  for (size_t i = 0; i < len; i++) diff |= a[i] ^ b[i];
+  return diff == 0;
+}
+
+#endif // OWNER_AUTH_H
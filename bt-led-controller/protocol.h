@@ -0,0 +1,143 @@
+// GENERATED by scripts/generate-protocol.js from protocol/spec.json - do not edit by hand.
+// Run `npm run generate:protocol` after changing the spec.
+#ifndef PROTOCOL_H
+#define PROTOCOL_H
+
+// Framed Protocol v2
+// Frame: [version(1)] [sequenceId(1)] [payloadLength(2, big-endian)] [payload...] [crc16(2, big-endian)]
+// Payload: [opcode, ...data]. CRC-16/CCITT-FALSE over header + payload.
+// Fragment: [messageId(1)] [chunkIndex(1)] [chunkCount(1)] [chunkLength(1)] [data...]
+#define PROTOCOL_VERSION 0x02                // First byte of every frame
+#define FRAME_HEADER_SIZE 4                  // [version, sequenceId, payloadLength(2)]
+#define FRAME_TRAILER_SIZE 2                 // [crc16(2)]
+#define MAX_FRAME_PAYLOAD 512                // Largest [opcode, ...data] message
+#define UNSOLICITED_SEQUENCE_ID 0x00         // Sequence ID for notifications not tied to a request; requests sent with it get no reply
+#define FRAGMENT_HEADER_SIZE 4               // [messageId, chunkIndex, chunkCount, chunkLength]
+#define ATT_HEADER_SIZE 3                    // ATT notification/write overhead within the MTU
+#define DEFAULT_ATT_MTU 23                   // BLE minimum MTU
+#define MAX_FRAGMENT_COUNT 255               // chunkCount is a single byte
+#define MAX_FRAGMENT_DATA 255                // chunkLength is a single byte
+#define MAX_USER_ID_LENGTH 64                // Longest user ID an owner key is derived from
+#define OWNER_KEY_LENGTH 32                  // HMAC-SHA256(userId, salt), stored by the device at claim time
+#define OWNER_SALT_LENGTH 16                 // Per-claim salt the owner key is derived with
+#define CHALLENGE_NONCE_LENGTH 16            // Single-use nonce answered by an ownership proof
+#define OWNERSHIP_PROOF_LENGTH 32            // HMAC-SHA256(ownerKey, nonce + opcode)
+#define MAX_BATCH_ENTRIES 8                  // Most entries in one UPDATE_BATCH
+
+// ParameterId: App-level parameter IDs reported in the capabilities response
+#define PARAM_ID_BRIGHTNESS 0x01
+#define PARAM_ID_SPEED 0x02
+#define PARAM_ID_COLOR_HUE 0x03
+#define PARAM_ID_COLOR_SATURATION 0x04
+#define PARAM_ID_COLOR_VALUE 0x05
+#define PARAM_ID_EFFECT_TYPE 0x06
+#define PARAM_ID_POWER_STATE 0x07
+
+// ConfigParameter: Parameter types carried by UPDATE_PARAM
+#define CONFIG_PARAM_BRIGHTNESS 0x00         // [brightness]
+#define CONFIG_PARAM_PATTERN 0x01            // [pattern]
+#define CONFIG_PARAM_COLOR 0x02              // [r, g, b]
+#define CONFIG_PARAM_POWER_MODE 0x03         // [powerMode]
+#define CONFIG_PARAM_SPEED 0x04              // [speed 0-100]
+
+// LedPattern: Firmware pattern IDs
+#define PATTERN_OFF 0
+#define PATTERN_SOLID_WHITE 1
+#define PATTERN_RAINBOW 2
+#define PATTERN_PULSE 3
+#define PATTERN_FADE 4
+#define PATTERN_CHASE 5
+#define PATTERN_TWINKLE 6
+#define PATTERN_WAVE 7
+#define PATTERN_BREATH 8
+#define PATTERN_STROBE 9
+
+// PixelEncoding: How PIXEL_FRAME data is encoded
+#define PIXEL_ENCODING_RAW 0x00              // [r, g, b] for every pixel
+#define PIXEL_ENCODING_RLE 0x01              // [runLength 1-255, r, g, b] runs covering every pixel
+#define PIXEL_ENCODING_DELTA 0x02            // [start(2), count 1-255, ...rgb] spans changed since the previous frame
+
+// Error codes (sent in RESPONSE_ERROR)
+#define ERROR_NONE 0x00
+#define ERROR_INVALID_COMMAND 0x01
+#define ERROR_INVALID_PARAMETER 0x02
+#define ERROR_OUT_OF_RANGE 0x03
+#define ERROR_NOT_IN_CONFIG_MODE 0x04
+#define ERROR_ALREADY_IN_CONFIG_MODE 0x05
+#define ERROR_FLASH_WRITE_FAILED 0x06
+#define ERROR_VALIDATION_FAILED 0x07
+#define ERROR_NOT_OWNER 0x08                 // User is not the owner and not a developer/test user
+#define ERROR_ALREADY_CLAIMED 0x09           // Device already has an owner
+#define ERROR_SETTINGS_CORRUPT 0x10
+#define ERROR_FLASH_FAILURE 0x11
+#define ERROR_LED_FAILURE 0x12
+#define ERROR_MEMORY_LOW 0x13
+#define ERROR_POWER_LOW 0x14
+#define ERROR_INCOMPLETE_MESSAGE 0x15        // Fragmented message not fully received
+#define ERROR_STALE_REVISION 0x16            // Commit was based on an older config revision than the one in flash
+#define ERROR_UNKNOWN_ERROR 0xFF             // App-side only: the device never sends this
+
+// Commands (multi-byte fields are big-endian)
+#define CMD_STATUS 0x00                      // Status/ping command for connection verification
+// [0x02, parameter, ...values]
+#define CMD_CONFIG_UPDATE 0x02               // Update a config parameter (staged in RAM until COMMIT_CONFIG)
+// [0x03, hue, saturation, value]
+#define CMD_UPDATE_COLOR 0x03                // Update color as a single command (not handled by firmware; use UPDATE_PARAM COLOR)
+// [0x04, entryCount, ...entries(4 each)]
+#define CMD_UPDATE_BATCH 0x04                // Stage several config parameters at once; all are applied or none are
+// [0x05, encoding, pixelCount(2), ...data]
+#define CMD_PIXEL_FRAME 0x05                 // Show a whole strip of pixels (pixel streaming); patterns resume when frames stop
+#define CMD_ENTER_CONFIG 0x10                // Enter configuration mode
+// [0x11, expectedRevision(2)]
+#define CMD_COMMIT_CONFIG 0x11               // Commit staged config to flash
+#define CMD_EXIT_CONFIG 0x12                 // Exit configuration mode
+// [0x13, ...ownerKey]
+#define CMD_CLAIM_DEVICE 0x13                // Claim device ownership with a key derived from the user ID and the challenge salt
+// [0x14, ...proof]
+#define CMD_VERIFY_OWNERSHIP 0x14            // Prove ownership for this session by answering the current challenge
+// [0x15, ...proof]
+#define CMD_UNCLAIM_DEVICE 0x15              // Unclaim device ownership (removes owner) by answering the current challenge
+#define CMD_GET_CAPABILITIES 0x16            // Request hardware/firmware capabilities
+#define CMD_REQUEST_CHALLENGE 0x17           // Request a single-use ownership challenge (nonce and owner key salt)
+#define CMD_READ_CONFIG 0x18                 // Report the staged config (answered with ACK_CONFIG_MODE); only in config mode
+#define CMD_REQUEST_ANALYTICS 0x20           // Request analytics batch from controller
+// [0x21, batchId]
+#define CMD_CONFIRM_ANALYTICS 0x21           // Confirm receipt of analytics batch
+
+// Responses (multi-byte fields are big-endian)
+// [0x90, brightness, speed, red, green, blue, effectType, powerState, revision(2)]
+#define RESPONSE_ACK_CONFIG_MODE 0x90        // Acknowledge config mode entry with the current config, or answer READ_CONFIG with the staged one
+#define RESPONSE_ACK_COMMIT 0x91             // Acknowledge config commit
+#define RESPONSE_ACK_SUCCESS 0x92            // General success acknowledgment
+// [0x93, code, ...message]
+#define RESPONSE_ERROR 0x93                  // Error envelope
+// [0x94, protocolVersion, firmwareMajor, firmwareMinor, firmwarePatch, ledCount(2), maxMilliamps(2), batteryCapacityMah(2), supportedEffectsLength, ...supportedEffects, supportedParametersLength, ...supportedParameters]
+#define RESPONSE_CAPABILITIES 0x94           // Capabilities report
+// [0x95, rejectedCount, ...rejected(3 each)]
+#define RESPONSE_BATCH_REJECTED 0x95         // Batch update rejected; nothing was applied
+// [0x96, claimed, saltLength, ...salt, nonceLength, ...nonce]
+#define RESPONSE_CHALLENGE 0x96              // Ownership challenge; the nonce is replaced after every answer
+// [0xA0, batchId, sessionCount, flashReads(2), flashWrites(2), errorCount(2), averagePower(2), peakPower(2), lastErrorCode, lastErrorTimestamp(4), ...sessions(13 each)]
+#define RESPONSE_ANALYTICS_BATCH 0xA0        // Analytics batch response
+
+// Message sizes including the opcode (MIN_SIZE for variable-length messages)
+#define CMD_CONFIG_UPDATE_MIN_SIZE 3
+#define CMD_UPDATE_COLOR_SIZE 4
+#define CMD_UPDATE_BATCH_MIN_SIZE 2
+#define CMD_UPDATE_BATCH_ENTRIES_ITEM_SIZE 4
+#define CMD_PIXEL_FRAME_MIN_SIZE 4
+#define CMD_COMMIT_CONFIG_SIZE 3
+#define CMD_CLAIM_DEVICE_SIZE 33
+#define CMD_VERIFY_OWNERSHIP_SIZE 33
+#define CMD_UNCLAIM_DEVICE_SIZE 33
+#define CMD_CONFIRM_ANALYTICS_SIZE 2
+#define RESPONSE_ACK_CONFIG_MODE_SIZE 10
+#define RESPONSE_ERROR_MIN_SIZE 2
+#define RESPONSE_CAPABILITIES_MIN_SIZE 13
+#define RESPONSE_BATCH_REJECTED_MIN_SIZE 2
+#define RESPONSE_BATCH_REJECTED_REJECTED_ITEM_SIZE 3
+#define RESPONSE_CHALLENGE_SIZE 36
+#define RESPONSE_ANALYTICS_BATCH_MIN_SIZE 18
+#define RESPONSE_ANALYTICS_BATCH_SESSIONS_ITEM_SIZE 13
+
+#endif // PROTOCOL_H
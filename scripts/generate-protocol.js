@@ -0,0 +1,540 @@
+#!/usr/bin/env node
+/**
+ * Protocol Generator
+ * Generates the TypeScript protocol types, the TypeScript message codecs and the
+ * firmware C header from protocol/spec.json, so the app and firmware share one definition.
+ *
+ * Usage:
+ *   node scripts/generate-protocol.js          Write the generated files
+ *   node scripts/generate-protocol.js --check  Fail if any generated file is out of date
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const ROOT = path.resolve(__dirname, '..');
+const SPEC_PATH = path.join(ROOT, 'protocol', 'spec.json');
+
+const GENERATED_NOTICE = 'GENERATED by scripts/generate-protocol.js from protocol/spec.json - do not edit by hand.';
+const REGENERATE_HINT = 'Run `npm run generate:protocol` after changing the spec.';
+
+const FIELD_SIZES = { u8: 1, u16: 2, u32: 4 };
+
+function loadSpec(specPath = SPEC_PATH) {
+  return JSON.parse(fs.readFileSync(specPath, 'utf8'));
+}
+
+/**
+ * Spec values are numbers or hex strings ("0x93")
+ */
+function parseValue(value) {
+  const parsed = typeof value === 'string' ? parseInt(value, 16) : value;
+  if (!Number.isInteger(parsed)) {
+    throw new Error(`Invalid value in protocol spec: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Keep hex values hex (normalised to 0xNN) and decimal values decimal
+ */
+function formatValue(value) {
+  if (typeof value === 'string') {
+    const hex = parseValue(value).toString(16).toUpperCase();
+    return `0x${hex.padStart(hex.length > 2 ? 4 : 2, '0')}`;
+  }
+  return String(value);
+}
+
+function pascalCase(name) {
+  return name.toLowerCase().replace(/(^|_)([a-z0-9])/g, (_, __, c) => c.toUpperCase());
+}
+
+function words(name) {
+  return name.toLowerCase().replace(/_/g, ' ');
+}
+
+function messageGroups(spec) {
+  return [
+    { group: spec.commands, kind: 'command', codec: 'CommandCodec', union: 'CommandMessage' },
+    { group: spec.responses, kind: 'response', codec: 'ResponseCodec', union: 'ResponseMessage' },
+  ];
+}
+
+function interfaceName(message) {
+  return `${pascalCase(message.name)}Message`;
+}
+
+function messageLabel(message, kind) {
+  return message.label || `${words(message.name)} ${kind}`;
+}
+
+function cName(group, entry) {
+  return entry.cName || `${group.cPrefix}${entry.name}`;
+}
+
+/**
+ * Human-readable byte layout, e.g. [0x94, protocolVersion, ledCount(2), effectCount, ...effects]
+ */
+function describeLayout(message) {
+  const parts = [formatValue(message.opcode)];
+  for (const field of message.fields) {
+    switch (field.type) {
+      case 'u8':
+        parts.push(field.name);
+        break;
+      case 'u16':
+      case 'u32':
+        parts.push(`${field.name}(${FIELD_SIZES[field.type]})`);
+        break;
+      case 'u8[]':
+      case 'string':
+        if (field.length === 'prefix') {
+          parts.push(`${field.name}Length`);
+        }
+        parts.push(`...${field.name}`);
+        break;
+      case 'struct[]':
+        parts.push(`...${field.name}(${structSize(field)} each)`);
+        break;
+      default:
+        throw new Error(`Unknown field type "${field.type}" in ${message.name}.${field.name}`);
+    }
+  }
+  return `[${parts.join(', ')}]`;
+}
+
+function structSize(field) {
+  return field.fields.reduce((total, item) => {
+    if (!FIELD_SIZES[item.type]) {
+      throw new Error(`Struct field ${field.name}.${item.name} must be u8, u16 or u32`);
+    }
+    return total + FIELD_SIZES[item.type];
+  }, 0);
+}
+
+/**
+ * Smallest valid encoding of a message (opcode included), and whether every encoding has that size
+ */
+function messageSize(spec, message) {
+  let size = 1;
+  let fixed = true;
+  for (const field of message.fields) {
+    if (FIELD_SIZES[field.type]) {
+      size += FIELD_SIZES[field.type];
+      continue;
+    }
+    const min = resolveLimit(spec, field.minLength);
+    const max = resolveLimit(spec, field.maxLength);
+    if (!min || !max || min.value !== max.value) {
+      fixed = false;
+    }
+    if (field.length === 'prefix') {
+      size += 1;
+    }
+    size += min ? min.value : 0;
+  }
+  return { size, fixed };
+}
+
+function resolveLimit(spec, limit) {
+  if (limit === undefined) return undefined;
+  if (typeof limit === 'string' && !limit.startsWith('0x')) {
+    const constant = spec.constants.find(c => c.name === limit);
+    if (!constant) {
+      throw new Error(`Unknown constant "${limit}" in protocol spec`);
+    }
+    return { ts: limit, value: parseValue(constant.value) };
+  }
+  return { ts: String(parseValue(limit)), value: parseValue(limit) };
+}
+
+function validateSpec(spec) {
+  const seen = new Map();
+  for (const { group } of messageGroups(spec)) {
+    for (const message of group.messages) {
+      const opcode = parseValue(message.opcode);
+      if (seen.has(opcode)) {
+        throw new Error(`Opcode ${formatValue(message.opcode)} used by both ${seen.get(opcode)} and ${message.name}`);
+      }
+      seen.set(opcode, message.name);
+      message.fields.forEach(field => {
+        if (field.type === 'struct[]' && !message.fields.some(f => f.name === field.count)) {
+          throw new Error(`${message.name}.${field.name} counts with unknown field "${field.count}"`);
+        }
+      });
+    }
+  }
+}
+
+// ========================================
+// TypeScript: src/types/protocol.ts
+// ========================================
+
+function tsComment(description) {
+  return description ? ` // ${description}` : '';
+}
+
+function tsEnum(name, values, description) {
+  const lines = [];
+  if (description) {
+    lines.push('/**', ` * ${description}`, ' */');
+  }
+  lines.push(`export enum ${name} {`);
+  for (const entry of values) {
+    lines.push(`  ${entry.name} = ${formatValue(entry.value ?? entry.opcode)},${tsComment(entry.description)}`);
+  }
+  lines.push('}', '');
+  return lines;
+}
+
+function tsFieldType(field) {
+  switch (field.type) {
+    case 'u8':
+    case 'u16':
+    case 'u32':
+      return field.enum || 'number';
+    case 'u8[]':
+      return `${field.enum || 'number'}[]`;
+    case 'string':
+      return 'string';
+    case 'struct[]':
+      return `${field.itemName}[]`;
+    default:
+      throw new Error(`Unknown field type "${field.type}"`);
+  }
+}
+
+function generateTypesModule(spec) {
+  const lines = [
+    '/**',
+    ' * BLE Protocol Definitions',
+    ` * ${GENERATED_NOTICE}`,
+    ` * ${REGENERATE_HINT}`,
+    ' */',
+    '',
+  ];
+
+  for (const constant of spec.constants) {
+    lines.push(`export const ${constant.name} = ${formatValue(constant.value)};${tsComment(constant.description)}`);
+  }
+  lines.push('');
+
+  for (const entry of spec.enums) {
+    lines.push(...tsEnum(entry.name, entry.values, entry.description));
+  }
+  lines.push(...tsEnum(spec.errors.name, spec.errors.values, 'Error codes carried by the error response'));
+
+  for (const { group, kind } of messageGroups(spec)) {
+    lines.push(...tsEnum(group.name, group.messages, `${kind === 'command' ? 'Command' : 'Response'} opcodes`));
+  }
+
+  for (const { group, union } of messageGroups(spec)) {
+    for (const message of group.messages) {
+      for (const field of message.fields.filter(f => f.type === 'struct[]')) {
+        lines.push(`export interface ${field.itemName} {`);
+        field.fields.forEach(item => lines.push(`  ${item.name}: ${tsFieldType(item)};${tsComment(item.description)}`));
+        lines.push('}', '');
+      }
+
+      lines.push('/**', ` * ${message.description}`, ` * ${describeLayout(message)}`, ' */');
+      lines.push(`export interface ${interfaceName(message)} {`);
+      lines.push(`  type: ${group.name}.${message.name};`);
+      message.fields.forEach(field => lines.push(`  ${field.name}: ${tsFieldType(field)};${tsComment(field.description)}`));
+      lines.push('}', '');
+    }
+
+    lines.push(`export type ${union} =`);
+    group.messages.forEach((message, i) => {
+      lines.push(`  | ${interfaceName(message)}${i === group.messages.length - 1 ? ';' : ''}`);
+    });
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+// ========================================
+// TypeScript: src/domain/bluetooth/protocolMessages.ts
+// ========================================
+
+function lengthRule(spec, field) {
+  const parts = [`length: '${field.length}'`];
+  const min = resolveLimit(spec, field.minLength);
+  if (min) parts.push(`minLength: ${min.ts}`);
+  const max = resolveLimit(spec, field.maxLength);
+  if (max) parts.push(`maxLength: ${max.ts}`);
+  return `{ ${parts.join(', ')} }`;
+}
+
+function encodeField(spec, field, source, nameExpr, indent) {
+  switch (field.type) {
+    case 'u8':
+    case 'u16':
+    case 'u32':
+      return [`${indent}writer.${field.type}(${source}, ${nameExpr});`];
+    case 'u8[]':
+      return [`${indent}writer.u8Array(${source}, ${lengthRule(spec, field)}, ${nameExpr});`];
+    case 'string':
+      return [`${indent}writer.string(${source}, ${lengthRule(spec, field)}, ${nameExpr});`];
+    case 'struct[]':
+      return [
+        `${indent}writer.items(${source}, fields.${field.count}, ${Boolean(field.partial)}, '${field.name}', (item, name) => {`,
+        ...field.fields.flatMap(item => encodeField(spec, item, `item.${item.name}`, `\`\${name}.${item.name}\``, `${indent}  `)),
+        `${indent}});`,
+      ];
+    default:
+      throw new Error(`Unknown field type "${field.type}"`);
+  }
+}
+
+function decodeExpression(spec, field) {
+  const cast = field.enum ? ` as ${tsFieldType(field)}` : '';
+  switch (field.type) {
+    case 'u8':
+    case 'u16':
+    case 'u32':
+      return `reader.${field.type}()${cast}`;
+    case 'u8[]':
+      return `reader.u8Array(${lengthRule(spec, field)})${cast}`;
+    case 'string':
+      return `reader.string(${lengthRule(spec, field)})`;
+    case 'struct[]': {
+      const items = field.fields.map(item => `${item.name}: ${decodeExpression(spec, item)}`).join(', ');
+      return `reader.items(${field.count}, ${structSize(field)}, ${Boolean(field.partial)}, () => ({ ${items} }))`;
+    }
+    default:
+      throw new Error(`Unknown field type "${field.type}"`);
+  }
+}
+
+function generateCodecClass(spec, group, kind, codec, union) {
+  const enumName = group.name;
+  const lines = [`export class ${codec} {`];
+
+  for (const message of group.messages) {
+    const method = pascalCase(message.name);
+    const type = `${enumName}.${message.name}`;
+    const iface = interfaceName(message);
+    const hasFields = message.fields.length > 0;
+
+    lines.push('  /**', `   * Encode ${message.name}: ${describeLayout(message)}`, '   */');
+    if (hasFields) {
+      lines.push(`  static encode${method}(fields: MessageFields<${iface}>): Uint8Array {`);
+      lines.push(`    const writer = new PayloadWriter(${type});`);
+      message.fields.forEach(field => lines.push(...encodeField(spec, field, `fields.${field.name}`, `'${field.name}'`, '    ')));
+      lines.push('    return writer.toBytes();');
+    } else {
+      lines.push(`  static encode${method}(): Uint8Array {`);
+      lines.push(`    return new PayloadWriter(${type}).toBytes();`);
+    }
+    lines.push('  }', '');
+
+    lines.push('  /**', `   * Decode ${message.name}`, '   */');
+    lines.push(`  static decode${method}(payload: Uint8Array): ${iface} {`);
+    if (hasFields) {
+      lines.push(`    const reader = new PayloadReader(payload, ${type}, '${messageLabel(message, kind)}');`);
+      message.fields.forEach(field => lines.push(`    const ${field.name} = ${decodeExpression(spec, field)};`));
+      lines.push(`    return { type: ${type}, ${message.fields.map(f => f.name).join(', ')} };`);
+    } else {
+      lines.push(`    new PayloadReader(payload, ${type}, '${messageLabel(message, kind)}');`);
+      lines.push(`    return { type: ${type} };`);
+    }
+    lines.push('  }', '');
+  }
+
+  lines.push('  /**', `   * Encode any ${kind} message`, '   */');
+  lines.push(`  static encode(message: ${union}): Uint8Array {`);
+  lines.push('    switch (message.type) {');
+  for (const message of group.messages) {
+    const args = message.fields.length > 0 ? 'message' : '';
+    lines.push(`      case ${enumName}.${message.name}:`, `        return this.encode${pascalCase(message.name)}(${args});`);
+  }
+  lines.push('    }', '  }', '');
+
+  lines.push('  /**', `   * Decode any ${kind} message by its opcode`, '   */');
+  lines.push(`  static decode(payload: Uint8Array): ${union} {`);
+  lines.push('    switch (payload[0]) {');
+  for (const message of group.messages) {
+    lines.push(`      case ${enumName}.${message.name}:`, `        return this.decode${pascalCase(message.name)}(payload);`);
+  }
+  const unknownCode = kind === 'command' ? 'INVALID_COMMAND' : 'UNKNOWN_ERROR';
+  const unknownText = kind === 'command' ? 'Unknown command' : 'Unknown response type';
+  lines.push(
+    '      default:',
+    '        throw new BLEError({',
+    `          code: ErrorCode.${unknownCode},`,
+    `          message: \`${unknownText}: 0x\${(payload[0] ?? 0).toString(16)}\`,`,
+    '        });',
+    '    }',
+    '  }',
+    '}',
+    ''
+  );
+
+  return lines;
+}
+
+function generateMessagesModule(spec) {
+  const typeImports = new Set(['ErrorCode']);
+  const valueImports = new Set();
+  const usedEnums = new Set();
+  const usedConstants = new Set();
+
+  for (const { group, union } of messageGroups(spec)) {
+    valueImports.add(group.name);
+    typeImports.add(union);
+    for (const message of group.messages) {
+      typeImports.add(interfaceName(message));
+      const visit = field => {
+        if (field.enum) usedEnums.add(field.enum);
+        for (const limit of [resolveLimit(spec, field.minLength), resolveLimit(spec, field.maxLength)]) {
+          if (limit && limit.ts !== String(limit.value)) usedConstants.add(limit.ts);
+        }
+        (field.fields || []).forEach(visit);
+      };
+      message.fields.forEach(visit);
+    }
+  }
+  usedEnums.forEach(name => typeImports.add(name));
+  typeImports.delete('ErrorCode'); // Imported with BLEError below
+
+  const lines = [
+    '/**',
+    ' * BLE Message Codecs',
+    ` * ${GENERATED_NOTICE}`,
+    ` * ${REGENERATE_HINT}`,
+    ' *',
+    ' * Encoders validate every field and return bare [opcode, ...data] messages (the transport frames them).',
+    ' * Decoders throw BLEError on truncated payloads and ignore trailing bytes, so newer firmware can append fields.',
+    ' */',
+    '',
+    'import {',
+    ...[...valueImports, ...usedConstants].sort().map(name => `  ${name},`),
+    ...[...typeImports].filter(name => !valueImports.has(name)).sort().map(name => `  type ${name},`),
+    "} from '../../types/protocol';",
+    "import { ErrorCode, BLEError } from '../../types/errors';",
+    "import { PayloadReader, PayloadWriter } from './payloadFields';",
+    '',
+    "type MessageFields<T> = Omit<T, 'type'>;",
+    '',
+  ];
+
+  for (const { group, kind, codec, union } of messageGroups(spec)) {
+    lines.push(...generateCodecClass(spec, group, kind, codec, union));
+  }
+
+  return lines.join('\n');
+}
+
+// ========================================
+// C header: bt-led-controller/protocol.h
+// ========================================
+
+function cDefine(name, value, description) {
+  const define = `#define ${name} ${value}`;
+  return description ? `${define.padEnd(44)} // ${description}` : define;
+}
+
+function generateCHeader(spec) {
+  const lines = [
+    `// ${GENERATED_NOTICE}`,
+    `// ${REGENERATE_HINT}`,
+    '#ifndef PROTOCOL_H',
+    '#define PROTOCOL_H',
+    '',
+    `// Framed Protocol v${spec.version}`,
+    '// Frame: [version(1)] [sequenceId(1)] [payloadLength(2, big-endian)] [payload...] [crc16(2, big-endian)]',
+    '// Payload: [opcode, ...data]. CRC-16/CCITT-FALSE over header + payload.',
+    '// Fragment: [messageId(1)] [chunkIndex(1)] [chunkCount(1)] [chunkLength(1)] [data...]',
+  ];
+  spec.constants.forEach(c => lines.push(cDefine(c.name, formatValue(c.value), c.description)));
+
+  for (const entry of spec.enums) {
+    lines.push('', `// ${entry.name}: ${entry.description}`);
+    entry.values.forEach(v => lines.push(cDefine(`${entry.cPrefix}${v.name}`, formatValue(v.value), v.description)));
+  }
+
+  lines.push('', '// Error codes (sent in RESPONSE_ERROR)');
+  spec.errors.values.forEach(v => lines.push(cDefine(`${spec.errors.cPrefix}${v.name}`, formatValue(v.value), v.description)));
+
+  for (const { group, kind } of messageGroups(spec)) {
+    lines.push('', `// ${kind === 'command' ? 'Commands' : 'Responses'} (multi-byte fields are big-endian)`);
+    for (const message of group.messages) {
+      if (message.fields.length > 0) {
+        lines.push(`// ${describeLayout(message)}`);
+      }
+      lines.push(cDefine(cName(group, message), formatValue(message.opcode), message.description));
+    }
+  }
+
+  lines.push('', '// Message sizes including the opcode (MIN_SIZE for variable-length messages)');
+  for (const { group } of messageGroups(spec)) {
+    for (const message of group.messages.filter(m => m.fields.length > 0)) {
+      const { size, fixed } = messageSize(spec, message);
+      lines.push(cDefine(`${cName(group, message)}_${fixed ? 'SIZE' : 'MIN_SIZE'}`, String(size)));
+      message.fields
+        .filter(field => field.type === 'struct[]')
+        .forEach(field => lines.push(cDefine(`${cName(group, message)}_${field.name.toUpperCase()}_ITEM_SIZE`, String(structSize(field)))));
+    }
+  }
+
+  lines.push('', '#endif // PROTOCOL_H', '');
+  return lines.join('\n');
+}
+
+// ========================================
+// Entry point
+// ========================================
+
+const OUTPUTS = [
+  { file: 'src/types/protocol.ts', generate: generateTypesModule },
+  { file: 'src/domain/bluetooth/protocolMessages.ts', generate: generateMessagesModule },
+  { file: 'bt-led-controller/protocol.h', generate: generateCHeader },
+];
+
+function generateAll(spec = loadSpec()) {
+  validateSpec(spec);
+  return OUTPUTS.map(output => ({ file: output.file, content: output.generate(spec) }));
+}
+
+function main(args) {
+  const check = args.includes('--check');
+  let stale = 0;
+
+  for (const { file, content } of generateAll()) {
+    const target = path.join(ROOT, file);
+    const current = fs.existsSync(target) ? fs.readFileSync(target, 'utf8') : null;
+
+    if (current === content) {
+      console.log(`up to date: ${file}`);
+    } else if (check) {
+      console.error(`out of date: ${file}`);
+      stale++;
+    } else {
+      fs.writeFileSync(target, content);
+      console.log(`generated: ${file}`);
+    }
+  }
+
+  if (stale > 0) {
+    console.error(`${stale} generated file(s) out of date. ${REGENERATE_HINT}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2));
+}
+
+module.exports = {
+  ROOT,
+  OUTPUTS,
+  loadSpec,
+  parseValue,
+  messageSize,
+  generateAll,
+  generateTypesModule,
+  generateMessagesModule,
+  generateCHeader,
+};
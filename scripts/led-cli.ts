@@ -0,0 +1,96 @@
+#!/usr/bin/env -S npx tsx --tsconfig scripts/tsconfig.cli.json
+/**
+ * LED Guitar CLI
+ * Drives a controller from the command line through the app's domain layer, for QA regression
+ * scripts and for batch-configuring guitars. It talks to the firmware simulator (`npm run simulator`).
+ *
+ * Usage:
+ *   npm run cli -- status
+ *   npm run cli -- --user artist-42 set brightness 80 , set color '#ff0040' , commit
+ *   npm run cli -- claim artist-42
+ *   npm run cli -- pull-analytics
+ *   npm run cli -- replay trace.jsonl
+ *   npm run cli -- --file setup.txt            One command per line
+ *
+ * Exits 0 when every command succeeds, 1 at the first failure (or replay difference), 2 on bad usage.
+ * Cached configs and ownership records are kept in ~/.led-guitar-cli.json (LED_CLI_STORAGE to move it).
+ */
+
+import * as fs from 'fs';
+import WebSocket from 'ws';
+import { CLI_USAGE, CliCommand, parseCommandLine, parseScript, runCli } from '../src/cli/ledCli';
+import {
+  DEFAULT_SIMULATOR_URL,
+  SIMULATOR_DEVICE_ID,
+  SimulatorSocket,
+  WebSocketBluetoothService,
+} from '../src/simulator/webSocketBluetoothService';
+
+const args = process.argv.slice(2);
+
+function takeOption(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) {
+    return undefined;
+  }
+  const [, value] = args.splice(index, 2);
+  if (value === undefined) {
+    console.error(`--${name} needs a value`);
+    process.exit(2);
+  }
+  return value;
+}
+
+function takeFlag(name: string): boolean {
+  const index = args.indexOf(`--${name}`);
+  if (index !== -1) {
+    args.splice(index, 1);
+  }
+  return index !== -1;
+}
+
+async function main(): Promise<number> {
+  if (takeFlag('help')) {
+    console.log(CLI_USAGE);
+    return 0;
+  }
+
+  const url = takeOption('url') ?? process.env.EXPO_PUBLIC_SIMULATOR_URL ?? DEFAULT_SIMULATOR_URL;
+  const userId = takeOption('user');
+  const file = takeOption('file');
+  const verbose = takeFlag('verbose');
+
+  const out = console.log;
+  const err = console.error;
+  if (!verbose) {
+    // The domain layer logs every step; keep stdout for results
+    console.log = console.warn = console.info = () => {};
+  }
+
+  let commands: CliCommand[];
+  try {
+    commands = file ? parseScript(fs.readFileSync(file, 'utf8')) : parseCommandLine(args);
+  } catch (error) {
+    err(`Error: ${(error as Error).message}`);
+    return 2;
+  }
+
+  const transport = new WebSocketBluetoothService(
+    url,
+    socketUrl => new WebSocket(socketUrl) as unknown as SimulatorSocket
+  );
+
+  return runCli(commands, {
+    transport,
+    deviceId: SIMULATOR_DEVICE_ID,
+    deviceName: 'Firmware Simulator',
+    userId,
+    io: {
+      out,
+      err,
+      readFile: path => fs.readFileSync(path, 'utf8'),
+    },
+  });
+}
+
+main().then(code => process.exit(code));
@@ -0,0 +1,48 @@
+/**
+ * AsyncStorage for Node, kept in one JSON file so the CLI remembers what the app would
+ * (cached configs, ownership records) between runs
+ * scripts/tsconfig.cli.json maps '@react-native-async-storage/async-storage' here
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const STORAGE_PATH = process.env.LED_CLI_STORAGE || path.join(os.homedir(), '.led-guitar-cli.json');
+
+const load = (): Record<string, string> => {
+  try {
+    return JSON.parse(fs.readFileSync(STORAGE_PATH, 'utf8'));
+  } catch {
+    return {};
+  }
+};
+
+const save = (storage: Record<string, string>): void => {
+  fs.writeFileSync(STORAGE_PATH, JSON.stringify(storage, null, 2));
+};
+
+export default {
+  async getItem(key: string): Promise<string | null> {
+    return load()[key] ?? null;
+  },
+  async setItem(key: string, value: string): Promise<void> {
+    save({ ...load(), [key]: value });
+  },
+  async removeItem(key: string): Promise<void> {
+    const storage = load();
+    delete storage[key];
+    save(storage);
+  },
+  async multiRemove(keys: string[]): Promise<void> {
+    const storage = load();
+    keys.forEach(key => delete storage[key]);
+    save(storage);
+  },
+  async getAllKeys(): Promise<string[]> {
+    return Object.keys(load());
+  },
+  async clear(): Promise<void> {
+    save({});
+  },
+};
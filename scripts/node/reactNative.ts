@@ -0,0 +1,12 @@
+/**
+ * The parts of react-native the domain layer reads, for running it under Node
+ * scripts/tsconfig.cli.json maps 'react-native' here, as jest.config.js does for tests
+ */
+export const Platform = {
+  OS: 'node',
+  select: (options: Record<string, any>) => options.node ?? options.default,
+};
+
+export default {
+  Platform,
+};
@@ -0,0 +1,97 @@
+#!/usr/bin/env -S npx tsx
+/**
+ * Firmware Simulator Server
+ * Runs MockMicrocontroller behind a WebSocket so the app can be exercised without a guitar.
+ * Each WebSocket message is one protocol fragment, as on the BLE UART characteristics.
+ * Like the Feather, it serves one connection at a time; a new one replaces the old.
+ *
+ * Usage:
+ *   npm run simulator                          Listen on ws://localhost:8765
+ *   npm run simulator -- --port 9000           Listen on another port
+ *   npm run simulator -- --latency 40          Answer each command after 40 ms
+ *
+ * Then start the app with `npm run web` and pick "Firmware Simulator" on the Devices screen.
+ * Set EXPO_PUBLIC_SIMULATOR_URL if the app should look somewhere other than ws://localhost:8765.
+ */
+
+import { WebSocketServer, WebSocket } from 'ws';
+import { MockMicrocontroller } from '../src/simulator/mockMicrocontroller';
+import { SimulatorLink } from '../src/simulator/simulatorLink';
+
+const DEFAULT_PORT = 8765;
+
+function readOption(name: string): number | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) {
+    return undefined;
+  }
+  const value = Number(process.argv[index + 1]);
+  if (!Number.isInteger(value) || value < 0) {
+    console.error(`--${name} needs a whole number`);
+    process.exit(1);
+  }
+  return value;
+}
+
+// Same variables as the app, like the developer keys compiled into the firmware
+function readUserIds(variable: string): string[] {
+  return (process.env[variable] ?? '').split(',').map(id => id.trim()).filter(id => id.length > 0);
+}
+
+const port = readOption('port') ?? DEFAULT_PORT;
+const latencyMs = readOption('latency') ?? 0;
+
+const device = new MockMicrocontroller({
+  simulateDelays: latencyMs > 0,
+  delayMs: latencyMs,
+  developerUserIds: readUserIds('EXPO_PUBLIC_DEVELOPER_USER_IDS'),
+  testUserIds: readUserIds('EXPO_PUBLIC_TEST_USER_IDS'),
+});
+
+// One earlier session so the analytics flow has a batch to upload
+const lastSessionEnd = Date.now() - 60 * 60 * 1000;
+device.recordSession(lastSessionEnd - 45 * 60 * 1000, lastSessionEnd);
+
+let activeSocket: WebSocket | null = null;
+
+const server = new WebSocketServer({ port });
+
+server.on('connection', (socket, request) => {
+  if (activeSocket) {
+    console.log('[Simulator] New connection replaces the current one');
+    activeSocket.close();
+  }
+  activeSocket = socket;
+
+  const link = new SimulatorLink(device, packet => socket.send(packet));
+  link.connect();
+  console.log(`[Simulator] Connected: ${request.socket.remoteAddress}`);
+
+  socket.on('message', (data, isBinary) => {
+    if (!isBinary) {
+      console.warn('[Simulator] Ignoring text message; the protocol is binary');
+      return;
+    }
+    const packet = new Uint8Array(data as Buffer);
+    link.receive(packet).catch(error => {
+      console.error('[Simulator] Failed to handle command:', error);
+    });
+  });
+
+  socket.on('close', () => {
+    link.disconnect();
+    if (activeSocket === socket) {
+      activeSocket = null;
+    }
+    console.log('[Simulator] Disconnected');
+  });
+});
+
+server.on('listening', () => {
+  console.log(`[Simulator] Firmware simulator listening on ws://localhost:${port}`);
+});
+
+server.on('error', error => {
+  console.error('[Simulator] Server error:', error.message);
+  process.exit(1);
+});
@@ -206,11 +206,8 @@ describe('Analytics Flow Integration', () => {
     beforeEach(async () => {
       // Claim device
       const micro = mockService.getMicrocontroller();
-      micro.setState({
-        ownerUserId: MOCK_USER_IDS.user1,
-        hasOwner: true,
-        sessionOwnershipVerified: true,
-      });
+      micro.setOwner(MOCK_USER_IDS.user1);
+      micro.setState({ sessionOwnershipVerified: true });
     });
 
     it('should allow analytics request with verified ownership', async () => {
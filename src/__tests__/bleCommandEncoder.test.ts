@@ -4,8 +4,9 @@
  */
 
 import { BLECommandEncoder } from '../utils/bleCommandEncoder';
+import { deriveOwnerKey, signChallenge } from '../domain/bluetooth/ownershipAuth';
 import { CommandType, ResponseType, ParameterId } from '../types/commands';
-import { ErrorCode } from '../types/errors';
+import { ErrorCode, ErrorEnvelope } from '../types/errors';
 import { MOCK_COMMANDS, MOCK_RESPONSES, MOCK_COLORS, MOCK_USER_IDS } from './utils/testFixtures';
 import { assertUint8ArrayEqual } from './utils/testHelpers';
 
@@ -123,61 +124,48 @@ describe('BLECommandEncoder', () => {
     });
 
     describe('Ownership Commands', () => {
-      it('should encode CLAIM_DEVICE command with user ID', () => {
-        const userId = MOCK_USER_IDS.user1;
-        const command = BLECommandEncoder.encodeClaimDevice(userId);
+      const ownerKey = deriveOwnerKey(MOCK_USER_IDS.user1, new Uint8Array(16).fill(7));
+
+      it('should encode REQUEST_CHALLENGE command', () => {
+        expect(Array.from(BLECommandEncoder.encodeRequestChallenge())).toEqual([CommandType.REQUEST_CHALLENGE]);
+      });
+
+      it('should encode CLAIM_DEVICE command with the owner key, not the user ID', () => {
+        const command = BLECommandEncoder.encodeClaimDevice(ownerKey);
         
         expect(command[0]).toBe(CommandType.CLAIM_DEVICE);
-        expect(command[1]).toBe(userId.length); // user ID length
-        
-        // Verify user ID bytes
-        const userIdBytes = new TextEncoder().encode(userId);
-        for (let i = 0; i < userIdBytes.length; i++) {
-          expect(command[2 + i]).toBe(userIdBytes[i]);
-        }
+        expect(Array.from(command.slice(1))).toEqual(Array.from(ownerKey));
+        expect(new TextDecoder().decode(command)).not.toContain(MOCK_USER_IDS.user1);
       });
 
-      it('should encode VERIFY_OWNERSHIP command with user ID', () => {
-        const userId = MOCK_USER_IDS.user1;
-        const command = BLECommandEncoder.encodeVerifyOwnership(userId);
+      it('should encode VERIFY_OWNERSHIP command with a proof', () => {
+        const proof = signChallenge(ownerKey, new Uint8Array(16).fill(1), CommandType.VERIFY_OWNERSHIP);
+        const command = BLECommandEncoder.encodeVerifyOwnership(proof);
         
         expect(command[0]).toBe(CommandType.VERIFY_OWNERSHIP);
-        expect(command[1]).toBe(userId.length);
+        expect(Array.from(command.slice(1))).toEqual(Array.from(proof));
       });
 
-      it('should encode UNCLAIM_DEVICE command with user ID', () => {
-        const userId = MOCK_USER_IDS.user1;
-        const command = BLECommandEncoder.encodeUnclaimDevice(userId);
+      it('should encode UNCLAIM_DEVICE command with a proof', () => {
+        const proof = signChallenge(ownerKey, new Uint8Array(16).fill(1), CommandType.UNCLAIM_DEVICE);
+        const command = BLECommandEncoder.encodeUnclaimDevice(proof);
         
         expect(command[0]).toBe(CommandType.UNCLAIM_DEVICE);
-        expect(command[1]).toBe(userId.length);
+        expect(command.length).toBe(33);
       });
 
-      it('should throw error for user ID longer than 64 bytes', () => {
-        const longUserId = 'a'.repeat(65);
-        
-        expect(() => {
-          BLECommandEncoder.encodeClaimDevice(longUserId);
-        }).toThrow('User ID too long');
-        
+      it('should throw error for keys and proofs of the wrong length', () => {
         expect(() => {
-          BLECommandEncoder.encodeVerifyOwnership(longUserId);
-        }).toThrow('User ID too long');
+          BLECommandEncoder.encodeClaimDevice(new Uint8Array(31));
+        }).toThrow('Owner key must be 32 bytes, got 31');
         
         expect(() => {
-          BLECommandEncoder.encodeUnclaimDevice(longUserId);
-        }).toThrow('User ID too long');
-      });
-
-      it('should handle user ID at exactly 64 bytes', () => {
-        const userId64 = 'a'.repeat(64);
+          BLECommandEncoder.encodeVerifyOwnership(new Uint8Array(33));
+        }).toThrow('Ownership proof must be 32 bytes, got 33');
         
         expect(() => {
-          BLECommandEncoder.encodeClaimDevice(userId64);
-        }).not.toThrow();
-        
-        const command = BLECommandEncoder.encodeClaimDevice(userId64);
-        expect(command[1]).toBe(64);
+          BLECommandEncoder.encodeUnclaimDevice(new Uint8Array(0));
+        }).toThrow('Ownership proof must be 32 bytes, got 0');
       });
     });
   });
@@ -313,12 +301,12 @@ describe('BLECommandEncoder', () => {
         }).toThrow('Empty response');
       });
 
-      it('should throw error for unknown response type', () => {
+      it('should return an error envelope for unknown response type', () => {
         const unknownData = new Uint8Array([0xFF, 0x01, 0x02]);
-        
-        expect(() => {
-          BLECommandEncoder.decodeResponse(unknownData);
-        }).toThrow('Unknown response type');
+        const result = BLECommandEncoder.decodeResponse(unknownData) as ErrorEnvelope;
+
+        expect(result.code).toBe(ErrorCode.UNKNOWN_ERROR);
+        expect(result.message).toContain('Unknown response type');
       });
 
       it('should throw error for malformed error response', () => {
@@ -347,20 +335,16 @@ describe('BLECommandEncoder', () => {
     });
 
     it('should encode ownership commands and verify structure', () => {
-      const userId = MOCK_USER_IDS.user1;
+      const proof = new Uint8Array(32).fill(0xab);
       const commands = [
-        BLECommandEncoder.encodeClaimDevice(userId),
-        BLECommandEncoder.encodeVerifyOwnership(userId),
-        BLECommandEncoder.encodeUnclaimDevice(userId),
+        BLECommandEncoder.encodeClaimDevice(proof),
+        BLECommandEncoder.encodeVerifyOwnership(proof),
+        BLECommandEncoder.encodeUnclaimDevice(proof),
       ];
 
       commands.forEach(command => {
-        expect(command.length).toBe(2 + userId.length);
-        expect(command[1]).toBe(userId.length);
-        
-        // Verify user ID matches
-        const decodedUserId = new TextDecoder().decode(command.slice(2));
-        expect(decodedUserId).toBe(userId);
+        expect(command.length).toBe(1 + proof.length);
+        expect(Array.from(command.slice(1))).toEqual(Array.from(proof));
       });
     });
   });
@@ -0,0 +1,75 @@
+/**
+ * Device Capabilities Tests
+ * Tests the GET_CAPABILITIES round trip and capability-aware validation
+ */
+
+import { MockMicrocontroller } from './mocks/MockMicrocontroller';
+import { ProtocolCodec } from '../domain/bluetooth/protocolCodec';
+import { BLECommandEncoder } from '../domain/bluetooth/bleCommandEncoder';
+import { DeviceCapabilities, DEFAULT_DEVICE_CAPABILITIES } from '../types/capabilities';
+import { ParameterId, ResponseType } from '../types/commands';
+import {
+  validateParameter,
+  validateEffect,
+  validateColorAndPower,
+  getSafeCurrentLimit,
+} from '../utils/parameterValidation';
+
+const SMALL_GUITAR: DeviceCapabilities = {
+  protocolVersion: 2,
+  firmwareVersion: '1.4.2',
+  ledCount: 4,
+  maxMilliamps: 300,
+  batteryCapacityMah: 1200,
+  supportedEffects: [1, 2, 3],
+  supportedParameters: [ParameterId.BRIGHTNESS, ParameterId.EFFECT_TYPE, ParameterId.POWER_STATE],
+};
+
+describe('Device Capabilities', () => {
+  describe('GET_CAPABILITIES', () => {
+    it('should round-trip the capabilities reported by the device', async () => {
+      const device = new MockMicrocontroller({ capabilities: SMALL_GUITAR });
+
+      const payload = await device.processCommand(BLECommandEncoder.encodeGetCapabilities());
+      const response = ProtocolCodec.decodeResponse(payload);
+
+      expect(ProtocolCodec.isCapabilitiesResponse(response)).toBe(true);
+      if (ProtocolCodec.isCapabilitiesResponse(response)) {
+        expect(response.type).toBe(ResponseType.CAPABILITIES);
+        expect(response.capabilities).toEqual(SMALL_GUITAR);
+      }
+    });
+
+    it('should reject a truncated capabilities report', () => {
+      const payload = new Uint8Array([ResponseType.CAPABILITIES, 2, 1, 0, 0, 0, 10, 0x01, 0xf4, 0x01, 0xf4, 3, 1]);
+
+      expect(() => ProtocolCodec.decodeResponse(payload)).toThrow('Malformed capabilities response');
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject parameters the device does not support', () => {
+      const result = validateParameter(ParameterId.SPEED, 50, SMALL_GUITAR);
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('not supported');
+      expect(validateParameter(ParameterId.SPEED, 50).isValid).toBe(true);
+    });
+
+    it('should reject effects the device does not support', () => {
+      expect(validateEffect(9, SMALL_GUITAR).isValid).toBe(false);
+      expect(validateEffect(2, SMALL_GUITAR).isValid).toBe(true);
+    });
+
+    it('should derive the power limit from the device current budget', () => {
+      expect(getSafeCurrentLimit(SMALL_GUITAR)).toBe(240);
+      expect(getSafeCurrentLimit(DEFAULT_DEVICE_CAPABILITIES)).toBe(400);
+    });
+
+    it('should scale power validation with the LED count', () => {
+      // Full white at 100%: 14 LEDs * 60mA = 840mA, 4 LEDs * 60mA = 240mA
+      expect(validateColorAndPower([255, 255, 255], 100, true).isValid).toBe(false);
+      expect(validateColorAndPower([255, 255, 255], 100, true, SMALL_GUITAR).isValid).toBe(true);
+    });
+  });
+});
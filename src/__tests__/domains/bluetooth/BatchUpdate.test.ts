@@ -0,0 +1,127 @@
+/**
+ * Batch Update Tests
+ * UPDATE_BATCH applies several parameters at once, or none of them with per-parameter errors
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BLECommandEncoder } from '../../../domain/bluetooth/bleCommandEncoder';
+import { ProtocolCodec } from '../../../domain/bluetooth/protocolCodec';
+import { configurationModule } from '../../../domain/bluetooth/configurationModule';
+import { ConfigDomainController } from '../../../domain/config/configDomainController';
+import { bluetoothService } from '../../../utils/bluetoothService';
+import { CommandType, ResponseType } from '../../../types/commands';
+import { ConfigParameter } from '../../../types/protocol';
+import { ErrorCode } from '../../../types/errors';
+import { MockMicrocontroller } from '../../mocks/MockMicrocontroller';
+
+const DEVICE = { id: 'C4:8A:12:3F:9E:01', name: 'LED_GUITAR_001' } as any;
+
+describe('Batch updates', () => {
+  describe('BLECommandEncoder.encodeBatchUpdate', () => {
+    it('should encode every parameter in one command', () => {
+      const command = BLECommandEncoder.encodeBatchUpdate({ brightness: 200, color: [255, 128, 0], speed: 50 });
+
+      expect(Array.from(command)).toEqual([
+        CommandType.UPDATE_BATCH, 3,
+        ConfigParameter.BRIGHTNESS, 200, 0, 0,
+        ConfigParameter.COLOR, 255, 128, 0,
+        ConfigParameter.SPEED, 50, 0, 0,
+      ]);
+    });
+
+    it('should skip settings the batch cannot carry and reject an empty batch', () => {
+      expect(BLECommandEncoder.batchEntries({ autoOff: 30, brightness: 300 })).toEqual([
+        { parameter: ConfigParameter.BRIGHTNESS, value1: 255, value2: 0, value3: 0 },
+      ]);
+      expect(() => BLECommandEncoder.encodeBatchUpdate({ autoOff: 30 })).toThrow('Batch update needs 1-8 parameters, got 0');
+    });
+  });
+
+  describe('MockMicrocontroller', () => {
+    let mock: MockMicrocontroller;
+
+    beforeEach(async () => {
+      mock = new MockMicrocontroller();
+      await mock.processCommand(new Uint8Array([CommandType.ENTER_CONFIG]));
+    });
+
+    it('should apply a valid batch at once', async () => {
+      const response = await mock.processCommand(BLECommandEncoder.encodeBatchUpdate({ brightness: 10, speed: 90, color: [255, 0, 0] }));
+
+      expect(response[0]).toBe(ResponseType.ACK_SUCCESS);
+      expect(mock.getState().pendingConfig).toEqual(expect.objectContaining({
+        brightness: 10,
+        speed: 90,
+        color: { h: 0, s: 255, v: 255 },
+      }));
+    });
+
+    it('should reject the whole batch and report each bad entry', async () => {
+      const before = mock.getState().pendingConfig;
+
+      const response = ProtocolCodec.decodeResponse(
+        await mock.processCommand(BLECommandEncoder.encodeBatchUpdate({ brightness: 10, speed: 150, powerMode: 7 }))
+      );
+
+      expect(response).toEqual(expect.objectContaining({
+        type: ResponseType.BATCH_REJECTED,
+        isSuccess: false,
+        rejected: [
+          { index: 1, parameter: ConfigParameter.POWER_MODE, code: ErrorCode.OUT_OF_RANGE },
+          { index: 2, parameter: ConfigParameter.SPEED, code: ErrorCode.OUT_OF_RANGE },
+        ],
+      }));
+      expect(mock.getState().pendingConfig).toEqual(before);
+    });
+  });
+
+  describe('ConfigDomainController.updateConfig', () => {
+    let mock: MockMicrocontroller;
+    let controller: ConfigDomainController;
+
+    beforeEach(async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      await AsyncStorage.clear();
+
+      mock = new MockMicrocontroller();
+      await mock.processCommand(new Uint8Array([CommandType.ENTER_CONFIG]));
+      jest.spyOn(bluetoothService, 'sendCommand').mockImplementation(async (_id, command) =>
+        ProtocolCodec.toCommandResponse(ProtocolCodec.decodeResponse(await mock.processCommand(command))));
+      jest.spyOn(bluetoothService, 'isDeviceConnected').mockResolvedValue(true);
+
+      configurationModule.reset();
+      controller = ConfigDomainController.getInstance();
+      await controller.initialize(DEVICE);
+      jest.spyOn(configurationModule, 'isConfigModeActive').mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      controller.reset();
+      jest.restoreAllMocks();
+    });
+
+    it('should send one command for several settings', async () => {
+      const result = await controller.updateConfig({ brightness: 40, speed: 20 });
+
+      expect(result).toEqual({ success: true });
+      expect(bluetoothService.sendCommand).toHaveBeenCalledTimes(1);
+      expect(mock.getState().pendingConfig).toEqual(expect.objectContaining({ brightness: 40, speed: 20 }));
+    });
+
+    it('should report which settings the device rejected', async () => {
+      const errors: string[] = [];
+      controller.subscribeToErrors(error => errors.push(error.message));
+
+      const result = await controller.updateConfig({ brightness: 40, speed: 101 });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Device rejected speed; nothing was applied');
+      expect(result.parameterErrors).toEqual([
+        { setting: 'speed', error: expect.objectContaining({ code: ErrorCode.OUT_OF_RANGE }) },
+      ]);
+      expect(errors).toEqual(['Device rejected speed; nothing was applied']);
+      expect(mock.getState().pendingConfig.brightness).not.toBe(40);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * BLE Transport Tests
+ * The domain layer talks to whichever BleTransport is injected, defaulting to the platform's service
+ */
+
+import { BleTransport, getBleTransport, setBleTransport } from '../../../domain/bluetooth/bleTransport';
+import { ConfigDomainController } from '../../../domain/config/configDomainController';
+import { PixelStream } from '../../../domain/bluetooth/pixelStream';
+import { createPixelBuffer } from '../../../domain/bluetooth/pixelFrameEncoder';
+import { ProtocolCodec } from '../../../domain/bluetooth/protocolCodec';
+import { bluetoothService } from '../../../utils/bluetoothService';
+import { DEFAULT_DEVICE_CAPABILITIES } from '../../../types/capabilities';
+import { MockMicrocontroller } from '../../mocks/MockMicrocontroller';
+
+const DEVICE_ID = 'transport-device';
+
+/**
+ * Transport answering from a MockMicrocontroller; typed as BleTransport so a missing member fails to compile
+ */
+const createMockTransport = (mock: MockMicrocontroller): BleTransport => ({
+  isAvailable: () => true,
+  initialize: async () => true,
+  requestPermissions: async () => true,
+  startScan: async (onDeviceFound) => onDeviceFound({ id: DEVICE_ID, name: 'Mock Guitar', rssi: -40, isConnected: false }),
+  stopScan: async () => {},
+  connectToDevice: async () => {},
+  disconnectDevice: async () => {},
+  isDeviceConnected: async () => true,
+  onDisconnection: () => {},
+  removeDisconnectionListener: () => {},
+  sendCommand: jest.fn(async (_id: string, command: Uint8Array) =>
+    ProtocolCodec.toCommandResponse(ProtocolCodec.decodeResponse(await mock.processCommand(command)))),
+  sendUnacknowledged: jest.fn(async (_id: string, command: Uint8Array) => {
+    await mock.processCommand(command);
+  }),
+  sendMessage: async () => null,
+  subscribeToNotifications: () => () => {},
+  cancelPendingCommands: () => {},
+  getMtu: () => 23,
+  readRssi: async () => -40,
+  requestAnalytics: async () => { throw new Error('No analytics'); },
+  confirmAnalytics: async (_id, batchId) => ({ type: 0x92, isSuccess: true, data: new Uint8Array([batchId]) }),
+});
+
+describe('BleTransport', () => {
+  let mock: MockMicrocontroller;
+  let transport: BleTransport;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mock = new MockMicrocontroller();
+    transport = createMockTransport(mock);
+  });
+
+  afterEach(() => {
+    setBleTransport(null);
+    jest.restoreAllMocks();
+  });
+
+  it('should default to the platform service', () => {
+    expect(getBleTransport()).toBe(bluetoothService);
+  });
+
+  it('should route domain commands to an injected transport', async () => {
+    const nativeSend = jest.spyOn(bluetoothService, 'sendCommand');
+    setBleTransport(transport);
+
+    const capabilities = await ConfigDomainController.getInstance().getCapabilities(DEVICE_ID);
+
+    expect(capabilities).toEqual(DEFAULT_DEVICE_CAPABILITIES);
+    expect(transport.sendCommand).toHaveBeenCalledTimes(1);
+    expect(nativeSend).not.toHaveBeenCalled();
+  });
+
+  it('should stream pixels through an injected transport', async () => {
+    jest.useFakeTimers();
+    setBleTransport(transport);
+    const ledCount = DEFAULT_DEVICE_CAPABILITIES.ledCount;
+    const stream = new PixelStream({ deviceId: DEVICE_ID, ledCount, fps: 10 });
+
+    stream.start();
+    stream.push(createPixelBuffer(ledCount).fill(7));
+    await jest.advanceTimersByTimeAsync(100);
+    await stream.stop();
+    jest.useRealTimers();
+
+    expect(transport.sendCommand).toHaveBeenCalledTimes(1);
+    expect(mock.getState().pixels).toEqual(createPixelBuffer(ledCount).fill(7));
+  });
+
+  it('should fall back to the platform service once the injected transport is cleared', () => {
+    setBleTransport(transport);
+    expect(getBleTransport()).toBe(transport);
+
+    setBleTransport(null);
+    expect(getBleTransport()).toBe(bluetoothService);
+  });
+});
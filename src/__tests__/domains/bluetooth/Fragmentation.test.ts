@@ -0,0 +1,186 @@
+import {
+  Fragmenter,
+  Reassembler,
+  FRAGMENT_HEADER_SIZE,
+  REASSEMBLY_TIMEOUT_MS,
+} from '../../../domain/bluetooth/fragmentation';
+import { ProtocolCodec, MAX_FRAME_PAYLOAD } from '../../../domain/bluetooth/protocolCodec';
+import { BLECommandEncoder } from '../../../domain/bluetooth/bleCommandEncoder';
+import { ResponseType } from '../../../types/commands';
+import { ErrorCode, BLEError } from '../../../types/errors';
+
+const errorFrame = (sequenceId: number, text: string): Uint8Array =>
+  ProtocolCodec.encodeFrame(
+    new Uint8Array([ResponseType.ACK_ERROR, ErrorCode.INVALID_PARAMETER, ...new TextEncoder().encode(text)]),
+    sequenceId
+  );
+
+describe('Fragmentation', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe('Fragmenter', () => {
+    it('should keep every fragment within the MTU', () => {
+      const frame = errorFrame(3, 'Invalid config values for the selected effect');
+
+      [23, 64, 247].forEach(mtu => {
+        const fragments = new Fragmenter(mtu).fragment(frame);
+        fragments.forEach(fragment => expect(fragment.length).toBeLessThanOrEqual(mtu - 3));
+        expect(fragments[0][2]).toBe(fragments.length);
+      });
+    });
+
+    it('should send small messages as a single fragment at a large MTU', () => {
+      const frame = errorFrame(3, 'Invalid config values for the selected effect');
+
+      expect(new Fragmenter(247).fragment(frame)).toHaveLength(1);
+      expect(new Fragmenter(23).fragment(frame).length).toBeGreaterThan(1);
+    });
+
+    it('should use a new message ID for each message', () => {
+      const fragmenter = new Fragmenter();
+      const first = fragmenter.fragment(new Uint8Array([1]));
+      const second = fragmenter.fragment(new Uint8Array([2]));
+
+      expect(first[0][0]).not.toBe(second[0][0]);
+    });
+
+    it('should reject an MTU below the BLE minimum', () => {
+      expect(() => new Fragmenter(20)).toThrow('Invalid MTU');
+    });
+
+    it('should reject a message that needs more than 255 fragments', () => {
+      const fragmenter = new Fragmenter(23);
+      const tooLong = new Uint8Array(256 * fragmenter.getMaxChunkSize());
+
+      expect(() => fragmenter.fragment(tooLong)).toThrow(expect.objectContaining({
+        envelope: expect.objectContaining({ code: ErrorCode.INVALID_PARAMETER }),
+      }));
+    });
+  });
+
+  describe('Reassembler', () => {
+    it('should round-trip a full-size frame at the minimum and requested MTU', () => {
+      const payload = new Uint8Array(MAX_FRAME_PAYLOAD).map((_, i) => i & 0xff);
+      const frame = ProtocolCodec.encodeFrame(payload, 7);
+
+      [23, 247].forEach(mtu => {
+        const reassembler = new Reassembler();
+        const messages = new Fragmenter(mtu).fragment(frame).flatMap(fragment => reassembler.push(fragment));
+
+        expect(messages).toHaveLength(1);
+        expect(ProtocolCodec.decodeFrame(messages[0]).payload).toEqual(payload);
+        expect(reassembler.hasPartialMessage()).toBe(false);
+      });
+    });
+
+    it('should reassemble fragments that arrive out of order', () => {
+      const frame = errorFrame(4, 'Out of order fragments still decode');
+      const fragments = new Fragmenter(23).fragment(frame);
+      const reassembler = new Reassembler();
+
+      const messages = [...fragments].reverse().flatMap(fragment => reassembler.push(fragment));
+
+      expect(messages).toEqual([frame]);
+    });
+
+    it('should parse several fragments packed into one notification', () => {
+      const fragmenter = new Fragmenter(23);
+      const first = ProtocolCodec.encodeFrame(new Uint8Array([ResponseType.ACK_SUCCESS]), 1);
+      const second = ProtocolCodec.encodeFrame(new Uint8Array([ResponseType.ACK_COMMIT]), 2);
+      const packet = new Uint8Array([...fragmenter.fragment(first)[0], ...fragmenter.fragment(second)[0]]);
+
+      const messages = new Reassembler().push(packet);
+
+      expect(messages.map(message => ProtocolCodec.decode(message).sequenceId)).toEqual([1, 2]);
+    });
+
+    it('should report a message that never completes with its first chunk', () => {
+      jest.useFakeTimers();
+      const onIncomplete = jest.fn();
+      const reassembler = new Reassembler({ onIncomplete });
+      const frame = errorFrame(9, 'This message loses its last fragment');
+      const fragments = new Fragmenter(23).fragment(frame);
+
+      fragments.slice(0, -1).forEach(fragment => reassembler.push(fragment));
+      jest.advanceTimersByTime(REASSEMBLY_TIMEOUT_MS);
+
+      expect(onIncomplete).toHaveBeenCalledTimes(1);
+      const [error, firstChunk] = onIncomplete.mock.calls[0] as [BLEError, Uint8Array];
+      expect(error.envelope.code).toBe(ErrorCode.INCOMPLETE_MESSAGE);
+      expect(error.message).toContain(`${fragments.length - 1}/${fragments.length} chunks`);
+      expect(ProtocolCodec.peekSequenceId(firstChunk)).toBe(9);
+      expect(reassembler.hasPartialMessage()).toBe(false);
+    });
+
+    it('should restart the timeout each time a fragment arrives', () => {
+      jest.useFakeTimers();
+      const onIncomplete = jest.fn();
+      const reassembler = new Reassembler({ onIncomplete });
+      const fragments = new Fragmenter(23).fragment(errorFrame(2, 'Slow but steady notifications'));
+
+      const messages = fragments.flatMap(fragment => {
+        jest.advanceTimersByTime(REASSEMBLY_TIMEOUT_MS - 1);
+        return reassembler.push(fragment);
+      });
+
+      expect(messages).toHaveLength(1);
+      expect(onIncomplete).not.toHaveBeenCalled();
+    });
+
+    it('should report a message superseded by a new one with the same ID', () => {
+      const onIncomplete = jest.fn();
+      const reassembler = new Reassembler({ onIncomplete });
+      const stale = new Fragmenter(23).fragment(errorFrame(5, 'First message never finishes sending'));
+      const fresh = new Fragmenter(23).fragment(new Uint8Array([1, 2, 3]));
+
+      reassembler.push(stale[0]);
+      const messages = reassembler.push(fresh[0]);
+
+      expect(messages).toEqual([new Uint8Array([1, 2, 3])]);
+      expect(onIncomplete).toHaveBeenCalledWith(
+        expect.objectContaining({ message: expect.stringContaining('superseded') }),
+        stale[0].slice(FRAGMENT_HEADER_SIZE)
+      );
+    });
+
+    it('should report a malformed fragment', () => {
+      const onIncomplete = jest.fn();
+      const reassembler = new Reassembler({ onIncomplete });
+
+      // chunkLength claims 10 bytes but only 2 follow
+      expect(reassembler.push(new Uint8Array([1, 0, 1, 10, 0xaa, 0xbb]))).toHaveLength(0);
+      expect(onIncomplete).toHaveBeenCalledWith(expect.any(BLEError), null);
+    });
+
+    it('should drop partial messages on reset without reporting them', () => {
+      jest.useFakeTimers();
+      const onIncomplete = jest.fn();
+      const reassembler = new Reassembler({ onIncomplete });
+
+      reassembler.push(new Fragmenter(23).fragment(errorFrame(6, 'Interrupted by a disconnect'))[0]);
+      reassembler.reset();
+      jest.advanceTimersByTime(REASSEMBLY_TIMEOUT_MS);
+
+      expect(reassembler.hasPartialMessage()).toBe(false);
+      expect(onIncomplete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('message size', () => {
+    it('should encode config updates longer than one BLE packet', () => {
+      const values = Array.from({ length: 64 }, (_, i) => i);
+
+      const command = BLECommandEncoder.encodeConfigUpdate(0x01, values);
+
+      expect(command.length).toBe(2 + values.length);
+      expect(() => BLECommandEncoder.encodeConfigUpdate(0x01, new Array(MAX_FRAME_PAYLOAD).fill(0))).toThrow('Value array too long');
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Ownership Challenge Tests
+ * Claiming stores a derived key; verification answers a single-use nonce, so recorded traffic cannot be replayed
+ */
+
+import { deriveOwnerKey, hmacSha256, sha256, signChallenge } from '../../../domain/bluetooth/ownershipAuth';
+import { ProtocolCodec, ChallengeResponse } from '../../../domain/bluetooth/protocolCodec';
+import { ConfigDomainController } from '../../../domain/config/configDomainController';
+import { BLECommandEncoder } from '../../../utils/bleCommandEncoder';
+import { bluetoothService } from '../../../utils/bluetoothService';
+import { CommandType, ResponseType } from '../../../types/commands';
+import { ErrorCode } from '../../../types/errors';
+import { MockMicrocontroller } from '../../mocks/MockMicrocontroller';
+import { MOCK_USER_IDS } from '../../utils/testFixtures';
+
+const DEVICE_ID = 'C4:8A:12:3F:9E:01';
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+describe('Ownership challenge-response', () => {
+  describe('ownershipAuth', () => {
+    it('should match the SHA-256 and HMAC-SHA256 test vectors', () => {
+      expect(hex(sha256(utf8('abc')))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+      expect(hex(sha256(utf8('a'.repeat(1000))))).toBe('41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3');
+      // RFC 4231 test cases 2 and 6 (key longer than a block)
+      expect(hex(hmacSha256(utf8('Jefe'), utf8('what do ya want for nothing?'))))
+        .toBe('5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843');
+      expect(hex(hmacSha256(new Uint8Array(131).fill(0xaa), utf8('Test Using Larger Than Block-Size Key - Hash Key First'))))
+        .toBe('60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54');
+    });
+
+    it('should bind a proof to its nonce and command', () => {
+      const key = deriveOwnerKey(MOCK_USER_IDS.user1, new Uint8Array(16));
+      const nonce = new Uint8Array(16).fill(1);
+
+      const proof = signChallenge(key, nonce, CommandType.VERIFY_OWNERSHIP);
+
+      expect(signChallenge(key, nonce, CommandType.UNCLAIM_DEVICE)).not.toEqual(proof);
+      expect(signChallenge(key, new Uint8Array(16).fill(2), CommandType.VERIFY_OWNERSHIP)).not.toEqual(proof);
+      expect(deriveOwnerKey(MOCK_USER_IDS.user1, new Uint8Array(16).fill(9))).not.toEqual(key);
+    });
+  });
+
+  describe('MockMicrocontroller', () => {
+    let mock: MockMicrocontroller;
+
+    const challenge = async (): Promise<ChallengeResponse> =>
+      ProtocolCodec.decodeResponse(await mock.processCommand(BLECommandEncoder.encodeRequestChallenge())) as ChallengeResponse;
+
+    const answer = async (userId: string, opcode: CommandType.VERIFY_OWNERSHIP | CommandType.UNCLAIM_DEVICE) => {
+      const { salt, nonce } = await challenge();
+      const proof = signChallenge(deriveOwnerKey(userId, salt), nonce, opcode);
+      return opcode === CommandType.VERIFY_OWNERSHIP
+        ? BLECommandEncoder.encodeVerifyOwnership(proof)
+        : BLECommandEncoder.encodeUnclaimDevice(proof);
+    };
+
+    const errorCodeOf = (response: Uint8Array) => response[0] === ResponseType.ACK_ERROR ? response[1] : null;
+
+    beforeEach(() => {
+      mock = new MockMicrocontroller({ developerUserIds: [MOCK_USER_IDS.developer] });
+      mock.setOwner(MOCK_USER_IDS.user1);
+    });
+
+    it('should accept the owner and reject anyone else', async () => {
+      expect(errorCodeOf(await mock.processCommand(await answer(MOCK_USER_IDS.user2, CommandType.VERIFY_OWNERSHIP)))).toBe(ErrorCode.NOT_OWNER);
+      expect(mock.getState().sessionOwnershipVerified).toBe(false);
+
+      expect(errorCodeOf(await mock.processCommand(await answer(MOCK_USER_IDS.user1, CommandType.VERIFY_OWNERSHIP)))).toBeNull();
+      expect(mock.getState().sessionOwnershipVerified).toBe(true);
+    });
+
+    it('should reject a replayed verification', async () => {
+      const recorded = await answer(MOCK_USER_IDS.user1, CommandType.VERIFY_OWNERSHIP);
+      await mock.processCommand(recorded);
+      mock.clearSessionOwnership();
+
+      // Same session, nonce already answered
+      await challenge();
+      expect(errorCodeOf(await mock.processCommand(recorded))).toBe(ErrorCode.NOT_OWNER);
+      // Replayed without asking for a challenge
+      expect(errorCodeOf(await mock.processCommand(recorded))).toBe(ErrorCode.NOT_OWNER);
+      expect(mock.getState().sessionOwnershipVerified).toBe(false);
+    });
+
+    it('should use up the nonce on a wrong answer', async () => {
+      const { salt, nonce } = await challenge();
+      await mock.processCommand(BLECommandEncoder.encodeVerifyOwnership(new Uint8Array(32)));
+
+      const late = signChallenge(deriveOwnerKey(MOCK_USER_IDS.user1, salt), nonce, CommandType.VERIFY_OWNERSHIP);
+      expect(errorCodeOf(await mock.processCommand(BLECommandEncoder.encodeVerifyOwnership(late)))).toBe(ErrorCode.NOT_OWNER);
+    });
+
+    it('should not accept a verification proof as an unclaim', async () => {
+      const { salt, nonce } = await challenge();
+      const proof = signChallenge(deriveOwnerKey(MOCK_USER_IDS.user1, salt), nonce, CommandType.VERIFY_OWNERSHIP);
+
+      expect(errorCodeOf(await mock.processCommand(BLECommandEncoder.encodeUnclaimDevice(proof)))).toBe(ErrorCode.NOT_OWNER);
+      expect(mock.getState().hasOwner).toBe(true);
+    });
+
+    it('should accept developer keys derived on the device', async () => {
+      expect(errorCodeOf(await mock.processCommand(await answer(MOCK_USER_IDS.developer, CommandType.UNCLAIM_DEVICE)))).toBeNull();
+      expect(mock.getState().hasOwner).toBe(false);
+    });
+
+    it('should only let a verified session reclaim', async () => {
+      await challenge();
+      const intruderKey = new Uint8Array(32).fill(0xee);
+      expect(errorCodeOf(await mock.processCommand(BLECommandEncoder.encodeClaimDevice(intruderKey)))).toBe(ErrorCode.ALREADY_CLAIMED);
+      expect(mock.isOwnedBy(MOCK_USER_IDS.user1)).toBe(true);
+    });
+  });
+
+  describe('ConfigDomainController', () => {
+    let mock: MockMicrocontroller;
+    let sent: Uint8Array[];
+    let controller: ConfigDomainController;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      mock = new MockMicrocontroller({ developerUserIds: [MOCK_USER_IDS.developer] });
+      sent = [];
+      jest.spyOn(bluetoothService, 'isDeviceConnected').mockResolvedValue(true);
+      jest.spyOn(bluetoothService, 'sendCommand').mockImplementation(async (_id, command) => {
+        sent.push(command);
+        return ProtocolCodec.toCommandResponse(ProtocolCodec.decodeResponse(await mock.processCommand(command)));
+      });
+      controller = ConfigDomainController.getInstance();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should claim and verify without sending the user ID', async () => {
+      await controller.claimDevice(DEVICE_ID, MOCK_USER_IDS.user1);
+
+      expect(mock.isOwnedBy(MOCK_USER_IDS.user1)).toBe(true);
+      expect(mock.getState().sessionOwnershipVerified).toBe(true);
+      const traffic = new TextDecoder().decode(Uint8Array.from(sent.flatMap(command => Array.from(command))));
+      expect(traffic).not.toContain(MOCK_USER_IDS.user1);
+    });
+
+    it('should reject a recorded verification replayed in a later session', async () => {
+      mock.setOwner(MOCK_USER_IDS.user1);
+      await controller.verifyOwnership(DEVICE_ID, MOCK_USER_IDS.user1);
+      const recorded = sent.find(command => command[0] === CommandType.VERIFY_OWNERSHIP)!;
+
+      mock.clearSessionOwnership();
+      await mock.processCommand(BLECommandEncoder.encodeRequestChallenge());
+
+      expect(ProtocolCodec.decodeResponse(await mock.processCommand(recorded))).toEqual(
+        expect.objectContaining({ code: ErrorCode.NOT_OWNER })
+      );
+      expect(mock.getState().sessionOwnershipVerified).toBe(false);
+    });
+
+    it('should report ALREADY_CLAIMED when another user claims', async () => {
+      mock.setOwner(MOCK_USER_IDS.user1);
+
+      await expect(controller.claimDevice(DEVICE_ID, MOCK_USER_IDS.user2)).rejects.toEqual(
+        expect.objectContaining({ envelope: expect.objectContaining({ code: ErrorCode.ALREADY_CLAIMED }) })
+      );
+      expect(mock.isOwnedBy(MOCK_USER_IDS.user1)).toBe(true);
+    });
+
+    it('should let a developer verify and take over a claimed device', async () => {
+      mock.setOwner(MOCK_USER_IDS.user1);
+
+      await controller.claimDevice(DEVICE_ID, MOCK_USER_IDS.developer);
+
+      expect(mock.isOwnedBy(MOCK_USER_IDS.developer)).toBe(true);
+    });
+
+    it('should unclaim with a proof', async () => {
+      mock.setOwner(MOCK_USER_IDS.user1);
+
+      await expect(controller.unclaimDevice(DEVICE_ID, MOCK_USER_IDS.user2)).rejects.toEqual(
+        expect.objectContaining({ envelope: expect.objectContaining({ code: ErrorCode.NOT_OWNER }) })
+      );
+      await controller.unclaimDevice(DEVICE_ID, MOCK_USER_IDS.user1);
+
+      expect(mock.getState().hasOwner).toBe(false);
+    });
+  });
+});
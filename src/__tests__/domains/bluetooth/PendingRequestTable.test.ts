@@ -0,0 +1,111 @@
+import { PendingRequestTable } from '../../../domain/bluetooth/pendingRequestTable';
+import { ResponseType, CommandResponse } from '../../../types/commands';
+import { ErrorCode } from '../../../types/errors';
+
+const ack = (type: ResponseType): CommandResponse => ({ type, isSuccess: true });
+
+describe('PendingRequestTable', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should route out-of-order responses to the matching request', async () => {
+    const table = new PendingRequestTable();
+    const first = table.register(1, { timeoutMs: 1000 });
+    const second = table.register(2, { timeoutMs: 1000 });
+
+    expect(table.resolve(2, ack(ResponseType.ACK_COMMIT))).toBe(true);
+    expect(table.resolve(1, ack(ResponseType.ACK_SUCCESS))).toBe(true);
+
+    await expect(first).resolves.toEqual(ack(ResponseType.ACK_SUCCESS));
+    await expect(second).resolves.toEqual(ack(ResponseType.ACK_COMMIT));
+    expect(table.size).toBe(0);
+  });
+
+  it('should time out each request independently', async () => {
+    const table = new PendingRequestTable();
+    const fast = table.register(1, { timeoutMs: 100 });
+    const slow = table.register(2, { timeoutMs: 1000 });
+
+    jest.advanceTimersByTime(100);
+
+    await expect(fast).rejects.toThrow('Command timeout');
+    expect(table.has(2)).toBe(true);
+
+    table.resolve(2, ack(ResponseType.ACK_SUCCESS));
+    await expect(slow).resolves.toEqual(ack(ResponseType.ACK_SUCCESS));
+  });
+
+  it('should ignore a late response after timeout', async () => {
+    const table = new PendingRequestTable();
+    const request = table.register(1, { timeoutMs: 100 });
+
+    jest.advanceTimersByTime(100);
+    await expect(request).rejects.toThrow('Command timeout');
+
+    expect(table.resolve(1, ack(ResponseType.ACK_SUCCESS))).toBe(false);
+  });
+
+  it('should cancel a request through its AbortSignal', async () => {
+    const table = new PendingRequestTable();
+    const controller = new AbortController();
+    const request = table.register(1, { timeoutMs: 1000, signal: controller.signal });
+
+    controller.abort();
+
+    await expect(request).rejects.toThrow('Command cancelled');
+    expect(table.has(1)).toBe(false);
+  });
+
+  it('should reject immediately if the signal is already aborted', async () => {
+    const table = new PendingRequestTable();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(table.register(1, { timeoutMs: 1000, signal: controller.signal })).rejects.toThrow('Command cancelled');
+    expect(table.size).toBe(0);
+  });
+
+  it('should reject every request on rejectAll', async () => {
+    const table = new PendingRequestTable();
+    const requests = [table.register(1, { timeoutMs: 1000 }), table.register(2, { timeoutMs: 1000 })];
+
+    table.rejectAll(new Error('Device disconnected'));
+
+    for (const request of requests) {
+      await expect(request).rejects.toThrow('Device disconnected');
+    }
+    expect(table.size).toBe(0);
+  });
+
+  it('should skip sequence IDs that are still in flight', () => {
+    const table = new PendingRequestTable();
+    const first = table.allocateSequenceId();
+    table.register(first, { timeoutMs: 1000 }).catch(() => {});
+
+    for (let i = 0; i < 254; i++) {
+      table.allocateSequenceId();
+    }
+
+    // Wrapped around past 255; the in-flight ID must not be reused
+    expect(table.allocateSequenceId()).not.toBe(first);
+    expect(first).toBe(1);
+    table.rejectAll(new Error('done'));
+  });
+
+  it('should fail when every sequence ID is in flight', () => {
+    const table = new PendingRequestTable();
+    for (let i = 0; i < 255; i++) {
+      table.register(table.allocateSequenceId(), { timeoutMs: 1000 }).catch(() => {});
+    }
+
+    expect(() => table.allocateSequenceId()).toThrow(expect.objectContaining({
+      envelope: expect.objectContaining({ code: ErrorCode.MEMORY_LOW }),
+    }));
+    table.rejectAll(new Error('done'));
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Pixel Streaming Tests
+ * PIXEL_FRAME encodings, the mock device's decoder and the frame-rate-limited PixelStream
+ */
+
+import {
+  createPixelBuffer,
+  decodePixelData,
+  encodePixelFrame,
+} from '../../../domain/bluetooth/pixelFrameEncoder';
+import { PixelStream, PIXEL_STREAM_KEEPALIVE_MS } from '../../../domain/bluetooth/pixelStream';
+import { CommandCodec } from '../../../domain/bluetooth/protocolMessages';
+import { ProtocolCodec } from '../../../domain/bluetooth/protocolCodec';
+import { bluetoothService } from '../../../utils/bluetoothService';
+import { CommandType, ResponseType } from '../../../types/commands';
+import { PixelEncoding } from '../../../types/protocol';
+import { ErrorCode } from '../../../types/errors';
+import { DEFAULT_DEVICE_CAPABILITIES } from '../../../types/capabilities';
+import { MockMicrocontroller } from '../../mocks/MockMicrocontroller';
+
+const LED_COUNT = DEFAULT_DEVICE_CAPABILITIES.ledCount;
+
+/**
+ * Strip with one color everywhere except a few pixels
+ */
+const makeFrame = (base: [number, number, number], changes: Record<number, [number, number, number]> = {}) => {
+  const frame = createPixelBuffer(LED_COUNT);
+  for (let i = 0; i < LED_COUNT; i++) {
+    frame.set(changes[i] ?? base, i * 3);
+  }
+  return frame;
+};
+
+const decode = (command: Uint8Array, previous?: Uint8Array) => {
+  const message = CommandCodec.decodePixelFrame(command);
+  return { message, pixels: decodePixelData(message.encoding, message.pixelCount, message.data, previous) };
+};
+
+describe('Pixel streaming', () => {
+  describe('encodePixelFrame', () => {
+    it('should use RLE for solid blocks', () => {
+      const frame = makeFrame([255, 0, 0]);
+      const { message, pixels } = decode(encodePixelFrame(frame));
+
+      expect(message).toEqual(expect.objectContaining({ type: CommandType.PIXEL_FRAME, encoding: PixelEncoding.RLE, pixelCount: LED_COUNT }));
+      expect(message.data).toEqual([LED_COUNT, 255, 0, 0]);
+      expect(pixels).toEqual(frame);
+    });
+
+    it('should use RAW when every pixel differs', () => {
+      const frame = createPixelBuffer(LED_COUNT).map((_, i) => i);
+      const { message, pixels } = decode(encodePixelFrame(frame));
+
+      expect(message.encoding).toBe(PixelEncoding.RAW);
+      expect(pixels).toEqual(frame);
+    });
+
+    it('should use DELTA for a few changed pixels', () => {
+      const previous = createPixelBuffer(LED_COUNT).map((_, i) => i);
+      const frame = Uint8Array.from(previous);
+      frame.set([1, 2, 3], 2 * 3);
+      frame.set([4, 5, 6], 4 * 3);
+
+      const { message, pixels } = decode(encodePixelFrame(frame, previous), previous);
+
+      // One span bridges the unchanged pixel between the two changes
+      expect(message.encoding).toBe(PixelEncoding.DELTA);
+      expect(message.data).toEqual([0, 2, 3, 1, 2, 3, 9, 10, 11, 4, 5, 6]);
+      expect(pixels).toEqual(frame);
+    });
+
+    it('should round-trip a forced encoding', () => {
+      const previous = makeFrame([0, 0, 0]);
+      const frame = makeFrame([10, 20, 30], { 0: [1, 1, 1], 7: [2, 2, 2] });
+
+      for (const encoding of [PixelEncoding.RAW, PixelEncoding.RLE, PixelEncoding.DELTA]) {
+        const { message, pixels } = decode(encodePixelFrame(frame, previous, encoding), previous);
+        expect(message.encoding).toBe(encoding);
+        expect(pixels).toEqual(frame);
+      }
+    });
+
+    it('should reject partial pixels and DELTA without a previous frame', () => {
+      expect(() => encodePixelFrame(new Uint8Array(5))).toThrow('Pixel buffer must hold whole [r, g, b] pixels, got 5 bytes');
+      expect(() => encodePixelFrame(makeFrame([0, 0, 0]), undefined, PixelEncoding.DELTA)).toThrow('needs a previous frame');
+    });
+  });
+
+  describe('MockMicrocontroller', () => {
+    let mock: MockMicrocontroller;
+
+    beforeEach(() => {
+      mock = new MockMicrocontroller();
+    });
+
+    it('should show a frame and apply deltas to it', async () => {
+      const first = makeFrame([0, 0, 255]);
+      const second = makeFrame([0, 0, 255], { 3: [255, 255, 255] });
+
+      expect((await mock.processCommand(encodePixelFrame(first)))[0]).toBe(ResponseType.ACK_SUCCESS);
+      expect((await mock.processCommand(encodePixelFrame(second, first)))[0]).toBe(ResponseType.ACK_SUCCESS);
+      expect(mock.getState().pixels).toEqual(second);
+    });
+
+    it('should reject a delta before any full frame, and a wrong strip length', async () => {
+      const frame = makeFrame([0, 0, 0]);
+      const delta = ProtocolCodec.decodeResponse(await mock.processCommand(encodePixelFrame(frame, frame, PixelEncoding.DELTA)));
+      const wrongLength = ProtocolCodec.decodeResponse(await mock.processCommand(encodePixelFrame(createPixelBuffer(LED_COUNT + 1))));
+
+      expect(delta).toEqual(expect.objectContaining({ code: ErrorCode.INVALID_PARAMETER }));
+      expect(wrongLength).toEqual(expect.objectContaining({ code: ErrorCode.OUT_OF_RANGE }));
+      expect(mock.getState().pixels).toBeNull();
+    });
+  });
+
+  describe('PixelStream', () => {
+    let mock: MockMicrocontroller;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      mock = new MockMicrocontroller();
+      jest.spyOn(bluetoothService, 'sendCommand').mockImplementation(async (_id, command) =>
+        ProtocolCodec.toCommandResponse(ProtocolCodec.decodeResponse(await mock.processCommand(command))));
+      jest.spyOn(bluetoothService, 'sendUnacknowledged').mockImplementation(async (_id, command) => {
+        await mock.processCommand(command);
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    it('should send at most one frame per tick, newest first', async () => {
+      const stream = new PixelStream({ deviceId: 'device', ledCount: LED_COUNT, fps: 20 });
+      stream.start();
+
+      for (let i = 0; i < 10; i++) {
+        stream.push(makeFrame([i, 0, 0]));
+      }
+      await jest.advanceTimersByTimeAsync(50);
+      await stream.stop();
+
+      expect(stream.getStats()).toEqual({ sent: 1, keyframes: 1, dropped: 9, failed: 0 });
+      expect(mock.getState().pixels).toEqual(makeFrame([9, 0, 0]));
+    });
+
+    it('should send deltas unacknowledged between acknowledged keyframes', async () => {
+      const stream = new PixelStream({ deviceId: 'device', ledCount: LED_COUNT, fps: 10, keyframeInterval: 4 });
+      stream.start();
+
+      for (let i = 0; i < 8; i++) {
+        stream.push(makeFrame([0, 0, 0], { [i]: [255, 255, 255] }));
+        await jest.advanceTimersByTimeAsync(100);
+      }
+      await stream.stop();
+
+      expect(stream.getStats()).toEqual({ sent: 8, keyframes: 2, dropped: 0, failed: 0 });
+      expect(bluetoothService.sendCommand).toHaveBeenCalledTimes(2);
+      expect(bluetoothService.sendUnacknowledged).toHaveBeenCalledTimes(6);
+      expect(mock.getState().pixels).toEqual(makeFrame([0, 0, 0], { 7: [255, 255, 255] }));
+    });
+
+    it('should resync with a keyframe after a failed frame', async () => {
+      const stream = new PixelStream({ deviceId: 'device', ledCount: LED_COUNT, fps: 10, keyframeInterval: 100 });
+      (bluetoothService.sendUnacknowledged as jest.Mock).mockRejectedValueOnce(new Error('Device not connected'));
+      stream.start();
+
+      for (let i = 0; i < 3; i++) {
+        stream.push(makeFrame([i, i, i]));
+        await jest.advanceTimersByTimeAsync(100);
+      }
+      await stream.stop();
+
+      // Keyframe, failed delta, then a keyframe instead of a delta
+      expect(stream.getStats()).toEqual({ sent: 2, keyframes: 2, dropped: 0, failed: 1 });
+      expect(mock.getState().pixels).toEqual(makeFrame([2, 2, 2]));
+    });
+
+    it('should keep a still picture alive', async () => {
+      const stream = new PixelStream({ deviceId: 'device', ledCount: LED_COUNT, fps: 10 });
+      stream.start();
+
+      stream.push(makeFrame([1, 2, 3]));
+      await jest.advanceTimersByTimeAsync(PIXEL_STREAM_KEEPALIVE_MS * 3);
+      await stream.stop();
+
+      expect(bluetoothService.sendCommand).toHaveBeenCalledTimes(3);
+      expect(bluetoothService.sendUnacknowledged).not.toHaveBeenCalled();
+    });
+
+    it('should reject frames of the wrong length and fps out of range', () => {
+      const stream = new PixelStream({ deviceId: 'device', ledCount: LED_COUNT });
+
+      expect(() => stream.push(createPixelBuffer(LED_COUNT - 1))).toThrow(`Frame must hold ${LED_COUNT} pixels`);
+      expect(() => new PixelStream({ deviceId: 'device', ledCount: LED_COUNT, fps: 0 })).toThrow('Pixel stream fps must be 1-60, got 0');
+    });
+  });
+});
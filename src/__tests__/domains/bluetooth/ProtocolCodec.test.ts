@@ -0,0 +1,171 @@
+import {
+  ProtocolCodec,
+  PROTOCOL_VERSION,
+  FRAME_OVERHEAD,
+  UNSOLICITED_SEQUENCE_ID,
+} from '../../../domain/bluetooth/protocolCodec';
+import { ResponseRegistry } from '../../../domain/bluetooth/responseRegistry';
+import { BLECommandEncoder } from '../../../utils/bleCommandEncoder';
+import { ResponseType, CommandResponse } from '../../../types/commands';
+import { ErrorCode, ErrorEnvelope } from '../../../types/errors';
+
+describe('ProtocolCodec', () => {
+  describe('crc16', () => {
+    it('should match the CRC-16/CCITT-FALSE check value', () => {
+      const data = new TextEncoder().encode('123456789');
+      expect(ProtocolCodec.crc16(data)).toBe(0x29b1);
+    });
+  });
+
+  describe('encodeFrame', () => {
+    it('should wrap a command in version, sequence, length and CRC', () => {
+      const frame = ProtocolCodec.encodeFrame(BLECommandEncoder.encodeEnterConfig(), 7);
+
+      expect(frame.length).toBe(1 + FRAME_OVERHEAD);
+      expect(frame[0]).toBe(PROTOCOL_VERSION);
+      expect(frame[1]).toBe(7);
+      expect(frame[2]).toBe(0x00);
+      expect(frame[3]).toBe(0x01);
+      expect(frame[4]).toBe(0x10);
+
+      const crc = ProtocolCodec.crc16(frame, 5);
+      expect(frame[5]).toBe((crc >> 8) & 0xff);
+      expect(frame[6]).toBe(crc & 0xff);
+    });
+
+    it('should reject empty messages', () => {
+      expect(() => ProtocolCodec.encodeFrame(new Uint8Array([]), 1)).toThrow('empty message');
+    });
+  });
+
+  describe('decodeFrame', () => {
+    it('should round-trip payload and sequence ID', () => {
+      const payload = BLECommandEncoder.encodeClaimDevice(new Uint8Array(32).fill(0x5a));
+      const frame = ProtocolCodec.decodeFrame(ProtocolCodec.encodeFrame(payload, 42));
+
+      expect(frame.sequenceId).toBe(42);
+      expect(Array.from(frame.payload)).toEqual(Array.from(payload));
+    });
+
+    it('should reject a corrupted frame', () => {
+      const frame = ProtocolCodec.encodeFrame(new Uint8Array([ResponseType.ACK_SUCCESS]), 1);
+      frame[4] ^= 0xff;
+
+      expect(() => ProtocolCodec.decodeFrame(frame)).toThrow('CRC mismatch');
+    });
+
+    it('should reject an unsupported version', () => {
+      const frame = ProtocolCodec.encodeFrame(new Uint8Array([ResponseType.ACK_SUCCESS]), 1);
+      frame[0] = 0x01;
+
+      expect(() => ProtocolCodec.decodeFrame(frame)).toThrow('Unsupported protocol version');
+    });
+
+    it('should reject a truncated frame', () => {
+      const frame = ProtocolCodec.encodeFrame(new Uint8Array([ResponseType.ACK_SUCCESS, 1, 2]), 1);
+
+      expect(() => ProtocolCodec.decodeFrame(frame.slice(0, frame.length - 1))).toThrow('length mismatch');
+    });
+  });
+
+  describe('decodeResponse', () => {
+    it('should decode a config snapshot regardless of its values', () => {
+      // Brightness 0x08 used to be indistinguishable from an error code in an 8-byte notification
+      const payload = new Uint8Array([ResponseType.ACK_CONFIG_MODE, 0x08, 50, 255, 0, 128, 3, 1]);
+      const { sequenceId, response } = ProtocolCodec.decode(ProtocolCodec.encodeFrame(payload, 3));
+
+      expect(sequenceId).toBe(3);
+      expect((response as CommandResponse).type).toBe(ResponseType.ACK_CONFIG_MODE);
+      expect(Array.from((response as CommandResponse).data!)).toEqual([0x08, 50, 255, 0, 128, 3, 1]);
+    });
+
+    it('should decode an error envelope with firmware message', () => {
+      const message = Array.from(new TextEncoder().encode('Not authorized'));
+      const payload = new Uint8Array([ResponseType.ACK_ERROR, ErrorCode.NOT_OWNER, ...message]);
+      const { response } = ProtocolCodec.decode(ProtocolCodec.encodeFrame(payload, 9));
+
+      expect(ProtocolCodec.isErrorEnvelope(response)).toBe(true);
+      expect((response as ErrorEnvelope).code).toBe(ErrorCode.NOT_OWNER);
+      expect((response as ErrorEnvelope).message).toBe('Not authorized');
+    });
+
+    it('should decode commit and success acknowledgments', () => {
+      const commit = ProtocolCodec.decodeResponse(new Uint8Array([ResponseType.ACK_COMMIT]));
+      const success = ProtocolCodec.decodeResponse(new Uint8Array([ResponseType.ACK_SUCCESS]));
+
+      expect((commit as CommandResponse).type).toBe(ResponseType.ACK_COMMIT);
+      expect((success as CommandResponse).type).toBe(ResponseType.ACK_SUCCESS);
+    });
+
+    it('should not confuse an error with a config mode acknowledgment', () => {
+      const ack = ProtocolCodec.decodeResponse(new Uint8Array([ResponseType.ACK_CONFIG_MODE]));
+      const error = ProtocolCodec.decodeResponse(new Uint8Array([ResponseType.ACK_ERROR, ErrorCode.NOT_IN_CONFIG_MODE]));
+
+      expect(ResponseType.ACK_ERROR).not.toBe(ResponseType.ACK_CONFIG_MODE);
+      expect((ack as CommandResponse).type).toBe(ResponseType.ACK_CONFIG_MODE);
+      expect((error as ErrorEnvelope).code).toBe(ErrorCode.NOT_IN_CONFIG_MODE);
+    });
+
+    it('should surface unknown opcodes as an error envelope', () => {
+      const response = ProtocolCodec.decodeResponse(new Uint8Array([0x7e, 0x01]));
+
+      expect(ProtocolCodec.isErrorEnvelope(response)).toBe(true);
+      expect((response as ErrorEnvelope).code).toBe(ErrorCode.UNKNOWN_ERROR);
+      expect((response as ErrorEnvelope).message).toBe('Unknown response type: 0x7e');
+      expect(Array.from((response as ErrorEnvelope).data!)).toEqual([0x7e, 0x01]);
+    });
+
+    it('should decode an analytics batch with sessions', () => {
+      const payload = new Uint8Array(18 + 13);
+      payload[0] = ResponseType.ANALYTICS_BATCH;
+      payload[1] = 4; // batchId
+      payload[2] = 1; // sessionCount
+      payload[4] = 12; // flashReads
+      payload.set([0x80, 0x00, 0x00, 0x00], 18); // startTime with high bit set
+      payload[18 + 12] = 0x01; // turnedOn
+
+      const batch = ProtocolCodec.decodeResponse(payload);
+
+      expect(ProtocolCodec.isAnalyticsBatch(batch)).toBe(true);
+      if (ProtocolCodec.isAnalyticsBatch(batch)) {
+        expect(batch.batchId).toBe(4);
+        expect(batch.flashReads).toBe(12);
+        expect(batch.sessions[0].startTime).toBe(0x80000000);
+        expect(batch.sessions[0].turnedOn).toBe(true);
+      }
+    });
+  });
+
+  describe('ResponseRegistry', () => {
+    it('should decode with the registered decoder', () => {
+      const registry = new ResponseRegistry();
+      registry.register(0x7e, payload => ({ type: ResponseType.ACK_SUCCESS, isSuccess: true, data: payload.slice(1) }));
+
+      const response = registry.decode(new Uint8Array([0x7e, 0x05])) as CommandResponse;
+
+      expect(registry.has(0x7e)).toBe(true);
+      expect(Array.from(response.data!)).toEqual([0x05]);
+    });
+
+    it('should reject a second decoder for the same opcode', () => {
+      const registry = new ResponseRegistry();
+      registry.register(0x7e, payload => ProtocolCodec.decodeErrorEnvelope(payload));
+
+      expect(() => registry.register(0x7e, payload => ProtocolCodec.decodeErrorEnvelope(payload))).toThrow('already registered');
+    });
+  });
+
+  describe('peekSequenceId', () => {
+    it('should read the sequence ID from the start of a frame', () => {
+      const frame = ProtocolCodec.encodeFrame(new Uint8Array([ResponseType.ACK_SUCCESS]), 9);
+
+      expect(ProtocolCodec.peekSequenceId(frame.slice(0, 4))).toBe(9);
+      expect(ProtocolCodec.peekSequenceId(ProtocolCodec.encodeFrame(new Uint8Array([ResponseType.ACK_SUCCESS]), UNSOLICITED_SEQUENCE_ID))).toBe(UNSOLICITED_SEQUENCE_ID);
+    });
+
+    it('should return null for bytes that are not a frame', () => {
+      expect(ProtocolCodec.peekSequenceId(new Uint8Array([0x90, 0x08]))).toBeNull();
+      expect(ProtocolCodec.peekSequenceId(new Uint8Array([PROTOCOL_VERSION]))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Protocol Conformance Tests
+ *
+ * protocol/spec.json is the single source of truth for the binary protocol.
+ * These tests check that the generated codec round-trips every message in the spec,
+ * that the generated files are up to date, and that the app and firmware use the
+ * generated definitions instead of declaring their own copies.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommandCodec, ResponseCodec } from '../../../domain/bluetooth/protocolMessages';
+import { ProtocolCodec } from '../../../domain/bluetooth/protocolCodec';
+import { BLE_COMMANDS, ERROR_CODES, RESPONSE_CODES, LED_PATTERNS } from '../../../utils/bleConstants';
+import { CommandMessage, ResponseMessage } from '../../../types/protocol';
+import { ErrorCode } from '../../../types/errors';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const generator = require('../../../../scripts/generate-protocol');
+
+interface FieldSpec {
+  name: string;
+  type: 'u8' | 'u16' | 'u32' | 'u8[]' | 'string' | 'struct[]';
+  length?: 'prefix' | 'rest';
+  minLength?: number | string;
+  maxLength?: number | string;
+  count?: string;
+  fields?: FieldSpec[];
+}
+
+interface MessageSpec {
+  name: string;
+  cName?: string;
+  opcode: string | number;
+  fields: FieldSpec[];
+}
+
+interface GeneratedFile {
+  file: string;
+  content: string;
+}
+
+const spec = generator.loadSpec();
+const commands: MessageSpec[] = spec.commands.messages;
+const responses: MessageSpec[] = spec.responses.messages;
+
+const constant = (value: number | string | undefined): number | undefined =>
+  typeof value === 'string' && !/^(0x)?[0-9a-f]+$/i.test(value)
+    ? generator.parseValue(spec.constants.find((c: { name: string }) => c.name === value).value)
+    : value === undefined ? undefined : generator.parseValue(value);
+
+const cNameOf = (group: { cPrefix: string }, message: MessageSpec) => message.cName ?? `${group.cPrefix}${message.name}`;
+
+/**
+ * Build a message whose fields take distinct non-zero values, so swapped fields are caught
+ */
+const sampleFields = (fields: FieldSpec[], seed: number): Record<string, unknown> => {
+  const sample: Record<string, unknown> = {};
+  fields.forEach((field, i) => {
+    const n = seed + i + 1;
+    switch (field.type) {
+      case 'u8':
+        sample[field.name] = n & 0xff;
+        break;
+      case 'u16':
+        sample[field.name] = (n * 257) & 0xffff;
+        break;
+      case 'u32':
+        sample[field.name] = (n * 16843009) >>> 0;
+        break;
+      case 'u8[]': {
+        const length = Math.max(constant(field.minLength) ?? 0, 3);
+        sample[field.name] = Array.from({ length }, (_, j) => (n + j) & 0xff);
+        break;
+      }
+      case 'string':
+        sample[field.name] = `user-${n}`;
+        break;
+      case 'struct[]': {
+        const count = 2;
+        sample[field.count!] = count;
+        sample[field.name] = Array.from({ length: count }, (_, j) => sampleFields(field.fields!, n + j * 10));
+        break;
+      }
+    }
+  });
+  return sample;
+};
+
+const sampleMessage = <T>(message: MessageSpec, seed: number): T =>
+  ({ type: generator.parseValue(message.opcode), ...sampleFields(message.fields, seed) } as T);
+
+const readRepoFile = (file: string) => fs.readFileSync(path.join(generator.ROOT, file), 'utf8');
+
+describe('Protocol Conformance', () => {
+  describe('generated files', () => {
+    const generated: GeneratedFile[] = generator.generateAll();
+
+    it.each(generated.map((output): [string, string] => [output.file, output.content]))(
+      '%s should match protocol/spec.json (run `npm run generate:protocol`)',
+      (file: string, content: string) => {
+        expect(readRepoFile(file)).toBe(content);
+      }
+    );
+  });
+
+  describe('commands', () => {
+    it.each(commands.map(message => [message.name, message]))('should round-trip %s', (_name, message: MessageSpec) => {
+      const sample = sampleMessage<CommandMessage>(message, 0x10);
+
+      const bytes = CommandCodec.encode(sample);
+
+      expect(bytes[0]).toBe(generator.parseValue(message.opcode));
+      expect(CommandCodec.decode(bytes)).toEqual(sample);
+      expect(CommandCodec.decode(ProtocolCodec.decodeFrame(ProtocolCodec.encodeFrame(bytes, 1)).payload)).toEqual(sample);
+    });
+
+    it('should reject unknown opcodes', () => {
+      expect(() => CommandCodec.decode(new Uint8Array([0x7f]))).toThrow('Unknown command: 0x7f');
+    });
+  });
+
+  describe('responses', () => {
+    it.each(responses.map(message => [message.name, message]))('should round-trip %s', (_name, message: MessageSpec) => {
+      const sample = sampleMessage<ResponseMessage>(message, 0x20);
+
+      const bytes = ResponseCodec.encode(sample);
+
+      expect(bytes[0]).toBe(generator.parseValue(message.opcode));
+      expect(ResponseCodec.decode(bytes)).toEqual(sample);
+    });
+
+    it('should decode every response through ProtocolCodec', () => {
+      responses.forEach((message, i) => {
+        const bytes = ResponseCodec.encode(sampleMessage<ResponseMessage>(message, i));
+        expect(() => ProtocolCodec.decodeResponse(bytes)).not.toThrow();
+      });
+    });
+
+    it('should reject unknown opcodes', () => {
+      expect(() => ResponseCodec.decode(new Uint8Array([0x7f]))).toThrow('Unknown response type: 0x7f');
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject truncated fixed-size messages', () => {
+      [...commands, ...responses]
+        .filter(message => message.fields.length > 0)
+        .forEach((message, i) => {
+          const isCommand = commands.includes(message);
+          const bytes = isCommand
+            ? CommandCodec.encode(sampleMessage<CommandMessage>(message, i))
+            : ResponseCodec.encode(sampleMessage<ResponseMessage>(message, i));
+          const truncated = bytes.slice(0, 1);
+          const decode = isCommand ? () => CommandCodec.decode(truncated) : () => ResponseCodec.decode(truncated);
+
+          expect(decode).toThrow(
+            expect.objectContaining({ envelope: expect.objectContaining({ code: ErrorCode.UNKNOWN_ERROR }) })
+          );
+        });
+    });
+
+    it('should ignore trailing bytes so newer firmware can append fields', () => {
+      const bytes = ResponseCodec.encodeCapabilities({
+        protocolVersion: 2,
+        firmwareMajor: 1,
+        firmwareMinor: 0,
+        firmwarePatch: 0,
+        ledCount: 10,
+        maxMilliamps: 500,
+        batteryCapacityMah: 500,
+        supportedEffects: [0, 1],
+        supportedParameters: [1],
+      });
+
+      const decoded = ResponseCodec.decodeCapabilities(new Uint8Array([...bytes, 0xaa, 0xbb]));
+
+      expect(decoded.ledCount).toBe(10);
+    });
+
+    it('should keep complete sessions from a truncated analytics batch', () => {
+      const sample = sampleMessage<ResponseMessage>(responses.find(m => m.name === 'ANALYTICS_BATCH')!, 0);
+      const bytes = ResponseCodec.encode(sample);
+
+      const decoded = ResponseCodec.decodeAnalyticsBatch(bytes.slice(0, bytes.length - 1));
+
+      expect(decoded.sessions).toHaveLength(1);
+    });
+
+    it('should encode strings as UTF-8', () => {
+      const message = 'josé-🎸';
+
+      const bytes = ResponseCodec.encodeAckError({ code: ErrorCode.UNKNOWN_ERROR, message });
+
+      expect(bytes.length).toBe(2 + 10);
+      expect(ResponseCodec.decodeAckError(bytes).message).toBe(message);
+    });
+
+    it('should reject out-of-range values', () => {
+      const invalid = expect.objectContaining({ envelope: expect.objectContaining({ code: ErrorCode.INVALID_PARAMETER }) });
+
+      expect(() => CommandCodec.encodeConfirmAnalytics({ batchId: 256 })).toThrow(invalid);
+      expect(() => CommandCodec.encodeUpdateColor({ hue: 1.5, saturation: 0, value: 0 })).toThrow(invalid);
+      expect(() => CommandCodec.encodeUpdateParam({ parameter: 0, values: [] })).toThrow(invalid);
+      expect(() => CommandCodec.encodeClaimDevice({ ownerKey: [] })).toThrow(invalid);
+      expect(() => CommandCodec.encodeVerifyOwnership({ proof: new Array(33).fill(0) })).toThrow(invalid);
+    });
+  });
+
+  describe('app constants', () => {
+    it('should take binary command opcodes from the spec', () => {
+      commands.forEach(message => {
+        const key = cNameOf(spec.commands, message) as keyof typeof BLE_COMMANDS;
+        if (key in BLE_COMMANDS) {
+          expect(BLE_COMMANDS[key]).toBe(generator.parseValue(message.opcode));
+        }
+      });
+      expect(Object.values(BLE_COMMANDS).every(value => typeof value === 'number')).toBe(true);
+    });
+
+    it('should take response, error and pattern codes from the spec', () => {
+      expect(RESPONSE_CODES.ERROR).toBe(0x93);
+      expect(ERROR_CODES.SETTINGS_CORRUPT).toBe(ErrorCode.SETTINGS_CORRUPT);
+      expect(ERROR_CODES.EEPROM_FAILURE).toBe(ErrorCode.FLASH_FAILURE);
+      spec.enums
+        .find((e: { name: string }) => e.name === 'LedPattern')
+        .values.forEach((value: { name: keyof typeof LED_PATTERNS; value: number }) => {
+          expect(LED_PATTERNS[value.name]).toBe(value.value);
+        });
+    });
+  });
+
+  describe('firmware', () => {
+    const generatedNames = (): string[] => [
+      ...spec.constants.map((c: { name: string }) => c.name),
+      ...spec.enums.flatMap((e: { cPrefix: string; values: { name: string }[] }) => e.values.map(v => `${e.cPrefix}${v.name}`)),
+      ...spec.errors.values.map((v: { name: string }) => `${spec.errors.cPrefix}${v.name}`),
+      ...commands.map(message => cNameOf(spec.commands, message)),
+      ...responses.map(message => cNameOf(spec.responses, message)),
+    ];
+
+    it('should include the generated header', () => {
+      expect(readRepoFile('bt-led-controller/device_config.h')).toContain('#include "protocol.h"');
+    });
+
+    it.each(['bt-led-controller/device_config.h', 'bt-led-controller/bt-led-controller.ino'])(
+      '%s should not redefine protocol names',
+      (file: string) => {
+        const source = readRepoFile(file);
+        const redefined = generatedNames().filter(name => new RegExp(`#define\\s+${name}\\b`).test(source));
+        expect(redefined).toEqual([]);
+      }
+    );
+  });
+});
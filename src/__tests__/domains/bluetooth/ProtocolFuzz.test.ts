@@ -0,0 +1,162 @@
+/**
+ * Protocol Fuzz Tests
+ *
+ * Throws seeded random traffic at MockMicrocontroller and at the response decoders,
+ * and checks invariants that must hold for any input:
+ * - nothing throws except a BLEError
+ * - the config-mode state stays valid
+ * - ownership is never bypassed without answering a challenge
+ *
+ * Reproduce a failure with FUZZ_SEED=<seed> and keep the seed in
+ * fixtures/fuzz/regression-seeds.json once it is fixed. FUZZ_RUNS=<n> runs more seeds.
+ */
+
+import { MockMicrocontroller, MockMicrocontrollerState } from '../../mocks/MockMicrocontroller';
+import { BLECommandEncoder } from '../../../utils/bleCommandEncoder';
+import { checkAndParseErrorEnvelope } from '../../../domain/common/errorEnvelope';
+import { ProtocolCodec } from '../../../domain/bluetooth/protocolCodec';
+import { CommandType } from '../../../types/commands';
+import { BLEError } from '../../../types/errors';
+import { OWNER_KEY_LENGTH } from '../../../types/protocol';
+import { MOCK_USER_IDS } from '../../utils/testFixtures';
+import {
+  FuzzRegressionSeed,
+  FuzzTarget,
+  FUZZ_OWNER_ID,
+  fuzzSeeds,
+  generateCommandSequence,
+  generateErrorEnvelopeInput,
+  generateNotification,
+} from '../../utils/protocolFuzzer';
+import regressionSeeds from '../../fixtures/fuzz/regression-seeds.json';
+
+const DEFAULT_RUNS = 200;
+
+const OWNERSHIP_COMMANDS: number[] = [
+  CommandType.CLAIM_DEVICE,
+  CommandType.VERIFY_OWNERSHIP,
+  CommandType.UNCLAIM_DEVICE,
+  CommandType.REQUEST_CHALLENGE,
+];
+
+const seedsFor = (target: FuzzTarget): number[] => [
+  ...(regressionSeeds as FuzzRegressionSeed[]).filter(entry => entry.target === target).map(entry => entry.seed),
+  ...fuzzSeeds(DEFAULT_RUNS),
+];
+
+const hex = (bytes: Uint8Array | number[]) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join(' ');
+
+const isByte = (value: number) => Number.isInteger(value) && value >= 0 && value <= 0xff;
+
+/**
+ * Invariants checked after every command; returns the first violation
+ */
+const checkInvariants = (
+  before: MockMicrocontrollerState,
+  after: MockMicrocontrollerState,
+  command: Uint8Array,
+  response: Uint8Array
+): string | null => {
+  if (response.length === 0) {
+    return 'empty response';
+  }
+  try {
+    ProtocolCodec.decodeResponse(response);
+  } catch (error) {
+    return `undecodable response ${hex(response)}: ${(error as Error).message}`;
+  }
+
+  // Config-mode state
+  for (const config of [after.currentConfig, after.pendingConfig]) {
+    const { brightness, speed, effectType, color } = config;
+    if (![brightness, speed, effectType, color.h, color.s, color.v].every(isByte)) {
+      return `config field out of range: ${JSON.stringify(config)}`;
+    }
+  }
+  if (!after.inConfigMode && JSON.stringify(after.pendingConfig) !== JSON.stringify(after.currentConfig)) {
+    return 'pending config differs from the current config outside config mode';
+  }
+  if (command[0] !== CommandType.COMMIT_CONFIG && JSON.stringify(after.currentConfig) !== JSON.stringify(before.currentConfig)) {
+    return 'current config changed without a commit';
+  }
+
+  // Ownership
+  if (after.hasOwner && after.ownerKey.length !== OWNER_KEY_LENGTH) {
+    return `device is owned by a ${after.ownerKey.length}-byte key`;
+  }
+  const locked = before.hasOwner && !before.sessionOwnershipVerified;
+  if (locked && !OWNERSHIP_COMMANDS.includes(command[0]) &&
+      (before.inConfigMode !== after.inConfigMode || JSON.stringify(before.pendingConfig) !== JSON.stringify(after.pendingConfig))) {
+    return 'config changed in a session that has not verified ownership';
+  }
+  // Random traffic never answers a challenge, so a locked device must stay locked
+  if (locked && (!after.hasOwner || JSON.stringify(after.ownerKey) !== JSON.stringify(before.ownerKey))) {
+    return 'owner changed in a session that has not verified ownership';
+  }
+  if (locked && after.sessionOwnershipVerified) {
+    return 'session verified without answering a challenge';
+  }
+
+  return null;
+};
+
+const cloneState = (state: MockMicrocontrollerState): MockMicrocontrollerState => JSON.parse(JSON.stringify(state));
+
+describe('Protocol Fuzzing', () => {
+  describe('MockMicrocontroller command sequences', () => {
+    it.each(seedsFor('commands'))('seed %i should keep every invariant', async seed => {
+      const mock = new MockMicrocontroller({
+        developerUserIds: [MOCK_USER_IDS.developer],
+        testUserIds: [MOCK_USER_IDS.testUser],
+      });
+      if (seed % 2 === 0) {
+        mock.setOwner(FUZZ_OWNER_ID);
+      }
+
+      for (const [step, command] of generateCommandSequence(seed).entries()) {
+        const before = cloneState(mock.getState());
+        const response = await mock.processCommand(command);
+        const violation = checkInvariants(before, cloneState(mock.getState()), command, response);
+
+        expect({ step, command: hex(command), violation }).toEqual({ step, command: hex(command), violation: null });
+      }
+    });
+  });
+
+  describe('BLECommandEncoder.decodeResponse', () => {
+    it.each(seedsFor('responses'))('seed %i should decode or throw a BLEError', seed => {
+      const notification = generateNotification(seed);
+
+      let thrown: unknown = null;
+      try {
+        BLECommandEncoder.decodeResponse(notification);
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown === null || thrown instanceof BLEError ? null : `${hex(notification)}: ${thrown}`).toBeNull();
+    });
+  });
+
+  describe('checkAndParseErrorEnvelope', () => {
+    it.each(seedsFor('errorEnvelopes'))('seed %i should never throw', seed => {
+      const input = generateErrorEnvelopeInput(seed);
+
+      const envelope = checkAndParseErrorEnvelope(input);
+
+      if (envelope !== null) {
+        expect(Number.isFinite(envelope.code)).toBe(true);
+        expect(typeof envelope.message).toBe('string');
+      }
+    });
+  });
+
+  describe('regression seeds', () => {
+    it('should document every kept seed', () => {
+      (regressionSeeds as FuzzRegressionSeed[]).forEach(entry => {
+        expect(['commands', 'responses', 'errorEnvelopes']).toContain(entry.target);
+        expect(entry.note.length).toBeGreaterThan(0);
+      });
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Text Response Parser Tests
+ * Validates the typed parsing of text protocol responses (SETTINGS, STATUS, POWER, DEVICE, EFFECTS)
+ */
+
+import { parseResponse } from '../../../domain/bluetooth/textResponseParser';
+import { BLECommunicationService } from '../../../utils/bleCommunicationService';
+import { RESPONSE_TYPES, POWER_MODES } from '../../../utils/bleConstants';
+import { bluetoothService } from '../../../utils/bluetoothService';
+import { ErrorCode } from '../../../types/errors';
+
+const SETTINGS = 'SETTINGS:BRIGHTNESS:128,PATTERN:2,POWER:1,AUTOOFF:30,MAXEFFECTS:10,SPEED:50,COLOR:FF8000,EFFECT:3,ON:1';
+
+const expectMalformed = (response: string, message: string) => {
+  const parsed = parseResponse(response);
+  expect(parsed.type).toBe(RESPONSE_TYPES.ERROR);
+  if (parsed.type === RESPONSE_TYPES.ERROR) {
+    expect(parsed.error.code).toBe(ErrorCode.UNKNOWN_ERROR);
+    expect(parsed.error.message).toContain(message);
+  }
+};
+
+describe('Text Response Parser', () => {
+  describe('SETTINGS', () => {
+    it('should parse every field, including the color', () => {
+      expect(parseResponse(SETTINGS)).toEqual({
+        type: RESPONSE_TYPES.SETTINGS,
+        data: {
+          brightness: 128,
+          currentPattern: 2,
+          powerMode: POWER_MODES.LOW_POWER,
+          autoOff: 30,
+          maxEffects: 10,
+          speed: 50,
+          color: [255, 128, 0],
+          powerState: true,
+        },
+      });
+    });
+
+    it('should ignore unknown keys', () => {
+      expect(parseResponse(`${SETTINGS},GAMMA:22`).type).toBe(RESPONSE_TYPES.SETTINGS);
+    });
+
+    it('should reject missing, duplicate and out-of-range fields', () => {
+      expectMalformed(SETTINGS.replace(',COLOR:FF8000', ''), 'Malformed SETTINGS response: missing COLOR');
+      expectMalformed(`${SETTINGS},SPEED:10`, 'duplicate field SPEED');
+      expectMalformed(SETTINGS.replace('BRIGHTNESS:128', 'BRIGHTNESS:300'), 'BRIGHTNESS: expected an integer in 0-255');
+      expectMalformed(SETTINGS.replace('POWER:1', 'POWER:9'), 'unknown power mode 9');
+      expectMalformed(SETTINGS.replace('ON:1', 'ON:yes'), 'ON: expected 0 or 1');
+    });
+
+    it('should reject the old comma-separated color', () => {
+      expectMalformed(SETTINGS.replace('COLOR:FF8000', 'COLOR:255,128,0'), 'expected KEY:VALUE, got "128"');
+      expectMalformed(SETTINGS.replace('COLOR:FF8000', 'COLOR:255'), 'COLOR: expected a color as RRGGBB');
+    });
+  });
+
+  describe('STATUS, POWER, DEVICE and EFFECTS', () => {
+    it('should parse a status report', () => {
+      expect(parseResponse('STATUS:CONNECTED:1,BRIGHTNESS:64,PATTERN:0,POWER:2')).toEqual({
+        type: RESPONSE_TYPES.STATUS,
+        data: { connected: true, brightness: 64, pattern: 0, power: POWER_MODES.ECO },
+      });
+    });
+
+    it('should parse power info with a decimal voltage', () => {
+      expect(parseResponse('POWER:BATTERY:85,VOLTAGE:3.92,CURRENT:120,MODE:0')).toEqual({
+        type: RESPONSE_TYPES.POWER,
+        data: { batteryPercent: 85, voltage: 3.92, currentMa: 120, powerMode: POWER_MODES.NORMAL },
+      });
+      expectMalformed('POWER:BATTERY:101,VOLTAGE:3.92,CURRENT:120,MODE:0', 'BATTERY');
+    });
+
+    it('should parse device info with its leading name', () => {
+      expect(parseResponse('DEVICE:LED_GUITAR_001,LEDS:16,BRIGHTNESS:128,PATTERN:0,POWER:0')).toEqual({
+        type: RESPONSE_TYPES.DEVICE,
+        data: { name: 'LED_GUITAR_001', ledCount: 16, brightness: 128, pattern: 0, powerMode: POWER_MODES.NORMAL },
+      });
+      expectMalformed('DEVICE:LEDS:16,BRIGHTNESS:128,PATTERN:0,POWER:0', 'missing device name');
+      expectMalformed('DEVICE:LED_GUITAR_001', 'missing LEDS');
+    });
+
+    it('should parse the effect list', () => {
+      expect(parseResponse('EFFECTS:Solid, Pulse,Rainbow')).toEqual({
+        type: RESPONSE_TYPES.EFFECTS,
+        data: ['Solid', 'Pulse', 'Rainbow'],
+      });
+      expectMalformed('EFFECTS:Solid,,Rainbow', 'empty effect name');
+    });
+  });
+
+  describe('SUCCESS, ERROR and RAW', () => {
+    it('should return device errors as an error envelope', () => {
+      const parsed = parseResponse('ERROR:17:Flash write failed');
+
+      expect(parsed).toEqual({
+        type: RESPONSE_TYPES.ERROR,
+        error: expect.objectContaining({ code: ErrorCode.FLASH_FAILURE, message: 'Flash write failed' }),
+      });
+    });
+
+    it('should reject an error without a code', () => {
+      expectMalformed('ERROR:oops', 'invalid error code');
+    });
+
+    it('should pass SUCCESS messages and unknown responses through', () => {
+      expect(parseResponse('SUCCESS:LED set')).toEqual({ type: RESPONSE_TYPES.SUCCESS, data: 'LED set' });
+      expect(parseResponse('LED_GUITAR_CONTROLLER_v1.0')).toEqual({ type: RESPONSE_TYPES.RAW, data: 'LED_GUITAR_CONTROLLER_v1.0' });
+    });
+  });
+
+  describe('BLECommunicationService', () => {
+    const service = BLECommunicationService.getInstance();
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(bluetoothService, 'sendMessage').mockResolvedValue(null);
+      service.setConnectedDevice({ id: 'device-1', name: 'LED_GUITAR_001', rssi: -50, isConnected: true });
+    });
+
+    afterEach(() => {
+      service.disconnect();
+      jest.restoreAllMocks();
+    });
+
+    it('should return typed settings, power info and device info', async () => {
+      const settings = await service.getSettings();
+      const power = await service.getPowerInfo();
+      const info = await service.getDeviceInfo();
+
+      expect(settings.data?.color).toEqual([255, 255, 255]);
+      expect(power.data?.voltage).toBe(3.92);
+      expect(info.data?.ledCount).toBe(16);
+    });
+
+    it('should fail when the device answers with a different response type', async () => {
+      const result = await service['query']('V', RESPONSE_TYPES.SETTINGS);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Expected a SETTINGS response, got RAW');
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TrafficRecorder, trafficRecorder, TrafficSession } from '../../../domain/bluetooth/trafficRecorder';
+import { Fragmenter } from '../../../domain/bluetooth/fragmentation';
+import { ProtocolCodec } from '../../../domain/bluetooth/protocolCodec';
+import { BLECommandEncoder } from '../../../domain/bluetooth/bleCommandEncoder';
+import { configurationModule } from '../../../domain/bluetooth/configurationModule';
+import { ConfigDomainController } from '../../../domain/config/configDomainController';
+import { bluetoothService } from '../../../utils/bluetoothService';
+import { ResponseType } from '../../../types/commands';
+import { MockBluetoothService } from '../../mocks/MockBluetoothService';
+import { ReplayTransport } from '../../mocks/ReplayTransport';
+
+const loadTrace = (name: string): TrafficSession =>
+  TrafficRecorder.parse(fs.readFileSync(path.join(__dirname, '../../fixtures/traces', name), 'utf8'));
+
+const DEVICE = { id: 'C4:8A:12:3F:9E:01', name: 'LED_GUITAR_001' } as any;
+
+describe('Traffic recording and replay', () => {
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await AsyncStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('TrafficRecorder', () => {
+    it('should only record while a session is running', async () => {
+      trafficRecorder.record('tx', DEVICE.id, new Uint8Array([1]));
+      trafficRecorder.start();
+      trafficRecorder.record('tx', DEVICE.id, new Uint8Array([0x01, 0x00, 0x01]));
+      trafficRecorder.record('rx', DEVICE.id, new Uint8Array([0xab]));
+
+      const session = await trafficRecorder.stop();
+
+      expect(trafficRecorder.isRecording()).toBe(false);
+      expect(session!.records.map(r => [r.direction, r.hex])).toEqual([['tx', '010001'], ['rx', 'ab']]);
+      expect(await trafficRecorder.getSavedSessions()).toEqual([session]);
+    });
+
+    it('should round-trip a session through its file format', async () => {
+      trafficRecorder.start();
+      trafficRecorder.record('rx', DEVICE.id, new Uint8Array([0x92]));
+      const session = (await trafficRecorder.stop())!;
+
+      expect(TrafficRecorder.parse(TrafficRecorder.serialize(session))).toEqual(session);
+    });
+
+    it('should reject malformed session files', () => {
+      expect(() => TrafficRecorder.parse('{"version": 99, "records": []}')).toThrow('unsupported version');
+      expect(() => TrafficRecorder.parse('{"version": 1, "records": [{"t": 0, "direction": "tx", "hex": "0g"}]}'))
+        .toThrow('Invalid hex string');
+      expect(() => TrafficRecorder.parse('not json')).toThrow('Invalid traffic session');
+    });
+  });
+
+  describe('ReplayTransport', () => {
+    it('should replay a live recording, remapping sequence IDs', async () => {
+      const fragmenter = new Fragmenter();
+      trafficRecorder.start();
+      fragmenter.fragment(ProtocolCodec.encodeFrame(BLECommandEncoder.encodeCommitConfig(), 42))
+        .forEach(fragment => trafficRecorder.record('tx', DEVICE.id, fragment));
+      fragmenter.fragment(ProtocolCodec.encodeFrame(new Uint8Array([ResponseType.ACK_COMMIT]), 42))
+        .forEach(fragment => trafficRecorder.record('rx', DEVICE.id, fragment));
+      const replay = new MockBluetoothService().loadSession((await trafficRecorder.stop())!);
+
+      const response = await replay.sendCommand(DEVICE.id, BLECommandEncoder.encodeCommitConfig());
+
+      expect(response.type).toBe(ResponseType.ACK_COMMIT);
+      expect(replay.isComplete()).toBe(true);
+    });
+
+    it('should fail on a command the recording did not send', async () => {
+      const replay = new MockBluetoothService().loadSession(loadTrace('commit-flash-failure.json'));
+
+      await expect(replay.sendCommand(DEVICE.id, BLECommandEncoder.encodeExitConfigMode()))
+        .rejects.toThrow('Replay mismatch: expected 10, got 12');
+    });
+  });
+
+  describe('replaying a bug report trace', () => {
+    let mock: MockBluetoothService;
+    let replay: ReplayTransport;
+    let controller: ConfigDomainController;
+
+    beforeEach(async () => {
+      mock = new MockBluetoothService();
+      replay = mock.loadSession(loadTrace('commit-flash-failure.json'));
+      jest.spyOn(bluetoothService, 'sendCommand').mockImplementation((id, command, timeout) => mock.sendCommand(id, command, timeout));
+      jest.spyOn(bluetoothService, 'isDeviceConnected').mockImplementation(id => mock.isDeviceConnected(id));
+
+      configurationModule.reset();
+      controller = ConfigDomainController.getInstance();
+      await controller.initialize(DEVICE);
+    });
+
+    afterEach(() => {
+      controller.reset();
+    });
+
+    it('should reproduce the failed commit through ConfigDomainController', async () => {
+      const entered = await controller.enterConfigMode();
+      expect(entered.config).toEqual(expect.objectContaining({ brightness: 128, speed: 50, color: [0, 122, 255] }));
+
+      const updated = await controller.updateConfig({ brightness: 200, color: [255, 0, 0] });
+      expect(updated.success).toBe(true);
+
+      const committed = await controller.commitConfig();
+      expect(committed.success).toBe(false);
+      expect(committed.error?.message).toBe('Flash write failed: /config.bin');
+
+      expect((await controller.exitConfigMode()).success).toBe(true);
+      expect(replay.isComplete()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * WebSocket Transport Tests
+ * The app reaches the firmware simulator with the same framed, fragmented bytes it sends over BLE
+ */
+
+import { setBleTransport } from '../../../domain/bluetooth/bleTransport';
+import { BLECommandEncoder as DomainCommandEncoder } from '../../../domain/bluetooth/bleCommandEncoder';
+import { ProtocolCodec, PROTOCOL_VERSION } from '../../../domain/bluetooth/protocolCodec';
+import { ConfigDomainController } from '../../../domain/config/configDomainController';
+import {
+  SIMULATOR_DEVICE_ID,
+  SimulatorSocket,
+  WebSocketBluetoothService,
+} from '../../../simulator/webSocketBluetoothService';
+import { BluetoothDevice } from '../../../types/bluetooth';
+import { BLECommandEncoder } from '../../../utils/bleCommandEncoder';
+import { LoopbackSocket } from '../../mocks/LoopbackSocket';
+import { MockMicrocontroller } from '../../mocks/MockMicrocontroller';
+import { MOCK_USER_IDS } from '../../utils/testFixtures';
+import { settleWithFakeTimers } from '../../utils/testHelpers';
+
+describe('WebSocketBluetoothService', () => {
+  let device: MockMicrocontroller;
+  let sockets: LoopbackSocket[];
+  let service: WebSocketBluetoothService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    device = new MockMicrocontroller();
+    sockets = [];
+    service = new WebSocketBluetoothService('ws://localhost:8765', () => {
+      const socket = new LoopbackSocket(device);
+      sockets.push(socket);
+      return socket;
+    });
+  });
+
+  afterEach(async () => {
+    await service.disconnectDevice(SIMULATOR_DEVICE_ID);
+    setBleTransport(null);
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should list the simulator only when its server answers', async () => {
+    const found: BluetoothDevice[] = [];
+    await service.startScan(d => found.push(d));
+    expect(found.map(d => d.id)).toEqual([SIMULATOR_DEVICE_ID]);
+    expect(sockets[0].readyState).toBe(3); // The probe does not hold the connection
+
+    const offline = new WebSocketBluetoothService('ws://localhost:8765', () => {
+      const refused: SimulatorSocket = {
+        binaryType: 'blob', readyState: 0, onopen: null, onclose: null, onerror: null, onmessage: null,
+        send: () => {}, close: () => {},
+      };
+      Promise.resolve().then(() => refused.onerror?.({}));
+      return refused;
+    });
+    const none: BluetoothDevice[] = [];
+    await settleWithFakeTimers(offline.startScan(d => none.push(d)));
+    expect(none).toEqual([]);
+  });
+
+  it('should send v2 frames in fragments and match replies by sequence ID', async () => {
+    await service.connectToDevice(SIMULATOR_DEVICE_ID);
+
+    const [capabilities, challenge] = await Promise.all([
+      service.sendCommand(SIMULATOR_DEVICE_ID, DomainCommandEncoder.encodeGetCapabilities()),
+      service.sendCommand(SIMULATOR_DEVICE_ID, BLECommandEncoder.encodeRequestChallenge()),
+    ]);
+
+    expect(ProtocolCodec.isCapabilitiesResponse(capabilities)).toBe(true);
+    expect(ProtocolCodec.isChallengeResponse(challenge)).toBe(true);
+    // Fragment header, then a frame header naming the protocol version
+    expect(sockets[0].sent[0][4]).toBe(PROTOCOL_VERSION);
+  });
+
+  it('should run config mode, commit and ownership through the domain layer', async () => {
+    setBleTransport(service);
+    await service.connectToDevice(SIMULATOR_DEVICE_ID);
+    const controller = ConfigDomainController.getInstance();
+    await controller.initialize({ id: SIMULATOR_DEVICE_ID, name: 'Firmware Simulator', rssi: 0, isConnected: true });
+
+    expect((await settleWithFakeTimers(controller.enterConfigMode())).success).toBe(true);
+    expect((await settleWithFakeTimers(controller.updateConfig({ brightness: 64 }))).success).toBe(true);
+    expect((await settleWithFakeTimers(controller.commitConfig())).success).toBe(true);
+    await settleWithFakeTimers(controller.claimDevice(SIMULATOR_DEVICE_ID, MOCK_USER_IDS.user1));
+
+    expect(device.getState().currentConfig.brightness).toBe(64);
+    expect(device.isOwnedBy(MOCK_USER_IDS.user1)).toBe(true);
+    controller.reset();
+  });
+
+  it('should upload analytics and log the session when the connection closes', async () => {
+    device.recordSession(Date.now() - 60000);
+    await service.connectToDevice(SIMULATOR_DEVICE_ID);
+
+    const batch = await service.requestAnalytics(SIMULATOR_DEVICE_ID);
+    expect(batch.sessionCount).toBe(1);
+    await service.confirmAnalytics(SIMULATOR_DEVICE_ID, batch.batchId);
+    expect(device.getState().analytics.hasData).toBe(false);
+
+    await service.disconnectDevice(SIMULATOR_DEVICE_ID);
+    expect(device.getState().analytics.sessionCount).toBe(1);
+  });
+
+  it('should fail pending commands and notify listeners when the server goes away', async () => {
+    const onDisconnected = jest.fn();
+    await service.connectToDevice(SIMULATOR_DEVICE_ID);
+    service.onDisconnection(SIMULATOR_DEVICE_ID, onDisconnected);
+    device.setState({ inConfigMode: true });
+
+    const pending = service.sendCommand(SIMULATOR_DEVICE_ID, BLECommandEncoder.encodeRequestChallenge());
+    sockets[0].onmessage = null; // The reply never arrives
+    sockets[0].drop();
+
+    await expect(pending).rejects.toThrow('Device disconnected');
+    expect(onDisconnected).toHaveBeenCalledWith(SIMULATOR_DEVICE_ID);
+    expect(await service.isDeviceConnected(SIMULATOR_DEVICE_ID)).toBe(false);
+    expect(device.getState().inConfigMode).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+import { WriteCreditGate, selectWriteType } from '../../../domain/bluetooth/writeFlowControl';
+
+describe('Write flow control', () => {
+  describe('selectWriteType', () => {
+    it('should use write-without-response only for unacknowledged frames', () => {
+      const both = { write: true, writeWithoutResponse: true };
+
+      expect(selectWriteType(both, true)).toBe('withResponse');
+      expect(selectWriteType(both, false)).toBe('withoutResponse');
+    });
+
+    it('should fall back to what the characteristic supports', () => {
+      expect(selectWriteType({ write: true, writeWithoutResponse: false }, false)).toBe('withResponse');
+      expect(selectWriteType({ write: false, writeWithoutResponse: true }, true)).toBe('withoutResponse');
+    });
+  });
+
+  describe('WriteCreditGate', () => {
+    it('should hold writes back while the queue is full', async () => {
+      const gate = new WriteCreditGate(2);
+      await gate.acquire();
+      await gate.acquire();
+
+      let acquired = false;
+      const third = gate.acquire().then(() => { acquired = true; });
+      await Promise.resolve();
+      expect(acquired).toBe(false);
+
+      gate.release();
+      await third;
+      expect(acquired).toBe(true);
+      expect(gate.getQueued()).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * LED CLI Tests
+ * Commands run through the domain layer against the firmware simulator, as scripts/led-cli.ts does
+ */
+
+import { setBleTransport } from '../../../domain/bluetooth/bleTransport';
+import { TrafficRecorder, TrafficSession, trafficRecorder } from '../../../domain/bluetooth/trafficRecorder';
+import { CliIo, parseCommandLine, parseScript, parseSettingValue, parseTrace, runCli } from '../../../cli/ledCli';
+import { SIMULATOR_DEVICE_ID, WebSocketBluetoothService } from '../../../simulator/webSocketBluetoothService';
+import { LoopbackSocket } from '../../mocks/LoopbackSocket';
+import { MockMicrocontroller } from '../../mocks/MockMicrocontroller';
+import { MOCK_USER_IDS } from '../../utils/testFixtures';
+import { settleWithFakeTimers } from '../../utils/testHelpers';
+
+describe('LED CLI', () => {
+  let device: MockMicrocontroller;
+  let output: string[];
+  let errors: string[];
+  let files: Record<string, string>;
+
+  const io: CliIo = {
+    out: text => output.push(text),
+    err: text => errors.push(text),
+    readFile: path => {
+      if (!(path in files)) {
+        throw new Error(`ENOENT: ${path}`);
+      }
+      return files[path];
+    },
+  };
+
+  const run = (line: string, userId?: string) =>
+    settleWithFakeTimers(runCli(parseCommandLine(line.split(' ')), {
+      transport: new WebSocketBluetoothService('ws://localhost:8765', () => new LoopbackSocket(device)),
+      deviceId: SIMULATOR_DEVICE_ID,
+      userId,
+      io,
+    }));
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    device = new MockMicrocontroller();
+    output = [];
+    errors = [];
+    files = {};
+  });
+
+  afterEach(() => {
+    setBleTransport(null);
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('parsing', () => {
+    it('should split commands on commas and script lines', () => {
+      expect(parseCommandLine(['set', 'brightness', '80', ',', 'commit'])).toEqual([
+        { name: 'set', args: ['brightness', '80'] },
+        { name: 'commit', args: [] },
+      ]);
+      expect(parseScript('# setup\nset speed 40\n\ncommit  # save\n')).toEqual([
+        { name: 'set', args: ['speed', '40'] },
+        { name: 'commit', args: [] },
+      ]);
+    });
+
+    it('should parse setting values and reject out-of-range ones', () => {
+      expect(parseSettingValue('pattern', '3')).toEqual({ currentPattern: 3 });
+      expect(parseSettingValue('color', '#ff0040')).toEqual({ color: [255, 0, 64] });
+      expect(parseSettingValue('color', '1,2,3')).toEqual({ color: [1, 2, 3] });
+      expect(() => parseSettingValue('brightness', '150')).toThrow('from 0 to 100');
+      expect(() => parseSettingValue('pattern', '12')).toThrow('from 0 to 9');
+      expect(() => parseSettingValue('power-mode', '3')).toThrow('from 0 to 2');
+      expect(() => parseSettingValue('color', '1,2')).toThrow('Invalid color');
+      expect(() => parseSettingValue('volume', '3')).toThrow('Unknown setting');
+    });
+  });
+
+  it('should set, commit and read back settings over one connection', async () => {
+    const code = await run('set brightness 80 , set color 255,0,64 , commit , get-config');
+
+    expect(code).toBe(0);
+    expect(device.getState().currentConfig.brightness).toBe(80);
+    expect(JSON.parse(output[output.length - 1])).toMatchObject({ brightness: 80, color: [255, 0, 64] });
+  });
+
+  it('should reject a brightness the config cache would reset instead of writing it', async () => {
+    const before = device.getState().currentConfig.brightness;
+
+    expect(await run('set brightness 200 , commit')).toBe(1);
+    expect(errors[0]).toContain('from 0 to 100');
+    expect(output).not.toContain('Committed');
+    expect(device.getState().currentConfig.brightness).toBe(before);
+  });
+
+  it('should report status and pull analytics', async () => {
+    device.recordSession(Date.now() - 60000);
+
+    expect(await run('status , pull-analytics')).toBe(0);
+    expect(JSON.parse(output[0]).capabilities.protocolVersion).toBe(2);
+    expect(JSON.parse(output[1]).sessionCount).toBe(1);
+    // The confirmed batch is gone; only the CLI's own connection was logged
+    expect(device.getState().analytics.sessionCount).toBe(1);
+  });
+
+  it('should stop at the first failure and exit non-zero', async () => {
+    expect(await run(`claim ${MOCK_USER_IDS.user1}`)).toBe(0);
+
+    expect(await run('set brightness 10 , commit')).toBe(1);
+    expect(errors[0]).toContain('not the owner');
+    expect(output).not.toContain('Committed');
+
+    expect(await run('set brightness 10 , commit', MOCK_USER_IDS.user1)).toBe(0);
+    expect(device.getState().currentConfig.brightness).toBe(10);
+  });
+
+  describe('replay', () => {
+    const record = async (line: string): Promise<TrafficSession> => {
+      trafficRecorder.start();
+      await run(line);
+      return (await trafficRecorder.stop())!;
+    };
+
+    it('should pass when the device answers as recorded', async () => {
+      const session = await record('set brightness 55 , commit');
+      files['trace.json'] = TrafficRecorder.serialize(session);
+      files['trace.jsonl'] = session.records.map(r => JSON.stringify(r)).join('\n');
+      expect(parseTrace(files['trace.jsonl']).records).toEqual(session.records);
+
+      for (const file of ['trace.json', 'trace.jsonl']) {
+        device = new MockMicrocontroller();
+        output = [];
+        expect(await run(`replay ${file}`)).toBe(0);
+        expect(output.filter(line => line.startsWith('DIFF'))).toEqual([]);
+        expect(device.getState().currentConfig.brightness).toBe(55);
+      }
+    });
+
+    it('should fail when replies differ from the trace', async () => {
+      files['trace.json'] = TrafficRecorder.serialize(await record('set brightness 55 , commit'));
+
+      device = new MockMicrocontroller();
+      await run(`claim ${MOCK_USER_IDS.user2}`); // Now config commands need ownership
+      output = [];
+      errors = [];
+
+      expect(await run('replay trace.json')).toBe(1);
+      expect(output.some(line => line.startsWith('DIFF') && line.includes('NOT_OWNER'))).toBe(true);
+      expect(errors[0]).toContain('differed from the trace');
+    });
+  });
+});
@@ -11,7 +11,7 @@ import {
 describe('ErrorEnvelope', () => {
   describe('parseErrorEnvelope', () => {
     it('should parse binary error envelope correctly', () => {
-      const data = new Uint8Array([0x90, 0x01, 0x49, 0x6e, 0x76, 0x61, 0x6c, 0x69, 0x64]); // [0x90, 0x01, "Invalid"]
+      const data = new Uint8Array([0x93, 0x01, 0x49, 0x6e, 0x76, 0x61, 0x6c, 0x69, 0x64]); // [0x93, 0x01, "Invalid"]
       const result = parseErrorEnvelope(data);
 
       expect(result).not.toBeNull();
@@ -27,7 +27,7 @@ describe('ErrorEnvelope', () => {
     });
 
     it('should return null for insufficient data', () => {
-      const data = new Uint8Array([0x90]); // Only marker
+      const data = new Uint8Array([0x93]); // Only marker
       const result = parseErrorEnvelope(data);
 
       expect(result).toBeNull();
@@ -71,7 +71,7 @@ describe('ErrorEnvelope', () => {
 
   describe('isErrorEnvelope', () => {
     it('should identify binary error envelope', () => {
-      const data = new Uint8Array([0x90, 0x01]);
+      const data = new Uint8Array([0x93, 0x01]);
       expect(isErrorEnvelope(data)).toBe(true);
     });
 
@@ -0,0 +1,89 @@
+/**
+ * Config Changes Tests
+ * Pending changes are reviewed against the last committed config and can be reverted on the device
+ */
+
+import { setBleTransport } from '../../../domain/bluetooth/bleTransport';
+import { describeConfigChanges, formatConfigChange } from '../../../domain/config/configChanges';
+import { configRepository } from '../../../domain/config/configRepository';
+import { ConfigDomainController } from '../../../domain/config/configDomainController';
+import { SIMULATOR_DEVICE_ID, WebSocketBluetoothService } from '../../../simulator/webSocketBluetoothService';
+import { LedPattern } from '../../../types/protocol';
+import { LoopbackSocket } from '../../mocks/LoopbackSocket';
+import { MockMicrocontroller } from '../../mocks/MockMicrocontroller';
+import { settleWithFakeTimers } from '../../utils/testHelpers';
+
+describe('describeConfigChanges', () => {
+  it('should list each changed setting with readable values', () => {
+    const before = { ...configRepository.getDefaultConfig(), brightness: 50, currentPattern: LedPattern.SOLID_WHITE };
+    const after = { ...before, brightness: 80, currentPattern: LedPattern.PULSE, color: [255, 0, 64] as [number, number, number] };
+
+    expect(describeConfigChanges(before, after).map(formatConfigChange)).toEqual([
+      'Effect Solid White → Pulse',
+      'Color #007AFF → #FF0040',
+      'Brightness 50% → 80%',
+    ]);
+    expect(describeConfigChanges(before, { ...before })).toEqual([]);
+  });
+});
+
+describe('ConfigDomainController committed config', () => {
+  let device: MockMicrocontroller;
+  let service: WebSocketBluetoothService;
+  let controller: ConfigDomainController;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    device = new MockMicrocontroller();
+    service = new WebSocketBluetoothService('ws://localhost:8765', () => new LoopbackSocket(device));
+    setBleTransport(service);
+    await service.connectToDevice(SIMULATOR_DEVICE_ID);
+
+    controller = ConfigDomainController.getInstance();
+    await controller.initialize({ id: SIMULATOR_DEVICE_ID, name: 'Firmware Simulator', rssi: 0, isConnected: true });
+    expect((await settleWithFakeTimers(controller.enterConfigMode())).success).toBe(true);
+  });
+
+  afterEach(async () => {
+    controller.reset();
+    await service.disconnectDevice(SIMULATOR_DEVICE_ID);
+    setBleTransport(null);
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should diff edits against what the device reported and clear after a commit', async () => {
+    const committed = controller.getCommittedConfig()!;
+    expect(committed.brightness).toBe(device.getState().currentConfig.brightness);
+    expect(controller.hasUnsavedChanges()).toBe(false);
+
+    await settleWithFakeTimers(controller.updateConfig({ brightness: 80, speed: 60 }));
+    expect(controller.getPendingChanges().map(formatConfigChange)).toEqual([
+      `Brightness ${committed.brightness}% → 80%`,
+      `Speed ${committed.speed}% → 60%`,
+    ]);
+
+    // Editing back to the committed value is not a change
+    await settleWithFakeTimers(controller.updateConfig({ speed: committed.speed }));
+    expect(controller.getPendingChanges().map(change => change.setting)).toEqual(['brightness']);
+
+    expect((await settleWithFakeTimers(controller.commitConfig())).success).toBe(true);
+    expect(controller.getCommittedConfig()!.brightness).toBe(80);
+    expect(controller.hasUnsavedChanges()).toBe(false);
+  });
+
+  it('should push the committed values back to the device on revert', async () => {
+    const committed = controller.getCommittedConfig()!;
+    await settleWithFakeTimers(controller.updateConfig({ brightness: 90, color: [0, 255, 0] }));
+    expect(device.getState().pendingConfig.brightness).toBe(90);
+
+    expect((await settleWithFakeTimers(controller.revertToCommitted())).success).toBe(true);
+
+    expect(device.getState().pendingConfig.brightness).toBe(committed.brightness);
+    expect(controller.getCurrentConfig()).toEqual(committed);
+    expect(controller.getPendingChanges()).toEqual([]);
+    expect(controller.getHistoryState().canUndo).toBe(true); // The revert can be undone
+  });
+});
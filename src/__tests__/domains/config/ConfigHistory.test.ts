@@ -0,0 +1,141 @@
+/**
+ * Config History Tests
+ * Undo/redo steps are config deltas; a slider drag is one step, and undo reaches the device
+ */
+
+import { setBleTransport } from '../../../domain/bluetooth/bleTransport';
+import { ConfigHistory } from '../../../domain/config/configHistory';
+import { configRepository } from '../../../domain/config/configRepository';
+import { ConfigDomainController } from '../../../domain/config/configDomainController';
+import { SIMULATOR_DEVICE_ID, WebSocketBluetoothService } from '../../../simulator/webSocketBluetoothService';
+import { DeviceSettings } from '../../../utils/bleConstants';
+import { LoopbackSocket } from '../../mocks/LoopbackSocket';
+import { MockMicrocontroller } from '../../mocks/MockMicrocontroller';
+import { settleWithFakeTimers } from '../../utils/testHelpers';
+
+const config = (overrides: Partial<DeviceSettings> = {}): DeviceSettings => ({
+  ...configRepository.getDefaultConfig(),
+  ...overrides,
+});
+
+describe('ConfigHistory', () => {
+  it('should store each edit as the changed settings in both directions', () => {
+    const history = new ConfigHistory();
+    history.record(config({ brightness: 50 }), config({ brightness: 80, powerState: true }));
+
+    expect(history.peekUndo()).toEqual({
+      undo: { brightness: 50, powerState: false },
+      redo: { brightness: 80, powerState: true },
+    });
+  });
+
+  it('should collapse a group into one step and drop a group that changed nothing', () => {
+    const history = new ConfigHistory();
+
+    history.beginGroup();
+    [60, 70, 80].reduce((previous, brightness) => {
+      history.record(config({ brightness: previous }), config({ brightness }));
+      return brightness;
+    }, 50);
+    history.endGroup();
+    expect(history.peekUndo()).toEqual({ undo: { brightness: 50 }, redo: { brightness: 80 } });
+
+    history.markUndone();
+    history.beginGroup();
+    history.record(config({ speed: 30 }), config({ speed: 40 }));
+    history.record(config({ speed: 40 }), config({ speed: 30 }));
+    history.endGroup();
+    expect(history.getState()).toEqual({ canUndo: false, canRedo: true });
+  });
+
+  it('should keep only the newest steps and clear redo on a new edit', () => {
+    const history = new ConfigHistory(configRepository, 3);
+    const listener = jest.fn();
+    history.subscribe(listener);
+
+    for (let brightness = 1; brightness <= 5; brightness++) {
+      history.record(config({ brightness: brightness - 1 }), config({ brightness }));
+    }
+    let undone = 0;
+    while (history.peekUndo()) {
+      history.markUndone();
+      undone++;
+    }
+    expect(undone).toBe(3);
+
+    history.record(config(), config({ speed: 99 }));
+    expect(history.getState()).toEqual({ canUndo: true, canRedo: false });
+    expect(listener).toHaveBeenLastCalledWith({ canUndo: true, canRedo: false });
+  });
+});
+
+describe('ConfigDomainController undo/redo', () => {
+  let device: MockMicrocontroller;
+  let service: WebSocketBluetoothService;
+  let controller: ConfigDomainController;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    device = new MockMicrocontroller();
+    service = new WebSocketBluetoothService('ws://localhost:8765', () => new LoopbackSocket(device));
+    setBleTransport(service);
+    await service.connectToDevice(SIMULATOR_DEVICE_ID);
+
+    controller = ConfigDomainController.getInstance();
+    await controller.initialize({ id: SIMULATOR_DEVICE_ID, name: 'Firmware Simulator', rssi: 0, isConnected: true });
+    expect((await settleWithFakeTimers(controller.enterConfigMode())).success).toBe(true);
+  });
+
+  afterEach(async () => {
+    controller.reset();
+    await service.disconnectDevice(SIMULATOR_DEVICE_ID);
+    setBleTransport(null);
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should undo a whole slider drag in one step and push it to the device', async () => {
+    const start = controller.getCurrentConfig()!.brightness;
+
+    for (let brightness = start + 1; brightness <= start + 30; brightness++) {
+      controller.updateConfigLive({ brightness });
+      await jest.advanceTimersByTimeAsync(10);
+    }
+    await settleWithFakeTimers(controller.flushLiveUpdates());
+    expect(device.getState().pendingConfig.brightness).toBe(start + 30);
+
+    expect((await settleWithFakeTimers(controller.undo())).success).toBe(true);
+    expect(controller.getCurrentConfig()!.brightness).toBe(start);
+    expect(device.getState().pendingConfig.brightness).toBe(start);
+    expect(controller.getHistoryState()).toEqual({ canUndo: false, canRedo: true });
+
+    expect((await settleWithFakeTimers(controller.redo())).success).toBe(true);
+    expect(device.getState().pendingConfig.brightness).toBe(start + 30);
+  });
+
+  it('should step back through separate edits and keep a step the device rejects', async () => {
+    await settleWithFakeTimers(controller.updateConfig({ speed: 40 }));
+    await settleWithFakeTimers(controller.updateConfig({ color: [255, 0, 0] }));
+
+    await settleWithFakeTimers(controller.undo());
+    expect(controller.getCurrentConfig()).toMatchObject({ speed: 40 });
+    expect(controller.getCurrentConfig()!.color).not.toEqual([255, 0, 0]);
+
+    await service.disconnectDevice(SIMULATOR_DEVICE_ID); // The next undo cannot reach the device
+    const result = await settleWithFakeTimers(controller.undo());
+    expect(result.success).toBe(false);
+    expect(controller.getCurrentConfig()!.speed).toBe(40);
+    expect(controller.getHistoryState().canUndo).toBe(true);
+  });
+
+  it('should start each config session with an empty history', async () => {
+    await settleWithFakeTimers(controller.updateConfig({ speed: 40 }));
+    expect(controller.getHistoryState().canUndo).toBe(true);
+
+    await settleWithFakeTimers(controller.exitConfigMode());
+    expect(controller.getHistoryState()).toEqual({ canUndo: false, canRedo: false });
+    expect((await controller.undo()).error?.message).toBe('Nothing to undo');
+  });
+});
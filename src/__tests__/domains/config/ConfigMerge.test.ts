@@ -0,0 +1,166 @@
+/**
+ * Config Merge Tests
+ * A commit based on an old config revision is refused and offered as a three-way merge
+ */
+
+import { BLECommandEncoder } from '../../../domain/bluetooth/bleCommandEncoder';
+import { setBleTransport } from '../../../domain/bluetooth/bleTransport';
+import { ConfigConflict, describeConfigMerge, mergeConfigs } from '../../../domain/config/configMerge';
+import { configRepository } from '../../../domain/config/configRepository';
+import { ConfigDomainController } from '../../../domain/config/configDomainController';
+import { SIMULATOR_DEVICE_ID, WebSocketBluetoothService } from '../../../simulator/webSocketBluetoothService';
+import { ErrorCode, ResponseType } from '../../../types/protocol';
+import { DeviceSettings } from '../../../utils/bleConstants';
+import { LoopbackSocket } from '../../mocks/LoopbackSocket';
+import { MockMicrocontroller } from '../../mocks/MockMicrocontroller';
+import { settleWithFakeTimers } from '../../utils/testHelpers';
+
+const config = (overrides: Partial<DeviceSettings> = {}): DeviceSettings => ({
+  ...configRepository.getDefaultConfig(),
+  brightness: 50,
+  speed: 30,
+  ...overrides,
+});
+
+describe('describeConfigMerge', () => {
+  const conflict: ConfigConflict = {
+    base: config(),
+    theirs: config({ brightness: 30, speed: 70 }),
+    ours: config({ brightness: 80, autoOff: 10 }),
+    revision: 4,
+  };
+
+  it('should take each side\'s own changes and flag settings both sides changed', () => {
+    expect(describeConfigMerge(conflict).map(({ setting, conflicting, side }) => ({ setting, conflicting, side }))).toEqual([
+      { setting: 'brightness', conflicting: true, side: 'ours' },
+      { setting: 'speed', conflicting: false, side: 'theirs' },
+      { setting: 'autoOff', conflicting: false, side: 'ours' },
+    ]);
+    expect(mergeConfigs(conflict)).toEqual(config({ brightness: 80, speed: 70, autoOff: 10 }));
+    expect(mergeConfigs(conflict, { brightness: 'theirs' })).toEqual(config({ brightness: 30, speed: 70, autoOff: 10 }));
+  });
+
+  it('should not flag a setting both sides changed the same way', () => {
+    const same = { ...conflict, ours: config({ brightness: 30 }) };
+    expect(describeConfigMerge(same)[0]).toMatchObject({ setting: 'brightness', conflicting: false, theirs: '30%', ours: '30%' });
+  });
+});
+
+describe('ConfigDomainController stale commit', () => {
+  let device: MockMicrocontroller;
+  let service: WebSocketBluetoothService;
+  let controller: ConfigDomainController;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    device = new MockMicrocontroller();
+    device.setState({ revision: 7 });
+    service = new WebSocketBluetoothService('ws://localhost:8765', () => new LoopbackSocket(device));
+    setBleTransport(service);
+    await service.connectToDevice(SIMULATOR_DEVICE_ID);
+
+    controller = ConfigDomainController.getInstance();
+    await controller.initialize({ id: SIMULATOR_DEVICE_ID, name: 'Firmware Simulator', rssi: 0, isConnected: true });
+    expect((await settleWithFakeTimers(controller.enterConfigMode())).success).toBe(true);
+  });
+
+  afterEach(async () => {
+    controller.reset();
+    await service.disconnectDevice(SIMULATOR_DEVICE_ID);
+    setBleTransport(null);
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * A bandmate's phone commits a brightness change
+   */
+  const commitFromAnotherPhone = (brightness: number) => {
+    const { currentConfig, revision } = device.getState();
+    device.setState({ currentConfig: { ...currentConfig, brightness }, revision: revision + 1 });
+  };
+
+  it('should commit normally when nobody else changed the device', async () => {
+    await settleWithFakeTimers(controller.updateConfig({ brightness: 80 }));
+
+    expect(await settleWithFakeTimers(controller.commitConfig())).toEqual({ success: true, verified: true });
+    expect(device.getState().revision).toBe(8);
+
+    // The next commit is based on the revision just written
+    await settleWithFakeTimers(controller.updateConfig({ speed: 60 }));
+    expect((await settleWithFakeTimers(controller.commitConfig())).success).toBe(true);
+    expect(device.getState().revision).toBe(9);
+  });
+
+  it('should keep the revision when a commit changes nothing', async () => {
+    expect((await settleWithFakeTimers(controller.commitConfig())).success).toBe(true);
+    expect(device.getState().revision).toBe(7);
+  });
+
+  it('should not count claiming the device during a session as a change to the config', async () => {
+    await settleWithFakeTimers(controller.updateConfig({ brightness: 80 }));
+    await settleWithFakeTimers(controller.claimDevice(SIMULATOR_DEVICE_ID, 'user-1'));
+    expect(device.getState().hasOwner).toBe(true);
+
+    expect(await settleWithFakeTimers(controller.commitConfig())).toEqual({ success: true, verified: true });
+    expect(device.getState().revision).toBe(8);
+  });
+
+  it('should refuse to overwrite their changes and commit the merge', async () => {
+    const base = controller.getCommittedConfig()!;
+    await settleWithFakeTimers(controller.updateConfig({ brightness: 80, speed: 60 }));
+    commitFromAnotherPhone(20);
+
+    const result = await settleWithFakeTimers(controller.commitConfig());
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ErrorCode.STALE_REVISION);
+    expect(result.conflict).toMatchObject({
+      base: { brightness: base.brightness, speed: base.speed },
+      theirs: { brightness: 20, speed: base.speed },
+      ours: { brightness: 80, speed: 60 },
+      revision: 8,
+    });
+    expect(device.getState().currentConfig.brightness).toBe(20);
+
+    const merged = mergeConfigs(result.conflict!, { brightness: 'theirs' });
+    expect((await settleWithFakeTimers(controller.resolveConflict(merged))).success).toBe(true);
+
+    expect(device.getState().currentConfig).toMatchObject({ brightness: 20, speed: 60 });
+    expect(device.getState().revision).toBe(9);
+    expect(controller.getCurrentConfig()).toMatchObject({ brightness: 20, speed: 60 });
+    expect(controller.hasUnsavedChanges()).toBe(false);
+  });
+
+  it('should put the device back in config mode before committing the merge', async () => {
+    await settleWithFakeTimers(controller.updateConfig({ brightness: 80, speed: 60 }));
+    commitFromAnotherPhone(20);
+    const { conflict } = await settleWithFakeTimers(controller.commitConfig());
+
+    // The guitar left config mode while the merge was prepared; the firmware refuses a commit then
+    device.setState({ inConfigMode: false });
+    const commit = await device.processCommand(BLECommandEncoder.encodeCommitConfig(8));
+    expect(Array.from(commit)).toEqual([ResponseType.ACK_ERROR, ErrorCode.INVALID_COMMAND]);
+
+    const result = await settleWithFakeTimers(controller.resolveConflict(mergeConfigs(conflict!, { brightness: 'ours' })));
+
+    expect(result.success).toBe(true);
+    expect(device.getState().currentConfig).toMatchObject({ brightness: 80, speed: 60 });
+    expect(device.getState().revision).toBe(9);
+  });
+
+  it('should report a new conflict when the device was committed again during the merge', async () => {
+    await settleWithFakeTimers(controller.updateConfig({ brightness: 80 }));
+    commitFromAnotherPhone(20);
+    const { conflict } = await settleWithFakeTimers(controller.commitConfig());
+    commitFromAnotherPhone(30);
+
+    const result = await settleWithFakeTimers(controller.resolveConflict(mergeConfigs(conflict!, { brightness: 'ours' })));
+
+    expect(result.error?.code).toBe(ErrorCode.STALE_REVISION);
+    expect(result.conflict).toMatchObject({ base: { brightness: 20 }, theirs: { brightness: 30 }, revision: 9 });
+    expect(device.getState().currentConfig.brightness).toBe(30);
+  });
+});
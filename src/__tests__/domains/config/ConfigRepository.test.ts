@@ -0,0 +1,93 @@
+/**
+ * Config Repository Tests
+ * Each device keeps its own cached config, and configs cached by older builds are converted on load
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configRepository } from '../../../domain/config/configRepository';
+import { ConfigDomainController } from '../../../domain/config/configDomainController';
+import { EffectType } from '../../../types/config';
+import { LedPattern } from '../../../types/protocol';
+
+const guitar = (id: string) => ({ id, name: `Guitar ${id}`, rssi: 0, isConnected: true });
+
+describe('ConfigRepository', () => {
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'info').mockImplementation(() => {});
+    await AsyncStorage.clear();
+  });
+
+  afterEach(() => {
+    configRepository.releaseDevice();
+    jest.restoreAllMocks();
+  });
+
+  it('should keep a separate cached config for each device', async () => {
+    await configRepository.loadCachedConfig('guitar-a');
+    await configRepository.saveCachedConfig({ ...configRepository.getDefaultConfig(), brightness: 80 });
+    configRepository.updateCachedConfig({ speed: 70 });
+
+    expect(await configRepository.loadCachedConfig('guitar-b')).toBeNull();
+    expect(configRepository.getCachedConfig()).toBeNull();
+    expect(configRepository.hasUnsavedChanges()).toBe(false);
+
+    expect((await configRepository.loadCachedConfig('guitar-a'))!.brightness).toBe(80);
+    expect(configRepository.getActiveDeviceId()).toBe('guitar-a');
+  });
+
+  it('should convert a legacy per-device LEDConfig, including an HSV color', async () => {
+    await AsyncStorage.setItem('led_config_guitar-a', JSON.stringify({
+      brightness: 60,
+      speed: 40,
+      color: { h: 0, s: 255, v: 255 },
+      effectType: EffectType.STROBE,
+      powerState: true,
+    }));
+
+    const config = await configRepository.loadCachedConfig('guitar-a');
+    expect(config).toMatchObject({
+      brightness: 60,
+      speed: 40,
+      color: [255, 0, 0],
+      currentPattern: LedPattern.STROBE,
+      powerState: true,
+    });
+    expect(config).not.toHaveProperty('effectType');
+    expect(await AsyncStorage.getItem('led_config_guitar-a')).toBeNull();
+    expect(JSON.parse((await AsyncStorage.getItem('@led_guitar:config_cache:guitar-a'))!)).toEqual(config);
+  });
+
+  it('should drop the legacy global cache instead of showing it for another device', async () => {
+    await AsyncStorage.setItem('@led_guitar:config_cache', JSON.stringify({ ...configRepository.getDefaultConfig(), brightness: 90 }));
+
+    expect(await configRepository.loadCachedConfig('guitar-b')).toBeNull();
+    expect(await AsyncStorage.getItem('@led_guitar:config_cache')).toBeNull();
+  });
+});
+
+describe('ConfigDomainController device switching', () => {
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await AsyncStorage.clear();
+  });
+
+  afterEach(() => {
+    ConfigDomainController.getInstance().reset();
+    jest.restoreAllMocks();
+  });
+
+  it('should load the cached config of the device being initialized', async () => {
+    const controller = ConfigDomainController.getInstance();
+    await controller.initialize(guitar('guitar-a'));
+    await configRepository.saveCachedConfig({ ...configRepository.getDefaultConfig(), brightness: 80 });
+    controller.reset();
+
+    await controller.initialize(guitar('guitar-b'));
+    expect(configRepository.getCachedConfig()!.brightness).toBe(configRepository.getDefaultConfig().brightness);
+    controller.reset();
+
+    await controller.initialize(guitar('guitar-a'));
+    expect(configRepository.getCachedConfig()!.brightness).toBe(80);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Live Drift Tests
+ * Sync points read the staged settings back and correct what drifted on the device
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { setBleTransport } from '../../../domain/bluetooth/bleTransport';
+import { ConfigDomainController } from '../../../domain/config/configDomainController';
+import { SIMULATOR_DEVICE_ID, WebSocketBluetoothService } from '../../../simulator/webSocketBluetoothService';
+import { CommandType } from '../../../types/protocol';
+import { LoopbackSocket } from '../../mocks/LoopbackSocket';
+import { MockMicrocontroller } from '../../mocks/MockMicrocontroller';
+import { settleWithFakeTimers } from '../../utils/testHelpers';
+
+const GUITAR = { id: SIMULATOR_DEVICE_ID, name: 'Firmware Simulator', rssi: 0, isConnected: true };
+
+describe('ConfigDomainController live sync points', () => {
+  let device: MockMicrocontroller;
+  let service: WebSocketBluetoothService;
+  let controller: ConfigDomainController;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await AsyncStorage.clear();
+    device = new MockMicrocontroller();
+    service = new WebSocketBluetoothService('ws://localhost:8765', () => new LoopbackSocket(device));
+    setBleTransport(service);
+    controller = ConfigDomainController.getInstance();
+
+    await service.connectToDevice(SIMULATOR_DEVICE_ID);
+    await controller.initialize(GUITAR);
+    expect((await settleWithFakeTimers(controller.enterConfigMode())).success).toBe(true);
+  });
+
+  afterEach(async () => {
+    controller.reset();
+    await service.disconnectDevice(SIMULATOR_DEVICE_ID);
+    setBleTransport(null);
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should restore a setting that changed on the device during a drag', async () => {
+    const brightness = controller.getCurrentConfig()!.brightness;
+    controller.updateConfigLive({ speed: 20 });
+    await jest.advanceTimersByTimeAsync(300);
+
+    // The guitar changes brightness on its own; the drag never touches it
+    const { pendingConfig } = device.getState();
+    device.setState({ pendingConfig: { ...pendingConfig, brightness: brightness === 10 ? 90 : 10 } });
+    controller.updateConfigLive({ speed: 25 });
+
+    expect(await settleWithFakeTimers(controller.flushLiveUpdates())).toEqual({ success: true });
+    expect(device.getState().pendingConfig).toMatchObject({ brightness, speed: 25 });
+  });
+
+  it('should not re-send anything when the device holds what the app shows', async () => {
+    const sendCommand = jest.spyOn(service, 'sendCommand');
+    controller.updateConfigLive({ speed: 20 });
+
+    expect(await settleWithFakeTimers(controller.flushLiveUpdates())).toEqual({ success: true });
+    // The sync point's batch, then the read back
+    expect(sendCommand.mock.calls.map(([, command]) => command[0])).toEqual([CommandType.UPDATE_BATCH, CommandType.READ_CONFIG]);
+  });
+});
@@ -0,0 +1,212 @@
+import { LiveUpdateChannel, MIN_LIVE_INTERVAL_MS, MAX_LIVE_INTERVAL_MS, SYNC_EVERY_SENDS, SYNC_INTERVAL_MS } from '../../../domain/config/liveUpdateChannel';
+import { ConfigUpdateResult } from '../../../domain/config/configDomainController';
+import { DeviceSettings } from '../../../utils/bleConstants';
+import { ErrorCode } from '../../../types/errors';
+
+/**
+ * Sender that answers after a fixed round-trip time
+ */
+const createSender = (rttMs: number) => {
+  const sent: Partial<DeviceSettings>[] = [];
+  const send = jest.fn((updates: Partial<DeviceSettings>) => {
+    sent.push(updates);
+    return new Promise<ConfigUpdateResult>(resolve => setTimeout(() => resolve({ success: true }), rttMs));
+  });
+  return { sent, send };
+};
+
+describe('LiveUpdateChannel', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should keep only the newest value of each setting while a send is in flight', async () => {
+    const { sent, send } = createSender(60);
+    const channel = new LiveUpdateChannel(send);
+
+    channel.push({ brightness: 10 });
+    await jest.advanceTimersByTimeAsync(0);
+    for (let brightness = 11; brightness <= 50; brightness++) {
+      channel.push({ brightness });
+    }
+    channel.push({ speed: 30 });
+    await jest.advanceTimersByTimeAsync(200);
+
+    expect(sent).toEqual([{ brightness: 10 }, { brightness: 50, speed: 30 }]);
+  });
+
+  it('should space sends by the measured round-trip time', async () => {
+    let rttMs = 120;
+    const send = jest.fn(() => new Promise<ConfigUpdateResult>(resolve => setTimeout(() => resolve({ success: true }), rttMs)));
+    const channel = new LiveUpdateChannel(send);
+
+    for (let i = 0; i < 4; i++) {
+      channel.push({ brightness: i });
+      await jest.advanceTimersByTimeAsync(channel.getSendInterval());
+      await jest.advanceTimersByTimeAsync(rttMs);
+    }
+    expect(channel.getRoundTripTime()).toBeGreaterThan(90);
+    expect(channel.getSendInterval()).toBe(Math.round(channel.getRoundTripTime()));
+
+    // A reply that comes back early does not let the next value go out sooner
+    rttMs = 10;
+    send.mockClear();
+    channel.push({ brightness: 98 });
+    await jest.advanceTimersByTimeAsync(0);
+    await jest.advanceTimersByTimeAsync(rttMs);
+    channel.push({ brightness: 99 });
+    await jest.advanceTimersByTimeAsync(MIN_LIVE_INTERVAL_MS);
+    expect(send).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(channel.getSendInterval());
+    expect(send).toHaveBeenLastCalledWith({ brightness: 99 });
+  });
+
+  it('should clamp the send interval', async () => {
+    const { send } = createSender(5000);
+    const channel = new LiveUpdateChannel(send);
+
+    channel.push({ speed: 1 });
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(channel.getSendInterval()).toBe(MAX_LIVE_INTERVAL_MS);
+  });
+
+  it('should flush the final value without waiting for the interval', async () => {
+    const { sent, send } = createSender(40);
+    const channel = new LiveUpdateChannel(send);
+
+    channel.push({ brightness: 10 });
+    await jest.advanceTimersByTimeAsync(0);
+    channel.push({ brightness: 20 });
+    channel.push({ brightness: 30 });
+
+    const flushed = channel.flush();
+    await jest.advanceTimersByTimeAsync(80);
+
+    await expect(flushed).resolves.toEqual({ success: true });
+    expect(sent).toEqual([{ brightness: 10 }, { brightness: 30 }]);
+  });
+
+  it('should report a failed final send from flush', async () => {
+    const channel = new LiveUpdateChannel(jest.fn().mockRejectedValue(new Error('Device not connected')));
+
+    channel.push({ brightness: 10 });
+    const result = await channel.flush();
+
+    expect(result.success).toBe(false);
+    expect(result.error).toEqual(expect.objectContaining({ code: ErrorCode.UNKNOWN_ERROR, message: 'Device not connected' }));
+  });
+
+  it('should drop pending values on cancel', async () => {
+    const { send } = createSender(40);
+    const channel = new LiveUpdateChannel(send);
+
+    channel.push({ brightness: 10 });
+    channel.cancel();
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  describe('with fire-and-forget previews', () => {
+    const drag = async (channel: LiveUpdateChannel, values: number, stepMs: number) => {
+      for (let brightness = 1; brightness <= values; brightness++) {
+        channel.push({ brightness });
+        await jest.advanceTimersByTimeAsync(stepMs);
+      }
+    };
+
+    it('should send an acknowledged sync point every few previews', async () => {
+      const { sent, send } = createSender(5);
+      const previews: Partial<DeviceSettings>[] = [];
+      const channel = new LiveUpdateChannel(send, async updates => { previews.push(updates); });
+
+      // 100ms per value keeps the whole drag under SYNC_INTERVAL_MS
+      await drag(channel, 1 + SYNC_EVERY_SENDS, 100);
+
+      // The first send syncs, then SYNC_EVERY_SENDS - 1 previews, then the next sync
+      expect(sent).toEqual([{ brightness: 1 }, { brightness: 1 + SYNC_EVERY_SENDS }]);
+      expect(previews).toHaveLength(SYNC_EVERY_SENDS - 1);
+    });
+
+    it('should send a sync point after SYNC_INTERVAL_MS even with few previews', async () => {
+      const { sent, send } = createSender(5);
+      const channel = new LiveUpdateChannel(send, async () => {});
+
+      await drag(channel, 5, SYNC_INTERVAL_MS / 4);
+
+      expect(sent).toEqual([{ brightness: 1 }, { brightness: 5 }]);
+    });
+
+    it('should end a flush with a sync point that carries every previewed setting', async () => {
+      const { sent, send } = createSender(5);
+      const channel = new LiveUpdateChannel(send, async () => {});
+
+      channel.push({ brightness: 1 });
+      await jest.advanceTimersByTimeAsync(MAX_LIVE_INTERVAL_MS);
+      channel.push({ speed: 40 });
+      await jest.advanceTimersByTimeAsync(MAX_LIVE_INTERVAL_MS);
+      channel.push({ brightness: 2 });
+      await jest.advanceTimersByTimeAsync(MAX_LIVE_INTERVAL_MS);
+
+      const flushed = channel.flush();
+      await jest.advanceTimersByTimeAsync(5);
+
+      await expect(flushed).resolves.toEqual({ success: true });
+      expect(sent).toEqual([{ brightness: 1 }, { speed: 40, brightness: 2 }]);
+    });
+
+    it('should correct a dropped preview at the next sync point', async () => {
+      const { sent, send } = createSender(5);
+      const preview = jest.fn().mockRejectedValueOnce(new Error('Send failed')).mockResolvedValue(undefined);
+      const channel = new LiveUpdateChannel(send, preview);
+
+      channel.push({ brightness: 1 });
+      await jest.advanceTimersByTimeAsync(MAX_LIVE_INTERVAL_MS);
+      channel.push({ speed: 10 });
+      await jest.advanceTimersByTimeAsync(MAX_LIVE_INTERVAL_MS);
+
+      const flushed = channel.flush();
+      await jest.advanceTimersByTimeAsync(5);
+
+      await expect(flushed).resolves.toEqual({ success: true });
+      expect(sent).toEqual([{ brightness: 1 }, { speed: 10 }]);
+    });
+
+    it('should check for drift after each sync point and report what the check found', async () => {
+      const { send } = createSender(5);
+      const failed: ConfigUpdateResult = {
+        success: false,
+        error: { code: ErrorCode.UNKNOWN_ERROR, message: 'Re-send failed', timestamp: 0 },
+      };
+      const checkSync = jest.fn().mockResolvedValueOnce({ success: true }).mockResolvedValueOnce(failed);
+      const channel = new LiveUpdateChannel(send, async () => {}, checkSync);
+
+      channel.push({ brightness: 1 });
+      await jest.advanceTimersByTimeAsync(MAX_LIVE_INTERVAL_MS);
+      channel.push({ brightness: 2 }); // A preview, which is not checked
+      await jest.advanceTimersByTimeAsync(MAX_LIVE_INTERVAL_MS);
+      expect(checkSync).toHaveBeenCalledTimes(1);
+
+      const flushed = channel.flush();
+      await jest.advanceTimersByTimeAsync(5);
+
+      await expect(flushed).resolves.toEqual(failed);
+      expect(checkSync).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not check a sync point that was queued for later', async () => {
+      const checkSync = jest.fn();
+      const channel = new LiveUpdateChannel(async () => ({ success: true, queued: true }), async () => {}, checkSync);
+
+      channel.push({ brightness: 1 });
+      await expect(channel.flush()).resolves.toEqual({ success: true, queued: true });
+
+      expect(checkSync).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Offline Edits Tests
+ * Edits made while the guitar is out of reach are queued, kept across restarts and replayed on
+ * reconnect as one net update
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { setBleTransport } from '../../../domain/bluetooth/bleTransport';
+import { formatConfigChange } from '../../../domain/config/configChanges';
+import { ConfigDomainController } from '../../../domain/config/configDomainController';
+import { appStorage } from '../../../domain/storage/appStorage';
+import { STORAGE_KEYS } from '../../../domain/storage/storageKeys';
+import { SIMULATOR_DEVICE_ID, WebSocketBluetoothService } from '../../../simulator/webSocketBluetoothService';
+import { DEFAULT_DEVICE_CAPABILITIES, DeviceCapabilities } from '../../../types/capabilities';
+import { ErrorCode } from '../../../types/errors';
+import { LoopbackSocket } from '../../mocks/LoopbackSocket';
+import { MockMicrocontroller } from '../../mocks/MockMicrocontroller';
+import { settleWithFakeTimers } from '../../utils/testHelpers';
+
+const GUITAR = { id: SIMULATOR_DEVICE_ID, name: 'Firmware Simulator', rssi: 0, isConnected: true };
+
+describe('ConfigDomainController offline edits', () => {
+  let device: MockMicrocontroller;
+  let service: WebSocketBluetoothService;
+  let controller: ConfigDomainController;
+
+  // Connect to a freshly powered-on guitar, as the config screen does
+  const connect = async (capabilities?: DeviceCapabilities) => {
+    device = new MockMicrocontroller({ capabilities });
+    await service.connectToDevice(SIMULATOR_DEVICE_ID);
+    await controller.initialize(GUITAR);
+    const result = await settleWithFakeTimers(controller.enterConfigMode());
+    expect(result.success).toBe(true);
+    return result;
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await AsyncStorage.clear();
+    service = new WebSocketBluetoothService('ws://localhost:8765', () => new LoopbackSocket(device));
+    setBleTransport(service);
+    controller = ConfigDomainController.getInstance();
+  });
+
+  afterEach(async () => {
+    controller.reset();
+    await service.disconnectDevice(SIMULATOR_DEVICE_ID);
+    setBleTransport(null);
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should queue edits made after the guitar drops out and replay their net change', async () => {
+    await connect();
+    const start = controller.getCurrentConfig()!;
+    await service.disconnectDevice(SIMULATOR_DEVICE_ID);
+
+    expect(await settleWithFakeTimers(controller.updateConfig({ brightness: 60 }))).toEqual({ success: true, queued: true });
+    await settleWithFakeTimers(controller.updateConfig({ brightness: 70, speed: 40 }));
+    await settleWithFakeTimers(controller.updateConfig({ speed: start.speed })); // Back where it was
+    expect(controller.getCurrentConfig()).toMatchObject({ brightness: 70, speed: start.speed });
+    expect(controller.getOfflineEditCount()).toBe(3);
+
+    const sendCommand = jest.spyOn(service, 'sendCommand');
+    const { replay } = await connect();
+
+    expect(replay!.applied.map(formatConfigChange)).toEqual([`Brightness ${start.brightness}% → 70%`]);
+    expect(replay!.rejected).toEqual([]);
+    expect(device.getState().pendingConfig).toMatchObject({ brightness: 70, speed: start.speed });
+    // ENTER_CONFIG, then one batch for the whole queue
+    expect(sendCommand).toHaveBeenCalledTimes(2);
+    expect(controller.getOfflineEditCount()).toBe(0);
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.OFFLINE_EDITS(SIMULATOR_DEVICE_ID))).toBeNull();
+  });
+
+  it('should queue edits made after the config screen is refocused while the guitar is out of reach', async () => {
+    await connect();
+    await service.disconnectDevice(SIMULATOR_DEVICE_ID);
+    // Leaving and returning to the screen exits config mode and keeps the controller on the guitar
+    await settleWithFakeTimers(controller.exitConfigMode());
+
+    expect(await settleWithFakeTimers(controller.updateConfig({ brightness: 35 }))).toEqual({ success: true, queued: true });
+
+    const { replay, config } = await connect();
+
+    expect(replay!.applied.map(change => change.setting)).toEqual(['brightness']);
+    expect(config!.brightness).toBe(35);
+    expect(device.getState().pendingConfig.brightness).toBe(35);
+  });
+
+  it('should not ask the transport whether the guitar is connected before each edit', async () => {
+    await connect();
+    const isDeviceConnected = jest.spyOn(service, 'isDeviceConnected');
+
+    expect(await settleWithFakeTimers(controller.updateConfig({ brightness: 45 }))).toEqual({ success: true });
+    expect(isDeviceConnected).not.toHaveBeenCalled();
+  });
+
+  it('should keep edits prepared before the guitar is powered on across an app restart', async () => {
+    await controller.initialize({ ...GUITAR, isConnected: false });
+    expect((await settleWithFakeTimers(controller.updateConfig({ color: [255, 0, 0] }))).queued).toBe(true);
+    controller.reset(); // The app is closed
+
+    const { replay, config } = await connect();
+
+    expect(replay!.applied.map(change => change.setting)).toEqual(['color']);
+    expect(config!.color).toEqual([255, 0, 0]);
+    expect(controller.getPendingChanges().map(change => change.setting)).toEqual(['color']);
+  });
+
+  it('should quarantine a stored queue with a corrupt edit instead of replaying it', async () => {
+    const key = STORAGE_KEYS.OFFLINE_EDITS(SIMULATOR_DEVICE_ID);
+    await AsyncStorage.setItem(key, JSON.stringify([
+      { updates: { brightness: 40 }, queuedAt: 1 },
+      { updates: { brightness: 'bright', speed: 500 }, queuedAt: 2 },
+    ]));
+
+    const { replay } = await connect();
+
+    expect(replay).toBeUndefined();
+    expect(controller.getOfflineEditCount()).toBe(0);
+    expect(device.getState().pendingConfig.brightness).not.toBe(40);
+    expect(await AsyncStorage.getItem(key)).toBeNull();
+    expect((await appStorage.getQuarantined()).map(entry => entry.key)).toContain(key);
+  });
+
+  it('should apply the rest of the queue when the guitar rejects a setting', async () => {
+    await controller.initialize({ ...GUITAR, isConnected: false });
+    await settleWithFakeTimers(controller.updateConfig({ brightness: 40 }));
+    await settleWithFakeTimers(controller.updateConfig({ currentPattern: 9 }));
+
+    // Older firmware without the last pattern
+    const { replay } = await connect({
+      ...DEFAULT_DEVICE_CAPABILITIES,
+      supportedEffects: DEFAULT_DEVICE_CAPABILITIES.supportedEffects.filter(pattern => pattern !== 9),
+    });
+
+    expect(replay!.applied.map(change => change.setting)).toEqual(['brightness']);
+    expect(replay!.rejected).toEqual([
+      { change: expect.objectContaining({ setting: 'currentPattern' }), error: expect.objectContaining({ code: ErrorCode.OUT_OF_RANGE }) },
+    ]);
+    expect(device.getState().pendingConfig.brightness).toBe(40);
+    expect(controller.getOfflineEditCount()).toBe(0);
+  });
+
+  it('should not carry one guitar\'s session over to another that cannot enter config mode', async () => {
+    await connect();
+    await settleWithFakeTimers(controller.updateConfig({ speed: 40 }));
+    expect(controller.getPendingChanges()).toHaveLength(1);
+
+    // The app switches straight to a second guitar that is out of reach
+    await controller.initialize({ id: 'second-guitar', name: 'Second Guitar', rssi: 0, isConnected: false });
+
+    expect(controller.getPendingChanges()).toEqual([]);
+    expect(controller.getCommittedConfig()).toBeNull();
+    const undo = await settleWithFakeTimers(controller.undo());
+    expect(undo.error?.message).toBe('Nothing to undo');
+  });
+
+  it('should still need the guitar to undo', async () => {
+    await connect();
+    await settleWithFakeTimers(controller.updateConfig({ speed: 40 }));
+    await service.disconnectDevice(SIMULATOR_DEVICE_ID);
+
+    expect((await settleWithFakeTimers(controller.undo())).success).toBe(false);
+    expect(controller.getOfflineEditCount()).toBe(0);
+  });
+});
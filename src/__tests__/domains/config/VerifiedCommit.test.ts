@@ -0,0 +1,130 @@
+/**
+ * Verified Commit Tests
+ * A commit is only reported as saved once the device reads back the committed settings
+ */
+
+import { setBleTransport } from '../../../domain/bluetooth/bleTransport';
+import { ConfigDomainController, COMMIT_VERIFY_ATTEMPTS, findConfigMismatches } from '../../../domain/config/configDomainController';
+import { configRepository } from '../../../domain/config/configRepository';
+import { SIMULATOR_DEVICE_ID, WebSocketBluetoothService } from '../../../simulator/webSocketBluetoothService';
+import { CommandType } from '../../../types/commands';
+import { ErrorCode } from '../../../types/protocol';
+import { LoopbackSocket } from '../../mocks/LoopbackSocket';
+import { MockMicrocontroller } from '../../mocks/MockMicrocontroller';
+import { settleWithFakeTimers } from '../../utils/testHelpers';
+
+describe('findConfigMismatches', () => {
+  it('should compare exactly except for small color differences', () => {
+    const intended = { ...configRepository.getDefaultConfig(), brightness: 80, color: [255, 0, 64] as [number, number, number] };
+
+    expect(findConfigMismatches(intended, { brightness: 80, color: [255, 0, 66] })).toEqual([]);
+    expect(findConfigMismatches(intended, { brightness: 79, color: [255, 0, 80] })).toEqual([
+      { setting: 'brightness', expected: 80, actual: 79 },
+      { setting: 'color', expected: [255, 0, 64], actual: [255, 0, 80] },
+    ]);
+  });
+});
+
+describe('ConfigDomainController verified commit', () => {
+  let device: MockMicrocontroller;
+  let service: WebSocketBluetoothService;
+  let controller: ConfigDomainController;
+  let commits: number;
+  let corruptCommits: number;
+  let inConfigModeAfterCommit: boolean | null;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    device = new MockMicrocontroller();
+    commits = 0;
+    corruptCommits = 0;
+    inConfigModeAfterCommit = null;
+
+    // Flash that loses the brightness written by the next corruptCommits commits
+    const processCommand = device.processCommand.bind(device);
+    jest.spyOn(device, 'processCommand').mockImplementation(async (command: Uint8Array) => {
+      const response = await processCommand(command);
+      if (command[0] === CommandType.COMMIT_CONFIG) {
+        commits++;
+        inConfigModeAfterCommit = device.getState().inConfigMode;
+        if (corruptCommits > 0) {
+          corruptCommits--;
+          device.setState({ currentConfig: { ...device.getState().currentConfig, brightness: 7 } });
+        }
+      }
+      return response;
+    });
+
+    service = new WebSocketBluetoothService('ws://localhost:8765', () => new LoopbackSocket(device));
+    setBleTransport(service);
+    await service.connectToDevice(SIMULATOR_DEVICE_ID);
+
+    controller = ConfigDomainController.getInstance();
+    await controller.initialize({ id: SIMULATOR_DEVICE_ID, name: 'Firmware Simulator', rssi: 0, isConnected: true });
+    expect((await settleWithFakeTimers(controller.enterConfigMode())).success).toBe(true);
+    await settleWithFakeTimers(controller.updateConfig({ brightness: 80, color: [255, 0, 64] }));
+  });
+
+  afterEach(async () => {
+    controller.reset();
+    await service.disconnectDevice(SIMULATOR_DEVICE_ID);
+    setBleTransport(null);
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should report a commit the device read back as verified', async () => {
+    const result = await settleWithFakeTimers(controller.commitConfig());
+
+    expect(result).toEqual({ success: true, verified: true });
+    expect(commits).toBe(1);
+    expect(device.getState().currentConfig.brightness).toBe(80);
+  });
+
+  it('should stay in config mode after committing and keep staging edits, as the firmware does', async () => {
+    const sendCommand = jest.spyOn(service, 'sendCommand');
+
+    await settleWithFakeTimers(controller.commitConfig());
+
+    expect(inConfigModeAfterCommit).toBe(true);
+    // The read back is a single re-entry, which reloads the staged settings from flash
+    expect(sendCommand.mock.calls.map(([, command]) => command[0])).toEqual([
+      CommandType.COMMIT_CONFIG,
+      CommandType.ENTER_CONFIG,
+    ]);
+    expect(device.getState().pendingConfig).toEqual(device.getState().currentConfig);
+
+    await settleWithFakeTimers(controller.updateConfig({ speed: 60 }));
+    expect(await settleWithFakeTimers(controller.commitConfig())).toEqual({ success: true, verified: true });
+    expect(device.getState().currentConfig).toMatchObject({ brightness: 80, speed: 60 });
+  });
+
+  it('should re-send and commit again when the read back differs', async () => {
+    corruptCommits = 1;
+
+    const result = await settleWithFakeTimers(controller.commitConfig());
+
+    expect(result).toEqual({ success: true, verified: true });
+    expect(commits).toBe(2);
+    expect(device.getState().currentConfig.brightness).toBe(80);
+    expect(controller.hasUnsavedChanges()).toBe(false);
+  });
+
+  it('should fail with the mismatched settings when every attempt differs', async () => {
+    corruptCommits = COMMIT_VERIFY_ATTEMPTS;
+
+    const result = await settleWithFakeTimers(controller.commitConfig());
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ErrorCode.VALIDATION_FAILED);
+    expect(result.error?.message).toContain('Brightness 80% (read 7%)');
+    expect(result.mismatches).toEqual([{ setting: 'brightness', expected: 80, actual: 7 }]);
+    expect(commits).toBe(COMMIT_VERIFY_ATTEMPTS);
+
+    // What the device actually stored is still pending
+    expect(controller.getCommittedConfig()!.brightness).toBe(7);
+    expect(controller.getPendingChanges().map(change => change.setting)).toEqual(['brightness']);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * App Storage Tests
+ * Storage recorded from older builds migrates to the current schema, and unreadable values are
+ * quarantined instead of crashing the app
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppStorage } from '../../../domain/storage/appStorage';
+import { STORAGE_KEYS } from '../../../domain/storage/storageKeys';
+import { STORAGE_MIGRATIONS, STORAGE_SCHEMA_VERSION } from '../../../domain/storage/storageMigrations';
+import appleUserBeforeGoogleSignIn from '../../fixtures/storage/apple-user-before-google-signin.json';
+import googleUserTruncatedLog from '../../fixtures/storage/google-user-truncated-log.json';
+
+const loadFixture = async (fixture: { storage: Record<string, string> }) => {
+  await AsyncStorage.clear();
+  for (const [key, value] of Object.entries(fixture.storage)) {
+    await AsyncStorage.setItem(key, value);
+  }
+};
+
+const readStored = async (key: string) => JSON.parse((await AsyncStorage.getItem(key))!);
+
+describe('AppStorage', () => {
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await AsyncStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('migrations', () => {
+    it('should be numbered in order from 1', () => {
+      expect(STORAGE_MIGRATIONS.map(migration => migration.version)).toEqual(
+        STORAGE_MIGRATIONS.map((_, index) => index + 1)
+      );
+    });
+
+    it('should migrate storage recorded before Google sign-in', async () => {
+      await loadFixture(appleUserBeforeGoogleSignIn);
+      await new AppStorage().migrate();
+      expect(console.log).not.toHaveBeenCalled(); // Silent on success
+
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.SCHEMA_VERSION)).toBe(String(STORAGE_SCHEMA_VERSION));
+      expect(await readStored(STORAGE_KEYS.USER)).toMatchObject({ firstName: 'Sam', authProvider: 'apple' });
+
+      const savedDevices = await readStored(STORAGE_KEYS.SAVED_DEVICES);
+      expect(savedDevices.map((device: { id: string }) => device.id)).toEqual(['C4:8A:12:3F:9E:01', '5E:21:07:AA:10:3C']);
+      expect(await readStored(STORAGE_KEYS.PAIRED_DEVICES)).toEqual([
+        expect.objectContaining({ deviceId: 'C4:8A:12:3F:9E:01', userId: expect.any(String) }),
+      ]);
+
+      // Data no migration touches is left as it was
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.THEME)).toBe('dark');
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.AUTO_RECONNECT_ENABLED)).toBe('false');
+    });
+
+    it('should migrate storage recorded from a Google user and quarantine the truncated log', async () => {
+      await loadFixture(googleUserTruncatedLog);
+      const storage = new AppStorage();
+      await storage.migrate();
+
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.USER)).toBe(googleUserTruncatedLog.storage.user_data);
+      expect(await readStored(STORAGE_KEYS.SAVED_DEVICES)).toHaveLength(1);
+      expect(await readStored(STORAGE_KEYS.PAIRED_DEVICES)).toHaveLength(1);
+
+      expect(await storage.readJSON(STORAGE_KEYS.LOGS, [], Array.isArray)).toEqual([]);
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.LOGS)).toBeNull();
+      expect(await storage.getQuarantined()).toEqual([
+        expect.objectContaining({ key: STORAGE_KEYS.LOGS, raw: googleUserTruncatedLog.storage['@led_guitar:logs'] }),
+      ]);
+    });
+
+    it('should only run migrations newer than the stored schema version', async () => {
+      const migrate = jest.fn(async () => {});
+      await AsyncStorage.setItem(STORAGE_KEYS.SCHEMA_VERSION, '1');
+
+      await new AppStorage(AsyncStorage, [
+        { version: 1, description: 'Already applied', migrate },
+        { version: 2, description: 'Pending', migrate },
+      ]).migrate();
+
+      expect(migrate).toHaveBeenCalledTimes(1);
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.SCHEMA_VERSION)).toBe('2');
+    });
+
+    it('should stop at a failed migration and resume from it on the next launch', async () => {
+      const third = jest.fn(async () => {});
+      const flaky = jest.fn()
+        .mockRejectedValueOnce(new Error('Storage full'))
+        .mockResolvedValue(undefined);
+      const migrations = [
+        { version: 1, description: 'First', migrate: async () => {} },
+        { version: 2, description: 'Flaky', migrate: flaky },
+        { version: 3, description: 'Third', migrate: third },
+      ];
+
+      const firstLaunch = new AppStorage(AsyncStorage, migrations);
+      await firstLaunch.migrate();
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.SCHEMA_VERSION)).toBe('1');
+      expect(third).not.toHaveBeenCalled();
+      // Reads still work while a migration is pending
+      expect(await firstLaunch.readJSON('missing', 'default')).toBe('default');
+
+      await new AppStorage(AsyncStorage, migrations).migrate();
+      expect(third).toHaveBeenCalledTimes(1);
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.SCHEMA_VERSION)).toBe('3');
+    });
+
+    it('should retry a failed migration on the next read', async () => {
+      const flaky = jest.fn()
+        .mockRejectedValueOnce(new Error('Storage full'))
+        .mockResolvedValue(undefined);
+      const storage = new AppStorage(AsyncStorage, [{ version: 1, description: 'Flaky', migrate: flaky }]);
+
+      await storage.migrate();
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.SCHEMA_VERSION)).toBeNull();
+
+      expect(await storage.readJSON('missing', 'default')).toBe('default');
+      expect(flaky).toHaveBeenCalledTimes(2);
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.SCHEMA_VERSION)).toBe('1');
+
+      // Migrated now, so it does not run again
+      await storage.migrate();
+      expect(flaky).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not migrate storage written by a newer build', async () => {
+      const migrate = jest.fn(async () => {});
+      await AsyncStorage.setItem(STORAGE_KEYS.SCHEMA_VERSION, '9');
+
+      await new AppStorage(AsyncStorage, [{ version: 1, description: 'Old', migrate }]).migrate();
+
+      expect(migrate).not.toHaveBeenCalled();
+      expect(await AsyncStorage.getItem(STORAGE_KEYS.SCHEMA_VERSION)).toBe('9');
+    });
+  });
+
+  describe('corruption recovery', () => {
+    it('should quarantine a value with an unexpected shape and read the fallback', async () => {
+      const storage = new AppStorage(AsyncStorage, []);
+      await AsyncStorage.setItem(STORAGE_KEYS.ANALYTICS_EVENTS, '{"events":[]}');
+
+      expect(await storage.readJSON(STORAGE_KEYS.ANALYTICS_EVENTS, [], Array.isArray)).toEqual([]);
+      expect(await storage.getQuarantined()).toEqual([
+        expect.objectContaining({ key: STORAGE_KEYS.ANALYTICS_EVENTS, reason: 'Unexpected shape' }),
+      ]);
+
+      // The key is usable again
+      await storage.writeJSON(STORAGE_KEYS.ANALYTICS_EVENTS, [{ type: 'app_open' }]);
+      expect(await storage.readJSON(STORAGE_KEYS.ANALYTICS_EVENTS, [], Array.isArray)).toEqual([{ type: 'app_open' }]);
+    });
+
+    it('should list the readable quarantine records when one is corrupt', async () => {
+      const storage = new AppStorage(AsyncStorage, []);
+      await AsyncStorage.setItem(STORAGE_KEYS.LOGS, '[{"level":');
+      await storage.readJSON(STORAGE_KEYS.LOGS, [], Array.isArray);
+      await AsyncStorage.setItem(`${STORAGE_KEYS.QUARANTINE_PREFIX}${STORAGE_KEYS.THEME}`, '{"key":');
+
+      expect(await storage.getQuarantined()).toEqual([expect.objectContaining({ key: STORAGE_KEYS.LOGS })]);
+    });
+  });
+});
@@ -65,11 +65,7 @@ describe('Error Handling Integration', () => {
 
     it('should handle NOT_OWNER error', async () => {
       // Claim device
-      mockService.getMicrocontroller().setState({
-        ownerUserId: MOCK_USER_IDS.user1,
-        hasOwner: true,
-        sessionOwnershipVerified: false,
-      });
+      mockService.getMicrocontroller().setOwner(MOCK_USER_IDS.user1);
       
       const command = BLECommandEncoder.encodeEnterConfig();
       
@@ -84,14 +80,11 @@ describe('Error Handling Integration', () => {
 
     it('should handle ALREADY_CLAIMED error', async () => {
       // Claim device with user1
-      const claimCommand1 = BLECommandEncoder.encodeClaimDevice(MOCK_USER_IDS.user1);
-      await mockService.sendCommand(deviceId, claimCommand1);
-      
-      // Clear session
-      mockService.getMicrocontroller().clearSessionOwnership();
+      mockService.getMicrocontroller().setOwner(MOCK_USER_IDS.user1);
       
       // Try to claim with user2
-      const claimCommand2 = BLECommandEncoder.encodeClaimDevice(MOCK_USER_IDS.user2);
+      await mockService.sendCommand(deviceId, BLECommandEncoder.encodeRequestChallenge());
+      const claimCommand2 = BLECommandEncoder.encodeClaimDevice(new Uint8Array(32));
       
       try {
         await mockService.sendCommand(deviceId, claimCommand2);
@@ -0,0 +1,48 @@
+/**
+ * Loopback Socket
+ * In-memory WebSocket whose far end is a SimulatorLink, as in scripts/simulator-server.ts
+ */
+
+import { SimulatorLink } from '../../simulator/simulatorLink';
+import { SimulatorSocket } from '../../simulator/webSocketBluetoothService';
+import { MockMicrocontroller } from './MockMicrocontroller';
+
+export class LoopbackSocket implements SimulatorSocket {
+  binaryType = 'blob';
+  readyState = 0;
+  onopen: ((event: any) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+  onmessage: ((event: { data: any }) => void) | null = null;
+  sent: Uint8Array[] = [];
+  private link: SimulatorLink;
+
+  constructor(device: MockMicrocontroller) {
+    this.link = new SimulatorLink(device, packet => {
+      this.onmessage?.({ data: packet.slice().buffer });
+    });
+    Promise.resolve().then(() => {
+      this.readyState = 1;
+      this.link.connect();
+      this.onopen?.({});
+    });
+  }
+
+  send(data: Uint8Array): void {
+    this.sent.push(data);
+    this.link.receive(data);
+  }
+
+  close(): void {
+    this.readyState = 3;
+    this.link.disconnect();
+  }
+
+  /**
+   * The server went away
+   */
+  drop(): void {
+    this.close();
+    this.onclose?.({});
+  }
+}
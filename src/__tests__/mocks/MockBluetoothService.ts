@@ -1,4 +1,7 @@
 import { BluetoothDevice } from '../../types/bluetooth';
+import { CommandResponse } from '../../types/commands';
+import { TrafficSession } from '../../domain/bluetooth/trafficRecorder';
+import { ReplayTransport } from './ReplayTransport';
 
 export interface MockResponse {
   data: Uint8Array | string;
@@ -9,6 +12,7 @@ export class MockBluetoothService {
   private connectedDevice: BluetoothDevice | null = null;
   private responses: Map<string, MockResponse[]> = new Map();
   private responseListeners: Array<(data: Uint8Array | string) => void> = [];
+  private replay: ReplayTransport | null = null;
 
   setConnectedDevice(device: BluetoothDevice | null): void {
     this.connectedDevice = device;
@@ -82,6 +86,25 @@ export class MockBluetoothService {
     });
   }
 
+  /**
+   * Answer sendCommand from a recorded traffic session
+   */
+  loadSession(session: TrafficSession): ReplayTransport {
+    this.replay = new ReplayTransport(session);
+    return this.replay;
+  }
+
+  async sendCommand(deviceId: string, command: Uint8Array, timeout?: number): Promise<CommandResponse> {
+    if (!this.replay) {
+      throw new Error('No traffic session loaded');
+    }
+    return this.replay.sendCommand(deviceId, command, timeout);
+  }
+
+  async isDeviceConnected(deviceId: string): Promise<boolean> {
+    return this.replay !== null || this.connectedDevice?.id === deviceId;
+  }
+
   // Test helpers
   setResponseForCommand(command: string, response: MockResponse): void {
     this.responses.set(command, [response]);
@@ -89,7 +112,7 @@ export class MockBluetoothService {
 
   simulateError(errorCode: number, message: string): void {
     const errorData = new Uint8Array([
-      0x90, // Error envelope marker
+      0x93, // Error envelope marker
       errorCode,
       ...message.split('').map(c => c.charCodeAt(0)),
     ]);
@@ -109,6 +132,7 @@ export class MockBluetoothService {
     this.connectedDevice = null;
     this.responses.clear();
     this.responseListeners = [];
+    this.replay = null;
   }
 }
 
@@ -0,0 +1,133 @@
+/**
+ * Replay Transport
+ * Plays a recorded traffic session back in place of the BLE service, so a trace
+ * attached to a bug report reproduces deterministically in Jest.
+ *
+ * Each sendCommand must match the next recorded request (opcode and data; sequence IDs
+ * are remapped). It resolves with the response recorded for that request's sequence ID.
+ */
+
+import { CommandResponse, ResponseType } from '../../types/commands';
+import { ErrorCode, BLEError } from '../../types/errors';
+import { TrafficSession, TrafficDirection, hexToBytes, bytesToHex } from '../../domain/bluetooth/trafficRecorder';
+import { Reassembler } from '../../domain/bluetooth/fragmentation';
+import { ProtocolCodec, DecodedResponse, UNSOLICITED_SEQUENCE_ID } from '../../domain/bluetooth/protocolCodec';
+import { configurationModule } from '../../domain/bluetooth/configurationModule';
+
+interface RecordedFrame {
+  direction: TrafficDirection;
+  deviceId: string;
+  sequenceId: number;
+  payload: Uint8Array;
+  consumed: boolean;
+}
+
+export class ReplayTransport {
+  private frames: RecordedFrame[] = [];
+
+  constructor(session: TrafficSession) {
+    const reassemblers = new Map<string, Reassembler>();
+    const reassemblerFor = (key: string) => {
+      let reassembler = reassemblers.get(key);
+      if (!reassembler) {
+        reassembler = new Reassembler();
+        reassemblers.set(key, reassembler);
+      }
+      return reassembler;
+    };
+
+    session.records.forEach(record => {
+      const key = `${record.direction}:${record.deviceId}`;
+      for (const frameBytes of reassemblerFor(key).push(hexToBytes(record.hex))) {
+        const frame = ProtocolCodec.decodeFrame(frameBytes);
+        this.frames.push({
+          direction: record.direction,
+          deviceId: record.deviceId,
+          sequenceId: frame.sequenceId,
+          payload: frame.payload,
+          consumed: false,
+        });
+      }
+    });
+
+    reassemblers.forEach(reassembler => reassembler.reset());
+  }
+
+  /**
+   * Same signature as BluetoothService.sendCommand
+   */
+  async sendCommand(deviceId: string, command: Uint8Array, _timeout?: number): Promise<CommandResponse> {
+    const requestIndex = this.frames.findIndex(frame => frame.direction === 'tx' && !frame.consumed);
+    const request = this.frames[requestIndex];
+
+    if (!request) {
+      throw this.mismatch(`unexpected command ${bytesToHex(command)} after the end of the session`);
+    }
+    if (bytesToHex(request.payload) !== bytesToHex(command)) {
+      throw this.mismatch(`expected ${bytesToHex(request.payload)}, got ${bytesToHex(command)}`);
+    }
+    request.consumed = true;
+
+    const response = this.frames.find((frame, i) =>
+      i > requestIndex &&
+      frame.direction === 'rx' &&
+      !frame.consumed &&
+      frame.deviceId === request.deviceId &&
+      frame.sequenceId === request.sequenceId
+    );
+    if (!response) {
+      throw new Error('Command timeout'); // Same as the real transport when nothing answers
+    }
+    response.consumed = true;
+
+    // Unsolicited notifications recorded before this response are delivered first
+    this.frames
+      .filter((frame, i) => i < this.frames.indexOf(response) && frame.direction === 'rx' &&
+        !frame.consumed && frame.sequenceId === UNSOLICITED_SEQUENCE_ID)
+      .forEach(frame => {
+        frame.consumed = true;
+        this.dispatch(ProtocolCodec.decodeResponse(frame.payload));
+      });
+
+    const decoded = ProtocolCodec.decodeResponse(response.payload);
+    this.dispatch(decoded);
+    return ProtocolCodec.toCommandResponse(decoded);
+  }
+
+  async isDeviceConnected(_deviceId: string): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Check whether every recorded request has been replayed
+   */
+  isComplete(): boolean {
+    return this.getRemainingRequests().length === 0;
+  }
+
+  /**
+   * Recorded requests not replayed yet, as hex
+   */
+  getRemainingRequests(): string[] {
+    return this.frames
+      .filter(frame => frame.direction === 'tx' && !frame.consumed)
+      .map(frame => bytesToHex(frame.payload));
+  }
+
+  /**
+   * Route config snapshots to ConfigurationModule, as BluetoothService.dispatchFrame does
+   */
+  private dispatch(response: DecodedResponse): void {
+    if (!ProtocolCodec.isErrorEnvelope(response) && !ProtocolCodec.isAnalyticsBatch(response) &&
+        response.type === ResponseType.ACK_CONFIG_MODE) {
+      configurationModule.handleResponse(response);
+    }
+  }
+
+  private mismatch(detail: string): BLEError {
+    return new BLEError({
+      code: ErrorCode.INVALID_COMMAND,
+      message: `Replay mismatch: ${detail}`,
+    });
+  }
+}
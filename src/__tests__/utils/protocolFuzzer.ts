@@ -0,0 +1,178 @@
+/**
+ * Protocol Fuzzer
+ * Seeded generators for malformed, truncated, oversized and out-of-order BLE traffic.
+ * The same seed always produces the same case, so a failing seed can be kept as a
+ * regression case in fixtures/fuzz/regression-seeds.json.
+ */
+
+import { CommandType, ResponseType, ParameterId } from '../../types/commands';
+import { MOCK_USER_IDS } from './testFixtures';
+import { DEFAULT_DEVICE_CAPABILITIES } from '../../types/capabilities';
+import { OWNERSHIP_PROOF_LENGTH } from '../../types/protocol';
+
+export type FuzzTarget = 'commands' | 'responses' | 'errorEnvelopes';
+
+export interface FuzzRegressionSeed {
+  target: FuzzTarget;
+  seed: number;
+  note: string;
+}
+
+/**
+ * Small deterministic PRNG (mulberry32)
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  byte(): number {
+    return this.int(0, 0xff);
+  }
+
+  bytes(length: number): Uint8Array {
+    return Uint8Array.from({ length }, () => this.byte());
+  }
+
+  pick<T>(values: readonly T[]): T {
+    return values[this.int(0, values.length - 1)];
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+}
+
+const COMMAND_TYPES = Object.values(CommandType).filter((v): v is number => typeof v === 'number');
+const RESPONSE_TYPES = Object.values(ResponseType).filter((v): v is number => typeof v === 'number');
+const PARAMETER_IDS = Object.values(ParameterId).filter((v): v is number => typeof v === 'number');
+
+export const FUZZ_OWNER_ID = MOCK_USER_IDS.user1;
+
+/**
+ * A well-formed command with a random opcode and plausible arguments
+ */
+const wellFormedCommand = (random: SeededRandom): Uint8Array => {
+  const type = random.pick(COMMAND_TYPES);
+  switch (type) {
+    case CommandType.UPDATE_PARAM:
+      return new Uint8Array([type, random.pick(PARAMETER_IDS), random.byte()]);
+    case CommandType.UPDATE_COLOR:
+      return new Uint8Array([type, random.byte(), random.byte(), random.byte()]);
+    case CommandType.UPDATE_BATCH: {
+      const count = random.int(1, 4);
+      const entries = Array.from({ length: count }, () => [random.int(0, 5), random.byte(), random.byte(), random.byte()]);
+      return new Uint8Array([type, count, ...entries.flat()]);
+    }
+    case CommandType.PIXEL_FRAME: {
+      const pixelCount = DEFAULT_DEVICE_CAPABILITIES.ledCount;
+      return new Uint8Array([type, random.int(0, 2), pixelCount >> 8, pixelCount & 0xff, ...random.bytes(random.int(0, pixelCount * 3))]);
+    }
+    case CommandType.CONFIRM_ANALYTICS:
+      return new Uint8Array([type, random.int(0, 3)]);
+    case CommandType.CLAIM_DEVICE:
+    case CommandType.VERIFY_OWNERSHIP:
+    case CommandType.UNCLAIM_DEVICE:
+      // A guessed key or proof; the fuzzer never sees a valid answer to the challenge
+      return new Uint8Array([type, ...random.bytes(OWNERSHIP_PROOF_LENGTH)]);
+    default:
+      return new Uint8Array([type]);
+  }
+};
+
+/**
+ * Mutate a command: truncate it, overflow it, flip bytes or lie about its length
+ */
+const mutateCommand = (random: SeededRandom, command: Uint8Array): Uint8Array => {
+  switch (random.int(0, 4)) {
+    case 0: // Truncated
+      return command.slice(0, random.int(0, Math.max(command.length - 1, 0)));
+    case 1: // Oversized
+      return new Uint8Array([...command, ...random.bytes(random.int(1, 600))]);
+    case 2: { // Corrupted byte
+      const corrupted = command.slice();
+      corrupted[random.int(0, corrupted.length - 1)] = random.byte();
+      return corrupted;
+    }
+    case 3: { // Length prefix that disagrees with the body
+      const lying = command.slice();
+      if (lying.length > 1) {
+        lying[1] = random.byte();
+      }
+      return lying;
+    }
+    default: // Random garbage
+      return random.bytes(random.int(0, 32));
+  }
+};
+
+/**
+ * A sequence of commands in random order, some of them malformed
+ */
+export const generateCommandSequence = (seed: number, length = 40): Uint8Array[] => {
+  const random = new SeededRandom(seed);
+  return Array.from({ length }, () => {
+    const command = wellFormedCommand(random);
+    return random.chance(0.3) ? mutateCommand(random, command) : command;
+  });
+};
+
+/**
+ * Random notification bytes, biased towards known response opcodes
+ */
+export const generateNotification = (seed: number): Uint8Array => {
+  const random = new SeededRandom(seed);
+  const length = random.chance(0.1) ? random.int(256, 1024) : random.int(1, 48);
+  const bytes = random.bytes(length);
+  if (random.chance(0.8)) {
+    bytes[0] = random.pick(RESPONSE_TYPES);
+  }
+  return bytes;
+};
+
+/**
+ * Random error envelope input in any of the accepted forms (bytes, number[], "ERROR:code:message")
+ */
+export const generateErrorEnvelopeInput = (seed: number): Uint8Array | number[] | string => {
+  const random = new SeededRandom(seed);
+  const bytes = generateNotification(seed);
+  if (random.chance(0.5)) {
+    bytes[0] = ResponseType.ACK_ERROR;
+  }
+
+  switch (random.int(0, 2)) {
+    case 0:
+      return bytes;
+    case 1:
+      return Array.from(bytes);
+    default: {
+      const text = Array.from(bytes.slice(1), b => String.fromCharCode(b)).join('');
+      return random.chance(0.7) ? `ERROR:${text}` : text;
+    }
+  }
+};
+
+/**
+ * Seeds to run: FUZZ_SEED runs one seed, FUZZ_RUNS widens the default range
+ */
+export const fuzzSeeds = (defaultRuns: number): number[] => {
+  if (process.env.FUZZ_SEED) {
+    return [parseInt(process.env.FUZZ_SEED, 10)];
+  }
+  const runs = parseInt(process.env.FUZZ_RUNS ?? '', 10) || defaultRuns;
+  return Array.from({ length: runs }, (_, i) => i + 1);
+};
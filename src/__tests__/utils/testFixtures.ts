@@ -83,32 +83,16 @@ export const MOCK_COMMANDS = {
   confirmAnalytics: (batchId: number) =>
     new Uint8Array([CommandType.CONFIRM_ANALYTICS, batchId]),
   
-  claimDevice: (userId: string) => {
-    const userIdBytes = new TextEncoder().encode(userId);
-    const command = new Uint8Array(2 + userIdBytes.length);
-    command[0] = CommandType.CLAIM_DEVICE;
-    command[1] = userIdBytes.length;
-    command.set(userIdBytes, 2);
-    return command;
-  },
+  requestChallenge: new Uint8Array([CommandType.REQUEST_CHALLENGE]),
   
-  verifyOwnership: (userId: string) => {
-    const userIdBytes = new TextEncoder().encode(userId);
-    const command = new Uint8Array(2 + userIdBytes.length);
-    command[0] = CommandType.VERIFY_OWNERSHIP;
-    command[1] = userIdBytes.length;
-    command.set(userIdBytes, 2);
-    return command;
-  },
+  claimDevice: (ownerKey: Uint8Array) =>
+    new Uint8Array([CommandType.CLAIM_DEVICE, ...ownerKey]),
   
-  unclaimDevice: (userId: string) => {
-    const userIdBytes = new TextEncoder().encode(userId);
-    const command = new Uint8Array(2 + userIdBytes.length);
-    command[0] = CommandType.UNCLAIM_DEVICE;
-    command[1] = userIdBytes.length;
-    command.set(userIdBytes, 2);
-    return command;
-  },
+  verifyOwnership: (proof: Uint8Array) =>
+    new Uint8Array([CommandType.VERIFY_OWNERSHIP, ...proof]),
+  
+  unclaimDevice: (proof: Uint8Array) =>
+    new Uint8Array([CommandType.UNCLAIM_DEVICE, ...proof]),
 };
 
 // ========== BLE Responses (byte arrays) ==========
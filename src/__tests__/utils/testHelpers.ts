@@ -38,10 +38,7 @@ export const createMockMicrocontroller = (options?: {
   });
 
   if (options?.withOwner) {
-    mock.setState({
-      ownerUserId: options.ownerId || MOCK_USER_IDS.user1,
-      hasOwner: true,
-    });
+    mock.setOwner(options.ownerId || MOCK_USER_IDS.user1);
   }
 
   if (options?.withAnalytics) {
@@ -152,3 +149,15 @@ export const waitForAsync = async (): Promise<void> => {
 
 
 
+
+/**
+ * Advance fake timers until a promise settles (for code that waits on timers between steps)
+ */
+export const settleWithFakeTimers = async <T>(promise: Promise<T>, stepMs: number = 50): Promise<T> => {
+  let settled = false;
+  promise.then(() => { settled = true; }, () => { settled = true; });
+  while (!settled) {
+    await jest.advanceTimersByTimeAsync(stepMs);
+  }
+  return promise;
+};
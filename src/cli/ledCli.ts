@@ -0,0 +1,375 @@
+/**
+ * LED Guitar CLI
+ * Scripts a controller from Node through the app's domain layer (ConfigDomainController,
+ * configurationModule, the command encoders), talking to whichever BleTransport it is given.
+ * scripts/led-cli.ts runs it against the firmware simulator over a WebSocket.
+ *
+ * Commands run in order over one connection, so config changes can be committed before it closes:
+ *   led-cli set brightness 80 , set color 255,0,64 , commit
+ */
+
+import { BleTransport, setBleTransport } from '../domain/bluetooth/bleTransport';
+import { Reassembler } from '../domain/bluetooth/fragmentation';
+import { ProtocolCodec, DecodedResponse, UNSOLICITED_SEQUENCE_ID } from '../domain/bluetooth/protocolCodec';
+import { TrafficRecorder, TrafficSession, TRAFFIC_SESSION_VERSION, hexToBytes, bytesToHex } from '../domain/bluetooth/trafficRecorder';
+import { ConfigDomainController } from '../domain/config/configDomainController';
+import { describeConfigMerge } from '../domain/config/configMerge';
+import { NumericSetting, SETTING_RANGES } from '../domain/config/configRepository';
+import { CommandResponse } from '../types/commands';
+import { BLEError, ErrorCode } from '../types/errors';
+import { DeviceSettings } from '../utils/bleConstants';
+
+export const CLI_USAGE = `Usage: led-cli [options] <command> [, <command> ...]
+
+Commands:
+  status                  Capabilities, link and config mode state
+  get-config              Enter config mode and print the device's settings
+  set <setting> <value>   Change a setting: brightness, speed, pattern, power-mode (numbers)
+                          or color (r,g,b or #rrggbb)
+  commit                  Save the settings to flash
+  claim [userId]          Claim the device (defaults to --user)
+  pull-analytics          Print the pending analytics batch and confirm it
+  replay <trace>          Resend a recorded trace (session JSON or JSON lines) and compare replies
+
+Options:
+  --url <ws://host:port>  Firmware simulator to connect to (default ws://localhost:8765)
+  --user <userId>         Verify ownership as this user after connecting
+  --file <path>           Read commands from a file, one per line (# starts a comment)
+  --verbose               Show the domain layer's logs`;
+
+export interface CliCommand {
+  name: string;
+  args: string[];
+}
+
+export interface CliIo {
+  out(text: string): void;
+  err(text: string): void;
+  readFile(path: string): string;
+}
+
+export interface CliSessionOptions {
+  transport: BleTransport;
+  deviceId: string;
+  deviceName?: string;
+  userId?: string;
+  io: CliIo;
+}
+
+// CLI names for the settings a batch update can carry
+const SETTING_NAMES: Record<string, NumericSetting | 'color'> = {
+  brightness: 'brightness',
+  speed: 'speed',
+  pattern: 'currentPattern',
+  'power-mode': 'powerMode',
+  color: 'color',
+};
+
+/**
+ * Split command-line words into commands separated by ","
+ */
+export const parseCommandLine = (words: string[]): CliCommand[] => {
+  const commands: CliCommand[] = [];
+  let current: string[] = [];
+  const flush = () => {
+    if (current.length > 0) {
+      commands.push({ name: current[0], args: current.slice(1) });
+    }
+    current = [];
+  };
+
+  words.forEach(word => (word === ',' ? flush() : current.push(word)));
+  flush();
+  return commands;
+};
+
+/**
+ * One command per line; blank lines and # comments are skipped
+ */
+export const parseScript = (text: string): CliCommand[] =>
+  text
+    .split('\n')
+    .map(line => line.replace(/#.*$/, '').trim())
+    .filter(line => line.length > 0)
+    .map(line => {
+      const [name, ...args] = line.split(/\s+/);
+      return { name, args };
+    });
+
+/**
+ * Parse a setting value as typed on the command line
+ */
+export const parseSettingValue = (setting: string, value: string | undefined): Partial<DeviceSettings> => {
+  const key = SETTING_NAMES[setting];
+  if (!key) {
+    throw new Error(`Unknown setting "${setting}". Use one of: ${Object.keys(SETTING_NAMES).join(', ')}`);
+  }
+  if (value === undefined) {
+    throw new Error(`Missing value for ${setting}`);
+  }
+
+  if (key === 'color') {
+    const hex = /^#?([0-9a-f]{6})$/i.exec(value);
+    const channels = hex
+      ? [0, 2, 4].map(i => parseInt(hex[1].substr(i, 2), 16))
+      : value.split(',').map(Number);
+    if (channels.length !== 3 || channels.some(c => !Number.isInteger(c) || c < 0 || c > 255)) {
+      throw new Error(`Invalid color "${value}". Use r,g,b (0-255) or #rrggbb`);
+    }
+    return { color: channels as DeviceSettings['color'] };
+  }
+
+  // The repository would otherwise reset an out-of-range value to its default after reporting success
+  const { min, max } = SETTING_RANGES[key];
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new Error(`Invalid ${setting} "${value}": expected a whole number from ${min} to ${max}`);
+  }
+  return { [key]: number };
+};
+
+/**
+ * Read a trace saved by TrafficRecorder, or the same records written one JSON object per line
+ */
+export const parseTrace = (text: string): TrafficSession => {
+  try {
+    return TrafficRecorder.parse(text);
+  } catch (error) {
+    const lines = text.split('\n').filter(line => line.trim().length > 0);
+    let records;
+    try {
+      records = lines.map(line => JSON.parse(line));
+    } catch {
+      throw error; // Neither format: report why it is not a session file
+    }
+    return TrafficRecorder.parse(JSON.stringify({ version: TRAFFIC_SESSION_VERSION, startedAt: 0, platform: 'jsonl', records }));
+  }
+};
+
+/**
+ * What a reply means for a replayed request: the acknowledgment opcode or the error code
+ */
+const describeOutcome = (response: DecodedResponse | CommandResponse): string => {
+  if (ProtocolCodec.isErrorEnvelope(response)) {
+    return `error ${ErrorCode[response.code] ?? response.code}`;
+  }
+  const { type } = 'isSuccess' in response ? response : ProtocolCodec.toCommandResponse(response);
+  return `0x${type.toString(16)}`;
+};
+
+export class CliSession {
+  private controller: ConfigDomainController = ConfigDomainController.getInstance();
+
+  constructor(private readonly options: CliSessionOptions) {}
+
+  /**
+   * Connect, hand the transport to the domain layer and verify ownership if a user was given
+   */
+  async open(): Promise<void> {
+    const { transport, deviceId, deviceName, userId } = this.options;
+    setBleTransport(transport);
+    await transport.connectToDevice(deviceId);
+    await this.controller.initialize({ id: deviceId, name: deviceName ?? deviceId, rssi: 0, isConnected: true });
+
+    if (userId) {
+      await this.controller.verifyOwnership(deviceId, userId);
+    }
+  }
+
+  async close(): Promise<void> {
+    const { transport, deviceId } = this.options;
+    try {
+      await transport.disconnectDevice(deviceId);
+    } finally {
+      this.controller.reset();
+      setBleTransport(null);
+    }
+  }
+
+  /**
+   * Run one command; throws with a readable message when it fails
+   */
+  async run(command: CliCommand): Promise<void> {
+    const { deviceId, transport, io } = this.options;
+
+    switch (command.name) {
+      case 'status': {
+        const capabilities = await this.controller.getCapabilities(deviceId);
+        io.out(this.format({
+          deviceId,
+          rssi: await transport.readRssi(deviceId),
+          mtu: transport.getMtu(deviceId),
+          configMode: this.controller.getConfigModeState().state,
+          capabilities,
+        }));
+        return;
+      }
+
+      case 'get-config':
+        await this.ensureConfigMode();
+        io.out(this.format(this.controller.getCurrentConfig()));
+        return;
+
+      case 'set': {
+        const [setting, value] = command.args;
+        const updates = parseSettingValue(setting, value);
+        await this.ensureConfigMode();
+        const result = await this.controller.updateConfig(updates);
+        if (!result.success) {
+          const rejected = result.parameterErrors?.map(({ setting: name, error }) => `${name}: ${error.message}`);
+          throw new Error(rejected?.join('; ') ?? result.error?.message ?? `Failed to set ${setting}`);
+        }
+        io.out(`${setting} = ${value}`);
+        return;
+      }
+
+      case 'commit': {
+        await this.ensureConfigMode();
+        const result = await this.controller.commitConfig();
+        if (result.conflict) {
+          const rows = describeConfigMerge(result.conflict).map(
+            row => `${row.label}: theirs ${row.theirs}, ours ${row.ours} (was ${row.base})`
+          );
+          throw new Error(`${result.error?.message ?? 'Commit conflict'}: ${rows.join('; ')}`);
+        }
+        if (!result.success) {
+          throw new Error(result.error?.message ?? 'Commit failed');
+        }
+        io.out(result.verified ? 'Committed' : 'Committed (device did not report its settings back)');
+        return;
+      }
+
+      case 'claim': {
+        const userId = command.args[0] ?? this.options.userId;
+        if (!userId) {
+          throw new Error('claim needs a user ID (argument or --user)');
+        }
+        await this.controller.claimDevice(deviceId, userId, this.options.deviceName);
+        io.out(`Claimed by ${userId}`);
+        return;
+      }
+
+      case 'pull-analytics': {
+        const batch = await transport.requestAnalytics(deviceId);
+        io.out(this.format(batch));
+        await transport.confirmAnalytics(deviceId, batch.batchId);
+        return;
+      }
+
+      case 'replay': {
+        const [path] = command.args;
+        if (!path) {
+          throw new Error('replay needs a trace file');
+        }
+        await this.replay(parseTrace(this.options.io.readFile(path)));
+        return;
+      }
+
+      default:
+        throw new Error(`Unknown command "${command.name}"`);
+    }
+  }
+
+  private async ensureConfigMode(): Promise<void> {
+    if (this.controller.getConfigModeState().state === 'active') {
+      return;
+    }
+    const result = await this.controller.enterConfigMode();
+    if (!result.success) {
+      throw new Error(result.error?.message ?? 'Could not enter config mode');
+    }
+  }
+
+  /**
+   * Resend every recorded request and compare each reply with the recorded one
+   * Ownership proofs answer a single-use nonce, so recorded verifications are expected to fail
+   */
+  private async replay(session: TrafficSession): Promise<void> {
+    const { transport, deviceId, io } = this.options;
+    const requests = this.framesOf(session, 'tx');
+    const replies = this.framesOf(session, 'rx');
+    let mismatches = 0;
+
+    for (const request of requests) {
+      if (request.sequenceId === UNSOLICITED_SEQUENCE_ID) {
+        await transport.sendUnacknowledged(deviceId, request.payload);
+        continue;
+      }
+
+      const recordedIndex = replies.findIndex(reply => reply.sequenceId === request.sequenceId);
+      const recorded = recordedIndex >= 0 ? replies.splice(recordedIndex, 1)[0] : null;
+      const expected = recorded ? describeOutcome(ProtocolCodec.decodeResponse(recorded.payload)) : 'no reply';
+
+      let actual: string;
+      try {
+        actual = describeOutcome(await transport.sendCommand(deviceId, request.payload));
+      } catch (error) {
+        actual = error instanceof BLEError ? describeOutcome(error.envelope) : (error as Error).message;
+      }
+
+      const matches = actual === expected;
+      if (!matches) {
+        mismatches++;
+      }
+      io.out(`${matches ? 'ok  ' : 'DIFF'} ${bytesToHex(request.payload)}: expected ${expected}, got ${actual}`);
+    }
+
+    io.out(`Replayed ${requests.length} requests, ${mismatches} differed`);
+    if (mismatches > 0) {
+      throw new Error(`${mismatches} replies differed from the trace`);
+    }
+  }
+
+  /**
+   * Reassemble one direction of a trace into frames, in recorded order
+   */
+  private framesOf(session: TrafficSession, direction: 'tx' | 'rx'): Array<{ sequenceId: number; payload: Uint8Array }> {
+    const reassemblers = new Map<string, Reassembler>();
+    const frames: Array<{ sequenceId: number; payload: Uint8Array }> = [];
+
+    session.records
+      .filter(record => record.direction === direction)
+      .forEach(record => {
+        let reassembler = reassemblers.get(record.deviceId);
+        if (!reassembler) {
+          reassembler = new Reassembler();
+          reassemblers.set(record.deviceId, reassembler);
+        }
+        for (const frameBytes of reassembler.push(hexToBytes(record.hex))) {
+          const frame = ProtocolCodec.decodeFrame(frameBytes);
+          frames.push({ sequenceId: frame.sequenceId, payload: frame.payload });
+        }
+      });
+
+    reassemblers.forEach(reassembler => reassembler.reset());
+    return frames;
+  }
+
+  private format(value: unknown): string {
+    return JSON.stringify(value, null, 2);
+  }
+}
+
+/**
+ * Run commands over one connection, stopping at the first failure; resolves with the exit code
+ */
+export const runCli = async (commands: CliCommand[], options: CliSessionOptions): Promise<number> => {
+  if (commands.length === 0) {
+    options.io.err(CLI_USAGE);
+    return 2;
+  }
+
+  const session = new CliSession(options);
+  try {
+    await session.open();
+    for (const command of commands) {
+      await session.run(command);
+    }
+    return 0;
+  } catch (error) {
+    options.io.err(`Error: ${(error as Error).message}`);
+    return 1;
+  } finally {
+    await session.close().catch(() => {});
+  }
+};
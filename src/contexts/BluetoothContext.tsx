@@ -2,18 +2,33 @@ import React, { createContext, useContext, useState, useCallback, useMemo, useRe
 import { Platform, AppState } from 'react-native';
 import { BluetoothDevice } from '../types/bluetooth';
 import { bluetoothWebService } from '../utils/bluetoothWebService';
-import { bluetoothService } from '../utils/bluetoothService';
+import { BleTransport, getBleTransport, setBleTransport } from '../domain/bluetooth/bleTransport';
+import { simulatedBluetoothService, isDemoDevice } from '../simulator/simulatedBluetoothService';
+import { webSocketBluetoothService, isSimulatorDevice } from '../simulator/webSocketBluetoothService';
 import { useAnalytics } from '../hooks/useAnalytics';
 import { AnalyticsEventType } from '../types/analytics';
 import { getUserPairedDevices, isDevicePaired } from '../utils/devicePairing';
 import { useUser } from './UserContext';
 import { configDomainController } from '../domain/config/configDomainController';
 import { deviceStorage, PairedDevice } from '../utils/deviceStorage';
-import { getDeviceDisplayName } from '../utils/bleConstants';
+import { DeviceCapabilities } from '../types/capabilities';
 import Toast, { ToastType } from '../components/Toast';
 
 export type FilterType = 'all' | 'microcontrollers' | 'named';
 
+/**
+ * Transport for devices that are not reached over the platform's Bluetooth stack (null for real guitars)
+ */
+const virtualTransportFor = (deviceId: string): BleTransport | null => {
+  if (isDemoDevice(deviceId)) {
+    return simulatedBluetoothService;
+  }
+  if (isSimulatorDevice(deviceId)) {
+    return webSocketBluetoothService;
+  }
+  return null;
+};
+
 interface BluetoothContextValue {
   isScanning: boolean;
   isConnecting: boolean;
@@ -21,6 +36,7 @@ interface BluetoothContextValue {
   isTestingFailure: boolean;
   devices: BluetoothDevice[];
   connectedDevice: BluetoothDevice | null;
+  capabilities: DeviceCapabilities | null; // Reported by the connected device; null until known
   error: string | null;
   lastResponse: string | null;
   isWebBluetoothSupported: boolean;
@@ -52,6 +68,7 @@ export const BluetoothProvider: React.FC<{ children: ReactNode }> = ({ children
   const [isTestingFailure, setIsTestingFailure] = useState(false);
   const [devices, setDevices] = useState<BluetoothDevice[]>([]);
   const [connectedDevice, setConnectedDevice] = useState<BluetoothDevice | null>(null);
+  const [capabilities, setCapabilities] = useState<DeviceCapabilities | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [lastResponse, setLastResponse] = useState<string | null>(null);
   const [pairedDevices, setPairedDevices] = useState<PairedDevice[]>([]);
@@ -102,12 +119,12 @@ export const BluetoothProvider: React.FC<{ children: ReactNode }> = ({ children
     
     if (Platform.OS !== 'web') {
       try {
-        if (!bluetoothService.isAvailable()) {
+        if (!getBleTransport().isAvailable()) {
           isBluetoothInitializedRef.current = false;
           setError('Bluetooth requires a development build. Use Expo Go for UI testing only.');
           return false;
         }
-        const initialized = await bluetoothService.initialize();
+        const initialized = await getBleTransport().initialize();
         isBluetoothInitializedRef.current = initialized;
         setIsBluetoothInitialized(initialized);
         if (!initialized) {
@@ -155,12 +172,24 @@ export const BluetoothProvider: React.FC<{ children: ReactNode }> = ({ children
         setDevices([]);
       }
 
+      // The demo guitar is always in range, even without Bluetooth hardware, and in development
+      // builds a running firmware simulator (`npm run simulator`) is listed too
+      const addVirtualDevice = (virtualDevice: BluetoothDevice) => {
+        setDevices(prev => (prev.some(d => d.id === virtualDevice.id) ? prev : [virtualDevice, ...prev]));
+      };
+      await simulatedBluetoothService.startScan(addVirtualDevice);
+      if (__DEV__ && webSocketBluetoothService.isAvailable()) {
+        // Not awaited: the web device picker must open while the click still counts as a user gesture
+        webSocketBluetoothService.startScan(addVirtualDevice).catch(() => {});
+      }
+
       if (Platform.OS === 'web') {
         if (!isWebBluetoothSupported) {
           throw new Error('Web Bluetooth is not supported in this browser');
         }
-        const webDevices = await bluetoothWebService.startScan();
-        setDevices(webDevices);
+        const webDevices: BluetoothDevice[] = [];
+        await getBleTransport().startScan(device => webDevices.push(device));
+        setDevices(prev => [...prev.filter(d => virtualTransportFor(d.id) !== null), ...webDevices]);
 
         // Save discovered web devices to local storage
         webDevices.forEach(device => {
@@ -170,16 +199,9 @@ export const BluetoothProvider: React.FC<{ children: ReactNode }> = ({ children
         });
       } else {
         if (!isBluetoothInitializedRef.current) {
-          if (!bluetoothService.isAvailable()) {
-            setTimeout(() => {
-              const mockDevices: BluetoothDevice[] = [
-                { id: '1', name: 'Bluefruit Feather52', rssi: -45, isConnected: false, manufacturerData: 'Adafruit Industries' },
-                { id: '2', name: 'ItsyBitsy nRF52840 Express', rssi: -52, isConnected: false, manufacturerData: 'Adafruit' },
-                { id: '3', name: 'LED Guitar Controller', rssi: -67, isConnected: false, manufacturerData: 'Custom' },
-              ];
-              setDevices(mockDevices);
-              setIsScanning(false);
-            }, 2000);
+          if (!getBleTransport().isAvailable()) {
+            // No BLE module (e.g. Expo Go): only the demo guitar is available
+            setIsScanning(false);
             return;
           }
           setError('Bluetooth not initialized. Please check your Bluetooth settings.');
@@ -187,21 +209,12 @@ export const BluetoothProvider: React.FC<{ children: ReactNode }> = ({ children
           return;
         }
 
-        const hasPermissions = await bluetoothService.requestPermissions();
+        const hasPermissions = await getBleTransport().requestPermissions();
         if (!hasPermissions) {
           throw new Error('Bluetooth permissions are required to scan for devices.');
         }
 
-        await bluetoothService.startScan(async (device: any) => {
-          const unifiedDevice: BluetoothDevice = {
-            id: device.id,
-            name: getDeviceDisplayName(device),
-            rssi: device.rssi || -50,
-            isConnected: false,
-            manufacturerData: device.manufacturerData || 'Unknown',
-            serviceUUIDs: device.serviceUUIDs || [],
-          };
-
+        await getBleTransport().startScan((unifiedDevice) => {
           setDevices(prev => {
             if (prev.some(d => d.id === unifiedDevice.id)) {
               return prev;
@@ -249,7 +262,7 @@ export const BluetoothProvider: React.FC<{ children: ReactNode }> = ({ children
         });
 
         setTimeout(async () => {
-          await bluetoothService.stopScan();
+          await getBleTransport().stopScan();
           setIsScanning(false);
         }, 10000);
 
@@ -265,7 +278,7 @@ export const BluetoothProvider: React.FC<{ children: ReactNode }> = ({ children
   const stopScan = useCallback(async () => {
     setIsScanning(false);
     if (Platform.OS !== 'web') {
-      try { await bluetoothService.stopScan(); } catch {}
+      try { await getBleTransport().stopScan(); } catch {}
     }
   }, []);
 
@@ -301,7 +314,11 @@ export const BluetoothProvider: React.FC<{ children: ReactNode }> = ({ children
       const CONNECTION_TIMEOUT_MS = 3000;
       const timeoutPromise = createConnectionTimeout(CONNECTION_TIMEOUT_MS);
 
-      if (Platform.OS === 'web') {
+      // The demo guitar and the simulator replace the platform transport until they disconnect
+      const virtualTransport = virtualTransportFor(device.id);
+      setBleTransport(virtualTransport);
+
+      if (Platform.OS === 'web' && !virtualTransport) {
         // For web Bluetooth, we need to request the device if not already selected
         if (!bluetoothWebService.hasSelectedDevice()) {
           console.log('No device selected, requesting device for reconnect...');
@@ -327,16 +344,11 @@ export const BluetoothProvider: React.FC<{ children: ReactNode }> = ({ children
             }
           }
         }
-        await Promise.race([
-          bluetoothWebService.connectToDevice(device.id),
-          timeoutPromise
-        ]);
-      } else {
-        await Promise.race([
-          bluetoothService.connectToDevice(device.id),
-          timeoutPromise
-        ]);
       }
+      await Promise.race([
+        getBleTransport().connectToDevice(device.id),
+        timeoutPromise
+      ]);
       const connectedDeviceWithStatus = { ...device, isConnected: true };
       setConnectedDevice(connectedDeviceWithStatus);
       setDevices(prev => prev.map(d => (d.id === device.id ? { ...d, isConnected: true } : d)));
@@ -357,6 +369,14 @@ export const BluetoothProvider: React.FC<{ children: ReactNode }> = ({ children
         console.error('Failed to update device connection in storage:', err);
       }
 
+      // Cache what this guitar supports so validation and the UI can adapt to it
+      try {
+        setCapabilities(await configDomainController.getCapabilities(device.id));
+      } catch (capabilitiesError) {
+        console.warn('Failed to read device capabilities:', capabilitiesError);
+        setCapabilities(null);
+      }
+
       if (user?.userId) {
         try {
           const isPaired = await isDevicePaired(device.id, user.userId);
@@ -381,31 +401,19 @@ export const BluetoothProvider: React.FC<{ children: ReactNode }> = ({ children
         device.rssi
       );
 
-      if (Platform.OS !== 'web') {
+      setTimeout(async () => {
         try {
-          bluetoothService.setAnalyticsCallback(device.id, async (batch) => {
-            await processAnalyticsBatch(batch, device.id, device.name);
-            try {
-              await bluetoothService.confirmAnalytics(device.id, batch.batchId);
-            } catch (confirmError) {
-              console.error('Failed to confirm analytics:', confirmError);
-            }
-          });
-          
-          setTimeout(async () => {
-            try {
-              const batch = await bluetoothService.requestAnalytics(device.id);
-              await processAnalyticsBatch(batch, device.id, device.name);
-              await bluetoothService.confirmAnalytics(device.id, batch.batchId);
-            } catch (analyticsError) {
-              console.log('No analytics available:', analyticsError);
-            }
-          }, 1000);
+          const batch = await getBleTransport().requestAnalytics(device.id);
+          await processAnalyticsBatch(batch, device.id, device.name);
+          await getBleTransport().confirmAnalytics(device.id, batch.batchId);
         } catch (analyticsError) {
-          console.log('Analytics request failed (non-critical):', analyticsError);
+          console.log('No analytics available:', analyticsError);
         }
-      }
+      }, 1000);
     } catch (err) {
+      if (virtualTransportFor(device.id)) {
+        setBleTransport(null);
+      }
       const errorMessage = `Failed to connect to device: ${(err as Error).message}`;
       setError(errorMessage);
       
@@ -438,13 +446,13 @@ export const BluetoothProvider: React.FC<{ children: ReactNode }> = ({ children
     const deviceId = connectedDevice.id;
     const deviceName = connectedDevice.name;
     try {
-      if (Platform.OS === 'web') {
-        await bluetoothWebService.disconnectDevice(deviceId);
-      } else {
-        await bluetoothService.disconnectDevice(deviceId);
+      await getBleTransport().disconnectDevice(deviceId);
+      if (virtualTransportFor(deviceId)) {
+        setBleTransport(null);
       }
       setDevices(prev => prev.map(d => (d.id === deviceId ? { ...d, isConnected: false } : d)));
       setConnectedDevice(null);
+      setCapabilities(null);
       autoConnectAttempted.current.delete(deviceId);
 
       // Update device storage connection status and refresh paired devices
@@ -481,13 +489,8 @@ export const BluetoothProvider: React.FC<{ children: ReactNode }> = ({ children
       setError(null);
       setLastResponse(null);
 
-      if (Platform.OS === 'web') {
-        const response = await bluetoothWebService.sendMessage(connectedDevice.id, message);
-        setLastResponse(response);
-      } else {
-        await bluetoothService.sendMessage(connectedDevice.id, message);
-        setLastResponse('Message sent successfully via Bluetooth');
-      }
+      const response = await getBleTransport().sendMessage(connectedDevice.id, message);
+      setLastResponse(response ?? 'Message sent successfully via Bluetooth');
     } catch (err) {
       setError(`Failed to send message: ${(err as Error).message}`);
       setLastResponse(null);
@@ -506,16 +509,11 @@ export const BluetoothProvider: React.FC<{ children: ReactNode }> = ({ children
       setError(null);
       setLastResponse(null);
 
-      if (Platform.OS === 'web') {
-        const response = await bluetoothWebService.sendMessage(connectedDevice.id, 'ERROR_TEST');
-        setLastResponse(response);
-      } else {
-        try {
-          await bluetoothService.sendMessage(connectedDevice.id, 'ERROR_TEST');
-          setLastResponse('Error test message sent via Bluetooth');
-        } catch (err) {
-          setLastResponse(`Error test triggered: ${(err as Error).message}`);
-        }
+      try {
+        const response = await getBleTransport().sendMessage(connectedDevice.id, 'ERROR_TEST');
+        setLastResponse(response ?? 'Error test message sent via Bluetooth');
+      } catch (err) {
+        setLastResponse(`Error test triggered: ${(err as Error).message}`);
       }
     } catch (err) {
       setError(`Test failure triggered: ${(err as Error).message}`);
@@ -712,6 +710,7 @@ export const BluetoothProvider: React.FC<{ children: ReactNode }> = ({ children
     isTestingFailure,
     devices,
     connectedDevice,
+    capabilities,
     error,
     lastResponse,
     isWebBluetoothSupported,
@@ -737,6 +736,7 @@ export const BluetoothProvider: React.FC<{ children: ReactNode }> = ({ children
     isTestingFailure,
     devices,
     connectedDevice,
+    capabilities,
     error,
     lastResponse,
     isWebBluetoothSupported,
@@ -4,12 +4,11 @@
  */
 
 import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { appStorage } from '../domain/storage/appStorage';
+import { STORAGE_KEYS } from '../domain/storage/storageKeys';
 import { useColorScheme } from 'react-native';
 import { theme } from '../utils/theme';
 
-const THEME_STORAGE_KEY = 'app_theme_preference';
-
 type ThemeMode = 'light' | 'dark' | 'system';
 
 interface ThemeColors {
@@ -43,7 +42,7 @@ export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   useEffect(() => {
     // Load saved theme preference
-    AsyncStorage.getItem(THEME_STORAGE_KEY).then((saved) => {
+    appStorage.readString(STORAGE_KEYS.THEME).then((saved) => {
       if (saved && (saved === 'light' || saved === 'dark' || saved === 'system')) {
         setThemeModeState(saved as ThemeMode);
       }
@@ -52,7 +51,7 @@ export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   const setThemeMode = async (mode: ThemeMode) => {
     setThemeModeState(mode);
-    await AsyncStorage.setItem(THEME_STORAGE_KEY, mode);
+    await appStorage.writeString(STORAGE_KEYS.THEME, mode);
   };
 
   const isDark = useMemo(() => {
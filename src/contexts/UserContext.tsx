@@ -4,11 +4,10 @@
  */
 
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as AppleAuthentication from 'expo-apple-authentication';
 import { GoogleCredential } from '../utils/googleAuth';
-
-const USER_STORAGE_KEY = 'user_data';
+import { appStorage } from '../domain/storage/appStorage';
+import { STORAGE_KEYS } from '../domain/storage/storageKeys';
 
 export type AuthProvider = 'apple' | 'google';
 
@@ -20,6 +19,9 @@ interface UserData {
   authProvider: AuthProvider;
 }
 
+const isUserData = (value: unknown): boolean =>
+  typeof value === 'object' && value !== null && typeof (value as UserData).userId === 'string';
+
 type AuthCredential = AppleAuthentication.AppleAuthenticationCredential | GoogleCredential;
 
 interface UserContextType {
@@ -44,23 +46,17 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   useEffect(() => {
     // Load saved user data on mount
-    AsyncStorage.getItem(USER_STORAGE_KEY)
-      .then((data) => {
-        if (data) {
-          try {
-            const parsed = JSON.parse(data);
-            setUserState(parsed);
-            console.log('Loaded user data from storage:', {
-              userId: parsed.userId,
-              email: parsed.email || 'null',
-              firstName: parsed.firstName || 'null',
-              lastName: parsed.lastName || 'null',
-              provider: parsed.authProvider || 'apple',
-            });
-          } catch (error) {
-            console.error('Failed to parse user data from storage:', error);
-            console.log('Raw data:', data);
-          }
+    appStorage.readJSON<UserData | null>(STORAGE_KEYS.USER, null, isUserData)
+      .then((parsed) => {
+        if (parsed) {
+          setUserState(parsed);
+          console.log('Loaded user data from storage:', {
+            userId: parsed.userId,
+            email: parsed.email || 'null',
+            firstName: parsed.firstName || 'null',
+            lastName: parsed.lastName || 'null',
+            provider: parsed.authProvider,
+          });
         } else {
           console.log('No user data found in storage');
         }
@@ -80,7 +76,7 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
     if (!credential) {
       setUserState(null);
-      await AsyncStorage.removeItem(USER_STORAGE_KEY);
+      await appStorage.remove(STORAGE_KEYS.USER);
       return;
     }
 
@@ -92,13 +88,10 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
     const userId = (credential as any).user;
     
     try {
-      const existing = await AsyncStorage.getItem(USER_STORAGE_KEY);
-      if (existing) {
-        const parsed = JSON.parse(existing);
-        // Only use existing data if it's for the same user
-        if (parsed.userId === userId) {
-          existingUser = parsed;
-        }
+      const parsed = await appStorage.readJSON<UserData | null>(STORAGE_KEYS.USER, null, isUserData);
+      // Only use existing data if it's for the same user
+      if (parsed?.userId === userId) {
+        existingUser = parsed;
       }
     } catch (error) {
       console.error('Failed to load existing user data:', error);
@@ -174,11 +167,11 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setUserState(userData);
     if (remember) {
       try {
-        await AsyncStorage.setItem(USER_STORAGE_KEY, JSON.stringify(userData));
+        await appStorage.writeJSON(STORAGE_KEYS.USER, userData);
         console.log('User data saved to storage successfully');
         
         // Verify the save worked by reading it back (especially important for web)
-        const verify = await AsyncStorage.getItem(USER_STORAGE_KEY);
+        const verify = await appStorage.readString(STORAGE_KEYS.USER);
         if (verify) {
           console.log('User data verified in storage');
         } else {
@@ -191,7 +184,7 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
     } else {
       try {
-        await AsyncStorage.removeItem(USER_STORAGE_KEY);
+        await appStorage.remove(STORAGE_KEYS.USER);
       } catch (error) {
         console.error('Failed to remove user data from storage:', error);
       }
@@ -209,7 +202,7 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
     setUserState(updatedUser);
     try {
-      await AsyncStorage.setItem(USER_STORAGE_KEY, JSON.stringify(updatedUser));
+      await appStorage.writeJSON(STORAGE_KEYS.USER, updatedUser);
       console.log('User name updated in storage');
     } catch (error) {
       console.error('Failed to save updated user name to storage:', error);
@@ -218,7 +211,7 @@ export const UserProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const clearUser = async () => {
     setUserState(null);
-    await AsyncStorage.removeItem(USER_STORAGE_KEY);
+    await appStorage.remove(STORAGE_KEYS.USER);
   };
 
   // Check if user needs to complete their profile (signed in but missing name/email)
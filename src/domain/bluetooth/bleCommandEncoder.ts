@@ -1,9 +1,25 @@
 import { BLE_COMMANDS, RESPONSE_CODES } from '../../utils/bleConstants';
 import { DeviceSettings } from '../../utils/bleConstants';
+import { MAX_FRAME_PAYLOAD } from './protocolCodec';
+import { CommandCodec } from './protocolMessages';
+import { ConfigParameter, BatchUpdateEntry, MAX_BATCH_ENTRIES } from '../../types/protocol';
+import { ErrorCode, BLEError } from '../../types/errors';
+
+/**
+ * Setting carried by each batch update parameter
+ */
+export const CONFIG_PARAMETER_SETTINGS: Record<ConfigParameter, keyof DeviceSettings> = {
+  [ConfigParameter.BRIGHTNESS]: 'brightness',
+  [ConfigParameter.PATTERN]: 'currentPattern',
+  [ConfigParameter.COLOR]: 'color',
+  [ConfigParameter.POWER_MODE]: 'powerMode',
+  [ConfigParameter.SPEED]: 'speed',
+};
 
 /**
  * BLE Command Encoder
  * Encodes commands in proper binary format for microcontroller
+ * Returns bare [opcode, ...data] messages; the transport frames them via ProtocolCodec
  */
 export class BLECommandEncoder {
   /**
@@ -24,10 +40,13 @@ export class BLECommandEncoder {
 
   /**
    * Encode commit config command
-   * Returns: [0x11]
+   * Returns: [0x11], or [0x11, expectedRevision(2)] so the device refuses the commit if its config has moved on
    */
-  static encodeCommitConfig(): Uint8Array {
-    return new Uint8Array([BLE_COMMANDS.CMD_COMMIT_CONFIG]);
+  static encodeCommitConfig(expectedRevision?: number): Uint8Array {
+    if (expectedRevision === undefined) {
+      return new Uint8Array([BLE_COMMANDS.CMD_COMMIT_CONFIG]);
+    }
+    return CommandCodec.encodeCommitConfig({ expectedRevision });
   }
 
   /**
@@ -38,6 +57,22 @@ export class BLECommandEncoder {
     return new Uint8Array([BLE_COMMANDS.CMD_EXIT_CONFIG]);
   }
 
+  /**
+   * Encode read config command (the device answers with its staged settings)
+   * Returns: [0x18]
+   */
+  static encodeReadConfig(): Uint8Array {
+    return new Uint8Array([BLE_COMMANDS.CMD_READ_CONFIG]);
+  }
+
+  /**
+   * Encode get capabilities command
+   * Returns: [0x16]
+   */
+  static encodeGetCapabilities(): Uint8Array {
+    return new Uint8Array([BLE_COMMANDS.CMD_GET_CAPABILITIES]);
+  }
+
   /**
    * Encode config update command
    * Format: [0x02, paramType, value...]
@@ -61,9 +96,9 @@ export class BLECommandEncoder {
       throw new Error('Value array cannot be empty');
     }
     
-    // Guard against array length overflow (BLE MTU limits)
-    if (values.length > 20) {
-      throw new Error(`Value array too long: ${values.length}. Maximum 20 values`);
+    // Guard against frame overflow; the transport fragments anything larger than the MTU
+    if (2 + values.length > MAX_FRAME_PAYLOAD) {
+      throw new Error(`Value array too long: ${values.length}. Maximum ${MAX_FRAME_PAYLOAD - 2} values`);
     }
     
     try {
@@ -135,7 +170,7 @@ export class BLECommandEncoder {
 
   /**
    * Encode full settings update
-   * Sends multiple config update commands
+   * Sends multiple config update commands (encodeBatchUpdate applies them atomically instead)
    */
   static encodeSettingsUpdate(settings: Partial<DeviceSettings>): Uint8Array[] {
     const commands: Uint8Array[] = [];
@@ -164,6 +199,39 @@ export class BLECommandEncoder {
     return commands;
   }
 
+  /**
+   * Batch entries for the settings UPDATE_BATCH can carry, in ConfigParameter order
+   */
+  static batchEntries(settings: Partial<DeviceSettings>): BatchUpdateEntry[] {
+    const byte = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+    const entries: BatchUpdateEntry[] = [];
+
+    (Object.keys(CONFIG_PARAMETER_SETTINGS).map(Number) as ConfigParameter[]).forEach(parameter => {
+      const value = settings[CONFIG_PARAMETER_SETTINGS[parameter]];
+      if (value === undefined) {
+        return;
+      }
+      const [value1, value2 = 0, value3 = 0] = (Array.isArray(value) ? value : [Number(value)]).map(byte);
+      entries.push({ parameter, value1, value2, value3 });
+    });
+
+    return entries;
+  }
+
+  /**
+   * Encode a batch update that the device applies all at once (or not at all)
+   * Format: [0x04, entryCount, ...(parameter, value1, value2, value3)]
+   */
+  static encodeBatchUpdate(settings: Partial<DeviceSettings>): Uint8Array {
+    const entries = this.batchEntries(settings);
+    if (entries.length === 0 || entries.length > MAX_BATCH_ENTRIES) {
+      throw new BLEError({
+        code: ErrorCode.INVALID_PARAMETER,
+        message: `Batch update needs 1-${MAX_BATCH_ENTRIES} parameters, got ${entries.length}`,
+      });
+    }
+    return CommandCodec.encodeUpdateBatch({ entryCount: entries.length, entries });
+  }
 
   /**
    * Convert Uint8Array to base64 string for transmission
@@ -0,0 +1,104 @@
+/**
+ * BLE Transport
+ * What the domain layer needs from a platform's Bluetooth stack. `bluetoothService` (native) and
+ * `bluetoothWebService` (Web Bluetooth) both implement it, so a domain operation that compiles
+ * against BleTransport works on every platform.
+ *
+ * Domain modules get the transport from getBleTransport() instead of importing a service.
+ * It defaults to the service for the current platform; setBleTransport() swaps in another one.
+ */
+
+import { Platform } from 'react-native';
+import { BluetoothDevice } from '../../types/bluetooth';
+import { CommandResponse, AnalyticsBatch } from '../../types/commands';
+import { DecodedResponse } from './protocolCodec';
+
+export interface SendCommandOptions {
+  signal?: AbortSignal; // Abort to cancel the command while it waits for a response
+}
+
+export interface BleTransport {
+  /**
+   * Whether this platform's Bluetooth stack is present at all
+   */
+  isAvailable(): boolean;
+  initialize(): Promise<boolean>;
+  requestPermissions(): Promise<boolean>;
+
+  /**
+   * Report devices as they are found; on the web this opens the browser's device picker
+   */
+  startScan(onDeviceFound: (device: BluetoothDevice) => void): Promise<void>;
+  stopScan(): Promise<void>;
+
+  connectToDevice(deviceId: string): Promise<void>;
+  disconnectDevice(deviceId: string): Promise<void>;
+  isDeviceConnected(deviceId: string): Promise<boolean>;
+  onDisconnection(deviceId: string, callback: (deviceId: string) => void): void;
+  removeDisconnectionListener(deviceId: string): void;
+
+  /**
+   * Send a command in a v2 frame and wait for the response matching its sequence ID
+   */
+  sendCommand(deviceId: string, command: Uint8Array, timeout?: number, options?: SendCommandOptions): Promise<CommandResponse>;
+
+  /**
+   * Send a command with write-without-response and no reply (fire-and-forget)
+   */
+  sendUnacknowledged(deviceId: string, command: Uint8Array): Promise<void>;
+
+  /**
+   * Write raw text (legacy text protocol); resolves with the reply where the platform captures one
+   */
+  sendMessage(deviceId: string, message: string): Promise<string | null>;
+
+  /**
+   * Listen to every decoded response from a device, including unsolicited notifications
+   */
+  subscribeToNotifications(deviceId: string, listener: (response: DecodedResponse) => void): () => void;
+
+  /**
+   * Reject every command still waiting for a response from a device
+   */
+  cancelPendingCommands(deviceId: string, reason?: Error): void;
+
+  /**
+   * Negotiated ATT MTU for a connected device
+   */
+  getMtu(deviceId: string): number;
+
+  /**
+   * Current signal strength in dBm, or null where the platform cannot measure it
+   */
+  readRssi(deviceId: string): Promise<number | null>;
+
+  requestAnalytics(deviceId: string): Promise<AnalyticsBatch>;
+  confirmAnalytics(deviceId: string, batchId: number): Promise<CommandResponse>;
+}
+
+let activeTransport: BleTransport | null = null;
+
+/**
+ * The service for the current platform
+ * Required lazily: both services import domain modules that import this one
+ */
+const platformTransport = (): BleTransport => {
+  if (Platform.OS === 'web') {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require('../../utils/bluetoothWebService').bluetoothWebService;
+  }
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  return require('../../utils/bluetoothService').bluetoothService;
+};
+
+/**
+ * Transport the domain layer talks to
+ */
+export const getBleTransport = (): BleTransport => activeTransport ?? platformTransport();
+
+/**
+ * Replace the transport (e.g. a simulator); null restores the platform's own service
+ */
+export const setBleTransport = (transport: BleTransport | null): void => {
+  activeTransport = transport;
+};
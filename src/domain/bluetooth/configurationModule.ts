@@ -1,19 +1,9 @@
-import { Platform } from 'react-native';
 import { BLECommandEncoder } from './bleCommandEncoder';
-import { ErrorEnvelope, checkAndParseErrorEnvelope, createErrorEnvelope, ErrorCode } from '../common/errorEnvelope';
+import { ProtocolCodec, DecodedResponse, CONFIG_SNAPSHOT_SIZE, LEGACY_CONFIG_SNAPSHOT_SIZE } from './protocolCodec';
+import { ErrorEnvelope, createErrorEnvelope, ErrorCode } from '../common/errorEnvelope';
+import { ResponseType } from '../../types/commands';
 import { BluetoothDevice } from '../../types/bluetooth';
-import { bluetoothService } from '../../utils/bluetoothService';
-// Helper to get the correct Bluetooth service based on platform.
-// NOTE: Avoid importing bluetoothWebService at module top to prevent circular dependency
-// (bluetoothWebService imports configurationModule). Use lazy require for web.
-const getBleService = () => {
-  if (Platform.OS === 'web') {
-    // eslint-disable-next-line @typescript-eslint/no-var-requires
-    const { bluetoothWebService } = require('../../utils/bluetoothWebService');
-    return bluetoothWebService;
-  }
-  return bluetoothService;
-};
+import { getBleTransport } from './bleTransport';
 
 export type ConfigModeState = 'inactive' | 'entering' | 'active' | 'exiting' | 'error';
 
@@ -22,6 +12,18 @@ export interface ConfigModeStatus {
   error?: ErrorEnvelope;
 }
 
+/**
+ * Settings the device reports in its enter config acknowledgment
+ */
+export interface ConfigSnapshot {
+  brightness: number;
+  speed: number;
+  color: [number, number, number];
+  effectType: number;
+  powerState: boolean;
+  revision: number | null; // null: firmware has no revisions
+}
+
 /**
  * Configuration Module
  * Manages entering/exiting config mode and tracks config mode state
@@ -34,7 +36,7 @@ export class ConfigurationModule {
   private transitionDebounceTimer: NodeJS.Timeout | null = null;
   private readonly TRANSITION_DEBOUNCE_MS = 1000; // 1 second debounce for BLE transitions
   private readonly COMMAND_TIMEOUT_MS = 5000; // 5 second timeout for commands
-  private lastReceivedConfig: any = null; // Store config received from device
+  private lastReceivedConfig: ConfigSnapshot | null = null; // Store config received from device
 
   private constructor() {}
 
@@ -102,7 +104,7 @@ export class ConfigurationModule {
       const command = BLECommandEncoder.encodeEnterConfigMode();
 
       // Send with built-in timeout (sendCommand has timeout built-in)
-      const response = await getBleService().sendCommand(this.connectedDevice.id, command, this.COMMAND_TIMEOUT_MS);
+      const response = await getBleTransport().sendCommand(this.connectedDevice.id, command, this.COMMAND_TIMEOUT_MS);
 
       // Check if command was successful
       if (!response.isSuccess) {
@@ -251,7 +253,7 @@ export class ConfigurationModule {
     const command = BLECommandEncoder.encodeExitConfigMode();
 
     // Send with built-in timeout (sendCommand has timeout built-in)
-    const response = await getBleService().sendCommand(this.connectedDevice.id, command, this.COMMAND_TIMEOUT_MS);
+    const response = await getBleTransport().sendCommand(this.connectedDevice.id, command, this.COMMAND_TIMEOUT_MS);
 
     // Check if command was successful
     if (!response.isSuccess) {
@@ -317,106 +319,70 @@ export class ConfigurationModule {
   }
 
   /**
-   * Handle response from device (called by BluetoothService when notification received)
+   * Handle a decoded response from device (called by BluetoothService when notification received)
    */
-  handleResponse(data: Uint8Array | number[] | string): void {
-    console.log('[ConfigurationModule] ====== handleResponse CALLED ======');
-    console.log('[ConfigurationModule] this:', this);
-    console.log('[ConfigurationModule] this.constructor.name:', this.constructor.name);
-    try {
-      console.log('[ConfigurationModule] handleResponse ENTERED with data type:', typeof data, 'length:', typeof data === 'string' ? data.length : (Array.isArray(data) ? data.length : (data as Uint8Array).length));
-
-      // Normalize data for acknowledgment check
-      const arrayData = typeof data === 'string' 
-        ? new Uint8Array(data.split('').map(c => c.charCodeAt(0)))
-        : (Array.isArray(data) ? new Uint8Array(data) : data);
-
-      console.log('[ConfigurationModule] Normalized to arrayData, length:', arrayData.length, 'first byte:', arrayData.length > 0 ? '0x' + arrayData[0].toString(16) : 'N/A');
-
-    // IMPORTANT: Check for config response BEFORE error envelope
-    // Both use 0x90 as first byte, but config is exactly 8 bytes
-    // Config response: [0x90, brightness, speed, r, g, b, effectType, powerState] (8 bytes)
-    // Error envelope: [0x90, errorCode, ...messageBytes] (variable length, typically not 8 bytes)
-    if (arrayData.length === 8 && arrayData[0] === 0x90) {
-      console.log('[ConfigurationModule] Received 8-byte binary config response');
-      console.log('[ConfigurationModule] Response bytes:', Array.from(arrayData).map(b => '0x' + b.toString(16).padStart(2, '0')).join(' '));
-      console.log('[ConfigurationModule] Current state:', this.configModeState);
-      // Parse config from binary response: [0x90, brightness, speed, h, s, v, effectType, powerState]
-      const config = this.parseConfigFromResponse(arrayData);
-      if (config) {
-        this.lastReceivedConfig = config;
-        console.log('[ConfigurationModule] Parsed config from device:', config);
-      } else {
-        console.warn('[ConfigurationModule] Failed to parse config from response');
-      }
-
-      // Only set state to active if we were entering (don't override if already active)
-      if (this.configModeState === 'entering') {
-        this.setState('active');
-      }
+  handleResponse(response: DecodedResponse): void {
+    if (ProtocolCodec.isErrorEnvelope(response)) {
+      this.setErrorState(response);
       return;
     }
 
-    // Check for error envelope using helper function (AFTER checking for config response)
-    const error = checkAndParseErrorEnvelope(data);
-    if (error) {
-      this.setErrorState(error);
+    if (ProtocolCodec.isAnalyticsBatch(response)) {
       return;
     }
 
-    // Check if it's a regular acknowledgment
-    if (BLECommandEncoder.isAcknowledgment(arrayData)) {
-      const ack = BLECommandEncoder.parseAcknowledgment(arrayData);
-      if (ack.type === 'config_mode' && this.configModeState === 'entering') {
-        this.setState('active');
-      } else if (ack.type === 'commit' && this.configModeState === 'active') {
+    switch (response.type) {
+      case ResponseType.ACK_CONFIG_MODE:
+        // Enter config acknowledgment carries the current settings:
+        // [brightness, speed, r, g, b, effectType, powerState, revision(2)]
+        if (response.data &&
+            (response.data.length === CONFIG_SNAPSHOT_SIZE || response.data.length === LEGACY_CONFIG_SNAPSHOT_SIZE)) {
+          this.lastReceivedConfig = this.parseConfigSnapshot(response.data);
+          console.log('[ConfigurationModule] Parsed config from device:', this.lastReceivedConfig);
+        }
+
+        // Only set state to active if we were entering (don't override if already active)
+        if (this.configModeState === 'entering') {
+          this.setState('active');
+        }
+        break;
+      case ResponseType.ACK_COMMIT:
         // Commit successful, but stay in config mode
-        this.notifyStateChange();
-      }
-    }
-    } catch (error) {
-      console.error('[ConfigurationModule] Error in handleResponse:', error);
-      console.error('[ConfigurationModule] Error stack:', error instanceof Error ? error.stack : 'No stack');
-      throw error;
+        if (this.configModeState === 'active') {
+          this.notifyStateChange();
+        }
+        break;
+      default:
+        break;
     }
   }
 
   /**
-   * Parse config from device response
-   * Format: [0x90, brightness, speed, r, g, b, effectType, powerState] (8 bytes)
+   * Parse config snapshot from an enter config acknowledgment
+   * Format: [brightness, speed, r, g, b, effectType, powerState, revision(2)] (9 bytes, or 7 without the revision)
    */
-  private parseConfigFromResponse(data: Uint8Array): any | null {
-    console.log('[ConfigurationModule] parseConfigFromResponse called, data length:', data.length, 'first byte:', data.length > 0 ? '0x' + data[0].toString(16) : 'N/A');
-    if (data.length !== 8 || data[0] !== 0x90) {
-      console.warn('[ConfigurationModule] parseConfigFromResponse: Invalid data - length:', data.length, 'first byte:', data.length > 0 ? '0x' + data[0].toString(16) : 'N/A');
-      return null;
-    }
-
-    try {
-      return {
-        brightness: data[1],
-        speed: data[2],
-        color: [data[3], data[4], data[5]] as [number, number, number], // RGB format
-        effectType: data[6],
-        powerState: data[7] > 0,
-      };
-    } catch (error) {
-      console.error('[ConfigurationModule] Failed to parse config from response:', error);
-      return null;
-    }
+  private parseConfigSnapshot(data: Uint8Array): ConfigSnapshot {
+    return {
+      brightness: data[0],
+      speed: data[1],
+      color: [data[2], data[3], data[4]], // RGB format
+      effectType: data[5],
+      powerState: data[6] > 0,
+      revision: data.length >= CONFIG_SNAPSHOT_SIZE ? (data[7] << 8) | data[8] : null,
+    };
   }
 
   /**
    * Get the last received config from device (if available)
    */
-  getLastReceivedConfig(): any | null {
+  getLastReceivedConfig(): ConfigSnapshot | null {
     return this.lastReceivedConfig;
   }
 
   /**
    * Set config directly (workaround for debugging)
    */
-  setConfigDirectly(config: any): void {
+  setConfigDirectly(config: ConfigSnapshot): void {
     console.log('[ConfigurationModule] setConfigDirectly called with:', config);
     this.lastReceivedConfig = config;
     console.log('[ConfigurationModule] Config set directly, lastReceivedConfig is now:', this.lastReceivedConfig);
@@ -0,0 +1,261 @@
+/**
+ * BLE Fragmentation
+ * Splits messages (v2 frames) into MTU-sized fragments and reassembles them on receipt,
+ * so any message up to MAX_FRAME_PAYLOAD travels the same way regardless of the negotiated MTU.
+ *
+ * Fragment layout (one per BLE write / notification, matches firmware protocol.h):
+ *   [messageId(1)] [chunkIndex(1)] [chunkCount(1)] [chunkLength(1)] [data...]
+ *
+ * Every message is fragmented, even when it fits in a single packet.
+ */
+
+import { ErrorCode, BLEError } from '../../types/errors';
+import {
+  FRAGMENT_HEADER_SIZE,
+  ATT_HEADER_SIZE,
+  DEFAULT_ATT_MTU,
+  MAX_FRAGMENT_COUNT,
+  MAX_FRAGMENT_DATA,
+} from '../../types/protocol';
+
+// Wire constants are generated from protocol/spec.json; DEFAULT_ATT_MTU is used when the
+// negotiated MTU is unknown (e.g. Web Bluetooth)
+export { FRAGMENT_HEADER_SIZE, ATT_HEADER_SIZE, DEFAULT_ATT_MTU, MAX_FRAGMENT_COUNT, MAX_FRAGMENT_DATA };
+export const REQUESTED_ATT_MTU = 247;
+export const REASSEMBLY_TIMEOUT_MS = 2000;
+
+export interface Fragment {
+  messageId: number;
+  chunkIndex: number;
+  chunkCount: number;
+  data: Uint8Array;
+}
+
+export class Fragmenter {
+  private mtu: number = DEFAULT_ATT_MTU;
+  private lastMessageId: number = 0;
+
+  constructor(mtu: number = DEFAULT_ATT_MTU) {
+    this.setMtu(mtu);
+  }
+
+  /**
+   * Update the negotiated ATT MTU
+   */
+  setMtu(mtu: number): void {
+    if (!Number.isFinite(mtu) || mtu < DEFAULT_ATT_MTU) {
+      throw new Error(`Invalid MTU: ${mtu}. Must be at least ${DEFAULT_ATT_MTU}`);
+    }
+    this.mtu = Math.floor(mtu);
+  }
+
+  getMtu(): number {
+    return this.mtu;
+  }
+
+  /**
+   * Data bytes that fit in one fragment at the current MTU
+   */
+  getMaxChunkSize(): number {
+    return Math.min(this.mtu - ATT_HEADER_SIZE - FRAGMENT_HEADER_SIZE, MAX_FRAGMENT_DATA);
+  }
+
+  /**
+   * Split a message into fragments ready to write
+   */
+  fragment(message: Uint8Array): Uint8Array[] {
+    if (message.length === 0) {
+      throw new BLEError({
+        code: ErrorCode.INVALID_COMMAND,
+        message: 'Cannot fragment an empty message',
+      });
+    }
+
+    const chunkSize = this.getMaxChunkSize();
+    const chunkCount = Math.ceil(message.length / chunkSize);
+    if (chunkCount > MAX_FRAGMENT_COUNT) {
+      throw new BLEError({
+        code: ErrorCode.INVALID_PARAMETER,
+        message: `Message too long to fragment: ${message.length} bytes at MTU ${this.mtu}`,
+      });
+    }
+
+    this.lastMessageId = (this.lastMessageId + 1) & 0xff;
+
+    const fragments: Uint8Array[] = [];
+    for (let chunkIndex = 0; chunkIndex < chunkCount; chunkIndex++) {
+      const data = message.subarray(chunkIndex * chunkSize, (chunkIndex + 1) * chunkSize);
+      const fragment = new Uint8Array(FRAGMENT_HEADER_SIZE + data.length);
+      fragment[0] = this.lastMessageId;
+      fragment[1] = chunkIndex;
+      fragment[2] = chunkCount;
+      fragment[3] = data.length;
+      fragment.set(data, FRAGMENT_HEADER_SIZE);
+      fragments.push(fragment);
+    }
+
+    return fragments;
+  }
+}
+
+export interface ReassemblerOptions {
+  timeoutMs?: number;
+  /**
+   * Called when a message cannot be completed (timeout, superseded or malformed).
+   * firstChunk is the start of the message if it arrived, so callers can tell which request it answered.
+   */
+  onIncomplete?: (error: BLEError, firstChunk: Uint8Array | null) => void;
+}
+
+interface PartialMessage {
+  chunkCount: number;
+  chunks: Array<Uint8Array | undefined>;
+  received: number;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+export class Reassembler {
+  private partialMessages: Map<number, PartialMessage> = new Map();
+  private timeoutMs: number;
+  private onIncomplete?: (error: BLEError, firstChunk: Uint8Array | null) => void;
+
+  constructor(options: ReassemblerOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? REASSEMBLY_TIMEOUT_MS;
+    this.onIncomplete = options.onIncomplete;
+  }
+
+  /**
+   * Parse the fragments in a received packet and return every message they complete
+   */
+  push(packet: Uint8Array): Uint8Array[] {
+    const messages: Uint8Array[] = [];
+    let offset = 0;
+
+    while (offset < packet.length) {
+      const fragment = this.parseFragment(packet, offset);
+      if (!fragment) {
+        this.fail(null, `Malformed fragment: ${packet.length - offset} trailing bytes`);
+        break;
+      }
+
+      offset += FRAGMENT_HEADER_SIZE + fragment.data.length;
+
+      const message = this.addFragment(fragment);
+      if (message) {
+        messages.push(message);
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Check if any message is still waiting for fragments
+   */
+  hasPartialMessage(): boolean {
+    return this.partialMessages.size > 0;
+  }
+
+  /**
+   * Drop every partial message without reporting it (e.g. on disconnect)
+   */
+  reset(): void {
+    this.partialMessages.forEach(partial => clearTimeout(partial.timeoutId));
+    this.partialMessages.clear();
+  }
+
+  private parseFragment(packet: Uint8Array, offset: number): Fragment | null {
+    if (packet.length - offset < FRAGMENT_HEADER_SIZE) {
+      return null;
+    }
+
+    const chunkIndex = packet[offset + 1];
+    const chunkCount = packet[offset + 2];
+    const chunkLength = packet[offset + 3];
+    const dataStart = offset + FRAGMENT_HEADER_SIZE;
+
+    if (chunkCount === 0 || chunkIndex >= chunkCount || chunkLength === 0 || dataStart + chunkLength > packet.length) {
+      return null;
+    }
+
+    return {
+      messageId: packet[offset],
+      chunkIndex,
+      chunkCount,
+      data: packet.slice(dataStart, dataStart + chunkLength),
+    };
+  }
+
+  private addFragment(fragment: Fragment): Uint8Array | null {
+    const { messageId, chunkIndex, chunkCount } = fragment;
+    let partial = this.partialMessages.get(messageId);
+
+    // A different chunk count means the sender reused the ID for a new message
+    if (partial && partial.chunkCount !== chunkCount) {
+      this.fail(messageId, `Incomplete message ${messageId}: superseded after ${partial.received}/${partial.chunkCount} chunks`);
+      partial = undefined;
+    }
+
+    if (!partial) {
+      partial = {
+        chunkCount,
+        chunks: new Array(chunkCount),
+        received: 0,
+        timeoutId: this.startTimeout(messageId),
+      };
+      this.partialMessages.set(messageId, partial);
+    } else {
+      clearTimeout(partial.timeoutId);
+      partial.timeoutId = this.startTimeout(messageId);
+    }
+
+    if (!partial.chunks[chunkIndex]) {
+      partial.received++;
+    }
+    partial.chunks[chunkIndex] = fragment.data;
+
+    if (partial.received < partial.chunkCount) {
+      return null;
+    }
+
+    clearTimeout(partial.timeoutId);
+    this.partialMessages.delete(messageId);
+
+    const chunks = partial.chunks as Uint8Array[];
+    const message = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    chunks.forEach(chunk => {
+      message.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return message;
+  }
+
+  private startTimeout(messageId: number): ReturnType<typeof setTimeout> {
+    return setTimeout(() => {
+      const partial = this.partialMessages.get(messageId);
+      if (partial) {
+        this.fail(messageId, `Incomplete message ${messageId}: received ${partial.received}/${partial.chunkCount} chunks before timeout`);
+      }
+    }, this.timeoutMs);
+  }
+
+  /**
+   * Drop a partial message (if any) and report it as incomplete
+   */
+  private fail(messageId: number | null, message: string): void {
+    let firstChunk: Uint8Array | null = null;
+
+    if (messageId !== null) {
+      const partial = this.partialMessages.get(messageId);
+      if (partial) {
+        clearTimeout(partial.timeoutId);
+        this.partialMessages.delete(messageId);
+        firstChunk = partial.chunks[0] ?? null;
+      }
+    }
+
+    console.warn(`[Reassembler] ${message}`);
+    this.onIncomplete?.(new BLEError({ code: ErrorCode.INCOMPLETE_MESSAGE, message }), firstChunk);
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Ownership Authentication
+ * Challenge-response ownership, so the user ID never goes over the air:
+ *
+ * - Claim: the device hands out a salt (REQUEST_CHALLENGE); the app derives
+ *   ownerKey = HMAC-SHA256(userId, salt) and sends it once with CLAIM_DEVICE.
+ * - Verify/unclaim: the app answers the device's single-use nonce with
+ *   proof = HMAC-SHA256(ownerKey, nonce + opcode). A recorded proof is useless once the nonce
+ *   has been answered, and a proof for one command cannot be used for another.
+ *
+ * The salt is kept by the device, so the owner can re-derive the key from their user ID on any phone.
+ */
+
+import { OWNER_KEY_LENGTH, OWNER_SALT_LENGTH, CHALLENGE_NONCE_LENGTH } from '../../types/protocol';
+import { ErrorCode, BLEError } from '../../types/errors';
+
+const SHA256_BLOCK_SIZE = 64;
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+/**
+ * SHA-256 digest (FIPS 180-4)
+ */
+export const sha256 = (message: Uint8Array): Uint8Array => {
+  const paddedLength = Math.ceil((message.length + 9) / SHA256_BLOCK_SIZE) * SHA256_BLOCK_SIZE;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(message);
+  padded[message.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(message.length / 0x20000000));
+  view.setUint32(paddedLength - 4, (message.length * 8) >>> 0);
+
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+
+  for (let offset = 0; offset < paddedLength; offset += SHA256_BLOCK_SIZE) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const t1 = h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    hash[0] += a;
+    hash[1] += b;
+    hash[2] += c;
+    hash[3] += d;
+    hash[4] += e;
+    hash[5] += f;
+    hash[6] += g;
+    hash[7] += h;
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  hash.forEach((word, i) => digestView.setUint32(i * 4, word));
+  return digest;
+};
+
+/**
+ * HMAC-SHA256 (RFC 2104)
+ */
+export const hmacSha256 = (key: Uint8Array, message: Uint8Array): Uint8Array => {
+  const blockKey = new Uint8Array(SHA256_BLOCK_SIZE);
+  blockKey.set(key.length > SHA256_BLOCK_SIZE ? sha256(key) : key);
+
+  const inner = new Uint8Array(SHA256_BLOCK_SIZE + message.length);
+  const outer = new Uint8Array(SHA256_BLOCK_SIZE + 32);
+  for (let i = 0; i < SHA256_BLOCK_SIZE; i++) {
+    inner[i] = blockKey[i] ^ 0x36;
+    outer[i] = blockKey[i] ^ 0x5c;
+  }
+  inner.set(message, SHA256_BLOCK_SIZE);
+  outer.set(sha256(inner), SHA256_BLOCK_SIZE);
+  return sha256(outer);
+};
+
+const checkLength = (bytes: ArrayLike<number>, expected: number, name: string) => {
+  if (bytes.length !== expected) {
+    throw new BLEError({ code: ErrorCode.INVALID_PARAMETER, message: `${name} must be ${expected} bytes, got ${bytes.length}` });
+  }
+};
+
+/**
+ * Owner key for a user on a device: HMAC-SHA256(userId, salt)
+ */
+export const deriveOwnerKey = (userId: string, salt: ArrayLike<number>): Uint8Array => {
+  checkLength(salt, OWNER_SALT_LENGTH, 'Owner key salt');
+  return hmacSha256(new TextEncoder().encode(userId), Uint8Array.from(salt));
+};
+
+/**
+ * Answer to a challenge for one command: HMAC-SHA256(ownerKey, nonce + opcode)
+ */
+export const signChallenge = (ownerKey: ArrayLike<number>, nonce: ArrayLike<number>, opcode: number): Uint8Array => {
+  checkLength(ownerKey, OWNER_KEY_LENGTH, 'Owner key');
+  checkLength(nonce, CHALLENGE_NONCE_LENGTH, 'Challenge nonce');
+  return hmacSha256(Uint8Array.from(ownerKey), Uint8Array.from([...Array.from(nonce), opcode]));
+};
@@ -0,0 +1,218 @@
+/**
+ * Payload Field Readers and Writers
+ * Building blocks for the generated message codecs (protocolMessages.ts).
+ * Multi-byte integers are big-endian; strings are UTF-8.
+ */
+
+import { ErrorCode, BLEError } from '../../types/errors';
+
+export type LengthMode = 'prefix' | 'rest';
+
+export interface LengthRule {
+  length: LengthMode;
+  minLength?: number;
+  maxLength?: number;
+}
+
+/**
+ * Minimal UTF-8 encoder/decoder (TextEncoder/TextDecoder are not available on every React Native runtime)
+ */
+const encodeUtf8 = (value: string): number[] => {
+  const bytes: number[] = [];
+  for (const char of value) {
+    const codePoint = char.codePointAt(0)!;
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(0xe0 | (codePoint >> 12), 0x80 | ((codePoint >> 6) & 0x3f), 0x80 | (codePoint & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    }
+  }
+  return bytes;
+};
+
+const decodeUtf8 = (bytes: Uint8Array): string => {
+  let result = '';
+  let i = 0;
+  const next = () => (bytes[i++] ?? 0) & 0x3f;
+
+  while (i < bytes.length) {
+    const byte = bytes[i++];
+    let codePoint = 0xfffd; // Stray continuation byte
+    if (byte < 0x80) {
+      codePoint = byte;
+    } else if (byte >= 0xf0) {
+      codePoint = ((byte & 0x07) << 18) | (next() << 12) | (next() << 6) | next();
+    } else if (byte >= 0xe0) {
+      codePoint = ((byte & 0x0f) << 12) | (next() << 6) | next();
+    } else if (byte >= 0xc0) {
+      codePoint = ((byte & 0x1f) << 6) | next();
+    }
+    result += String.fromCodePoint(codePoint > 0x10ffff ? 0xfffd : codePoint);
+  }
+  return result;
+};
+
+export class PayloadWriter {
+  private bytes: number[];
+
+  constructor(opcode: number) {
+    this.bytes = [opcode];
+  }
+
+  u8(value: number, name: string): this {
+    this.bytes.push(this.checkInteger(value, 0xff, name));
+    return this;
+  }
+
+  u16(value: number, name: string): this {
+    const checked = this.checkInteger(value, 0xffff, name);
+    this.bytes.push((checked >> 8) & 0xff, checked & 0xff);
+    return this;
+  }
+
+  u32(value: number, name: string): this {
+    const checked = this.checkInteger(value, 0xffffffff, name);
+    this.bytes.push((checked >>> 24) & 0xff, (checked >>> 16) & 0xff, (checked >>> 8) & 0xff, checked & 0xff);
+    return this;
+  }
+
+  u8Array(values: readonly number[], rule: LengthRule, name: string): this {
+    this.checkLength(values.length, rule, name);
+    if (rule.length === 'prefix') {
+      this.bytes.push(values.length);
+    }
+    values.forEach((value, i) => this.u8(value, `${name}[${i}]`));
+    return this;
+  }
+
+  string(value: string, rule: LengthRule, name: string): this {
+    return this.u8Array(encodeUtf8(value), rule, name);
+  }
+
+  /**
+   * Write a repeated fixed-size structure whose count was written earlier
+   * Partial arrays may hold fewer items than the count field announced
+   */
+  items<T>(items: readonly T[], count: number, partial: boolean, name: string, write: (item: T, name: string) => void): this {
+    if (partial ? items.length > count : items.length !== count) {
+      this.fail(name, `${items.length} items for a count of ${count}`);
+    }
+    items.forEach((item, i) => write(item, `${name}[${i}]`));
+    return this;
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+
+  private checkInteger(value: number, max: number, name: string): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > max) {
+      this.fail(name, `${value} (must be an integer 0-${max})`);
+    }
+    return value;
+  }
+
+  private checkLength(length: number, rule: LengthRule, name: string): void {
+    const limit = rule.length === 'prefix' ? 0xff : Infinity;
+    const max = Math.min(rule.maxLength ?? limit, limit);
+    if (length < (rule.minLength ?? 0) || length > max) {
+      this.fail(name, `length ${length} (must be ${rule.minLength ?? 0}-${max})`);
+    }
+  }
+
+  private fail(name: string, detail: string): never {
+    throw new BLEError({
+      code: ErrorCode.INVALID_PARAMETER,
+      message: `Invalid ${name}: ${detail}`,
+    });
+  }
+}
+
+export class PayloadReader {
+  private offset = 1;
+
+  /**
+   * @param label - Used in error messages, e.g. "capabilities response"
+   */
+  constructor(private readonly payload: Uint8Array, opcode: number, private readonly label: string) {
+    if (payload.length === 0 || payload[0] !== opcode) {
+      this.fail();
+    }
+  }
+
+  remaining(): number {
+    return this.payload.length - this.offset;
+  }
+
+  u8(): number {
+    this.require(1);
+    return this.payload[this.offset++];
+  }
+
+  u16(): number {
+    this.require(2);
+    const value = (this.payload[this.offset] << 8) | this.payload[this.offset + 1];
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    this.require(4);
+    const p = this.payload;
+    const o = this.offset;
+    this.offset += 4;
+    return ((p[o] << 24) | (p[o + 1] << 16) | (p[o + 2] << 8) | p[o + 3]) >>> 0;
+  }
+
+  u8Array(rule: LengthRule): number[] {
+    const length = rule.length === 'prefix' ? this.u8() : this.remaining();
+    if (length < (rule.minLength ?? 0) || (rule.maxLength !== undefined && length > rule.maxLength)) {
+      this.fail();
+    }
+    this.require(length);
+    const values = Array.from(this.payload.slice(this.offset, this.offset + length));
+    this.offset += length;
+    return values;
+  }
+
+  string(rule: LengthRule): string {
+    return decodeUtf8(new Uint8Array(this.u8Array(rule)));
+  }
+
+  /**
+   * Read a repeated fixed-size structure
+   * Partial arrays stop early when the payload runs out instead of failing
+   */
+  items<T>(count: number, itemSize: number, partial: boolean, read: () => T): T[] {
+    const items: T[] = [];
+    for (let i = 0; i < count; i++) {
+      if (partial && this.remaining() < itemSize) {
+        break;
+      }
+      items.push(read());
+    }
+    return items;
+  }
+
+  private require(length: number): void {
+    if (this.remaining() < length) {
+      this.fail();
+    }
+  }
+
+  private fail(): never {
+    throw new BLEError({
+      code: ErrorCode.UNKNOWN_ERROR,
+      message: `Malformed ${this.label}`,
+    });
+  }
+}
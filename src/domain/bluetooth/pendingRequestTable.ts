@@ -0,0 +1,137 @@
+/**
+ * Pending Request Table
+ * Tracks in-flight commands by frame sequence ID so several commands can be
+ * outstanding at once and each notification resolves the request it answers.
+ */
+
+import { ErrorCode, BLEError } from '../../types/errors';
+import { DecodedResponse, UNSOLICITED_SEQUENCE_ID } from './protocolCodec';
+
+const MAX_SEQUENCE_ID = 0xff;
+
+export interface PendingRequestOptions {
+  timeoutMs: number;
+  signal?: AbortSignal;
+}
+
+interface PendingRequest {
+  resolve: (response: DecodedResponse) => void;
+  reject: (error: Error) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+  cleanup: () => void;
+}
+
+export class PendingRequestTable {
+  private pending: Map<number, PendingRequest> = new Map();
+  private lastSequenceId: number = UNSOLICITED_SEQUENCE_ID;
+
+  /**
+   * Allocate the next free sequence ID (1-255, 0 is reserved for unsolicited notifications)
+   */
+  allocateSequenceId(): number {
+    for (let attempt = 0; attempt < MAX_SEQUENCE_ID; attempt++) {
+      this.lastSequenceId = (this.lastSequenceId % MAX_SEQUENCE_ID) + 1;
+      if (!this.pending.has(this.lastSequenceId)) {
+        return this.lastSequenceId;
+      }
+    }
+
+    throw new BLEError({
+      code: ErrorCode.MEMORY_LOW,
+      message: `Too many commands in flight (${this.pending.size})`,
+    });
+  }
+
+  /**
+   * Register a request and wait for its response, timeout or cancellation
+   */
+  register(sequenceId: number, options: PendingRequestOptions): Promise<DecodedResponse> {
+    if (this.pending.has(sequenceId)) {
+      return Promise.reject(new Error(`Sequence ID ${sequenceId} is already in flight`));
+    }
+
+    if (options.signal?.aborted) {
+      return Promise.reject(new Error('Command cancelled'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => this.reject(sequenceId, new Error('Command cancelled'));
+
+      const timeoutId = setTimeout(() => {
+        this.reject(sequenceId, new Error('Command timeout'));
+      }, options.timeoutMs);
+
+      options.signal?.addEventListener('abort', onAbort);
+
+      this.pending.set(sequenceId, {
+        resolve,
+        reject,
+        timeoutId,
+        cleanup: () => options.signal?.removeEventListener('abort', onAbort),
+      });
+    });
+  }
+
+  /**
+   * Resolve the request waiting on a sequence ID
+   * Returns false if nothing was waiting (stale, timed out or cancelled)
+   */
+  resolve(sequenceId: number, response: DecodedResponse): boolean {
+    const request = this.take(sequenceId);
+    if (!request) {
+      return false;
+    }
+    request.resolve(response);
+    return true;
+  }
+
+  /**
+   * Reject the request waiting on a sequence ID
+   */
+  reject(sequenceId: number, error: Error): boolean {
+    const request = this.take(sequenceId);
+    if (!request) {
+      return false;
+    }
+    request.reject(error);
+    return true;
+  }
+
+  /**
+   * Cancel a single in-flight request
+   */
+  cancel(sequenceId: number): boolean {
+    return this.reject(sequenceId, new Error('Command cancelled'));
+  }
+
+  /**
+   * Reject every in-flight request (e.g. on disconnect)
+   */
+  rejectAll(error: Error): void {
+    Array.from(this.pending.keys()).forEach(sequenceId => this.reject(sequenceId, error));
+  }
+
+  /**
+   * Check if a sequence ID is still awaiting a response
+   */
+  has(sequenceId: number): boolean {
+    return this.pending.has(sequenceId);
+  }
+
+  /**
+   * Number of requests in flight
+   */
+  get size(): number {
+    return this.pending.size;
+  }
+
+  private take(sequenceId: number): PendingRequest | undefined {
+    const request = this.pending.get(sequenceId);
+    if (request) {
+      this.pending.delete(sequenceId);
+      clearTimeout(request.timeoutId);
+      request.cleanup();
+    }
+    return request;
+  }
+}
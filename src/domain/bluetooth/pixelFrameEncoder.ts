@@ -0,0 +1,171 @@
+/**
+ * Pixel Frame Encoder
+ * Builds PIXEL_FRAME commands from a strip buffer, picking the smallest encoding:
+ *
+ * - RAW: [r, g, b] for every pixel
+ * - RLE: [runLength, r, g, b] runs (good for solid blocks)
+ * - DELTA: [start(2), count, ...rgb] spans changed since the previous frame (good for small changes)
+ *
+ * A strip buffer is a Uint8Array of [r, g, b] triples, one per LED.
+ */
+
+import { CommandCodec } from './protocolMessages';
+import { MAX_FRAME_PAYLOAD } from './protocolCodec';
+import { PixelEncoding } from '../../types/protocol';
+import { ErrorCode, BLEError } from '../../types/errors';
+
+export type PixelBuffer = Uint8Array;
+
+const HEADER_SIZE = 4; // [opcode, encoding, pixelCount(2)]
+const MAX_RUN = 0xff;
+const MAX_PIXEL_INDEX = 0xffff;
+
+const invalid = (message: string) => new BLEError({ code: ErrorCode.INVALID_PARAMETER, message });
+
+/**
+ * Strip buffer with every pixel off
+ */
+export const createPixelBuffer = (pixelCount: number): PixelBuffer => new Uint8Array(pixelCount * 3);
+
+const pixelCountOf = (pixels: PixelBuffer): number => {
+  if (pixels.length % 3 !== 0 || pixels.length / 3 > MAX_PIXEL_INDEX) {
+    throw invalid(`Pixel buffer must hold whole [r, g, b] pixels, got ${pixels.length} bytes`);
+  }
+  return pixels.length / 3;
+};
+
+const samePixel = (a: PixelBuffer, i: number, b: PixelBuffer, j: number): boolean =>
+  a[i * 3] === b[j * 3] && a[i * 3 + 1] === b[j * 3 + 1] && a[i * 3 + 2] === b[j * 3 + 2];
+
+export const encodeRle = (pixels: PixelBuffer): number[] => {
+  const count = pixelCountOf(pixels);
+  const data: number[] = [];
+  for (let start = 0; start < count;) {
+    let run = 1;
+    while (start + run < count && run < MAX_RUN && samePixel(pixels, start, pixels, start + run)) {
+      run++;
+    }
+    data.push(run, pixels[start * 3], pixels[start * 3 + 1], pixels[start * 3 + 2]);
+    start += run;
+  }
+  return data;
+};
+
+export const encodeDelta = (previous: PixelBuffer, pixels: PixelBuffer): number[] => {
+  const count = pixelCountOf(pixels);
+  if (previous.length !== pixels.length) {
+    throw invalid('Delta frames need a previous frame of the same length');
+  }
+
+  const data: number[] = [];
+  for (let start = 0; start < count;) {
+    if (samePixel(previous, start, pixels, start)) {
+      start++;
+      continue;
+    }
+    // Extend the span over changed pixels, and over single unchanged gaps (a new span costs 3 bytes)
+    let end = start + 1;
+    while (end < count && end - start < MAX_RUN &&
+           (!samePixel(previous, end, pixels, end) ||
+            (end + 1 < count && end + 1 - start < MAX_RUN && !samePixel(previous, end + 1, pixels, end + 1)))) {
+      end++;
+    }
+    data.push((start >> 8) & 0xff, start & 0xff, end - start, ...pixels.subarray(start * 3, end * 3));
+    start = end;
+  }
+  return data;
+};
+
+/**
+ * Encode a frame as a PIXEL_FRAME command in the smallest encoding
+ * @param previous - The frame the device is showing; enables DELTA
+ * @param encoding - Force an encoding instead of picking the smallest
+ */
+export const encodePixelFrame = (pixels: PixelBuffer, previous?: PixelBuffer, encoding?: PixelEncoding): Uint8Array => {
+  const pixelCount = pixelCountOf(pixels);
+
+  const candidates: Array<[PixelEncoding, () => number[]]> = [
+    [PixelEncoding.RAW, () => Array.from(pixels)],
+    [PixelEncoding.RLE, () => encodeRle(pixels)],
+  ];
+  if (previous) {
+    candidates.push([PixelEncoding.DELTA, () => encodeDelta(previous, pixels)]);
+  }
+
+  let best: [PixelEncoding, number[]] | null = null;
+  for (const [candidate, encode] of candidates) {
+    if (encoding !== undefined && candidate !== encoding) {
+      continue;
+    }
+    const data = encode();
+    if (!best || data.length < best[1].length) {
+      best = [candidate, data];
+    }
+  }
+  if (!best) {
+    throw invalid(`Encoding ${encoding} needs a previous frame`);
+  }
+  if (HEADER_SIZE + best[1].length > MAX_FRAME_PAYLOAD) {
+    throw invalid(`Pixel frame is ${HEADER_SIZE + best[1].length} bytes, more than ${MAX_FRAME_PAYLOAD}`);
+  }
+
+  return CommandCodec.encodePixelFrame({ encoding: best[0], pixelCount, data: best[1] });
+};
+
+/**
+ * Decode PIXEL_FRAME data into a strip buffer (what the firmware does)
+ * @param previous - The frame being shown; required for DELTA
+ */
+export const decodePixelData = (
+  encoding: PixelEncoding,
+  pixelCount: number,
+  data: number[],
+  previous?: PixelBuffer
+): PixelBuffer => {
+  const pixels = createPixelBuffer(pixelCount);
+
+  switch (encoding) {
+    case PixelEncoding.RAW:
+      if (data.length !== pixelCount * 3) {
+        throw invalid(`RAW frame needs ${pixelCount * 3} bytes, got ${data.length}`);
+      }
+      pixels.set(data);
+      return pixels;
+    case PixelEncoding.RLE: {
+      let covered = 0;
+      let offset = 0;
+      while (covered < pixelCount) {
+        const run = data[offset];
+        if (offset + 4 > data.length || run === 0 || covered + run > pixelCount) {
+          throw invalid(`Malformed RLE run at byte ${offset}`);
+        }
+        for (let i = 0; i < run; i++, covered++) {
+          pixels.set(data.slice(offset + 1, offset + 4), covered * 3);
+        }
+        offset += 4;
+      }
+      if (offset !== data.length) {
+        throw invalid('RLE frame has bytes past the last pixel');
+      }
+      return pixels;
+    }
+    case PixelEncoding.DELTA: {
+      if (!previous || previous.length !== pixelCount * 3) {
+        throw invalid('Delta frame without a full frame first');
+      }
+      pixels.set(previous);
+      for (let offset = 0; offset < data.length;) {
+        const start = (data[offset] << 8) | data[offset + 1];
+        const count = data[offset + 2];
+        if (offset + 3 > data.length || count === 0 || start + count > pixelCount || offset + 3 + count * 3 > data.length) {
+          throw invalid(`Malformed delta span at byte ${offset}`);
+        }
+        pixels.set(data.slice(offset + 3, offset + 3 + count * 3), start * 3);
+        offset += 3 + count * 3;
+      }
+      return pixels;
+    }
+    default:
+      throw invalid(`Unknown pixel encoding ${encoding}`);
+  }
+};
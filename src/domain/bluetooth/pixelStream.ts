@@ -0,0 +1,155 @@
+/**
+ * Pixel Stream
+ * Pushes whole-strip frames to the device at a target frame rate.
+ *
+ * - Only the newest pushed frame is sent; frames replaced before their tick are counted as dropped.
+ * - A tick is skipped while the previous frame is still being written, so a slow link lowers the
+ *   frame rate instead of building a backlog.
+ * - Most frames go fire-and-forget as DELTA (or whichever encoding is smallest). Every
+ *   keyframeInterval frames, and after any failure, an acknowledged full frame (RAW/RLE) resyncs
+ *   the device, since a dropped delta leaves it showing something else.
+ * - While the picture is still, the last frame is re-sent every PIXEL_STREAM_KEEPALIVE_MS so the
+ *   firmware does not fall back to its pattern.
+ */
+
+import { ErrorCode, BLEError } from '../../types/errors';
+import { PixelBuffer, encodePixelFrame } from './pixelFrameEncoder';
+import { getBleTransport } from './bleTransport';
+
+export const DEFAULT_PIXEL_STREAM_FPS = 30;
+export const MAX_PIXEL_STREAM_FPS = 60;
+export const PIXEL_STREAM_KEEPALIVE_MS = 1000; // Well inside the firmware's PIXEL_STREAM_TIMEOUT_MS
+
+export interface PixelStreamOptions {
+  deviceId: string;
+  ledCount: number;
+  fps?: number;
+  keyframeInterval?: number; // Frames between acknowledged full frames (default: one per second)
+}
+
+export interface PixelStreamStats {
+  sent: number;
+  keyframes: number;
+  dropped: number; // Replaced by a newer frame before being sent
+  failed: number;
+}
+
+export class PixelStream {
+  private readonly deviceId: string;
+  private readonly ledCount: number;
+  private readonly fps: number;
+  private readonly keyframeInterval: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private latest: PixelBuffer | null = null;
+  private shown: PixelBuffer | null = null; // What the device should be showing
+  private inFlight: Promise<void> | null = null;
+  private framesSinceKeyframe: number = 0;
+  private needsKeyframe: boolean = true;
+  private lastSentAt: number = 0;
+  private stats: PixelStreamStats = { sent: 0, keyframes: 0, dropped: 0, failed: 0 };
+
+  constructor(options: PixelStreamOptions) {
+    const fps = options.fps ?? DEFAULT_PIXEL_STREAM_FPS;
+    if (!(fps > 0 && fps <= MAX_PIXEL_STREAM_FPS)) {
+      throw new BLEError({ code: ErrorCode.OUT_OF_RANGE, message: `Pixel stream fps must be 1-${MAX_PIXEL_STREAM_FPS}, got ${fps}` });
+    }
+    this.deviceId = options.deviceId;
+    this.ledCount = options.ledCount;
+    this.fps = fps;
+    this.keyframeInterval = Math.max(1, options.keyframeInterval ?? Math.round(fps));
+  }
+
+  /**
+   * Queue a frame ([r, g, b] per LED), replacing one that has not been sent yet
+   * The frame is copied, so the caller may reuse its buffer
+   */
+  push(frame: PixelBuffer): void {
+    if (frame.length !== this.ledCount * 3) {
+      throw new BLEError({
+        code: ErrorCode.INVALID_PARAMETER,
+        message: `Frame must hold ${this.ledCount} pixels, got ${frame.length} bytes`,
+      });
+    }
+    if (this.latest) {
+      this.stats.dropped++;
+    }
+    this.latest = Uint8Array.from(frame);
+  }
+
+  /**
+   * Start sending at the target frame rate
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.needsKeyframe = true;
+    this.timer = setInterval(() => this.tick(), 1000 / this.fps);
+  }
+
+  /**
+   * Stop sending and wait for the frame in flight; the device resumes its pattern once frames stop
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.latest = null;
+    await this.inFlight;
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  getStats(): PixelStreamStats {
+    return { ...this.stats };
+  }
+
+  private tick(): void {
+    if (this.inFlight) {
+      return;
+    }
+
+    let frame = this.latest;
+    if (!frame && this.shown && Date.now() - this.lastSentAt >= PIXEL_STREAM_KEEPALIVE_MS) {
+      frame = this.shown;
+      this.needsKeyframe = true;
+    }
+    if (!frame) {
+      return;
+    }
+    this.latest = null;
+
+    this.inFlight = this.send(frame).finally(() => {
+      this.inFlight = null;
+    });
+  }
+
+  private async send(frame: PixelBuffer): Promise<void> {
+    const keyframe = this.needsKeyframe || !this.shown || this.framesSinceKeyframe + 1 >= this.keyframeInterval;
+    this.lastSentAt = Date.now();
+
+    try {
+      if (keyframe) {
+        const response = await getBleTransport().sendCommand(this.deviceId, encodePixelFrame(frame));
+        if (!response.isSuccess) {
+          throw new Error(`Device rejected pixel frame (response 0x${response.type.toString(16)})`);
+        }
+        this.needsKeyframe = false;
+        this.framesSinceKeyframe = 0;
+        this.stats.keyframes++;
+      } else {
+        await getBleTransport().sendUnacknowledged(this.deviceId, encodePixelFrame(frame, this.shown!));
+        this.framesSinceKeyframe++;
+      }
+      this.shown = frame;
+      this.stats.sent++;
+    } catch (error: any) {
+      console.error('Pixel frame failed:', error?.message || error);
+      this.needsKeyframe = true;
+      this.stats.failed++;
+    }
+  }
+}
@@ -0,0 +1,379 @@
+/**
+ * BLE Protocol Codec (v2)
+ * Frames every command and response exchanged with the microcontroller
+ *
+ * Frame layout (big-endian, matches firmware protocol.h):
+ *   [version(1)] [sequenceId(1)] [payloadLength(2)] [payload...] [crc16(2)]
+ *
+ * The payload is the bare message built by BLECommandEncoder: [opcode, ...data].
+ * The CRC is CRC-16/CCITT-FALSE over header + payload.
+ * Frames are split into MTU-sized fragments for transport (see fragmentation.ts).
+ */
+
+import { ResponseType, CommandResponse, AnalyticsBatch, AnalyticsSessionData } from '../../types/commands';
+import { ErrorEnvelope, ErrorCode, BLEError } from '../../types/errors';
+import { DeviceCapabilities } from '../../types/capabilities';
+import { getErrorMessage } from '../common/errorEnvelope';
+import { responseRegistry } from './responseRegistry';
+import { ResponseCodec } from './protocolMessages';
+import {
+  PROTOCOL_VERSION,
+  FRAME_HEADER_SIZE,
+  FRAME_TRAILER_SIZE,
+  MAX_FRAME_PAYLOAD,
+  UNSOLICITED_SEQUENCE_ID,
+  BatchRejection,
+} from '../../types/protocol';
+
+// Frame constants are generated from protocol/spec.json
+export { PROTOCOL_VERSION, FRAME_HEADER_SIZE, FRAME_TRAILER_SIZE, MAX_FRAME_PAYLOAD, UNSOLICITED_SEQUENCE_ID };
+export const FRAME_OVERHEAD = FRAME_HEADER_SIZE + FRAME_TRAILER_SIZE;
+
+/**
+ * Number of config bytes following the opcode in a config mode acknowledgment:
+ * [brightness, speed, r, g, b, effectType, powerState, revision(2)]
+ * Firmware from before config revisions sends the first LEGACY_CONFIG_SNAPSHOT_SIZE only
+ */
+export const CONFIG_SNAPSHOT_SIZE = 9;
+export const LEGACY_CONFIG_SNAPSHOT_SIZE = 7;
+
+export interface ProtocolFrame {
+  version: number;
+  sequenceId: number;
+  payload: Uint8Array;
+}
+
+/**
+ * Capabilities report: [opcode, protocolVersion, fwMajor, fwMinor, fwPatch, ledCount(2),
+ * maxMilliamps(2), batteryMah(2), effectCount, ...effectIds, paramCount, ...paramIds]
+ */
+export interface CapabilitiesResponse extends CommandResponse {
+  type: ResponseType.CAPABILITIES;
+  capabilities: DeviceCapabilities;
+}
+
+/**
+ * Batch update rejection: [opcode, rejectedCount, ...(index, parameter, errorCode)]
+ * The device applied none of the batch's entries
+ */
+export interface BatchRejectedResponse extends CommandResponse {
+  type: ResponseType.BATCH_REJECTED;
+  isSuccess: false;
+  rejected: BatchRejection[];
+}
+
+/**
+ * Ownership challenge: [opcode, claimed, saltLength, ...salt, nonceLength, ...nonce]
+ * Answered with signChallenge (see ownershipAuth.ts); the nonce is only good for one answer
+ */
+export interface ChallengeResponse extends CommandResponse {
+  type: ResponseType.CHALLENGE;
+  claimed: boolean;
+  salt: number[];
+  nonce: number[];
+}
+
+export type DecodedResponse = CommandResponse | ErrorEnvelope | AnalyticsBatch;
+
+export interface DecodedFrame {
+  sequenceId: number;
+  response: DecodedResponse;
+}
+
+export class ProtocolCodec {
+  /**
+   * Compute CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF)
+   */
+  static crc16(data: Uint8Array, length: number = data.length): number {
+    let crc = 0xffff;
+    for (let i = 0; i < length; i++) {
+      crc ^= data[i] << 8;
+      for (let bit = 0; bit < 8; bit++) {
+        crc = (crc & 0x8000) !== 0 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+      }
+    }
+    return crc;
+  }
+
+  /**
+   * Wrap a bare message ([opcode, ...data]) in a v2 frame
+   */
+  static encodeFrame(payload: Uint8Array, sequenceId: number): Uint8Array {
+    if (payload.length === 0) {
+      throw new BLEError({
+        code: ErrorCode.INVALID_COMMAND,
+        message: 'Cannot frame an empty message',
+      });
+    }
+
+    if (payload.length > MAX_FRAME_PAYLOAD) {
+      throw new BLEError({
+        code: ErrorCode.INVALID_PARAMETER,
+        message: `Message too long: ${payload.length} bytes (max ${MAX_FRAME_PAYLOAD})`,
+      });
+    }
+
+    const frame = new Uint8Array(FRAME_OVERHEAD + payload.length);
+    frame[0] = PROTOCOL_VERSION;
+    frame[1] = sequenceId & 0xff;
+    frame[2] = (payload.length >> 8) & 0xff;
+    frame[3] = payload.length & 0xff;
+    frame.set(payload, FRAME_HEADER_SIZE);
+
+    const crcOffset = FRAME_HEADER_SIZE + payload.length;
+    const crc = this.crc16(frame, crcOffset);
+    frame[crcOffset] = (crc >> 8) & 0xff;
+    frame[crcOffset + 1] = crc & 0xff;
+
+    return frame;
+  }
+
+  /**
+   * Read the sequence ID from the start of a frame without validating it
+   * Returns null if the bytes do not look like a v2 frame header
+   */
+  static peekSequenceId(data: Uint8Array): number | null {
+    if (data.length < 2 || data[0] !== PROTOCOL_VERSION) {
+      return null;
+    }
+    return data[1];
+  }
+
+  /**
+   * Validate and unwrap a complete v2 frame
+   */
+  static decodeFrame(data: Uint8Array): ProtocolFrame {
+    if (data.length < FRAME_OVERHEAD) {
+      throw new BLEError({
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: `Frame too short: ${data.length} bytes`,
+      });
+    }
+
+    const version = data[0];
+    if (version !== PROTOCOL_VERSION) {
+      throw new BLEError({
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: `Unsupported protocol version: 0x${version.toString(16)}`,
+      });
+    }
+
+    const payloadLength = (data[2] << 8) | data[3];
+    if (payloadLength > MAX_FRAME_PAYLOAD || data.length !== FRAME_OVERHEAD + payloadLength) {
+      throw new BLEError({
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: `Frame length mismatch: header says ${payloadLength} payload bytes, received ${data.length - FRAME_OVERHEAD}`,
+      });
+    }
+
+    const crcOffset = FRAME_HEADER_SIZE + payloadLength;
+    const expectedCrc = (data[crcOffset] << 8) | data[crcOffset + 1];
+    const actualCrc = this.crc16(data, crcOffset);
+    if (expectedCrc !== actualCrc) {
+      throw new BLEError({
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: `Frame CRC mismatch: expected 0x${expectedCrc.toString(16)}, got 0x${actualCrc.toString(16)}`,
+      });
+    }
+
+    return {
+      version,
+      sequenceId: data[1],
+      payload: data.slice(FRAME_HEADER_SIZE, crcOffset),
+    };
+  }
+
+  /**
+   * Decode a complete frame into its sequence ID and typed response
+   */
+  static decode(data: Uint8Array): DecodedFrame {
+    const frame = this.decodeFrame(data);
+    return {
+      sequenceId: frame.sequenceId,
+      response: this.decodeResponse(frame.payload),
+    };
+  }
+
+  /**
+   * Decode a response payload ([opcode, ...data]) with the decoder registered for its opcode
+   * Unknown opcodes come back as an error envelope
+   */
+  static decodeResponse(payload: Uint8Array): DecodedResponse {
+    if (payload.length === 0) {
+      throw new BLEError({
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: 'Empty response from device',
+      });
+    }
+
+    return responseRegistry.decode(payload);
+  }
+
+  /**
+   * Decode an acknowledgment payload: [opcode, ...data]
+   */
+  static decodeAcknowledgment(payload: Uint8Array): CommandResponse {
+    return {
+      type: payload[0] as ResponseType,
+      isSuccess: true,
+      data: payload.length > 1 ? payload.slice(1) : undefined,
+    };
+  }
+
+  /**
+   * Decode error envelope payload: [opcode, errorCode, ...messageBytes]
+   */
+  static decodeErrorEnvelope(payload: Uint8Array): ErrorEnvelope {
+    const { code, message } = ResponseCodec.decodeAckError(payload);
+    const errorData = payload.length > 2 ? payload.slice(2) : undefined;
+
+    // Prefer the firmware's message when it sent one
+    const firmwareMessage = message.replace(/\0/g, '').trim();
+
+    return {
+      code,
+      message: firmwareMessage.length > 0 ? firmwareMessage : getErrorMessage(code),
+      data: errorData,
+    };
+  }
+
+  /**
+   * Decode capabilities payload (layout documented on CapabilitiesResponse)
+   */
+  static decodeCapabilities(payload: Uint8Array): CapabilitiesResponse {
+    const report = ResponseCodec.decodeCapabilities(payload);
+
+    return {
+      type: ResponseType.CAPABILITIES,
+      isSuccess: true,
+      capabilities: {
+        protocolVersion: report.protocolVersion,
+        firmwareVersion: `${report.firmwareMajor}.${report.firmwareMinor}.${report.firmwarePatch}`,
+        ledCount: report.ledCount,
+        maxMilliamps: report.maxMilliamps,
+        batteryCapacityMah: report.batteryCapacityMah,
+        supportedEffects: report.supportedEffects,
+        supportedParameters: report.supportedParameters,
+      },
+    };
+  }
+
+  /**
+   * Decode batch update rejection payload (layout documented on BatchRejectedResponse)
+   */
+  static decodeBatchRejected(payload: Uint8Array): BatchRejectedResponse {
+    const { rejected } = ResponseCodec.decodeBatchRejected(payload);
+    return {
+      type: ResponseType.BATCH_REJECTED,
+      isSuccess: false,
+      rejected,
+    };
+  }
+
+  /**
+   * Decode ownership challenge payload (layout documented on ChallengeResponse)
+   */
+  static decodeChallenge(payload: Uint8Array): ChallengeResponse {
+    const { claimed, salt, nonce } = ResponseCodec.decodeChallenge(payload);
+    return {
+      type: ResponseType.CHALLENGE,
+      isSuccess: true,
+      claimed: claimed !== 0,
+      salt,
+      nonce,
+    };
+  }
+
+  /**
+   * Decode analytics batch payload
+   * Header: [opcode, batchId, sessionCount, flashReads(2), flashWrites(2), errorCount(2),
+   *          avgPower(2), peakPower(2), lastErrorCode(1), lastErrorTimestamp(4)]
+   * Sessions: [startTime(4), endTime(4), duration(4), flags(1)] * sessionCount
+   * A truncated batch keeps the sessions that arrived complete.
+   */
+  static decodeAnalyticsBatch(payload: Uint8Array): AnalyticsBatch {
+    const batch = ResponseCodec.decodeAnalyticsBatch(payload);
+    const optional = (value: number) => (value > 0 ? value : undefined);
+
+    const sessions: AnalyticsSessionData[] = batch.sessions.map(session => ({
+      startTime: session.startTime,
+      endTime: session.endTime,
+      duration: session.duration,
+      turnedOn: (session.flags & 0x01) !== 0,
+      turnedOff: (session.flags & 0x02) !== 0,
+    }));
+
+    return {
+      batchId: batch.batchId,
+      sessionCount: batch.sessionCount,
+      sessions,
+      flashReads: batch.flashReads,
+      flashWrites: batch.flashWrites,
+      errorCount: batch.errorCount,
+      lastErrorCode: optional(batch.lastErrorCode),
+      lastErrorTimestamp: optional(batch.lastErrorTimestamp),
+      averagePowerConsumption: optional(batch.averagePower),
+      peakPowerConsumption: optional(batch.peakPower),
+    };
+  }
+
+  /**
+   * Convert a decoded response into the result of a sendCommand call
+   * Error envelopes throw as BLEError; analytics batches are acknowledged
+   * (the batch itself is delivered to the analytics callback)
+   */
+  static toCommandResponse(response: DecodedResponse): CommandResponse {
+    if (this.isErrorEnvelope(response)) {
+      throw new BLEError(response);
+    }
+    if (this.isAnalyticsBatch(response)) {
+      return { type: ResponseType.ANALYTICS_BATCH, isSuccess: true };
+    }
+    return response;
+  }
+
+  /**
+   * Type guard for error envelopes returned by decodeResponse
+   */
+  static isErrorEnvelope(response: DecodedResponse): response is ErrorEnvelope {
+    return 'code' in response && 'message' in response;
+  }
+
+  /**
+   * Type guard for capabilities reports returned by decodeResponse
+   */
+  static isCapabilitiesResponse(response: DecodedResponse): response is CapabilitiesResponse {
+    return 'capabilities' in response;
+  }
+
+  /**
+   * Type guard for batch update rejections returned by decodeResponse
+   */
+  static isBatchRejected(response: DecodedResponse): response is BatchRejectedResponse {
+    return 'rejected' in response;
+  }
+
+  /**
+   * Type guard for ownership challenges returned by decodeResponse
+   */
+  static isChallengeResponse(response: DecodedResponse): response is ChallengeResponse {
+    return 'nonce' in response;
+  }
+
+  /**
+   * Type guard for analytics batches returned by decodeResponse
+   */
+  static isAnalyticsBatch(response: DecodedResponse): response is AnalyticsBatch {
+    return 'batchId' in response;
+  }
+}
+
+// Built-in response types
+responseRegistry.register(ResponseType.ACK_CONFIG_MODE, payload => ProtocolCodec.decodeAcknowledgment(payload));
+responseRegistry.register(ResponseType.ACK_COMMIT, payload => ProtocolCodec.decodeAcknowledgment(payload));
+responseRegistry.register(ResponseType.ACK_SUCCESS, payload => ProtocolCodec.decodeAcknowledgment(payload));
+responseRegistry.register(ResponseType.ACK_ERROR, payload => ProtocolCodec.decodeErrorEnvelope(payload));
+responseRegistry.register(ResponseType.ANALYTICS_BATCH, payload => ProtocolCodec.decodeAnalyticsBatch(payload));
+responseRegistry.register(ResponseType.CAPABILITIES, payload => ProtocolCodec.decodeCapabilities(payload));
+responseRegistry.register(ResponseType.BATCH_REJECTED, payload => ProtocolCodec.decodeBatchRejected(payload));
+responseRegistry.register(ResponseType.CHALLENGE, payload => ProtocolCodec.decodeChallenge(payload));
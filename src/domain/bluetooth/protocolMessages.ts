@@ -0,0 +1,680 @@
+/**
+ * BLE Message Codecs
+ * GENERATED by scripts/generate-protocol.js from protocol/spec.json - do not edit by hand.
+ * Run `npm run generate:protocol` after changing the spec.
+ *
+ * Encoders validate every field and return bare [opcode, ...data] messages (the transport frames them).
+ * Decoders throw BLEError on truncated payloads and ignore trailing bytes, so newer firmware can append fields.
+ */
+
+import {
+  CHALLENGE_NONCE_LENGTH,
+  CommandType,
+  OWNERSHIP_PROOF_LENGTH,
+  OWNER_KEY_LENGTH,
+  OWNER_SALT_LENGTH,
+  ResponseType,
+  type AckCommitMessage,
+  type AckConfigModeMessage,
+  type AckErrorMessage,
+  type AckSuccessMessage,
+  type AnalyticsBatchMessage,
+  type BatchRejectedMessage,
+  type CapabilitiesMessage,
+  type ChallengeMessage,
+  type ClaimDeviceMessage,
+  type CommandMessage,
+  type CommitConfigMessage,
+  type ConfigParameter,
+  type ConfirmAnalyticsMessage,
+  type EnterConfigMessage,
+  type ExitConfigMessage,
+  type GetCapabilitiesMessage,
+  type LedPattern,
+  type ParameterId,
+  type PixelEncoding,
+  type PixelFrameMessage,
+  type ReadConfigMessage,
+  type RequestAnalyticsMessage,
+  type RequestChallengeMessage,
+  type ResponseMessage,
+  type StatusMessage,
+  type UnclaimDeviceMessage,
+  type UpdateBatchMessage,
+  type UpdateColorMessage,
+  type UpdateParamMessage,
+  type VerifyOwnershipMessage,
+} from '../../types/protocol';
+import { ErrorCode, BLEError } from '../../types/errors';
+import { PayloadReader, PayloadWriter } from './payloadFields';
+
+type MessageFields<T> = Omit<T, 'type'>;
+
+export class CommandCodec {
+  /**
+   * Encode STATUS: [0x00]
+   */
+  static encodeStatus(): Uint8Array {
+    return new PayloadWriter(CommandType.STATUS).toBytes();
+  }
+
+  /**
+   * Decode STATUS
+   */
+  static decodeStatus(payload: Uint8Array): StatusMessage {
+    new PayloadReader(payload, CommandType.STATUS, 'status command');
+    return { type: CommandType.STATUS };
+  }
+
+  /**
+   * Encode UPDATE_PARAM: [0x02, parameter, ...values]
+   */
+  static encodeUpdateParam(fields: MessageFields<UpdateParamMessage>): Uint8Array {
+    const writer = new PayloadWriter(CommandType.UPDATE_PARAM);
+    writer.u8(fields.parameter, 'parameter');
+    writer.u8Array(fields.values, { length: 'rest', minLength: 1 }, 'values');
+    return writer.toBytes();
+  }
+
+  /**
+   * Decode UPDATE_PARAM
+   */
+  static decodeUpdateParam(payload: Uint8Array): UpdateParamMessage {
+    const reader = new PayloadReader(payload, CommandType.UPDATE_PARAM, 'update param command');
+    const parameter = reader.u8() as ConfigParameter;
+    const values = reader.u8Array({ length: 'rest', minLength: 1 });
+    return { type: CommandType.UPDATE_PARAM, parameter, values };
+  }
+
+  /**
+   * Encode UPDATE_COLOR: [0x03, hue, saturation, value]
+   */
+  static encodeUpdateColor(fields: MessageFields<UpdateColorMessage>): Uint8Array {
+    const writer = new PayloadWriter(CommandType.UPDATE_COLOR);
+    writer.u8(fields.hue, 'hue');
+    writer.u8(fields.saturation, 'saturation');
+    writer.u8(fields.value, 'value');
+    return writer.toBytes();
+  }
+
+  /**
+   * Decode UPDATE_COLOR
+   */
+  static decodeUpdateColor(payload: Uint8Array): UpdateColorMessage {
+    const reader = new PayloadReader(payload, CommandType.UPDATE_COLOR, 'update color command');
+    const hue = reader.u8();
+    const saturation = reader.u8();
+    const value = reader.u8();
+    return { type: CommandType.UPDATE_COLOR, hue, saturation, value };
+  }
+
+  /**
+   * Encode UPDATE_BATCH: [0x04, entryCount, ...entries(4 each)]
+   */
+  static encodeUpdateBatch(fields: MessageFields<UpdateBatchMessage>): Uint8Array {
+    const writer = new PayloadWriter(CommandType.UPDATE_BATCH);
+    writer.u8(fields.entryCount, 'entryCount');
+    writer.items(fields.entries, fields.entryCount, false, 'entries', (item, name) => {
+      writer.u8(item.parameter, `${name}.parameter`);
+      writer.u8(item.value1, `${name}.value1`);
+      writer.u8(item.value2, `${name}.value2`);
+      writer.u8(item.value3, `${name}.value3`);
+    });
+    return writer.toBytes();
+  }
+
+  /**
+   * Decode UPDATE_BATCH
+   */
+  static decodeUpdateBatch(payload: Uint8Array): UpdateBatchMessage {
+    const reader = new PayloadReader(payload, CommandType.UPDATE_BATCH, 'update batch command');
+    const entryCount = reader.u8();
+    const entries = reader.items(entryCount, 4, false, () => ({ parameter: reader.u8() as ConfigParameter, value1: reader.u8(), value2: reader.u8(), value3: reader.u8() }));
+    return { type: CommandType.UPDATE_BATCH, entryCount, entries };
+  }
+
+  /**
+   * Encode PIXEL_FRAME: [0x05, encoding, pixelCount(2), ...data]
+   */
+  static encodePixelFrame(fields: MessageFields<PixelFrameMessage>): Uint8Array {
+    const writer = new PayloadWriter(CommandType.PIXEL_FRAME);
+    writer.u8(fields.encoding, 'encoding');
+    writer.u16(fields.pixelCount, 'pixelCount');
+    writer.u8Array(fields.data, { length: 'rest' }, 'data');
+    return writer.toBytes();
+  }
+
+  /**
+   * Decode PIXEL_FRAME
+   */
+  static decodePixelFrame(payload: Uint8Array): PixelFrameMessage {
+    const reader = new PayloadReader(payload, CommandType.PIXEL_FRAME, 'pixel frame command');
+    const encoding = reader.u8() as PixelEncoding;
+    const pixelCount = reader.u16();
+    const data = reader.u8Array({ length: 'rest' });
+    return { type: CommandType.PIXEL_FRAME, encoding, pixelCount, data };
+  }
+
+  /**
+   * Encode ENTER_CONFIG: [0x10]
+   */
+  static encodeEnterConfig(): Uint8Array {
+    return new PayloadWriter(CommandType.ENTER_CONFIG).toBytes();
+  }
+
+  /**
+   * Decode ENTER_CONFIG
+   */
+  static decodeEnterConfig(payload: Uint8Array): EnterConfigMessage {
+    new PayloadReader(payload, CommandType.ENTER_CONFIG, 'enter config command');
+    return { type: CommandType.ENTER_CONFIG };
+  }
+
+  /**
+   * Encode COMMIT_CONFIG: [0x11, expectedRevision(2)]
+   */
+  static encodeCommitConfig(fields: MessageFields<CommitConfigMessage>): Uint8Array {
+    const writer = new PayloadWriter(CommandType.COMMIT_CONFIG);
+    writer.u16(fields.expectedRevision, 'expectedRevision');
+    return writer.toBytes();
+  }
+
+  /**
+   * Decode COMMIT_CONFIG
+   */
+  static decodeCommitConfig(payload: Uint8Array): CommitConfigMessage {
+    const reader = new PayloadReader(payload, CommandType.COMMIT_CONFIG, 'commit config command');
+    const expectedRevision = reader.u16();
+    return { type: CommandType.COMMIT_CONFIG, expectedRevision };
+  }
+
+  /**
+   * Encode EXIT_CONFIG: [0x12]
+   */
+  static encodeExitConfig(): Uint8Array {
+    return new PayloadWriter(CommandType.EXIT_CONFIG).toBytes();
+  }
+
+  /**
+   * Decode EXIT_CONFIG
+   */
+  static decodeExitConfig(payload: Uint8Array): ExitConfigMessage {
+    new PayloadReader(payload, CommandType.EXIT_CONFIG, 'exit config command');
+    return { type: CommandType.EXIT_CONFIG };
+  }
+
+  /**
+   * Encode CLAIM_DEVICE: [0x13, ...ownerKey]
+   */
+  static encodeClaimDevice(fields: MessageFields<ClaimDeviceMessage>): Uint8Array {
+    const writer = new PayloadWriter(CommandType.CLAIM_DEVICE);
+    writer.u8Array(fields.ownerKey, { length: 'rest', minLength: OWNER_KEY_LENGTH, maxLength: OWNER_KEY_LENGTH }, 'ownerKey');
+    return writer.toBytes();
+  }
+
+  /**
+   * Decode CLAIM_DEVICE
+   */
+  static decodeClaimDevice(payload: Uint8Array): ClaimDeviceMessage {
+    const reader = new PayloadReader(payload, CommandType.CLAIM_DEVICE, 'claim device command');
+    const ownerKey = reader.u8Array({ length: 'rest', minLength: OWNER_KEY_LENGTH, maxLength: OWNER_KEY_LENGTH });
+    return { type: CommandType.CLAIM_DEVICE, ownerKey };
+  }
+
+  /**
+   * Encode VERIFY_OWNERSHIP: [0x14, ...proof]
+   */
+  static encodeVerifyOwnership(fields: MessageFields<VerifyOwnershipMessage>): Uint8Array {
+    const writer = new PayloadWriter(CommandType.VERIFY_OWNERSHIP);
+    writer.u8Array(fields.proof, { length: 'rest', minLength: OWNERSHIP_PROOF_LENGTH, maxLength: OWNERSHIP_PROOF_LENGTH }, 'proof');
+    return writer.toBytes();
+  }
+
+  /**
+   * Decode VERIFY_OWNERSHIP
+   */
+  static decodeVerifyOwnership(payload: Uint8Array): VerifyOwnershipMessage {
+    const reader = new PayloadReader(payload, CommandType.VERIFY_OWNERSHIP, 'verify ownership command');
+    const proof = reader.u8Array({ length: 'rest', minLength: OWNERSHIP_PROOF_LENGTH, maxLength: OWNERSHIP_PROOF_LENGTH });
+    return { type: CommandType.VERIFY_OWNERSHIP, proof };
+  }
+
+  /**
+   * Encode UNCLAIM_DEVICE: [0x15, ...proof]
+   */
+  static encodeUnclaimDevice(fields: MessageFields<UnclaimDeviceMessage>): Uint8Array {
+    const writer = new PayloadWriter(CommandType.UNCLAIM_DEVICE);
+    writer.u8Array(fields.proof, { length: 'rest', minLength: OWNERSHIP_PROOF_LENGTH, maxLength: OWNERSHIP_PROOF_LENGTH }, 'proof');
+    return writer.toBytes();
+  }
+
+  /**
+   * Decode UNCLAIM_DEVICE
+   */
+  static decodeUnclaimDevice(payload: Uint8Array): UnclaimDeviceMessage {
+    const reader = new PayloadReader(payload, CommandType.UNCLAIM_DEVICE, 'unclaim device command');
+    const proof = reader.u8Array({ length: 'rest', minLength: OWNERSHIP_PROOF_LENGTH, maxLength: OWNERSHIP_PROOF_LENGTH });
+    return { type: CommandType.UNCLAIM_DEVICE, proof };
+  }
+
+  /**
+   * Encode GET_CAPABILITIES: [0x16]
+   */
+  static encodeGetCapabilities(): Uint8Array {
+    return new PayloadWriter(CommandType.GET_CAPABILITIES).toBytes();
+  }
+
+  /**
+   * Decode GET_CAPABILITIES
+   */
+  static decodeGetCapabilities(payload: Uint8Array): GetCapabilitiesMessage {
+    new PayloadReader(payload, CommandType.GET_CAPABILITIES, 'get capabilities command');
+    return { type: CommandType.GET_CAPABILITIES };
+  }
+
+  /**
+   * Encode REQUEST_CHALLENGE: [0x17]
+   */
+  static encodeRequestChallenge(): Uint8Array {
+    return new PayloadWriter(CommandType.REQUEST_CHALLENGE).toBytes();
+  }
+
+  /**
+   * Decode REQUEST_CHALLENGE
+   */
+  static decodeRequestChallenge(payload: Uint8Array): RequestChallengeMessage {
+    new PayloadReader(payload, CommandType.REQUEST_CHALLENGE, 'request challenge command');
+    return { type: CommandType.REQUEST_CHALLENGE };
+  }
+
+  /**
+   * Encode READ_CONFIG: [0x18]
+   */
+  static encodeReadConfig(): Uint8Array {
+    return new PayloadWriter(CommandType.READ_CONFIG).toBytes();
+  }
+
+  /**
+   * Decode READ_CONFIG
+   */
+  static decodeReadConfig(payload: Uint8Array): ReadConfigMessage {
+    new PayloadReader(payload, CommandType.READ_CONFIG, 'read config command');
+    return { type: CommandType.READ_CONFIG };
+  }
+
+  /**
+   * Encode REQUEST_ANALYTICS: [0x20]
+   */
+  static encodeRequestAnalytics(): Uint8Array {
+    return new PayloadWriter(CommandType.REQUEST_ANALYTICS).toBytes();
+  }
+
+  /**
+   * Decode REQUEST_ANALYTICS
+   */
+  static decodeRequestAnalytics(payload: Uint8Array): RequestAnalyticsMessage {
+    new PayloadReader(payload, CommandType.REQUEST_ANALYTICS, 'request analytics command');
+    return { type: CommandType.REQUEST_ANALYTICS };
+  }
+
+  /**
+   * Encode CONFIRM_ANALYTICS: [0x21, batchId]
+   */
+  static encodeConfirmAnalytics(fields: MessageFields<ConfirmAnalyticsMessage>): Uint8Array {
+    const writer = new PayloadWriter(CommandType.CONFIRM_ANALYTICS);
+    writer.u8(fields.batchId, 'batchId');
+    return writer.toBytes();
+  }
+
+  /**
+   * Decode CONFIRM_ANALYTICS
+   */
+  static decodeConfirmAnalytics(payload: Uint8Array): ConfirmAnalyticsMessage {
+    const reader = new PayloadReader(payload, CommandType.CONFIRM_ANALYTICS, 'confirm analytics command');
+    const batchId = reader.u8();
+    return { type: CommandType.CONFIRM_ANALYTICS, batchId };
+  }
+
+  /**
+   * Encode any command message
+   */
+  static encode(message: CommandMessage): Uint8Array {
+    switch (message.type) {
+      case CommandType.STATUS:
+        return this.encodeStatus();
+      case CommandType.UPDATE_PARAM:
+        return this.encodeUpdateParam(message);
+      case CommandType.UPDATE_COLOR:
+        return this.encodeUpdateColor(message);
+      case CommandType.UPDATE_BATCH:
+        return this.encodeUpdateBatch(message);
+      case CommandType.PIXEL_FRAME:
+        return this.encodePixelFrame(message);
+      case CommandType.ENTER_CONFIG:
+        return this.encodeEnterConfig();
+      case CommandType.COMMIT_CONFIG:
+        return this.encodeCommitConfig(message);
+      case CommandType.EXIT_CONFIG:
+        return this.encodeExitConfig();
+      case CommandType.CLAIM_DEVICE:
+        return this.encodeClaimDevice(message);
+      case CommandType.VERIFY_OWNERSHIP:
+        return this.encodeVerifyOwnership(message);
+      case CommandType.UNCLAIM_DEVICE:
+        return this.encodeUnclaimDevice(message);
+      case CommandType.GET_CAPABILITIES:
+        return this.encodeGetCapabilities();
+      case CommandType.REQUEST_CHALLENGE:
+        return this.encodeRequestChallenge();
+      case CommandType.READ_CONFIG:
+        return this.encodeReadConfig();
+      case CommandType.REQUEST_ANALYTICS:
+        return this.encodeRequestAnalytics();
+      case CommandType.CONFIRM_ANALYTICS:
+        return this.encodeConfirmAnalytics(message);
+    }
+  }
+
+  /**
+   * Decode any command message by its opcode
+   */
+  static decode(payload: Uint8Array): CommandMessage {
+    switch (payload[0]) {
+      case CommandType.STATUS:
+        return this.decodeStatus(payload);
+      case CommandType.UPDATE_PARAM:
+        return this.decodeUpdateParam(payload);
+      case CommandType.UPDATE_COLOR:
+        return this.decodeUpdateColor(payload);
+      case CommandType.UPDATE_BATCH:
+        return this.decodeUpdateBatch(payload);
+      case CommandType.PIXEL_FRAME:
+        return this.decodePixelFrame(payload);
+      case CommandType.ENTER_CONFIG:
+        return this.decodeEnterConfig(payload);
+      case CommandType.COMMIT_CONFIG:
+        return this.decodeCommitConfig(payload);
+      case CommandType.EXIT_CONFIG:
+        return this.decodeExitConfig(payload);
+      case CommandType.CLAIM_DEVICE:
+        return this.decodeClaimDevice(payload);
+      case CommandType.VERIFY_OWNERSHIP:
+        return this.decodeVerifyOwnership(payload);
+      case CommandType.UNCLAIM_DEVICE:
+        return this.decodeUnclaimDevice(payload);
+      case CommandType.GET_CAPABILITIES:
+        return this.decodeGetCapabilities(payload);
+      case CommandType.REQUEST_CHALLENGE:
+        return this.decodeRequestChallenge(payload);
+      case CommandType.READ_CONFIG:
+        return this.decodeReadConfig(payload);
+      case CommandType.REQUEST_ANALYTICS:
+        return this.decodeRequestAnalytics(payload);
+      case CommandType.CONFIRM_ANALYTICS:
+        return this.decodeConfirmAnalytics(payload);
+      default:
+        throw new BLEError({
+          code: ErrorCode.INVALID_COMMAND,
+          message: `Unknown command: 0x${(payload[0] ?? 0).toString(16)}`,
+        });
+    }
+  }
+}
+
+export class ResponseCodec {
+  /**
+   * Encode ACK_CONFIG_MODE: [0x90, brightness, speed, red, green, blue, effectType, powerState, revision(2)]
+   */
+  static encodeAckConfigMode(fields: MessageFields<AckConfigModeMessage>): Uint8Array {
+    const writer = new PayloadWriter(ResponseType.ACK_CONFIG_MODE);
+    writer.u8(fields.brightness, 'brightness');
+    writer.u8(fields.speed, 'speed');
+    writer.u8(fields.red, 'red');
+    writer.u8(fields.green, 'green');
+    writer.u8(fields.blue, 'blue');
+    writer.u8(fields.effectType, 'effectType');
+    writer.u8(fields.powerState, 'powerState');
+    writer.u16(fields.revision, 'revision');
+    return writer.toBytes();
+  }
+
+  /**
+   * Decode ACK_CONFIG_MODE
+   */
+  static decodeAckConfigMode(payload: Uint8Array): AckConfigModeMessage {
+    const reader = new PayloadReader(payload, ResponseType.ACK_CONFIG_MODE, 'ack config mode response');
+    const brightness = reader.u8();
+    const speed = reader.u8();
+    const red = reader.u8();
+    const green = reader.u8();
+    const blue = reader.u8();
+    const effectType = reader.u8() as LedPattern;
+    const powerState = reader.u8();
+    const revision = reader.u16();
+    return { type: ResponseType.ACK_CONFIG_MODE, brightness, speed, red, green, blue, effectType, powerState, revision };
+  }
+
+  /**
+   * Encode ACK_COMMIT: [0x91]
+   */
+  static encodeAckCommit(): Uint8Array {
+    return new PayloadWriter(ResponseType.ACK_COMMIT).toBytes();
+  }
+
+  /**
+   * Decode ACK_COMMIT
+   */
+  static decodeAckCommit(payload: Uint8Array): AckCommitMessage {
+    new PayloadReader(payload, ResponseType.ACK_COMMIT, 'ack commit response');
+    return { type: ResponseType.ACK_COMMIT };
+  }
+
+  /**
+   * Encode ACK_SUCCESS: [0x92]
+   */
+  static encodeAckSuccess(): Uint8Array {
+    return new PayloadWriter(ResponseType.ACK_SUCCESS).toBytes();
+  }
+
+  /**
+   * Decode ACK_SUCCESS
+   */
+  static decodeAckSuccess(payload: Uint8Array): AckSuccessMessage {
+    new PayloadReader(payload, ResponseType.ACK_SUCCESS, 'ack success response');
+    return { type: ResponseType.ACK_SUCCESS };
+  }
+
+  /**
+   * Encode ACK_ERROR: [0x93, code, ...message]
+   */
+  static encodeAckError(fields: MessageFields<AckErrorMessage>): Uint8Array {
+    const writer = new PayloadWriter(ResponseType.ACK_ERROR);
+    writer.u8(fields.code, 'code');
+    writer.string(fields.message, { length: 'rest' }, 'message');
+    return writer.toBytes();
+  }
+
+  /**
+   * Decode ACK_ERROR
+   */
+  static decodeAckError(payload: Uint8Array): AckErrorMessage {
+    const reader = new PayloadReader(payload, ResponseType.ACK_ERROR, 'error response');
+    const code = reader.u8() as ErrorCode;
+    const message = reader.string({ length: 'rest' });
+    return { type: ResponseType.ACK_ERROR, code, message };
+  }
+
+  /**
+   * Encode CAPABILITIES: [0x94, protocolVersion, firmwareMajor, firmwareMinor, firmwarePatch, ledCount(2), maxMilliamps(2), batteryCapacityMah(2), supportedEffectsLength, ...supportedEffects, supportedParametersLength, ...supportedParameters]
+   */
+  static encodeCapabilities(fields: MessageFields<CapabilitiesMessage>): Uint8Array {
+    const writer = new PayloadWriter(ResponseType.CAPABILITIES);
+    writer.u8(fields.protocolVersion, 'protocolVersion');
+    writer.u8(fields.firmwareMajor, 'firmwareMajor');
+    writer.u8(fields.firmwareMinor, 'firmwareMinor');
+    writer.u8(fields.firmwarePatch, 'firmwarePatch');
+    writer.u16(fields.ledCount, 'ledCount');
+    writer.u16(fields.maxMilliamps, 'maxMilliamps');
+    writer.u16(fields.batteryCapacityMah, 'batteryCapacityMah');
+    writer.u8Array(fields.supportedEffects, { length: 'prefix' }, 'supportedEffects');
+    writer.u8Array(fields.supportedParameters, { length: 'prefix' }, 'supportedParameters');
+    return writer.toBytes();
+  }
+
+  /**
+   * Decode CAPABILITIES
+   */
+  static decodeCapabilities(payload: Uint8Array): CapabilitiesMessage {
+    const reader = new PayloadReader(payload, ResponseType.CAPABILITIES, 'capabilities response');
+    const protocolVersion = reader.u8();
+    const firmwareMajor = reader.u8();
+    const firmwareMinor = reader.u8();
+    const firmwarePatch = reader.u8();
+    const ledCount = reader.u16();
+    const maxMilliamps = reader.u16();
+    const batteryCapacityMah = reader.u16();
+    const supportedEffects = reader.u8Array({ length: 'prefix' }) as LedPattern[];
+    const supportedParameters = reader.u8Array({ length: 'prefix' }) as ParameterId[];
+    return { type: ResponseType.CAPABILITIES, protocolVersion, firmwareMajor, firmwareMinor, firmwarePatch, ledCount, maxMilliamps, batteryCapacityMah, supportedEffects, supportedParameters };
+  }
+
+  /**
+   * Encode BATCH_REJECTED: [0x95, rejectedCount, ...rejected(3 each)]
+   */
+  static encodeBatchRejected(fields: MessageFields<BatchRejectedMessage>): Uint8Array {
+    const writer = new PayloadWriter(ResponseType.BATCH_REJECTED);
+    writer.u8(fields.rejectedCount, 'rejectedCount');
+    writer.items(fields.rejected, fields.rejectedCount, false, 'rejected', (item, name) => {
+      writer.u8(item.index, `${name}.index`);
+      writer.u8(item.parameter, `${name}.parameter`);
+      writer.u8(item.code, `${name}.code`);
+    });
+    return writer.toBytes();
+  }
+
+  /**
+   * Decode BATCH_REJECTED
+   */
+  static decodeBatchRejected(payload: Uint8Array): BatchRejectedMessage {
+    const reader = new PayloadReader(payload, ResponseType.BATCH_REJECTED, 'batch rejected response');
+    const rejectedCount = reader.u8();
+    const rejected = reader.items(rejectedCount, 3, false, () => ({ index: reader.u8(), parameter: reader.u8() as ConfigParameter, code: reader.u8() as ErrorCode }));
+    return { type: ResponseType.BATCH_REJECTED, rejectedCount, rejected };
+  }
+
+  /**
+   * Encode CHALLENGE: [0x96, claimed, saltLength, ...salt, nonceLength, ...nonce]
+   */
+  static encodeChallenge(fields: MessageFields<ChallengeMessage>): Uint8Array {
+    const writer = new PayloadWriter(ResponseType.CHALLENGE);
+    writer.u8(fields.claimed, 'claimed');
+    writer.u8Array(fields.salt, { length: 'prefix', minLength: OWNER_SALT_LENGTH, maxLength: OWNER_SALT_LENGTH }, 'salt');
+    writer.u8Array(fields.nonce, { length: 'prefix', minLength: CHALLENGE_NONCE_LENGTH, maxLength: CHALLENGE_NONCE_LENGTH }, 'nonce');
+    return writer.toBytes();
+  }
+
+  /**
+   * Decode CHALLENGE
+   */
+  static decodeChallenge(payload: Uint8Array): ChallengeMessage {
+    const reader = new PayloadReader(payload, ResponseType.CHALLENGE, 'challenge response');
+    const claimed = reader.u8();
+    const salt = reader.u8Array({ length: 'prefix', minLength: OWNER_SALT_LENGTH, maxLength: OWNER_SALT_LENGTH });
+    const nonce = reader.u8Array({ length: 'prefix', minLength: CHALLENGE_NONCE_LENGTH, maxLength: CHALLENGE_NONCE_LENGTH });
+    return { type: ResponseType.CHALLENGE, claimed, salt, nonce };
+  }
+
+  /**
+   * Encode ANALYTICS_BATCH: [0xA0, batchId, sessionCount, flashReads(2), flashWrites(2), errorCount(2), averagePower(2), peakPower(2), lastErrorCode, lastErrorTimestamp(4), ...sessions(13 each)]
+   */
+  static encodeAnalyticsBatch(fields: MessageFields<AnalyticsBatchMessage>): Uint8Array {
+    const writer = new PayloadWriter(ResponseType.ANALYTICS_BATCH);
+    writer.u8(fields.batchId, 'batchId');
+    writer.u8(fields.sessionCount, 'sessionCount');
+    writer.u16(fields.flashReads, 'flashReads');
+    writer.u16(fields.flashWrites, 'flashWrites');
+    writer.u16(fields.errorCount, 'errorCount');
+    writer.u16(fields.averagePower, 'averagePower');
+    writer.u16(fields.peakPower, 'peakPower');
+    writer.u8(fields.lastErrorCode, 'lastErrorCode');
+    writer.u32(fields.lastErrorTimestamp, 'lastErrorTimestamp');
+    writer.items(fields.sessions, fields.sessionCount, true, 'sessions', (item, name) => {
+      writer.u32(item.startTime, `${name}.startTime`);
+      writer.u32(item.endTime, `${name}.endTime`);
+      writer.u32(item.duration, `${name}.duration`);
+      writer.u8(item.flags, `${name}.flags`);
+    });
+    return writer.toBytes();
+  }
+
+  /**
+   * Decode ANALYTICS_BATCH
+   */
+  static decodeAnalyticsBatch(payload: Uint8Array): AnalyticsBatchMessage {
+    const reader = new PayloadReader(payload, ResponseType.ANALYTICS_BATCH, 'analytics batch response');
+    const batchId = reader.u8();
+    const sessionCount = reader.u8();
+    const flashReads = reader.u16();
+    const flashWrites = reader.u16();
+    const errorCount = reader.u16();
+    const averagePower = reader.u16();
+    const peakPower = reader.u16();
+    const lastErrorCode = reader.u8() as ErrorCode;
+    const lastErrorTimestamp = reader.u32();
+    const sessions = reader.items(sessionCount, 13, true, () => ({ startTime: reader.u32(), endTime: reader.u32(), duration: reader.u32(), flags: reader.u8() }));
+    return { type: ResponseType.ANALYTICS_BATCH, batchId, sessionCount, flashReads, flashWrites, errorCount, averagePower, peakPower, lastErrorCode, lastErrorTimestamp, sessions };
+  }
+
+  /**
+   * Encode any response message
+   */
+  static encode(message: ResponseMessage): Uint8Array {
+    switch (message.type) {
+      case ResponseType.ACK_CONFIG_MODE:
+        return this.encodeAckConfigMode(message);
+      case ResponseType.ACK_COMMIT:
+        return this.encodeAckCommit();
+      case ResponseType.ACK_SUCCESS:
+        return this.encodeAckSuccess();
+      case ResponseType.ACK_ERROR:
+        return this.encodeAckError(message);
+      case ResponseType.CAPABILITIES:
+        return this.encodeCapabilities(message);
+      case ResponseType.BATCH_REJECTED:
+        return this.encodeBatchRejected(message);
+      case ResponseType.CHALLENGE:
+        return this.encodeChallenge(message);
+      case ResponseType.ANALYTICS_BATCH:
+        return this.encodeAnalyticsBatch(message);
+    }
+  }
+
+  /**
+   * Decode any response message by its opcode
+   */
+  static decode(payload: Uint8Array): ResponseMessage {
+    switch (payload[0]) {
+      case ResponseType.ACK_CONFIG_MODE:
+        return this.decodeAckConfigMode(payload);
+      case ResponseType.ACK_COMMIT:
+        return this.decodeAckCommit(payload);
+      case ResponseType.ACK_SUCCESS:
+        return this.decodeAckSuccess(payload);
+      case ResponseType.ACK_ERROR:
+        return this.decodeAckError(payload);
+      case ResponseType.CAPABILITIES:
+        return this.decodeCapabilities(payload);
+      case ResponseType.BATCH_REJECTED:
+        return this.decodeBatchRejected(payload);
+      case ResponseType.CHALLENGE:
+        return this.decodeChallenge(payload);
+      case ResponseType.ANALYTICS_BATCH:
+        return this.decodeAnalyticsBatch(payload);
+      default:
+        throw new BLEError({
+          code: ErrorCode.UNKNOWN_ERROR,
+          message: `Unknown response type: 0x${(payload[0] ?? 0).toString(16)}`,
+        });
+    }
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Response Registry
+ * Maps each response opcode to the decoder that turns its payload into a typed response.
+ * Supporting a new response type only requires registering its decoder here.
+ */
+
+import { ErrorCode } from '../../types/errors';
+import type { DecodedResponse } from './protocolCodec';
+
+/**
+ * Decodes a full response payload ([opcode, ...data]).
+ * Decoders may throw BLEError when the payload is malformed.
+ */
+export type ResponseDecoder<T extends DecodedResponse = DecodedResponse> = (payload: Uint8Array) => T;
+
+export class ResponseRegistry {
+  private decoders: Map<number, ResponseDecoder> = new Map();
+
+  /**
+   * Register the decoder for a response opcode
+   */
+  register<T extends DecodedResponse>(opcode: number, decoder: ResponseDecoder<T>): void {
+    if (this.decoders.has(opcode)) {
+      throw new Error(`Response decoder already registered for 0x${opcode.toString(16)}`);
+    }
+    this.decoders.set(opcode, decoder);
+  }
+
+  /**
+   * Check if an opcode has a registered decoder
+   */
+  has(opcode: number): boolean {
+    return this.decoders.has(opcode);
+  }
+
+  /**
+   * Decode a payload with the decoder registered for its opcode
+   * Unknown opcodes are returned as an error envelope carrying the raw payload
+   */
+  decode(payload: Uint8Array): DecodedResponse {
+    const opcode = payload[0];
+    const decoder = this.decoders.get(opcode);
+
+    if (!decoder) {
+      return {
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: `Unknown response type: 0x${opcode.toString(16)}`,
+        data: payload,
+      };
+    }
+
+    return decoder(payload);
+  }
+}
+
+export const responseRegistry = new ResponseRegistry();
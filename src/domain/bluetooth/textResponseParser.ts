@@ -0,0 +1,202 @@
+/**
+ * Text Response Parser
+ * Parses responses to the single-character text commands (TEXT_COMMANDS) into typed results.
+ *
+ * Responses are "PREFIX:KEY:VALUE,KEY:VALUE,...". Every schema field is required;
+ * unknown keys are ignored so newer firmware can add fields. Colors are six hex digits
+ * (COLOR:FF8000), so they never collide with the comma separator.
+ */
+
+import {
+  RESPONSE_TYPES,
+  POWER_MODES,
+  DeviceSettings,
+  DeviceStatus,
+  PowerInfo,
+  DeviceInfo,
+  RGBColor,
+  TextResponse,
+} from '../../utils/bleConstants';
+import { ErrorCode, BLEError } from '../../types/errors';
+import { parseErrorEnvelopeFromString, createErrorEnvelope } from '../common/errorEnvelope';
+
+type FieldParser<T> = (value: string) => T;
+
+/**
+ * Maps each response key to the property it fills and how its value is parsed
+ */
+type Schema<T> = { [K in keyof T]: { key: string; parse: FieldParser<T[K]> } };
+
+const malformed = (message: string) => new BLEError({ code: ErrorCode.UNKNOWN_ERROR, message });
+
+const integer = (min: number, max: number): FieldParser<number> => value => {
+  const n = Number(value);
+  if (!/^\d+$/.test(value) || n < min || n > max) {
+    throw malformed(`expected an integer in ${min}-${max}, got "${value}"`);
+  }
+  return n;
+};
+
+const decimal = (min: number, max: number): FieldParser<number> => value => {
+  const n = Number(value);
+  if (!/^\d+(\.\d+)?$/.test(value) || n < min || n > max) {
+    throw malformed(`expected a number in ${min}-${max}, got "${value}"`);
+  }
+  return n;
+};
+
+const flag: FieldParser<boolean> = value => {
+  if (value !== '0' && value !== '1') {
+    throw malformed(`expected 0 or 1, got "${value}"`);
+  }
+  return value === '1';
+};
+
+const powerMode: FieldParser<number> = value => {
+  const mode = integer(0, 0xff)(value);
+  if (!(Object.values(POWER_MODES) as number[]).includes(mode)) {
+    throw malformed(`unknown power mode ${mode}`);
+  }
+  return mode;
+};
+
+const hexColor: FieldParser<RGBColor> = value => {
+  if (!/^[0-9a-f]{6}$/i.test(value)) {
+    throw malformed(`expected a color as RRGGBB, got "${value}"`);
+  }
+  return [0, 2, 4].map(i => parseInt(value.substr(i, 2), 16)) as RGBColor;
+};
+
+const SETTINGS_SCHEMA: Schema<DeviceSettings> = {
+  brightness: { key: 'BRIGHTNESS', parse: integer(0, 255) },
+  currentPattern: { key: 'PATTERN', parse: integer(0, 255) },
+  powerMode: { key: 'POWER', parse: powerMode },
+  autoOff: { key: 'AUTOOFF', parse: integer(0, 0xffff) },
+  maxEffects: { key: 'MAXEFFECTS', parse: integer(0, 255) },
+  speed: { key: 'SPEED', parse: integer(0, 100) },
+  color: { key: 'COLOR', parse: hexColor },
+  powerState: { key: 'ON', parse: flag },
+};
+
+const STATUS_SCHEMA: Schema<DeviceStatus> = {
+  connected: { key: 'CONNECTED', parse: flag },
+  brightness: { key: 'BRIGHTNESS', parse: integer(0, 255) },
+  pattern: { key: 'PATTERN', parse: integer(0, 255) },
+  power: { key: 'POWER', parse: powerMode },
+};
+
+const POWER_SCHEMA: Schema<PowerInfo> = {
+  batteryPercent: { key: 'BATTERY', parse: integer(0, 100) },
+  voltage: { key: 'VOLTAGE', parse: decimal(0, 50) },
+  currentMa: { key: 'CURRENT', parse: integer(0, 0xffff) },
+  powerMode: { key: 'MODE', parse: powerMode },
+};
+
+// The device name comes first, without a key
+const DEVICE_SCHEMA: Schema<Omit<DeviceInfo, 'name'>> = {
+  ledCount: { key: 'LEDS', parse: integer(1, 0xffff) },
+  brightness: { key: 'BRIGHTNESS', parse: integer(0, 255) },
+  pattern: { key: 'PATTERN', parse: integer(0, 255) },
+  powerMode: { key: 'POWER', parse: powerMode },
+};
+
+/**
+ * Split "KEY:VALUE,KEY:VALUE" into a map
+ */
+const splitFields = (body: string): Map<string, string> => {
+  const fields = new Map<string, string>();
+  if (body.trim().length === 0) {
+    return fields;
+  }
+  body.split(',').forEach(part => {
+    const separator = part.indexOf(':');
+    if (separator <= 0) {
+      throw malformed(`expected KEY:VALUE, got "${part}"`);
+    }
+    const key = part.substring(0, separator).trim().toUpperCase();
+    if (fields.has(key)) {
+      throw malformed(`duplicate field ${key}`);
+    }
+    fields.set(key, part.substring(separator + 1).trim());
+  });
+  return fields;
+};
+
+const parseFields = <T>(fields: Map<string, string>, schema: Schema<T>): T => {
+  const result = {} as T;
+  (Object.keys(schema) as (keyof T)[]).forEach(property => {
+    const { key, parse } = schema[property];
+    const value = fields.get(key);
+    if (value === undefined) {
+      throw malformed(`missing ${key}`);
+    }
+    try {
+      result[property] = parse(value);
+    } catch (error) {
+      throw malformed(`${key}: ${(error as BLEError).message}`);
+    }
+  });
+  return result;
+};
+
+export const parseSettingsResponse = (body: string): DeviceSettings => parseFields(splitFields(body), SETTINGS_SCHEMA);
+
+export const parseStatusResponse = (body: string): DeviceStatus => parseFields(splitFields(body), STATUS_SCHEMA);
+
+export const parsePowerResponse = (body: string): PowerInfo => parseFields(splitFields(body), POWER_SCHEMA);
+
+export const parseDeviceResponse = (body: string): DeviceInfo => {
+  const [name, ...fields] = body.split(',');
+  if (name.trim().length === 0 || name.includes(':')) {
+    throw malformed('missing device name');
+  }
+  return { name: name.trim(), ...parseFields(splitFields(fields.join(',')), DEVICE_SCHEMA) };
+};
+
+export const parseEffectsResponse = (body: string): string[] => {
+  const effects = body.split(',').map(effect => effect.trim());
+  if (effects.some(effect => effect.length === 0)) {
+    throw malformed('empty effect name');
+  }
+  return effects;
+};
+
+/**
+ * Parse a text protocol response
+ * Device errors and malformed responses both come back as ERROR with an envelope
+ */
+export const parseResponse = (response: string): TextResponse => {
+  const prefix = response.substring(0, response.indexOf(':'));
+  const body = response.substring(prefix.length + 1);
+
+  try {
+    switch (prefix) {
+      case RESPONSE_TYPES.SUCCESS:
+        return { type: RESPONSE_TYPES.SUCCESS, data: body };
+      case RESPONSE_TYPES.ERROR: {
+        const error = parseErrorEnvelopeFromString(response);
+        if (!error) {
+          throw malformed(`invalid error code in "${response}"`);
+        }
+        return { type: RESPONSE_TYPES.ERROR, error };
+      }
+      case RESPONSE_TYPES.STATUS:
+        return { type: RESPONSE_TYPES.STATUS, data: parseStatusResponse(body) };
+      case RESPONSE_TYPES.SETTINGS:
+        return { type: RESPONSE_TYPES.SETTINGS, data: parseSettingsResponse(body) };
+      case RESPONSE_TYPES.POWER:
+        return { type: RESPONSE_TYPES.POWER, data: parsePowerResponse(body) };
+      case RESPONSE_TYPES.EFFECTS:
+        return { type: RESPONSE_TYPES.EFFECTS, data: parseEffectsResponse(body) };
+      case RESPONSE_TYPES.DEVICE:
+        return { type: RESPONSE_TYPES.DEVICE, data: parseDeviceResponse(body) };
+      default:
+        return { type: RESPONSE_TYPES.RAW, data: response };
+    }
+  } catch (error) {
+    return {
+      type: RESPONSE_TYPES.ERROR,
+      error: createErrorEnvelope(ErrorCode.UNKNOWN_ERROR, `Malformed ${prefix} response: ${(error as BLEError).message}`),
+    };
+  }
+};
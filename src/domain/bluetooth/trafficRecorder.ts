@@ -0,0 +1,177 @@
+/**
+ * BLE Traffic Recorder
+ * Captures the raw bytes exchanged with the microcontroller (every written fragment and
+ * every notification) so field issues can be attached to bug reports and replayed in Jest.
+ *
+ * Session file (JSON):
+ *   { version, startedAt, platform, records: [{ t, direction, deviceId, hex }] }
+ * t is milliseconds since the session started; direction is 'tx' (app -> device) or 'rx'.
+ */
+
+import { appStorage } from '../storage/appStorage';
+import { STORAGE_KEYS } from '../storage/storageKeys';
+import { Platform } from 'react-native';
+import { ErrorCode, BLEError } from '../../types/errors';
+
+export const TRAFFIC_SESSION_VERSION = 1;
+const MAX_SESSION_RECORDS = 5000; // Oldest records are dropped past this
+const MAX_STORED_SESSIONS = 5;
+
+export type TrafficDirection = 'tx' | 'rx';
+
+export interface TrafficRecord {
+  t: number;
+  direction: TrafficDirection;
+  deviceId: string;
+  hex: string;
+}
+
+export interface TrafficSession {
+  version: number;
+  startedAt: number;
+  platform: string;
+  records: TrafficRecord[];
+}
+
+export const bytesToHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const hexToBytes = (hex: string): Uint8Array => {
+  if (hex.length % 2 !== 0 || /[^0-9a-f]/i.test(hex)) {
+    throw new BLEError({
+      code: ErrorCode.INVALID_PARAMETER,
+      message: `Invalid hex string: ${hex}`,
+    });
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+};
+
+export class TrafficRecorder {
+  private static instance: TrafficRecorder;
+  private session: TrafficSession | null = null;
+
+  static getInstance(): TrafficRecorder {
+    if (!TrafficRecorder.instance) {
+      TrafficRecorder.instance = new TrafficRecorder();
+    }
+    return TrafficRecorder.instance;
+  }
+
+  /**
+   * Start a new session (discards any session that was not stopped)
+   */
+  start(): void {
+    this.session = {
+      version: TRAFFIC_SESSION_VERSION,
+      startedAt: Date.now(),
+      platform: Platform.OS,
+      records: [],
+    };
+  }
+
+  isRecording(): boolean {
+    return this.session !== null;
+  }
+
+  /**
+   * Record bytes written to or received from a device (no-op when not recording)
+   */
+  record(direction: TrafficDirection, deviceId: string, bytes: Uint8Array): void {
+    if (!this.session) {
+      return;
+    }
+
+    this.session.records.push({
+      t: Date.now() - this.session.startedAt,
+      direction,
+      deviceId,
+      hex: bytesToHex(bytes),
+    });
+
+    if (this.session.records.length > MAX_SESSION_RECORDS) {
+      this.session.records.shift();
+    }
+  }
+
+  /**
+   * Stop recording, save the session and return it
+   */
+  async stop(): Promise<TrafficSession | null> {
+    const session = this.session;
+    this.session = null;
+    if (!session) {
+      return null;
+    }
+
+    try {
+      const sessions = await this.getSavedSessions();
+      sessions.push(session);
+      await appStorage.writeJSON(STORAGE_KEYS.TRAFFIC_SESSIONS, sessions.slice(-MAX_STORED_SESSIONS));
+    } catch (error) {
+      console.error('[TrafficRecorder] Failed to save session:', error);
+    }
+
+    return session;
+  }
+
+  /**
+   * Sessions saved by stop(), oldest first
+   */
+  async getSavedSessions(): Promise<TrafficSession[]> {
+    try {
+      return await appStorage.readJSON<TrafficSession[]>(STORAGE_KEYS.TRAFFIC_SESSIONS, [], Array.isArray);
+    } catch (error) {
+      console.error('[TrafficRecorder] Failed to load sessions:', error);
+      return [];
+    }
+  }
+
+  async clearSavedSessions(): Promise<void> {
+    await appStorage.remove(STORAGE_KEYS.TRAFFIC_SESSIONS);
+  }
+
+  /**
+   * Serialize a session for a bug report
+   */
+  static serialize(session: TrafficSession): string {
+    return JSON.stringify(session, null, 2);
+  }
+
+  /**
+   * Parse and validate a session file
+   */
+  static parse(json: string): TrafficSession {
+    const invalid = (detail: string) => new BLEError({
+      code: ErrorCode.INVALID_PARAMETER,
+      message: `Invalid traffic session: ${detail}`,
+    });
+
+    let session: TrafficSession;
+    try {
+      session = JSON.parse(json);
+    } catch (error) {
+      throw invalid((error as Error).message);
+    }
+
+    if (!session || session.version !== TRAFFIC_SESSION_VERSION) {
+      throw invalid(`unsupported version ${session?.version}`);
+    }
+    if (!Array.isArray(session.records)) {
+      throw invalid('missing records');
+    }
+    session.records.forEach((record, i) => {
+      if ((record.direction !== 'tx' && record.direction !== 'rx') || typeof record.t !== 'number') {
+        throw invalid(`record ${i} is malformed`);
+      }
+      hexToBytes(record.hex);
+    });
+
+    return session;
+  }
+}
+
+export const trafficRecorder = TrafficRecorder.getInstance();
@@ -0,0 +1,62 @@
+/**
+ * Write Flow Control
+ * Picks the GATT write type for a frame and limits how many unacknowledged
+ * (write-without-response) frames may be queued, so previews cannot overflow the peripheral.
+ *
+ * Unacknowledged frames carry UNSOLICITED_SEQUENCE_ID, which tells the device not to reply.
+ */
+
+import { BLECharacteristic } from '../../types/bluetooth';
+
+export const MAX_QUEUED_UNACKNOWLEDGED_WRITES = 4;
+
+export type BLEWriteType = 'withResponse' | 'withoutResponse';
+
+/**
+ * Write type for a characteristic: acknowledged frames use write-with-response when the
+ * characteristic allows it, unacknowledged frames use write-without-response when it allows that
+ */
+export const selectWriteType = (
+  properties: Pick<BLECharacteristic['properties'], 'write' | 'writeWithoutResponse'>,
+  acknowledged: boolean
+): BLEWriteType => {
+  if (acknowledged) {
+    return properties.write || !properties.writeWithoutResponse ? 'withResponse' : 'withoutResponse';
+  }
+  return properties.writeWithoutResponse ? 'withoutResponse' : 'withResponse';
+};
+
+/**
+ * Counts unacknowledged frames still being written and holds new ones back while the queue is full
+ */
+export class WriteCreditGate {
+  private queued: number = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(private readonly capacity: number = MAX_QUEUED_UNACKNOWLEDGED_WRITES) {}
+
+  /**
+   * Wait for a free slot and take it
+   */
+  async acquire(): Promise<void> {
+    while (this.queued >= this.capacity) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    this.queued++;
+  }
+
+  /**
+   * Return a slot once its frame has been written (or failed)
+   */
+  release(): void {
+    this.queued = Math.max(0, this.queued - 1);
+    this.waiters.shift()?.();
+  }
+
+  /**
+   * Frames taken but not yet written
+   */
+  getQueued(): number {
+    return this.queued;
+  }
+}
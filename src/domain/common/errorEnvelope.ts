@@ -1,4 +1,5 @@
 import { ErrorCode, BLEError } from '../../types/errors';
+import { ResponseType } from '../../types/commands';
 
 /**
  * Error Envelope Pattern
@@ -16,15 +17,14 @@ export { ErrorCode };
 
 /**
  * Parse error envelope from binary response
- * Format: [0x90, errorCode, ...messageBytes]
+ * Format: [ACK_ERROR, errorCode, ...messageBytes]
  */
 export function parseErrorEnvelope(data: Uint8Array | number[]): ErrorEnvelope | null {
   if (!data || data.length < 2) {
     return null;
   }
 
-  // Check for error envelope marker (0x90)
-  if (data[0] !== 0x90) {
+  if (data[0] !== ResponseType.ACK_ERROR) {
     return null;
   }
 
@@ -115,6 +115,10 @@ function getDefaultErrorMessage(errorCode: number): string {
       return 'Device memory is low';
     case ErrorCode.POWER_LOW:
       return 'Device power is low';
+    case ErrorCode.INCOMPLETE_MESSAGE:
+      return 'Message was not fully received';
+    case ErrorCode.STALE_REVISION:
+      return 'Settings were changed on the device since they were loaded';
     case ErrorCode.VALIDATION_FAILED:
       return 'Configuration validation failed';
     case ErrorCode.NOT_OWNER:
@@ -148,7 +152,7 @@ export function isErrorEnvelope(data: Uint8Array | number[] | string): boolean {
   }
   
   if (Array.isArray(data) || data instanceof Uint8Array) {
-    return data.length >= 2 && data[0] === 0x90;
+    return data.length >= 2 && data[0] === ResponseType.ACK_ERROR;
   }
   
   return false;
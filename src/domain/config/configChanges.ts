@@ -0,0 +1,93 @@
+/**
+ * Config Changes
+ * Describes the difference between two configs setting by setting, for review before a commit
+ * (e.g. "Brightness 50% → 80%", "Effect Solid White → Pulse").
+ */
+
+import { DeviceSettings, POWER_MODES, RGBColor } from '../../utils/bleConstants';
+import { rgbToHex } from '../../utils/colors';
+import { LedPattern } from '../../types/protocol';
+import { ConfigRepository, configRepository } from './configRepository';
+
+export interface ConfigChange {
+  setting: keyof DeviceSettings;
+  label: string;
+  from: string;
+  to: string;
+}
+
+export const SETTING_LABELS: Record<keyof DeviceSettings, string> = {
+  brightness: 'Brightness',
+  currentPattern: 'Effect',
+  powerMode: 'Power mode',
+  autoOff: 'Auto-off',
+  maxEffects: 'Max effects',
+  speed: 'Speed',
+  color: 'Color',
+  powerState: 'Power',
+};
+
+// Settings listed in the order the config screen shows them
+export const SETTING_ORDER: Array<keyof DeviceSettings> = [
+  'powerState', 'currentPattern', 'color', 'brightness', 'speed', 'powerMode', 'autoOff', 'maxEffects',
+];
+
+/**
+ * "SOLID_WHITE" -> "Solid White"
+ */
+const titleCase = (name: string): string =>
+  name.toLowerCase().split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const nameOf = (names: Record<number, string>, value: number): string =>
+  names[value] !== undefined ? titleCase(names[value]) : String(value);
+
+const POWER_MODE_NAMES: Record<number, string> = Object.fromEntries(
+  Object.entries(POWER_MODES).map(([name, value]) => [value, name])
+);
+
+/**
+ * Display text for one setting's value
+ */
+export const formatSettingValue = <K extends keyof DeviceSettings>(setting: K, value: DeviceSettings[K]): string => {
+  switch (setting) {
+    case 'brightness':
+    case 'speed':
+      return `${value}%`;
+    case 'color':
+      return rgbToHex(value as RGBColor).toUpperCase();
+    case 'currentPattern':
+      return nameOf(LedPattern, value as number);
+    case 'powerMode':
+      return nameOf(POWER_MODE_NAMES, value as number);
+    case 'powerState':
+      return value ? 'On' : 'Off';
+    case 'autoOff':
+      return value === 0 ? 'Never' : `${value} min`;
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Every setting that differs between two configs, with display text for both values
+ */
+export const describeConfigChanges = (
+  before: DeviceSettings,
+  after: DeviceSettings,
+  repository: ConfigRepository = configRepository
+): ConfigChange[] => {
+  const diff = repository.getConfigDiff(before, after);
+  return SETTING_ORDER
+    .filter(setting => setting in diff)
+    .map(setting => ({
+      setting,
+      label: SETTING_LABELS[setting],
+      from: formatSettingValue(setting, before[setting]),
+      to: formatSettingValue(setting, after[setting]),
+    }));
+};
+
+/**
+ * One line per change, e.g. "Brightness 50% → 80%"
+ */
+export const formatConfigChange = (change: ConfigChange): string => `${change.label} ${change.from} → ${change.to}`;
@@ -0,0 +1,70 @@
+/**
+ * Config Converters
+ * DeviceSettings is the one settings shape the app caches and edits, and stores the effect as the
+ * firmware pattern it plays. These map it to and from the EffectType the config screen shows, and
+ * convert the LEDConfig entries older builds cached per device.
+ */
+
+import { DeviceSettings, RGBColor } from '../../utils/bleConstants';
+import { hsvToRgb } from '../../utils/colors';
+import { EffectType, HSVColor, LEDConfig } from '../../types/config';
+import { LedPattern } from '../../types/protocol';
+
+/**
+ * LEDConfig as older builds stored it; the earliest kept the color as FastLED HSV
+ */
+export type LegacyLedConfig = Omit<LEDConfig, 'color'> & { color: RGBColor | HSVColor };
+
+/**
+ * Firmware pattern that plays an effect type
+ */
+export const effectTypeToPattern = (effectType: EffectType): LedPattern => {
+  switch (effectType) {
+    case EffectType.PULSE:
+      return LedPattern.PULSE;
+    case EffectType.RAINBOW:
+      return LedPattern.RAINBOW;
+    case EffectType.WAVE:
+      return LedPattern.WAVE;
+    case EffectType.STROBE:
+      return LedPattern.STROBE;
+    case EffectType.SOLID:
+    case EffectType.CUSTOM:
+    default:
+      return LedPattern.SOLID_WHITE;
+  }
+};
+
+/**
+ * Effect type shown for a firmware pattern (patterns without one show as Solid)
+ */
+export const patternToEffectType = (pattern: number): EffectType => {
+  switch (pattern) {
+    case LedPattern.RAINBOW:
+      return EffectType.RAINBOW;
+    case LedPattern.PULSE:
+      return EffectType.PULSE;
+    case LedPattern.WAVE:
+      return EffectType.WAVE;
+    case LedPattern.STROBE:
+      return EffectType.STROBE;
+    default:
+      return EffectType.SOLID;
+  }
+};
+
+const isHsvColor = (color: unknown): color is HSVColor =>
+  typeof color === 'object' && color !== null && !Array.isArray(color) && 'h' in color;
+
+/**
+ * DeviceSettings from a legacy LEDConfig; settings LEDConfig did not have come from defaults.
+ * The result is unvalidated, so callers pass it through ConfigRepository.validateConfig.
+ */
+export const fromLedConfig = (config: LegacyLedConfig, defaults: DeviceSettings): DeviceSettings => ({
+  ...defaults,
+  brightness: config.brightness,
+  speed: config.speed,
+  color: isHsvColor(config.color) ? hsvToRgb(config.color) : config.color,
+  currentPattern: effectTypeToPattern(config.effectType),
+  powerState: config.powerState,
+});
@@ -1,30 +1,93 @@
-import { Platform } from 'react-native';
 import { ConfigRepository, configRepository } from './configRepository';
-import { ConfigurationModule, configurationModule, ConfigModeStatus } from '../bluetooth/configurationModule';
-import { BLECommandEncoder } from '../bluetooth/bleCommandEncoder';
-import { ErrorEnvelope, createErrorEnvelope, ErrorCode } from '../common/errorEnvelope';
+import { ConfigurationModule, configurationModule, ConfigModeStatus, ConfigSnapshot } from '../bluetooth/configurationModule';
+import { BLECommandEncoder, CONFIG_PARAMETER_SETTINGS } from '../bluetooth/bleCommandEncoder';
+import { ErrorEnvelope, createErrorEnvelope, getErrorMessage, ErrorCode } from '../common/errorEnvelope';
 import { DeviceSettings, RGBColor } from '../../utils/bleConstants';
 import { BluetoothDevice } from '../../types/bluetooth';
-import { bluetoothService } from '../../utils/bluetoothService';
-import { bluetoothWebService } from '../../utils/bluetoothWebService';
 import { BLECommandEncoder as LegacyBLECommandEncoder } from '../../utils/bleCommandEncoder';
-import { ParameterId } from '../../types/commands';
+import { CommandType, ParameterId } from '../../types/commands';
 import { pairDevice, unpairDevice } from '../../utils/devicePairing';
 import { BLEError } from '../../types/errors';
+import { DeviceCapabilities, DEFAULT_DEVICE_CAPABILITIES } from '../../types/capabilities';
+import { ProtocolCodec, ChallengeResponse } from '../bluetooth/protocolCodec';
+import { deriveOwnerKey, signChallenge } from '../bluetooth/ownershipAuth';
+import { getBleTransport } from '../bluetooth/bleTransport';
+import { LiveUpdateChannel } from './liveUpdateChannel';
+import { ConfigHistory, ConfigHistoryState } from './configHistory';
+import { ConfigChange, SETTING_LABELS, describeConfigChanges, formatSettingValue } from './configChanges';
+import { ConfigConflict } from './configMerge';
+import { OfflineEditQueue } from './offlineEditQueue';
 
-// Helper to get the correct Bluetooth service based on platform
-const getBleService = () => Platform.OS === 'web' ? bluetoothWebService : bluetoothService;
+/**
+ * A batch entry the device rejected
+ */
+export interface ConfigParameterError {
+  setting: keyof DeviceSettings;
+  error: ErrorEnvelope;
+}
 
 export interface ConfigUpdateResult {
   success: boolean;
   error?: ErrorEnvelope;
+  parameterErrors?: ConfigParameterError[]; // Set when the device rejected a batch update
+  queued?: boolean; // The device was out of reach, so the edit waits in the offline queue
+}
+
+/**
+ * What happened to the edits queued while the device was out of reach
+ */
+export interface OfflineReplayResult {
+  applied: ConfigChange[];
+  rejected: Array<{ change: ConfigChange; error: ErrorEnvelope }>;
+  error?: ErrorEnvelope; // Set when the device could not be reached; the queue is kept
+}
+
+/**
+ * A setting the device read back with a different value than was committed
+ */
+export interface ConfigMismatch {
+  setting: keyof DeviceSettings;
+  expected: DeviceSettings[keyof DeviceSettings];
+  actual: DeviceSettings[keyof DeviceSettings];
 }
 
 export interface ConfigCommitResult {
   success: boolean;
   error?: ErrorEnvelope;
+  verified?: boolean; // False when the device did not report its settings after the commit
+  mismatches?: ConfigMismatch[]; // Set when the read back still differed after every retry
+  conflict?: ConfigConflict; // Set when the device's settings changed since they were read
 }
 
+export const COMMIT_VERIFY_ATTEMPTS = 3;
+const READ_BACK_POLL_ATTEMPTS = 5;
+
+// Devices that store colors as 8-bit HSV report them a few steps away from the RGB that was written
+const COLOR_READ_BACK_TOLERANCE = 3;
+
+/**
+ * Settings in a read back that differ from what was committed
+ */
+export const findConfigMismatches = (
+  intended: DeviceSettings,
+  readBack: Partial<DeviceSettings>
+): ConfigMismatch[] =>
+  (Object.keys(readBack) as Array<keyof DeviceSettings>)
+    .filter(setting => {
+      const expected = intended[setting];
+      const actual = readBack[setting];
+      if (setting === 'color') {
+        return (expected as RGBColor).some(
+          (channel, i) => Math.abs(channel - (actual as RGBColor)[i]) > COLOR_READ_BACK_TOLERANCE
+        );
+      }
+      return expected !== actual;
+    })
+    .map(setting => ({ setting, expected: intended[setting], actual: readBack[setting]! }));
+
+const formatConfigMismatch = ({ setting, expected, actual }: ConfigMismatch): string =>
+  `${SETTING_LABELS[setting]} ${formatSettingValue(setting, expected)} (read ${formatSettingValue(setting, actual)})`;
+
 /**
  * Config Domain Controller
  * Coordinates config mode lifecycle, real-time updates, and commit workflow
@@ -37,10 +100,22 @@ export class ConfigDomainController {
   private deviceId: string | null = null;
   private updateListeners: Array<(config: DeviceSettings) => void> = [];
   private errorListeners: Array<(error: ErrorEnvelope) => void> = [];
+  private liveChannel: LiveUpdateChannel;
+  private history: ConfigHistory;
+  private committedConfig: DeviceSettings | null = null; // What the device has in flash
+  private committedRevision: number | null = null; // Its revision; null when the firmware has none
+  private offlineEdits: OfflineEditQueue;
 
   private constructor() {
     this.repository = configRepository;
     this.configModule = configurationModule;
+    this.history = new ConfigHistory(this.repository);
+    this.offlineEdits = new OfflineEditQueue(this.repository);
+    this.liveChannel = new LiveUpdateChannel(
+      updates => this.updateConfig(updates),
+      updates => this.sendPreview(updates),
+      () => this.correctLiveDrift()
+    );
 
     // Subscribe to config mode state changes
     this.configModule.subscribe((status: ConfigModeStatus) => {
@@ -58,7 +133,6 @@ export class ConfigDomainController {
   }
 
   /**
-   TODO FOR AGENT:: DO WE REMOVE THIS? OR DO WE MOVE IT SOMEWHER EELSE?
    * Helper to check if device is connected (DRY pattern from legacy)
    */
   private async ensureDeviceConnected(): Promise<void> {
@@ -71,7 +145,7 @@ export class ConfigDomainController {
 
     const id = this.deviceId || this.connectedDevice?.id;
     if (id) {
-      const isConnected = await getBleService().isDeviceConnected(id);
+      const isConnected = await getBleTransport().isDeviceConnected(id);
       if (!isConnected) {
         throw new BLEError({
           code: ErrorCode.UNKNOWN_ERROR,
@@ -85,14 +159,21 @@ export class ConfigDomainController {
    * Initialize with connected device
    */
   async initialize(device: BluetoothDevice | null): Promise<void> {
+    if ((device?.id ?? null) !== this.deviceId) {
+      // The session state belongs to the previous device; enterConfigMode may not get to replace it
+      this.liveChannel.cancel();
+      this.history.clear();
+      this.committedConfig = null;
+      this.committedRevision = null;
+    }
     this.connectedDevice = device;
     this.deviceId = device?.id || null;
     this.configModule.setConnectedDevice(device);
 
     if (device) {
-      // Load cached config - handle null return gracefully
+      // Load this device's cached config - handle null return gracefully
       try {
-        const cachedConfig = await this.repository.loadCachedConfig();
+        const cachedConfig = await this.repository.loadCachedConfig(device.id);
         if (!cachedConfig) {
           // No cached config found, use defaults
           const defaultConfig = this.repository.getDefaultConfig();
@@ -108,13 +189,27 @@ export class ConfigDomainController {
           console.error('Failed to save default config:', saveError);
         }
       }
+
+      try {
+        await this.offlineEdits.load(device.id);
+      } catch (error) {
+        console.error('Failed to load offline edits:', error);
+      }
+    } else {
+      this.repository.releaseDevice();
+      this.offlineEdits.release();
     }
   }
 
   /**
    * Enter config mode and load current config
    */
-  async enterConfigMode(): Promise<{ success: boolean; error?: ErrorEnvelope; config?: DeviceSettings }> {
+  async enterConfigMode(): Promise<{
+    success: boolean;
+    error?: ErrorEnvelope;
+    config?: DeviceSettings;
+    replay?: OfflineReplayResult; // Set when edits were queued while the device was out of reach
+  }> {
     if (!this.connectedDevice) {
       const error = createErrorEnvelope(ErrorCode.INVALID_COMMAND, 'No device connected');
       return { success: false, error };
@@ -130,7 +225,7 @@ export class ConfigDomainController {
     }
 
     // Wait for config response with polling (more reliable than fixed timeout)
-    let deviceConfig = null;
+    let deviceConfig: ConfigSnapshot | null = null;
     for (let i = 0; i < 20; i++) { // Poll up to 20 times (2 seconds total)
       deviceConfig = this.configModule.getLastReceivedConfig();
       if (deviceConfig) {
@@ -163,9 +258,8 @@ export class ConfigDomainController {
         brightness: deviceConfig.brightness,
         speed: deviceConfig.speed,
         color: deviceConfig.color,
-        effectType: deviceConfig.effectType,
-        powerState: deviceConfig.powerState,
         currentPattern: deviceConfig.effectType,
+        powerState: deviceConfig.powerState,
       };
       console.log('[ConfigDomainController] Using config from device:', config);
 
@@ -183,9 +277,21 @@ export class ConfigDomainController {
       }
     }
 
+    // The device reports its flash contents on entering config mode; without a report the cache is the best guess
+    this.committedConfig = { ...(this.repository.getCachedConfig() ?? config) };
+    this.committedRevision = deviceConfig?.revision ?? null;
+
+    // A new session starts with a fresh history
+    this.history.clear();
+
     // Notify listeners of current config
     this.notifyConfigUpdate(config);
 
+    if (this.offlineEdits.getCount() > 0) {
+      const replay = await this.replayOfflineEdits();
+      return { success: true, config: this.repository.getCachedConfig() ?? config, replay };
+    }
+
     return { success: true, config };
   }
 
@@ -194,6 +300,7 @@ export class ConfigDomainController {
    */
   async exitConfigMode(): Promise<{ success: boolean; error?: ErrorEnvelope }> {
     const exitResult = await this.configModule.exitConfigMode();
+    this.history.clear();
     return exitResult;
   }
 
@@ -201,43 +308,79 @@ export class ConfigDomainController {
    * Update configuration parameter (real-time)
    */
   async updateConfig(updates: Partial<DeviceSettings>): Promise<ConfigUpdateResult> {
+    return this.applyConfig(updates, { recordHistory: true, queueWhenOffline: true });
+  }
+
+  /**
+   * Send updates to the device and cache what it accepted
+   * @param options.recordHistory - false when the updates are themselves an undo or redo
+   * @param options.queueWhenOffline - queue the updates for replay when the device is out of reach
+   */
+  private async applyConfig(
+    updates: Partial<DeviceSettings>,
+    options: { recordHistory: boolean; queueWhenOffline: boolean }
+  ): Promise<ConfigUpdateResult> {
+    const { recordHistory, queueWhenOffline } = options;
     if (!this.connectedDevice) {
       const error = createErrorEnvelope(ErrorCode.INVALID_COMMAND, 'No device connected');
       return { success: false, error };
     }
 
     if (!this.configModule.isConfigModeActive()) {
+      // Config mode ends when the link drops, so this is where an edit made offline lands
+      if (queueWhenOffline && !(await this.isDeviceReachable())) {
+        return this.queueOfflineEdit(updates);
+      }
       const error = createErrorEnvelope(ErrorCode.INVALID_COMMAND, 'Config mode not active');
       return { success: false, error };
     }
 
     try {
-      // Update cached config
-      const updatedConfig = this.repository.updateCachedConfig(updates);
-
-      // Send real-time update to device
-      const commands = BLECommandEncoder.encodeSettingsUpdate(updates);
-      console.log(`📤 Sending ${commands.length} command(s) for updates:`, updates);
-      
-      for (let i = 0; i < commands.length; i++) {
-        const command = commands[i];
+      // Settings the batch cannot carry only change the cached config
+      if (BLECommandEncoder.batchEntries(updates).length > 0) {
+        // One batch update, so the device applies every change at once or none of them
+        const command = BLECommandEncoder.encodeBatchUpdate(updates);
         const hexBytes = Array.from(command).map(b => '0x' + b.toString(16).padStart(2, '0')).join(' ');
-        console.log(`  Command ${i + 1}/${commands.length}:`, hexBytes);
-
-        // Use sendCommand which handles response checking and errors
-        const response = await getBleService().sendCommand(this.connectedDevice.id, command);
-        console.log(`  Response ${i + 1}:`, response);
+        console.log('📤 Sending batch update:', hexBytes, updates);
+
+        const response = await getBleTransport().sendCommand(this.connectedDevice.id, command);
+        console.log('  Response:', response);
+
+        if (ProtocolCodec.isBatchRejected(response)) {
+          const parameterErrors: ConfigParameterError[] = response.rejected.map(rejection => ({
+            setting: CONFIG_PARAMETER_SETTINGS[rejection.parameter],
+            error: createErrorEnvelope(rejection.code, getErrorMessage(rejection.code)),
+          }));
+          const errorEnvelope = createErrorEnvelope(
+            ErrorCode.INVALID_PARAMETER,
+            `Device rejected ${parameterErrors.map(e => e.setting).join(', ')}; nothing was applied`
+          );
+          this.notifyError(errorEnvelope);
+          return { success: false, error: errorEnvelope, parameterErrors };
+        }
 
         if (!response.isSuccess) {
           throw new Error(`Command failed with response: ${JSON.stringify(response)}`);
         }
       }
 
+      // Only cache what the device accepted
+      const previousConfig = this.repository.getCachedConfig() ?? this.repository.getDefaultConfig();
+      const updatedConfig = this.repository.updateCachedConfig(updates);
+      if (recordHistory) {
+        this.history.record(previousConfig, updatedConfig);
+      }
+
       // Notify listeners
       this.notifyConfigUpdate(updatedConfig);
 
       return { success: true };
     } catch (error: any) {
+      // The device dropped out mid-edit
+      if (queueWhenOffline && !(await this.isDeviceReachable())) {
+        return this.queueOfflineEdit(updates);
+      }
+
       const errorEnvelope = createErrorEnvelope(
         ErrorCode.INVALID_PARAMETER,
         error?.message || 'Failed to update config'
@@ -247,6 +390,204 @@ export class ConfigDomainController {
     }
   }
 
+  private async isDeviceReachable(): Promise<boolean> {
+    try {
+      await this.ensureDeviceConnected();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Keep an edit for the device's next connection and show it in the cache meanwhile
+   * Not recorded in the history, since undo has to reach the device
+   */
+  private async queueOfflineEdit(updates: Partial<DeviceSettings>): Promise<ConfigUpdateResult> {
+    try {
+      await this.offlineEdits.enqueue(updates);
+    } catch (error: any) {
+      const errorEnvelope = createErrorEnvelope(
+        ErrorCode.UNKNOWN_ERROR,
+        `Device is not connected and the edit could not be queued: ${error?.message}`
+      );
+      this.notifyError(errorEnvelope);
+      return { success: false, error: errorEnvelope };
+    }
+    console.log('[ConfigDomainController] Device out of reach, queued edit:', updates);
+    this.configModule.reset(); // The firmware leaves config mode when the link drops
+
+    const updatedConfig = this.repository.updateCachedConfig(updates);
+    this.notifyConfigUpdate(updatedConfig);
+    return { success: true, queued: true };
+  }
+
+  /**
+   * Apply the edits queued while the device was out of reach, collapsed to one net update.
+   * A batch the device rejects is retried without the rejected settings, so the others still apply.
+   */
+  private async replayOfflineEdits(): Promise<OfflineReplayResult> {
+    const current = this.repository.getCachedConfig() ?? this.repository.getDefaultConfig();
+    const netDiff = this.offlineEdits.getNetDiff(current);
+    const changes = describeConfigChanges(current, { ...current, ...netDiff }, this.repository);
+    const rejected: OfflineReplayResult['rejected'] = [];
+
+    let pending = netDiff;
+    while (Object.keys(pending).length > 0) {
+      const result = await this.applyConfig(pending, { recordHistory: true, queueWhenOffline: false });
+      if (result.success) {
+        break;
+      }
+
+      const rejectedNow = (result.parameterErrors ?? []).filter(({ setting }) => setting in pending);
+      if (rejectedNow.length === 0) {
+        // Out of reach again; the queue is kept for the next connection
+        return { applied: [], rejected: [], error: result.error };
+      }
+      rejectedNow.forEach(({ setting, error }) => {
+        const change = changes.find(described => described.setting === setting);
+        if (!change) {
+          // Not part of the net change, so there is nothing to report back
+          console.warn(`[ConfigDomainController] Device rejected ${setting}, which the offline edits did not change`);
+          return;
+        }
+        rejected.push({ change, error });
+      });
+      pending = Object.fromEntries(
+        Object.entries(pending).filter(([setting]) => !rejectedNow.some(e => e.setting === setting))
+      );
+    }
+
+    await this.offlineEdits.clear();
+    const rejectedSettings = new Set(rejected.map(({ change }) => change.setting));
+    const applied = changes.filter(change => !rejectedSettings.has(change.setting));
+    console.log(`[ConfigDomainController] Replayed offline edits: ${applied.length} applied, ${rejected.length} rejected`);
+    return { applied, rejected };
+  }
+
+  getOfflineEditCount(): number {
+    return this.offlineEdits.getCount();
+  }
+
+  /**
+   * Subscribe to the number of edits waiting for the device
+   */
+  subscribeToOfflineEdits(listener: (count: number) => void): () => void {
+    return this.offlineEdits.subscribe(listener);
+  }
+
+  /**
+   * Stage a live update (e.g. while a slider is dragged)
+   * Only the newest value of each setting is sent, paced to the link's round-trip time
+   */
+  updateConfigLive(updates: Partial<DeviceSettings>): void {
+    this.history.beginGroup(); // The whole drag is one undo step
+    this.liveChannel.push(updates);
+  }
+
+  /**
+   * Send the final live values now (e.g. when a drag ends) and wait for the device
+   */
+  async flushLiveUpdates(): Promise<ConfigUpdateResult> {
+    try {
+      return await this.liveChannel.flush();
+    } finally {
+      this.history.endGroup();
+    }
+  }
+
+  /**
+   * Revert the last edit (or slider drag) on the device and in the cache
+   */
+  async undo(): Promise<ConfigUpdateResult> {
+    if (this.history.isGroupOpen()) {
+      await this.flushLiveUpdates();
+    }
+    const step = this.history.peekUndo();
+    if (!step) {
+      return { success: false, error: createErrorEnvelope(ErrorCode.INVALID_COMMAND, 'Nothing to undo') };
+    }
+
+    const result = await this.applyConfig(step.undo, { recordHistory: false, queueWhenOffline: false });
+    if (result.success) {
+      this.history.markUndone();
+    }
+    return result;
+  }
+
+  /**
+   * Re-apply the last undone edit
+   */
+  async redo(): Promise<ConfigUpdateResult> {
+    if (this.history.isGroupOpen()) {
+      await this.flushLiveUpdates(); // A finished drag is a new edit, which clears the redo stack
+    }
+    const step = this.history.peekRedo();
+    if (!step) {
+      return { success: false, error: createErrorEnvelope(ErrorCode.INVALID_COMMAND, 'Nothing to redo') };
+    }
+
+    const result = await this.applyConfig(step.redo, { recordHistory: false, queueWhenOffline: false });
+    if (result.success) {
+      this.history.markRedone();
+    }
+    return result;
+  }
+
+  getHistoryState(): ConfigHistoryState {
+    return this.history.getState();
+  }
+
+  /**
+   * Subscribe to undo/redo availability
+   */
+  subscribeToHistory(listener: (state: ConfigHistoryState) => void): () => void {
+    return this.history.subscribe(listener);
+  }
+
+  /**
+   * Fire-and-forget batch update for live previews (write-without-response, no reply)
+   * The cache is only updated by the acknowledged sync points
+   */
+  private async sendPreview(updates: Partial<DeviceSettings>): Promise<void> {
+    if (!this.connectedDevice || !this.configModule.isConfigModeActive()) {
+      throw new Error('Config mode not active');
+    }
+    if (BLECommandEncoder.batchEntries(updates).length === 0) {
+      return;
+    }
+    await getBleTransport().sendUnacknowledged(this.connectedDevice.id, BLECommandEncoder.encodeBatchUpdate(updates));
+  }
+
+  /**
+   * Compare the device's staged settings with the cache at a live sync point and re-send any that drifted
+   * (previews the device dropped, or changes it made itself)
+   */
+  private async correctLiveDrift(): Promise<ConfigUpdateResult> {
+    const intended = this.repository.getCachedConfig();
+    const readBack = intended ? await this.readBackSettings(BLECommandEncoder.encodeReadConfig()) : null;
+    if (!intended || !readBack) {
+      return { success: true }; // Firmware without READ_CONFIG only gets the sync point's re-send
+    }
+
+    const drifted = findConfigMismatches(intended, readBack.settings);
+    if (drifted.length === 0) {
+      return { success: true };
+    }
+    console.warn(`[ConfigDomainController] Device drifted at a sync point: ${drifted.map(formatConfigMismatch).join(', ')}`);
+    try {
+      await this.resendSettings(intended, drifted.map(mismatch => mismatch.setting));
+      return { success: true };
+    } catch (error: any) {
+      const errorEnvelope = createErrorEnvelope(
+        ErrorCode.UNKNOWN_ERROR,
+        error?.message || 'Failed to correct settings that drifted on the device'
+      );
+      this.notifyError(errorEnvelope);
+      return { success: false, error: errorEnvelope };
+    }
+  }
+
   /**
    * Update brightness (convenience method)
    */
@@ -303,7 +644,7 @@ export class ConfigDomainController {
     try {
       // Send command to device
       const command = LegacyBLECommandEncoder.encodeUpdateParameter({ parameterId, value });
-      const response = await getBleService().sendCommand(this.connectedDevice.id, command);
+      const response = await getBleTransport().sendCommand(this.connectedDevice.id, command);
       
       if (!response.isSuccess) {
         const error = createErrorEnvelope(ErrorCode.INVALID_PARAMETER, 'Failed to update parameter');
@@ -323,6 +664,7 @@ export class ConfigDomainController {
 
   /**
    * Claim device ownership (one-time operation)
+   * Sends an owner key derived from the user ID and the device's salt, never the user ID itself
    */
   async claimDevice(deviceId: string, userId: string, deviceName?: string): Promise<void> {
     if (!deviceId) {
@@ -333,7 +675,7 @@ export class ConfigDomainController {
     }
 
     // Check if device is actually connected
-    const isConnected = await getBleService().isDeviceConnected(deviceId);
+    const isConnected = await getBleTransport().isDeviceConnected(deviceId);
     if (!isConnected) {
       throw new BLEError({
         code: ErrorCode.UNKNOWN_ERROR,
@@ -342,8 +684,21 @@ export class ConfigDomainController {
     }
 
     try {
-      const command = LegacyBLECommandEncoder.encodeClaimDevice(userId);
-      const response = await getBleService().sendCommand(deviceId, command);
+      let challenge = await this.requestChallenge(deviceId);
+      if (challenge.claimed) {
+        // Reclaiming (same owner or a developer) needs a verified session
+        try {
+          await this.verifyOwnership(deviceId, userId);
+        } catch (error) {
+          if (error instanceof BLEError && error.envelope.code === ErrorCode.NOT_OWNER) {
+            throw new BLEError({ code: ErrorCode.ALREADY_CLAIMED, message: 'Device is already claimed' });
+          }
+          throw error;
+        }
+        challenge = await this.requestChallenge(deviceId);
+      }
+      const command = LegacyBLECommandEncoder.encodeClaimDevice(deriveOwnerKey(userId, challenge.salt));
+      const response = await getBleTransport().sendCommand(deviceId, command);
       
       if (!response.isSuccess) {
         throw new BLEError({
@@ -380,7 +735,7 @@ export class ConfigDomainController {
     }
 
     // Check if device is actually connected
-    const isConnected = await getBleService().isDeviceConnected(deviceId);
+    const isConnected = await getBleTransport().isDeviceConnected(deviceId);
     if (!isConnected) {
       throw new BLEError({
         code: ErrorCode.UNKNOWN_ERROR,
@@ -390,8 +745,12 @@ export class ConfigDomainController {
 
     try {
       // Unclaim on microcontroller first
-      const command = LegacyBLECommandEncoder.encodeUnclaimDevice(userId);
-      const response = await getBleService().sendCommand(deviceId, command);
+      const challenge = await this.requestChallenge(deviceId);
+      const ownerKey = deriveOwnerKey(userId, challenge.salt);
+      const command = LegacyBLECommandEncoder.encodeUnclaimDevice(
+        signChallenge(ownerKey, challenge.nonce, CommandType.UNCLAIM_DEVICE)
+      );
+      const response = await getBleTransport().sendCommand(deviceId, command);
       
       if (!response.isSuccess) {
         throw new BLEError({
@@ -415,6 +774,7 @@ export class ConfigDomainController {
 
   /**
    * Verify ownership for current session
+   * Answers a fresh challenge, so a recorded verification cannot be replayed
    */
   async verifyOwnership(deviceId: string, userId: string): Promise<void> {
     if (!deviceId) {
@@ -425,7 +785,7 @@ export class ConfigDomainController {
     }
 
     // Check if device is actually connected
-    const isConnected = await getBleService().isDeviceConnected(deviceId);
+    const isConnected = await getBleTransport().isDeviceConnected(deviceId);
     if (!isConnected) {
       throw new BLEError({
         code: ErrorCode.UNKNOWN_ERROR,
@@ -434,8 +794,12 @@ export class ConfigDomainController {
     }
 
     try {
-      const command = LegacyBLECommandEncoder.encodeVerifyOwnership(userId);
-      const response = await getBleService().sendCommand(deviceId, command);
+      const challenge = await this.requestChallenge(deviceId);
+      const ownerKey = deriveOwnerKey(userId, challenge.salt);
+      const command = LegacyBLECommandEncoder.encodeVerifyOwnership(
+        signChallenge(ownerKey, challenge.nonce, CommandType.VERIFY_OWNERSHIP)
+      );
+      const response = await getBleTransport().sendCommand(deviceId, command);
       
       if (!response.isSuccess) {
         throw new BLEError({
@@ -455,7 +819,69 @@ export class ConfigDomainController {
   }
 
   /**
-   * Commit configuration to flash
+   * Ask the device for a fresh ownership challenge (salt and single-use nonce)
+   */
+  private async requestChallenge(deviceId: string): Promise<ChallengeResponse> {
+    const response = await getBleTransport().sendCommand(deviceId, LegacyBLECommandEncoder.encodeRequestChallenge());
+    if (!ProtocolCodec.isChallengeResponse(response)) {
+      throw new BLEError({
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: `Unexpected response to ownership challenge: 0x${response.type.toString(16)}`,
+      });
+    }
+    return response;
+  }
+
+  /**
+   * Query the device's hardware and firmware capabilities
+   * Firmware without GET_CAPABILITIES rejects it as an invalid command; fall back to defaults
+   */
+  async getCapabilities(deviceId: string): Promise<DeviceCapabilities> {
+    if (!deviceId) {
+      throw new Error('Device ID is required');
+    }
+
+    const isConnected = await getBleTransport().isDeviceConnected(deviceId);
+    if (!isConnected) {
+      throw new BLEError({
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: 'Device is not connected. Please connect and try again.',
+      });
+    }
+
+    try {
+      const command = BLECommandEncoder.encodeGetCapabilities();
+      const response = await getBleTransport().sendCommand(deviceId, command);
+
+      if (!ProtocolCodec.isCapabilitiesResponse(response)) {
+        throw new BLEError({
+          code: ErrorCode.UNKNOWN_ERROR,
+          message: `Unexpected response to capabilities request: 0x${response.type.toString(16)}`,
+        });
+      }
+
+      console.log('[ConfigDomainController] Device capabilities:', response.capabilities);
+      return response.capabilities;
+    } catch (error) {
+      if (error instanceof BLEError && error.envelope.code === ErrorCode.INVALID_COMMAND) {
+        console.warn('[ConfigDomainController] Firmware does not report capabilities, using defaults');
+        return DEFAULT_DEVICE_CAPABILITIES;
+      }
+      if (error instanceof BLEError) {
+        throw error;
+      }
+      throw new BLEError({
+        code: ErrorCode.UNKNOWN_ERROR,
+        message: `Failed to get capabilities: ${(error as Error).message}`,
+      });
+    }
+  }
+
+  /**
+   * Commit configuration to flash, then read the settings back to confirm the device stored them
+   * A mismatch is re-sent and committed again, up to COMMIT_VERIFY_ATTEMPTS times.
+   * If the device's settings changed since they were read, nothing is written and the result carries
+   * a conflict to merge (see resolveConflict).
    */
   async commitConfig(): Promise<ConfigCommitResult> {
     if (!this.connectedDevice) {
@@ -468,28 +894,40 @@ export class ConfigDomainController {
       return { success: false, error };
     }
 
+    const intended = this.repository.getCachedConfig();
+    let mismatches: ConfigMismatch[] = [];
+    let verified = false;
+
     try {
-      // Send commit command
-      const command = BLECommandEncoder.encodeCommitConfig();
-      const hexBytes = Array.from(command).map(b => '0x' + b.toString(16).padStart(2, '0')).join(' ');
-      console.log('💾 Committing config with command:', hexBytes);
+      for (let attempt = 1; attempt <= COMMIT_VERIFY_ATTEMPTS; attempt++) {
+        if (attempt > 1 && intended) {
+          console.warn(`[ConfigDomainController] Commit read back differs, retrying (attempt ${attempt}/${COMMIT_VERIFY_ATTEMPTS})`);
+          await this.resendSettings(intended, mismatches.map(mismatch => mismatch.setting));
+        }
 
-      const response = await getBleService().sendCommand(this.connectedDevice.id, command);
-      console.log('💾 Commit response:', response);
+        await this.sendCommit();
 
-      if (!response.isSuccess) {
-        throw new Error(`Commit failed with response: ${JSON.stringify(response)}`);
-      }
+        const readBack = intended ? await this.readBackSettings() : null;
+        this.committedRevision = readBack?.revision ?? null;
+        if (!intended || !readBack) {
+          // Nothing to compare against; the ack is all there is
+          break;
+        }
 
-      // Save to local cache
-      const config = this.repository.getCachedConfig();
-      if (config) {
-        await this.repository.saveCachedConfig(config);
-        this.repository.markAsSaved();
+        mismatches = findConfigMismatches(intended, readBack.settings);
+        if (mismatches.length === 0) {
+          verified = true;
+          break;
+        }
+        this.committedConfig = mismatches.reduce(
+          (stored, { setting, actual }) => ({ ...stored, [setting]: actual }),
+          { ...intended }
+        );
       }
-
-      return { success: true };
     } catch (error: any) {
+      if (error instanceof BLEError && error.envelope.code === ErrorCode.STALE_REVISION && intended) {
+        return this.reportConflict(intended);
+      }
       const errorEnvelope = createErrorEnvelope(
         ErrorCode.FLASH_FAILURE,
         error?.message || 'Failed to commit config'
@@ -497,6 +935,153 @@ export class ConfigDomainController {
       this.notifyError(errorEnvelope);
       return { success: false, error: errorEnvelope };
     }
+
+    if (mismatches.length > 0) {
+      const errorEnvelope = createErrorEnvelope(
+        ErrorCode.VALIDATION_FAILED,
+        `Device stored different settings after ${COMMIT_VERIFY_ATTEMPTS} attempts: ` +
+          mismatches.map(formatConfigMismatch).join(', ')
+      );
+      this.notifyError(errorEnvelope);
+      return { success: false, error: errorEnvelope, mismatches };
+    }
+
+    // Save to local cache
+    if (intended) {
+      await this.repository.saveCachedConfig(intended);
+      this.repository.markAsSaved();
+      this.committedConfig = { ...(this.repository.getCachedConfig() ?? intended) };
+    }
+
+    return { success: true, verified };
+  }
+
+  /**
+   * Send the merged config from a conflict and commit it on top of the device's current settings
+   * The device is read again first: entering config mode puts it back in config mode if it left
+   * (the firmware answers commits outside it with INVALID_COMMAND) and reloads theirs from flash.
+   */
+  async resolveConflict(merged: DeviceSettings): Promise<ConfigCommitResult> {
+    const ours = this.repository.getCachedConfig();
+    if (!this.committedConfig || !ours) {
+      return { success: false, error: createErrorEnvelope(ErrorCode.INVALID_COMMAND, 'No conflict to resolve') };
+    }
+
+    const readBack = await this.readBackSettings();
+    if (!readBack) {
+      const error = createErrorEnvelope(ErrorCode.UNKNOWN_ERROR, 'Device did not report its settings');
+      this.notifyError(error);
+      return { success: false, error };
+    }
+    if (readBack.revision !== this.committedRevision) {
+      // Committed again from elsewhere while the merge was prepared
+      return this.reportConflict(ours);
+    }
+
+    // The device holds theirs again; the cache still holds ours
+    const updates = {
+      ...this.repository.getConfigDiff(this.committedConfig, merged),
+      ...this.repository.getConfigDiff(ours, merged),
+    };
+    if (Object.keys(updates).length > 0) {
+      const result = await this.updateConfig(updates);
+      if (!result.success) {
+        return result;
+      }
+    }
+    return this.commitConfig();
+  }
+
+  /**
+   * Read what the device has now and hand back base, theirs and ours for a merge
+   * Not reported to error listeners: the caller prompts for the merge instead
+   */
+  private async reportConflict(ours: DeviceSettings): Promise<ConfigCommitResult> {
+    const error = createErrorEnvelope(ErrorCode.STALE_REVISION);
+    const base = this.committedConfig ?? ours;
+    const readBack = await this.readBackSettings();
+    if (!readBack) {
+      this.notifyError(error);
+      return { success: false, error };
+    }
+
+    const theirs = { ...base, ...readBack.settings };
+    this.committedConfig = theirs;
+    this.committedRevision = readBack.revision;
+    console.warn('[ConfigDomainController] Device settings changed since they were read, revision now', readBack.revision);
+
+    return { success: false, error, conflict: { base, theirs, ours, revision: readBack.revision } };
+  }
+
+  private async sendCommit(): Promise<void> {
+    const command = BLECommandEncoder.encodeCommitConfig(this.committedRevision ?? undefined);
+    const hexBytes = Array.from(command).map(b => '0x' + b.toString(16).padStart(2, '0')).join(' ');
+    console.log('💾 Committing config with command:', hexBytes);
+
+    const response = await getBleTransport().sendCommand(this.connectedDevice!.id, command);
+    console.log('💾 Commit response:', response);
+
+    if (!response.isSuccess) {
+      throw new Error(`Commit failed with response: ${JSON.stringify(response)}`);
+    }
+  }
+
+  /**
+   * Re-send the intended values of the given settings before another commit attempt
+   */
+  private async resendSettings(intended: DeviceSettings, settings: Array<keyof DeviceSettings>): Promise<void> {
+    const updates: Partial<DeviceSettings> = {};
+    settings.forEach(setting => {
+      (updates as Record<string, unknown>)[setting] = intended[setting];
+    });
+
+    const response = await getBleTransport().sendCommand(
+      this.connectedDevice!.id,
+      BLECommandEncoder.encodeBatchUpdate(updates)
+    );
+    if (!response.isSuccess) {
+      throw new Error(`Re-sending ${settings.join(', ')} failed with response: ${JSON.stringify(response)}`);
+    }
+  }
+
+  /**
+   * Ask the device for its stored settings and their revision
+   * Entering config mode again makes the device report them, as it does at the start of a session.
+   * The firmware stays in config mode after a commit and re-enters without complaint, but re-entering
+   * reloads its staged settings from flash, so this is only called when nothing staged needs keeping.
+   * @param command - READ_CONFIG instead reports the staged settings and keeps them
+   * null when the device sends no report
+   */
+  private async readBackSettings(
+    command: Uint8Array = BLECommandEncoder.encodeEnterConfigMode()
+  ): Promise<{ settings: Partial<DeviceSettings>; revision: number | null } | null> {
+    const deviceId = this.connectedDevice!.id;
+    this.configModule.clearLastReceivedConfig();
+    try {
+      await getBleTransport().sendCommand(deviceId, command);
+    } catch (error) {
+      console.warn('[ConfigDomainController] Could not read settings back from the device:', error);
+      return null;
+    }
+
+    for (let i = 0; i < READ_BACK_POLL_ATTEMPTS; i++) {
+      const deviceConfig = this.configModule.getLastReceivedConfig();
+      if (deviceConfig) {
+        return {
+          settings: {
+            brightness: deviceConfig.brightness,
+            speed: deviceConfig.speed,
+            color: deviceConfig.color,
+            currentPattern: deviceConfig.effectType,
+          },
+          revision: deviceConfig.revision,
+        };
+      }
+      await new Promise<void>(resolve => setTimeout(resolve, 100));
+    }
+
+    console.warn('[ConfigDomainController] Device did not report its settings');
+    return null;
   }
 
   /**
@@ -510,9 +1095,55 @@ export class ConfigDomainController {
    * Check if config has unsaved changes
    */
   hasUnsavedChanges(): boolean {
+    if (this.committedConfig) {
+      return this.getPendingChanges().length > 0;
+    }
     return this.repository.hasUnsavedChanges();
   }
 
+  /**
+   * Last config committed to flash, if known this session
+   */
+  getCommittedConfig(): DeviceSettings | null {
+    return this.committedConfig;
+  }
+
+  /**
+   * Settings that differ from the last committed config, for review before commitConfig
+   */
+  getPendingChanges(): ConfigChange[] {
+    const config = this.repository.getCachedConfig();
+    if (!this.committedConfig || !config) {
+      return [];
+    }
+    return describeConfigChanges(this.committedConfig, config, this.repository);
+  }
+
+  /**
+   * Push the last committed values back to the device, discarding uncommitted edits
+   * The revert is itself an undo step
+   */
+  async revertToCommitted(): Promise<ConfigUpdateResult> {
+    if (this.history.isGroupOpen()) {
+      await this.flushLiveUpdates();
+    }
+    const config = this.repository.getCachedConfig();
+    if (!this.committedConfig || !config) {
+      return { success: false, error: createErrorEnvelope(ErrorCode.INVALID_COMMAND, 'No committed config to revert to') };
+    }
+
+    const updates = this.repository.getConfigDiff(config, this.committedConfig);
+    if (Object.keys(updates).length === 0) {
+      return { success: true };
+    }
+
+    const result = await this.updateConfig(updates);
+    if (result.success) {
+      this.repository.markAsSaved();
+    }
+    return result;
+  }
+
   /**
    * Get config mode state
    */
@@ -574,8 +1205,13 @@ export class ConfigDomainController {
   reset(): void {
     this.deviceId = null;
     this.connectedDevice = null;
+    this.liveChannel.cancel();
+    this.history.clear();
+    this.committedConfig = null;
+    this.committedRevision = null;
     this.configModule.reset();
-    this.repository.clearCache();
+    this.repository.releaseDevice(); // The device's cache is kept for its next connection
+    this.offlineEdits.release(); // So are its queued edits
     this.updateListeners = [];
     this.errorListeners = [];
   }
@@ -0,0 +1,156 @@
+/**
+ * Config History
+ * Bounded undo/redo stack of config edits. Each step stores only the settings it changed,
+ * both ways, as computed by ConfigRepository.getConfigDiff.
+ *
+ * Edits recorded between beginGroup() and endGroup() (e.g. every sync point of a slider drag)
+ * collapse into one step from the config before the first edit to the config after the last.
+ */
+
+import { DeviceSettings } from '../../utils/bleConstants';
+import { ConfigRepository, configRepository } from './configRepository';
+
+export const MAX_HISTORY_STEPS = 50;
+
+export interface ConfigHistoryStep {
+  undo: Partial<DeviceSettings>; // Values to restore
+  redo: Partial<DeviceSettings>; // Values to re-apply
+}
+
+export interface ConfigHistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export class ConfigHistory {
+  private undoStack: ConfigHistoryStep[] = [];
+  private redoStack: ConfigHistoryStep[] = [];
+  private group: { before: DeviceSettings | null; after: DeviceSettings | null } | null = null;
+  private listeners: Array<(state: ConfigHistoryState) => void> = [];
+
+  constructor(
+    private readonly repository: ConfigRepository = configRepository,
+    private readonly maxSteps: number = MAX_HISTORY_STEPS
+  ) {}
+
+  /**
+   * Record an applied edit; clears the redo stack
+   */
+  record(before: DeviceSettings, after: DeviceSettings): void {
+    if (this.group) {
+      this.group.before = this.group.before ?? before;
+      this.group.after = after;
+      return;
+    }
+    this.push(before, after);
+  }
+
+  /**
+   * Start collapsing edits into one step (no-op if a group is already open)
+   */
+  beginGroup(): void {
+    if (!this.group) {
+      this.group = { before: null, after: null };
+    }
+  }
+
+  /**
+   * Close the open group and record it as one step
+   */
+  endGroup(): void {
+    const group = this.group;
+    this.group = null;
+    if (group?.before && group.after) {
+      this.push(group.before, group.after);
+    }
+  }
+
+  isGroupOpen(): boolean {
+    return this.group !== null;
+  }
+
+  /**
+   * The step undo() would revert, without removing it
+   */
+  peekUndo(): ConfigHistoryStep | null {
+    return this.undoStack[this.undoStack.length - 1] ?? null;
+  }
+
+  peekRedo(): ConfigHistoryStep | null {
+    return this.redoStack[this.redoStack.length - 1] ?? null;
+  }
+
+  /**
+   * Move the newest step to the redo stack once its undo values have been applied
+   */
+  markUndone(): void {
+    const step = this.undoStack.pop();
+    if (step) {
+      this.redoStack.push(step);
+      this.notify();
+    }
+  }
+
+  /**
+   * Move the newest undone step back once its redo values have been applied
+   */
+  markRedone(): void {
+    const step = this.redoStack.pop();
+    if (step) {
+      this.undoStack.push(step);
+      this.notify();
+    }
+  }
+
+  getState(): ConfigHistoryState {
+    return {
+      canUndo: this.undoStack.length > 0,
+      canRedo: this.redoStack.length > 0,
+    };
+  }
+
+  /**
+   * Forget every step (e.g. when a new config session starts)
+   */
+  clear(): void {
+    const hadSteps = this.undoStack.length > 0 || this.redoStack.length > 0;
+    this.undoStack = [];
+    this.redoStack = [];
+    this.group = null;
+    if (hadSteps) {
+      this.notify();
+    }
+  }
+
+  subscribe(listener: (state: ConfigHistoryState) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private push(before: DeviceSettings, after: DeviceSettings): void {
+    const redo = this.repository.getConfigDiff(before, after);
+    if (Object.keys(redo).length === 0) {
+      return; // Nothing changed (e.g. a slider dragged back to where it started)
+    }
+
+    this.undoStack.push({ undo: this.repository.getConfigDiff(after, before), redo });
+    if (this.undoStack.length > this.maxSteps) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.notify();
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error('Error in history listener:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Config Merge
+ * Three-way merge for a commit the device refused because its settings changed since they were read
+ * (another phone, device-side input): base is what we read, theirs is what the device has now, ours is our edits.
+ */
+
+import { DeviceSettings } from '../../utils/bleConstants';
+import { SETTING_LABELS, SETTING_ORDER, formatSettingValue } from './configChanges';
+import { ConfigRepository, configRepository } from './configRepository';
+
+export interface ConfigConflict {
+  base: DeviceSettings;
+  theirs: DeviceSettings;
+  ours: DeviceSettings;
+  revision: number | null; // Device revision theirs was read at
+}
+
+export type ConfigMergeSide = 'theirs' | 'ours';
+
+export type ConfigMergeChoices = Partial<Record<keyof DeviceSettings, ConfigMergeSide>>;
+
+export interface ConfigMergeRow {
+  setting: keyof DeviceSettings;
+  label: string;
+  base: string;
+  theirs: string;
+  ours: string;
+  conflicting: boolean; // Both sides changed it, to different values
+  side: ConfigMergeSide; // Taken unless chosen otherwise: the side that changed it, ours for a conflict
+}
+
+/**
+ * One row per setting either side changed, in the order the config screen shows them
+ */
+export const describeConfigMerge = (
+  conflict: ConfigConflict,
+  repository: ConfigRepository = configRepository
+): ConfigMergeRow[] => {
+  const { base, theirs, ours } = conflict;
+  const theirChanges = repository.getConfigDiff(base, theirs);
+  const ourChanges = repository.getConfigDiff(base, ours);
+  const disagreements = repository.getConfigDiff(theirs, ours);
+
+  return SETTING_ORDER
+    .filter(setting => setting in theirChanges || setting in ourChanges)
+    .map(setting => ({
+      setting,
+      label: SETTING_LABELS[setting],
+      base: formatSettingValue(setting, base[setting]),
+      theirs: formatSettingValue(setting, theirs[setting]),
+      ours: formatSettingValue(setting, ours[setting]),
+      conflicting: setting in theirChanges && setting in ourChanges && setting in disagreements,
+      side: setting in ourChanges ? 'ours' : 'theirs',
+    }));
+};
+
+/**
+ * Theirs with each changed setting taken from the chosen side
+ */
+export const mergeConfigs = (
+  conflict: ConfigConflict,
+  choices: ConfigMergeChoices = {},
+  repository: ConfigRepository = configRepository
+): DeviceSettings =>
+  describeConfigMerge(conflict, repository).reduce<DeviceSettings>(
+    (merged, row) => ({ ...merged, [row.setting]: conflict[choices[row.setting] ?? row.side][row.setting] }),
+    { ...conflict.theirs }
+  );
@@ -1,18 +1,52 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { DeviceSettings } from '../../utils/bleConstants';
 import { logger } from '../../utils/logger';
+import { appStorage } from '../storage/appStorage';
+import { STORAGE_KEYS } from '../storage/storageKeys';
+import { fromLedConfig, LegacyLedConfig } from './configConverters';
 
 const CONFIG_STORAGE_KEY = '@led_guitar:config';
-const CONFIG_CACHE_KEY = '@led_guitar:config_cache';
+
+// Older builds kept one cache for whichever guitar was used last, or an LEDConfig per device
+const LEGACY_GLOBAL_CACHE_KEY = '@led_guitar:config_cache';
+const LEGACY_DEVICE_CONFIG_KEY = (deviceId: string) => `led_config_${deviceId}`;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export type NumericSetting = 'brightness' | 'currentPattern' | 'powerMode' | 'autoOff' | 'maxEffects' | 'speed';
+
+export interface SettingRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Accepted range of each numeric setting; validateConfig resets a value outside it to the default
+ */
+export const SETTING_RANGES: Record<NumericSetting, SettingRange> = {
+  brightness: { min: 0, max: 100 },
+  currentPattern: { min: 0, max: 9 },
+  powerMode: { min: 0, max: 2 },
+  autoOff: { min: 0, max: 255 },
+  maxEffects: { min: 1, max: 10 },
+  speed: { min: 0, max: 100 },
+};
+
+interface CacheEntry {
+  config: DeviceSettings | null;
+  isDirty: boolean;
+}
 
 /**
  * Config Repository
- * Manages cached configuration state, serialization, and local persistence
+ * Manages cached configuration state per device, serialization, and local persistence.
+ * The cache methods act on the active device, selected by loadCachedConfig(deviceId).
  */
 export class ConfigRepository {
   private static instance: ConfigRepository;
-  private cachedConfig: DeviceSettings | null = null;
-  private isDirty: boolean = false;
+  private entries = new Map<string, CacheEntry>();
+  private activeDeviceId: string | null = null;
+  private unboundEntry: CacheEntry = { config: null, isDirty: false }; // Used with no active device; never persisted
 
   private constructor() {}
 
@@ -23,17 +57,37 @@ export class ConfigRepository {
     return ConfigRepository.instance;
   }
 
+  private activeEntry(): CacheEntry {
+    if (this.activeDeviceId === null) {
+      return this.unboundEntry;
+    }
+    let entry = this.entries.get(this.activeDeviceId);
+    if (!entry) {
+      entry = { config: null, isDirty: false };
+      this.entries.set(this.activeDeviceId, entry);
+    }
+    return entry;
+  }
+
   /**
-   * Load cached config from AsyncStorage
+   * Device whose cache entry is active
    */
-  async loadCachedConfig(): Promise<DeviceSettings | null> {
+  getActiveDeviceId(): string | null {
+    return this.activeDeviceId;
+  }
+
+  /**
+   * Make a device's entry active and load its cached config from AsyncStorage
+   */
+  async loadCachedConfig(deviceId: string): Promise<DeviceSettings | null> {
+    this.activeDeviceId = deviceId;
+    const entry = this.activeEntry();
     try {
-      const cached = await AsyncStorage.getItem(CONFIG_CACHE_KEY);
-      if (cached) {
-        const parsed = JSON.parse(cached);
-        this.cachedConfig = this.validateConfig(parsed);
-        this.isDirty = false;
-        return this.cachedConfig;
+      const stored = await this.readStoredConfig(deviceId);
+      if (stored) {
+        entry.config = stored;
+        entry.isDirty = false;
+        return stored;
       }
     } catch (error) {
       logger.error('ConfigRepository', 'Failed to load cached config', error as Error);
@@ -41,14 +95,45 @@ export class ConfigRepository {
     return null;
   }
 
+  private async readStoredConfig(deviceId: string): Promise<DeviceSettings | null> {
+    const cached = await appStorage.readJSON<object | null>(STORAGE_KEYS.CONFIG_CACHE(deviceId), null, isObject);
+    if (cached) {
+      return this.validateConfig(cached);
+    }
+
+    // The global cache cannot be attributed to a device, so it is dropped rather than shown for the wrong guitar
+    await appStorage.remove(LEGACY_GLOBAL_CACHE_KEY);
+
+    const legacy = await appStorage.readJSON<LegacyLedConfig | null>(LEGACY_DEVICE_CONFIG_KEY(deviceId), null, isObject);
+    if (!legacy) {
+      return null;
+    }
+    const converted = this.validateConfig(fromLedConfig(legacy, this.getDefaultConfig()));
+    await appStorage.writeJSON(STORAGE_KEYS.CONFIG_CACHE(deviceId), converted);
+    await appStorage.remove(LEGACY_DEVICE_CONFIG_KEY(deviceId));
+    logger.info('ConfigRepository', `Converted legacy cached config for ${deviceId}`);
+    return converted;
+  }
+
+  /**
+   * Stop using the active device's entry (e.g. on disconnect); its stored cache is kept
+   */
+  releaseDevice(): void {
+    this.activeDeviceId = null;
+    this.unboundEntry = { config: null, isDirty: false };
+  }
+
   /**
-   * Save config to cache (AsyncStorage)
+   * Save config to the active device's cache (AsyncStorage)
    */
   async saveCachedConfig(config: DeviceSettings): Promise<void> {
+    const entry = this.activeEntry();
     try {
-      this.cachedConfig = this.validateConfig(config);
-      await AsyncStorage.setItem(CONFIG_CACHE_KEY, JSON.stringify(this.cachedConfig));
-      this.isDirty = false;
+      entry.config = this.validateConfig(config);
+      if (this.activeDeviceId !== null) {
+        await appStorage.writeJSON(STORAGE_KEYS.CONFIG_CACHE(this.activeDeviceId), entry.config);
+      }
+      entry.isDirty = false;
     } catch (error) {
       logger.error('ConfigRepository', 'Failed to save cached config', error as Error);
       throw error;
@@ -59,38 +144,35 @@ export class ConfigRepository {
    * Get current cached config (in-memory)
    */
   getCachedConfig(): DeviceSettings | null {
-    return this.cachedConfig;
+    return this.activeEntry().config;
   }
 
   /**
    * Update cached config (marks as dirty)
    */
   updateCachedConfig(updates: Partial<DeviceSettings>): DeviceSettings {
-    if (!this.cachedConfig) {
+    const entry = this.activeEntry();
+    entry.config = {
       // Create default config if none exists
-      this.cachedConfig = this.getDefaultConfig();
-    }
-
-    this.cachedConfig = {
-      ...this.cachedConfig,
+      ...(entry.config ?? this.getDefaultConfig()),
       ...updates,
     };
-    this.isDirty = true;
-    return this.cachedConfig;
+    entry.isDirty = true;
+    return entry.config;
   }
 
   /**
    * Check if config has unsaved changes
    */
   hasUnsavedChanges(): boolean {
-    return this.isDirty;
+    return this.activeEntry().isDirty;
   }
 
   /**
    * Mark config as saved (clears dirty flag)
    */
   markAsSaved(): void {
-    this.isDirty = false;
+    this.activeEntry().isDirty = false;
   }
 
   /**
@@ -117,17 +199,17 @@ export class ConfigRepository {
   /**
    * Validate config structure and values
    */
-  validateConfig(config: any): DeviceSettings {
+  validateConfig(config: unknown): DeviceSettings {
+    const fields = isObject(config) ? config : {};
     const validated: DeviceSettings = {
-      brightness: this.validateRange(config?.brightness, 0, 100, 50),
-      currentPattern: this.validateRange(config?.currentPattern, 0, 9, 0),
-      powerMode: this.validateRange(config?.powerMode, 0, 2, 0),
-      autoOff: this.validateRange(config?.autoOff, 0, 255, 0),
-      maxEffects: this.validateRange(config?.maxEffects, 1, 10, 10),
-      speed: this.validateRange(config?.speed, 0, 100, 30),
-      color: this.validateColor(config?.color),
-      effectType: this.validateRange(config?.effectType, 0, 5, 0),
-      powerState: typeof config?.powerState === 'boolean' ? config.powerState : false,
+      brightness: this.validateRange(fields.brightness, SETTING_RANGES.brightness, 50),
+      currentPattern: this.validateRange(fields.currentPattern, SETTING_RANGES.currentPattern, 0),
+      powerMode: this.validateRange(fields.powerMode, SETTING_RANGES.powerMode, 0),
+      autoOff: this.validateRange(fields.autoOff, SETTING_RANGES.autoOff, 0),
+      maxEffects: this.validateRange(fields.maxEffects, SETTING_RANGES.maxEffects, 10),
+      speed: this.validateRange(fields.speed, SETTING_RANGES.speed, 30),
+      color: this.validateColor(fields.color),
+      powerState: typeof fields.powerState === 'boolean' ? fields.powerState : false,
     };
 
     return validated;
@@ -136,8 +218,8 @@ export class ConfigRepository {
   /**
    * Validate range and return default if invalid
    */
-  private validateRange(value: any, min: number, max: number, defaultValue: number): number {
-    const num = typeof value === 'number' ? value : parseInt(value, 10);
+  private validateRange(value: unknown, { min, max }: SettingRange, defaultValue: number): number {
+    const num = typeof value === 'number' ? value : typeof value === 'string' ? parseInt(value, 10) : NaN;
     if (isNaN(num) || num < min || num > max) {
       return defaultValue;
     }
@@ -147,9 +229,9 @@ export class ConfigRepository {
   /**
    * Validate color array
    */
-  private validateColor(color: any): [number, number, number] {
+  private validateColor(color: unknown): [number, number, number] {
     if (Array.isArray(color) && color.length === 3) {
-      const [r, g, b] = color.map(c => this.validateRange(c, 0, 255, 255));
+      const [r, g, b] = color.map(c => this.validateRange(c, { min: 0, max: 255 }, 255));
       return [r, g, b];
     }
     return [255, 255, 255]; // Default white
@@ -168,19 +250,21 @@ export class ConfigRepository {
       maxEffects: 10,
       speed: 30,
       color: [0, 122, 255], // iOS blue in RGB
-      effectType: 0, // SOLID
       powerState: false,
     };
   }
 
   /**
-   * Clear cached config
+   * Clear the active device's cached config
    */
   async clearCache(): Promise<void> {
+    const entry = this.activeEntry();
     try {
-      this.cachedConfig = null;
-      this.isDirty = false;
-      await AsyncStorage.removeItem(CONFIG_CACHE_KEY);
+      entry.config = null;
+      entry.isDirty = false;
+      if (this.activeDeviceId !== null) {
+        await appStorage.remove(STORAGE_KEYS.CONFIG_CACHE(this.activeDeviceId));
+      }
     } catch (error) {
       logger.error('ConfigRepository', 'Failed to clear cache', error as Error);
     }
@@ -236,6 +320,14 @@ export class ConfigRepository {
       diff.color = newConfig.color;
     }
 
+    if (oldConfig.speed !== newConfig.speed) {
+      diff.speed = newConfig.speed;
+    }
+
+    if (oldConfig.powerState !== newConfig.powerState) {
+      diff.powerState = newConfig.powerState;
+    }
+
     return diff;
   }
 }
@@ -0,0 +1,169 @@
+/**
+ * Live Update Channel
+ * Coalesces rapid config changes (e.g. a slider drag) so the device tracks the newest value
+ * instead of working through a backlog.
+ *
+ * - Only the newest pending value of each setting is kept; older ones are dropped.
+ * - At most one update is in flight, and sends are spaced by the measured round-trip time.
+ * - flush() sends whatever is still pending right away, so the final value always lands.
+ *
+ * With a preview sender, most sends are fire-and-forget. Every SYNC_EVERY_SENDS sends (or
+ * SYNC_INTERVAL_MS) an acknowledged sync point re-sends everything previewed since the last one.
+ * A sync check then compares what the device holds with the app and corrects any drift the
+ * re-send did not cover. flush() always ends with a sync point.
+ */
+
+import { DeviceSettings } from '../../utils/bleConstants';
+import { createErrorEnvelope, ErrorCode } from '../common/errorEnvelope';
+import type { ConfigUpdateResult } from './configDomainController';
+
+export const MIN_LIVE_INTERVAL_MS = 20;
+export const MAX_LIVE_INTERVAL_MS = 250;
+const INITIAL_RTT_MS = 60;
+const RTT_SMOOTHING = 0.25; // Weight of the newest sample in the moving average
+export const SYNC_EVERY_SENDS = 8;
+export const SYNC_INTERVAL_MS = 1000;
+
+export type LiveUpdateSender = (updates: Partial<DeviceSettings>) => Promise<ConfigUpdateResult>;
+export type LivePreviewSender = (updates: Partial<DeviceSettings>) => Promise<void>;
+export type LiveSyncCheck = () => Promise<ConfigUpdateResult>;
+
+export class LiveUpdateChannel {
+  private pending: Partial<DeviceSettings> = {};
+  private inFlight: Promise<void> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private smoothedRtt: number = INITIAL_RTT_MS;
+  private lastSentAt: number = 0;
+  private lastResult: ConfigUpdateResult = { success: true };
+  private unsynced: Partial<DeviceSettings> = {}; // Previewed since the last sync point
+  private previewsSinceSync: number = 0;
+  private lastSyncAt: number = 0;
+
+  /**
+   * @param send - Acknowledged send, used for sync points
+   * @param sendPreview - Fire-and-forget send; without it every send is acknowledged
+   * @param checkSync - Run after each acknowledged sync point to find and correct drift on the device
+   */
+  constructor(
+    private readonly send: LiveUpdateSender,
+    private readonly sendPreview?: LivePreviewSender,
+    private readonly checkSync?: LiveSyncCheck
+  ) {}
+
+  /**
+   * Queue new values, replacing any that have not been sent yet
+   */
+  push(updates: Partial<DeviceSettings>): void {
+    this.pending = { ...this.pending, ...updates };
+    this.schedule();
+  }
+
+  /**
+   * Send anything still pending now as a sync point and resolve with its result
+   */
+  async flush(): Promise<ConfigUpdateResult> {
+    while (this.inFlight || this.hasPending() || this.previewsSinceSync > 0) {
+      this.clearTimer();
+      await (this.inFlight ?? this.sendPending(true));
+    }
+    return this.lastResult;
+  }
+
+  /**
+   * Drop pending values without sending them (in-flight sends still finish)
+   */
+  cancel(): void {
+    this.clearTimer();
+    this.pending = {};
+    this.unsynced = {};
+    this.previewsSinceSync = 0;
+  }
+
+  /**
+   * Smoothed round-trip time of recent sends, in milliseconds
+   */
+  getRoundTripTime(): number {
+    return this.smoothedRtt;
+  }
+
+  /**
+   * Minimum spacing between sends, derived from the round-trip time
+   */
+  getSendInterval(): number {
+    return Math.min(MAX_LIVE_INTERVAL_MS, Math.max(MIN_LIVE_INTERVAL_MS, Math.round(this.smoothedRtt)));
+  }
+
+  private hasPending(): boolean {
+    return Object.keys(this.pending).length > 0;
+  }
+
+  private schedule(): void {
+    // An in-flight send reschedules when it completes
+    if (this.timer || this.inFlight || !this.hasPending()) {
+      return;
+    }
+    const wait = Math.max(0, this.lastSentAt + this.getSendInterval() - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.sendPending();
+    }, wait);
+  }
+
+  private isSyncDue(now: number): boolean {
+    return !this.sendPreview ||
+      this.previewsSinceSync + 1 >= SYNC_EVERY_SENDS ||
+      now - this.lastSyncAt >= SYNC_INTERVAL_MS;
+  }
+
+  private sendPending(forceSync: boolean = false): Promise<void> {
+    const updates = this.pending;
+    this.pending = {};
+
+    const startedAt = Date.now();
+    const sync = forceSync || this.isSyncDue(startedAt);
+    this.lastSentAt = startedAt;
+    this.inFlight = (async () => {
+      try {
+        if (sync) {
+          const synced = { ...this.unsynced, ...updates };
+          this.unsynced = {};
+          this.previewsSinceSync = 0;
+          this.lastSyncAt = startedAt;
+          this.lastResult = await this.send(synced);
+          this.measureRoundTrip(startedAt);
+          // A queued send never reached the device, so there is nothing to compare
+          if (this.checkSync && this.lastResult.success && !this.lastResult.queued) {
+            this.lastResult = await this.checkSync();
+          }
+        } else {
+          this.unsynced = { ...this.unsynced, ...updates };
+          this.previewsSinceSync++;
+          await this.sendPreview!(updates);
+          this.measureRoundTrip(startedAt);
+          this.lastResult = { success: true };
+        }
+      } catch (error: any) {
+        this.lastResult = {
+          success: false,
+          error: createErrorEnvelope(ErrorCode.UNKNOWN_ERROR, error?.message || 'Live update failed'),
+        };
+      } finally {
+        this.inFlight = null;
+        this.schedule();
+      }
+    })();
+    return this.inFlight;
+  }
+
+  private measureRoundTrip(startedAt: number): void {
+    const rtt = Date.now() - startedAt;
+    this.smoothedRtt = this.smoothedRtt + RTT_SMOOTHING * (rtt - this.smoothedRtt);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
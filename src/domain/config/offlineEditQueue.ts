@@ -0,0 +1,109 @@
+/**
+ * Offline Edit Queue
+ * Edits made while the guitar is out of reach (it dropped mid-edit, or is not powered on yet), saved per
+ * device so they survive an app restart and replayed on reconnect as one net change
+ */
+
+import { DeviceSettings } from '../../utils/bleConstants';
+import { appStorage } from '../storage/appStorage';
+import { STORAGE_KEYS } from '../storage/storageKeys';
+import { ConfigRepository, configRepository } from './configRepository';
+
+export interface QueuedEdit {
+  updates: Partial<DeviceSettings>;
+  queuedAt: number;
+}
+
+export class OfflineEditQueue {
+  private deviceId: string | null = null;
+  private edits: QueuedEdit[] = [];
+  private listeners: Array<(count: number) => void> = [];
+
+  constructor(private repository: ConfigRepository = configRepository) {}
+
+  /**
+   * Load the edits saved for a device
+   * A queue with any unreadable edit is quarantined whole: replaying only part of it would not give its net change
+   */
+  async load(deviceId: string): Promise<void> {
+    this.deviceId = deviceId;
+    this.edits = await appStorage.readJSON<QueuedEdit[]>(
+      STORAGE_KEYS.OFFLINE_EDITS(deviceId),
+      [],
+      value => Array.isArray(value) && value.every(edit => this.isQueuedEdit(edit))
+    );
+    this.notify();
+  }
+
+  /**
+   * A stored edit this build can send: known settings, each with a value the config repository accepts as is
+   */
+  private isQueuedEdit(value: unknown): value is QueuedEdit {
+    if (typeof value !== 'object' || value === null || typeof (value as QueuedEdit).queuedAt !== 'number') {
+      return false;
+    }
+    const { updates } = value as QueuedEdit;
+    if (typeof updates !== 'object' || updates === null || Array.isArray(updates)) {
+      return false;
+    }
+    const defaults = this.repository.getDefaultConfig();
+    const validated = this.repository.validateConfig({ ...defaults, ...updates });
+    return Object.entries(updates).every(([setting, updateValue]) =>
+      setting in defaults &&
+      JSON.stringify(validated[setting as keyof DeviceSettings]) === JSON.stringify(updateValue)
+    );
+  }
+
+  /**
+   * Stop using the loaded queue; it stays saved for the device's next connection
+   */
+  release(): void {
+    this.deviceId = null;
+    this.edits = [];
+    this.notify();
+  }
+
+  async enqueue(updates: Partial<DeviceSettings>): Promise<void> {
+    if (!this.deviceId) {
+      throw new Error('No device to queue edits for');
+    }
+    this.edits.push({ updates: { ...updates }, queuedAt: Date.now() });
+    await appStorage.writeJSON(STORAGE_KEYS.OFFLINE_EDITS(this.deviceId), this.edits);
+    this.notify();
+  }
+
+  getCount(): number {
+    return this.edits.length;
+  }
+
+  /**
+   * The queued edits as one update: the last value of each setting, leaving out settings the device
+   * already has at that value
+   */
+  getNetDiff(current: DeviceSettings): Partial<DeviceSettings> {
+    const target = this.edits.reduce<DeviceSettings>((config, edit) => ({ ...config, ...edit.updates }), current);
+    return this.repository.getConfigDiff(current, target);
+  }
+
+  async clear(): Promise<void> {
+    this.edits = [];
+    if (this.deviceId) {
+      await appStorage.remove(STORAGE_KEYS.OFFLINE_EDITS(this.deviceId));
+    }
+    this.notify();
+  }
+
+  /**
+   * Subscribe to the number of queued edits
+   */
+  subscribe(listener: (count: number) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.edits.length));
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * App Storage
+ * Versioned access to AsyncStorage. Stored data is migrated to STORAGE_SCHEMA_VERSION before the first
+ * read or write, and a value that no longer parses or validates is quarantined and read as a default,
+ * so a type change cannot crash the app on upgrade.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from './storageKeys';
+import { KeyValueStore, STORAGE_MIGRATIONS, StorageMigration } from './storageMigrations';
+
+/**
+ * A value set aside because it could not be read, kept for bug reports
+ */
+export interface QuarantinedValue {
+  key: string;
+  raw: string;
+  reason: string;
+  quarantinedAt: number;
+}
+
+export class AppStorage {
+  private migration: Promise<void> | null = null;
+
+  constructor(
+    private store: KeyValueStore = AsyncStorage,
+    private migrations: StorageMigration[] = STORAGE_MIGRATIONS
+  ) {}
+
+  /**
+   * Migrate stored data to the current schema. Runs once; reads and writes wait for it.
+   * After a failure the next call tries again.
+   */
+  migrate(): Promise<void> {
+    if (!this.migration) {
+      this.migration = this.runMigrations().catch(error => {
+        // Later migrations may depend on the failed one, so stop here; the next read or write tries again
+        console.error('[AppStorage] Storage migration failed:', error);
+        this.migration = null;
+      });
+    }
+    return this.migration;
+  }
+
+  private async runMigrations(): Promise<void> {
+    const stored = await this.store.getItem(STORAGE_KEYS.SCHEMA_VERSION);
+    let version = stored === null ? 0 : Number(stored);
+    if (!Number.isInteger(version) || version < 0) {
+      console.warn(`[AppStorage] Unreadable schema version "${stored}", migrating from the start`);
+      version = 0;
+    }
+
+    if (version > Math.max(0, ...this.migrations.map(migration => migration.version))) {
+      // Written by a newer build; values this build cannot read are quarantined as they are read
+      console.warn(`[AppStorage] Storage schema ${version} is newer than this build supports`);
+    }
+
+    const pending = this.migrations
+      .filter(migration => migration.version > version)
+      .sort((a, b) => a.version - b.version);
+
+    // Silent on success: the logger would save its entries here before loading the stored ones
+    for (const migration of pending) {
+      await migration.migrate(this.store);
+      await this.store.setItem(STORAGE_KEYS.SCHEMA_VERSION, String(migration.version));
+    }
+  }
+
+  /**
+   * Read a JSON value; returns the fallback when the key is missing, and quarantines a value that does not
+   * parse or that isValid rejects
+   */
+  async readJSON<T>(key: string, fallback: T, isValid: (value: unknown) => boolean = () => true): Promise<T> {
+    await this.migrate();
+    const raw = await this.store.getItem(key);
+    if (raw === null) {
+      return fallback;
+    }
+
+    let value: unknown;
+    try {
+      value = JSON.parse(raw);
+    } catch (error) {
+      await this.quarantine(key, raw, `Invalid JSON: ${(error as Error).message}`);
+      return fallback;
+    }
+    if (!isValid(value)) {
+      await this.quarantine(key, raw, 'Unexpected shape');
+      return fallback;
+    }
+    return value as T;
+  }
+
+  async writeJSON(key: string, value: unknown): Promise<void> {
+    await this.migrate();
+    await this.store.setItem(key, JSON.stringify(value));
+  }
+
+  async readString(key: string): Promise<string | null> {
+    await this.migrate();
+    return this.store.getItem(key);
+  }
+
+  async writeString(key: string, value: string): Promise<void> {
+    await this.migrate();
+    await this.store.setItem(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.migrate();
+    await this.store.removeItem(key);
+  }
+
+  /**
+   * Move an unreadable value aside so the key reads as missing; only the latest bad value per key is kept
+   */
+  private async quarantine(key: string, raw: string, reason: string): Promise<void> {
+    console.warn(`[AppStorage] Quarantined ${key}: ${reason}`);
+    const entry: QuarantinedValue = { key, raw, reason, quarantinedAt: Date.now() };
+    await this.store.setItem(`${STORAGE_KEYS.QUARANTINE_PREFIX}${key}`, JSON.stringify(entry));
+    await this.store.removeItem(key);
+  }
+
+  /**
+   * Values quarantined so far
+   */
+  async getQuarantined(): Promise<QuarantinedValue[]> {
+    const keys = await this.store.getAllKeys();
+    const quarantined: QuarantinedValue[] = [];
+    for (const key of keys.filter(key => key.startsWith(STORAGE_KEYS.QUARANTINE_PREFIX))) {
+      const raw = await this.store.getItem(key);
+      if (raw === null) {
+        continue;
+      }
+      try {
+        quarantined.push(JSON.parse(raw));
+      } catch {
+        console.warn(`[AppStorage] Skipping unreadable quarantine record ${key}`);
+      }
+    }
+    return quarantined;
+  }
+}
+
+export const appStorage = new AppStorage();
@@ -0,0 +1,27 @@
+/**
+ * Storage Keys
+ * Every AsyncStorage key the app uses. Keys without the @led_guitar: prefix predate it and are kept
+ * so existing installs keep their data.
+ */
+
+export const STORAGE_KEYS = {
+  SCHEMA_VERSION: '@led_guitar:schema_version',
+  QUARANTINE_PREFIX: '@led_guitar:quarantine:',
+
+  USER: 'user_data',
+  THEME: 'app_theme_preference',
+
+  // Device ownership records (devicePairing)
+  PAIRED_DEVICES: 'paired_devices',
+  // Devices seen in discovery, with connection history (deviceStorage)
+  SAVED_DEVICES: '@led_guitar:saved_devices',
+  LAST_CONNECTED_DEVICE: 'last_connected_device',
+  AUTO_RECONNECT_ENABLED: 'auto_reconnect_enabled',
+
+  CONFIG_CACHE: (deviceId: string) => `@led_guitar:config_cache:${deviceId}`,
+  OFFLINE_EDITS: (deviceId: string) => `@led_guitar:offline_edits:${deviceId}`,
+  LOGS: '@led_guitar:logs',
+  TRAFFIC_SESSIONS: '@led_guitar:traffic_sessions',
+  ANALYTICS_EVENTS: 'analytics_events',
+  ANALYTICS_SESSIONS: 'analytics_sessions',
+} as const;
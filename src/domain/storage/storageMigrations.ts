@@ -0,0 +1,75 @@
+/**
+ * Storage Migrations
+ * Ordered steps that bring data written by older builds up to the current schema. Each step runs once,
+ * in version order, and the stored schema version is bumped after each so an interrupted run resumes.
+ * Add a step (never edit a shipped one) whenever a stored type changes.
+ */
+
+import { STORAGE_KEYS } from './storageKeys';
+
+/**
+ * The part of AsyncStorage that storage and migrations use
+ */
+export interface KeyValueStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getAllKeys(): Promise<readonly string[]>;
+}
+
+export interface StorageMigration {
+  version: number;
+  description: string;
+  migrate: (store: KeyValueStore) => Promise<void>;
+}
+
+/**
+ * Parsed JSON, or undefined when the key is missing or does not parse (the reader quarantines it later)
+ */
+const readJSON = async (store: KeyValueStore, key: string): Promise<unknown> => {
+  const raw = await store.getItem(key);
+  if (raw === null) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOwnershipRecord = (value: unknown): boolean =>
+  isRecord(value) && typeof value.deviceId === 'string' && typeof value.userId === 'string';
+
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Add authProvider to users saved before Google sign-in',
+    migrate: async store => {
+      const user = await readJSON(store, STORAGE_KEYS.USER);
+      if (isRecord(user) && user.authProvider === undefined) {
+        await store.setItem(STORAGE_KEYS.USER, JSON.stringify({ ...user, authProvider: 'apple' }));
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Move saved devices out of paired_devices, which they shared with ownership records',
+    migrate: async store => {
+      const entries = await readJSON(store, STORAGE_KEYS.PAIRED_DEVICES);
+      if (!Array.isArray(entries)) {
+        return;
+      }
+      const savedDevices = entries.filter(entry => isRecord(entry) && typeof entry.id === 'string' && !isOwnershipRecord(entry));
+      if (savedDevices.length > 0) {
+        await store.setItem(STORAGE_KEYS.SAVED_DEVICES, JSON.stringify(savedDevices));
+      }
+      await store.setItem(STORAGE_KEYS.PAIRED_DEVICES, JSON.stringify(entries.filter(isOwnershipRecord)));
+    },
+  },
+];
+
+export const STORAGE_SCHEMA_VERSION = STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version;
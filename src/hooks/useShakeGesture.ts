@@ -0,0 +1,49 @@
+/**
+ * Shake Gesture Hook
+ * Calls onShake when the phone is shaken, using the accelerometer (no-op where there is none)
+ */
+
+import { useEffect, useRef } from 'react';
+import { Accelerometer } from 'expo-sensors';
+
+const SHAKE_THRESHOLD_G = 1.8; // Total acceleration; resting is about 1 g
+const SHAKE_COOLDOWN_MS = 1000; // One shake gesture produces several readings over the threshold
+const SAMPLE_INTERVAL_MS = 100;
+
+export const useShakeGesture = (onShake: () => void, enabled: boolean = true) => {
+  const onShakeRef = useRef(onShake);
+  onShakeRef.current = onShake;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    let subscription: { remove: () => void } | null = null;
+    let cancelled = false;
+    let lastShakeAt = 0;
+
+    Accelerometer.isAvailableAsync()
+      .then(available => {
+        if (!available || cancelled) {
+          return;
+        }
+        Accelerometer.setUpdateInterval(SAMPLE_INTERVAL_MS);
+        subscription = Accelerometer.addListener(({ x, y, z }) => {
+          const now = Date.now();
+          if (Math.sqrt(x * x + y * y + z * z) > SHAKE_THRESHOLD_G && now - lastShakeAt > SHAKE_COOLDOWN_MS) {
+            lastShakeAt = now;
+            onShakeRef.current();
+          }
+        });
+      })
+      .catch(error => {
+        console.warn('[useShakeGesture] Accelerometer unavailable:', error);
+      });
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [enabled]);
+};
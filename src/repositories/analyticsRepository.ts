@@ -3,11 +3,10 @@
  * Manages analytics data storage using AsyncStorage
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { appStorage } from '../domain/storage/appStorage';
+import { STORAGE_KEYS } from '../domain/storage/storageKeys';
 import { AnalyticsEvent, AnalyticsSession, AnalyticsSummary } from '../types/analytics';
 
-const ANALYTICS_EVENTS_KEY = 'analytics_events';
-const ANALYTICS_SESSIONS_KEY = 'analytics_sessions';
 const MAX_EVENTS = 10000; // Keep last 10k events
 const MAX_SESSIONS = 1000; // Keep last 1k sessions
 
@@ -25,7 +24,7 @@ export class AnalyticsRepository {
         events.splice(0, events.length - MAX_EVENTS);
       }
       
-      await AsyncStorage.setItem(ANALYTICS_EVENTS_KEY, JSON.stringify(events));
+      await appStorage.writeJSON(STORAGE_KEYS.ANALYTICS_EVENTS, events);
     } catch (error) {
       console.error('Failed to save analytics event:', error);
     }
@@ -36,11 +35,7 @@ export class AnalyticsRepository {
    */
   async getEvents(): Promise<AnalyticsEvent[]> {
     try {
-      const data = await AsyncStorage.getItem(ANALYTICS_EVENTS_KEY);
-      if (!data) {
-        return [];
-      }
-      return JSON.parse(data);
+      return await appStorage.readJSON<AnalyticsEvent[]>(STORAGE_KEYS.ANALYTICS_EVENTS, [], Array.isArray);
     } catch (error) {
       console.error('Failed to load analytics events:', error);
       return [];
@@ -78,7 +73,7 @@ export class AnalyticsRepository {
         sessions.splice(0, sessions.length - MAX_SESSIONS);
       }
       
-      await AsyncStorage.setItem(ANALYTICS_SESSIONS_KEY, JSON.stringify(sessions));
+      await appStorage.writeJSON(STORAGE_KEYS.ANALYTICS_SESSIONS, sessions);
     } catch (error) {
       console.error('Failed to save analytics session:', error);
     }
@@ -89,11 +84,7 @@ export class AnalyticsRepository {
    */
   async getSessions(): Promise<AnalyticsSession[]> {
     try {
-      const data = await AsyncStorage.getItem(ANALYTICS_SESSIONS_KEY);
-      if (!data) {
-        return [];
-      }
-      return JSON.parse(data);
+      return await appStorage.readJSON<AnalyticsSession[]>(STORAGE_KEYS.ANALYTICS_SESSIONS, [], Array.isArray);
     } catch (error) {
       console.error('Failed to load analytics sessions:', error);
       return [];
@@ -117,7 +108,7 @@ export class AnalyticsRepository {
     
     if (activeIndex >= 0) {
       sessions[activeIndex] = { ...sessions[activeIndex], ...updates };
-      await AsyncStorage.setItem(ANALYTICS_SESSIONS_KEY, JSON.stringify(sessions));
+      await appStorage.writeJSON(STORAGE_KEYS.ANALYTICS_SESSIONS, sessions);
     }
   }
 
@@ -249,8 +240,8 @@ export class AnalyticsRepository {
    */
   async clearAll(): Promise<void> {
     try {
-      await AsyncStorage.removeItem(ANALYTICS_EVENTS_KEY);
-      await AsyncStorage.removeItem(ANALYTICS_SESSIONS_KEY);
+      await appStorage.remove(STORAGE_KEYS.ANALYTICS_EVENTS);
+      await appStorage.remove(STORAGE_KEYS.ANALYTICS_SESSIONS);
     } catch (error) {
       console.error('Failed to clear analytics data:', error);
     }
@@ -10,6 +10,7 @@ import {
   Platform,
   ActivityIndicator,
   Animated,
+  Modal,
 } from 'react-native';
 import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -23,17 +24,24 @@ import { useBottomTabBarHeight } from '@react-navigation/bottom-tabs';
 import GradientButton from '../components/GradientButton';
 import { useBluetoothContext as useBluetooth } from '../contexts/BluetoothContext';
 import { useAnalytics } from '../hooks/useAnalytics';
-import { configDomainController } from '../domain/config/configDomainController';
+import { useShakeGesture } from '../hooks/useShakeGesture';
+import { configDomainController, ConfigCommitResult } from '../domain/config/configDomainController';
+import { ConfigHistoryState } from '../domain/config/configHistory';
+import { ConfigChange, formatConfigChange } from '../domain/config/configChanges';
+import { ConfigConflict, ConfigMergeChoices, describeConfigMerge, mergeConfigs } from '../domain/config/configMerge';
+import { effectTypeToPattern, patternToEffectType } from '../domain/config/configConverters';
 import { ParameterId } from '../types/commands';
 import { EffectType } from '../types/config';
 import { BLEError, ErrorCode } from '../types/errors';
 import { ErrorEnvelope, ErrorHandler, formatErrorForUser } from '../domain/common/errorEnvelope';
 import { createAlertFromError, createSuccessAlert, createErrorAlert, AlertMessages } from '../domain/common/alertEnvelope';
 import { useToast } from '../contexts/ToastContext';
-import { validateParameter, validateColor, validateColorAndPower, calculateTotalCurrent } from '../utils/parameterValidation';
+import { validateParameter, validateColor, validateColorAndPower, calculateTotalCurrent, getSafeCurrentLimit } from '../utils/parameterValidation';
+import { DEFAULT_DEVICE_CAPABILITIES } from '../types/capabilities';
 import { BluetoothDevice } from '../types/bluetooth';
 import { DeviceSettings, RGBColor } from '../utils/bleConstants';
 import { ConfigModeStatus } from '../domain/bluetooth/configurationModule';
+import { getBleTransport } from '../domain/bluetooth/bleTransport';
 import { hexToRgb, rgbToHex } from '../utils/colors';
 
 // Development mode: Set to true to test UI without a real device connection
@@ -65,9 +73,10 @@ interface SliderControlProps {
   themeColors: any;
   isDark: boolean;
   onUpdateParameter: (parameterId: ParameterId, value: number, skipStateUpdate?: boolean) => void;
+  onLiveChange?: (value: number) => void; // Called on every move while dragging
 }
 
-const SliderControl: React.FC<SliderControlProps> = React.memo(({ title, value, onValueChange, icon, parameterId, themeColors, isDark, onUpdateParameter }) => {
+const SliderControl: React.FC<SliderControlProps> = React.memo(({ title, value, onValueChange, icon, parameterId, themeColors, isDark, onUpdateParameter, onLiveChange }) => {
   // Use local state to prevent slider flashing
   const [localValue, setLocalValue] = useState(value);
   const isDraggingRef = useRef(false);
@@ -97,7 +106,10 @@ const SliderControl: React.FC<SliderControlProps> = React.memo(({ title, value,
     setLocalValue(newValue);
     // Don't update parent state while dragging - only update local state
     // Parent state will be updated on slide complete
-  }, []);
+    if (isDraggingRef.current) {
+      onLiveChange?.(newValue);
+    }
+  }, [onLiveChange]);
 
   const handleSlidingStart = useCallback(() => {
     isDraggingRef.current = true;
@@ -155,7 +167,7 @@ const SliderControl: React.FC<SliderControlProps> = React.memo(({ title, value,
 const ConfigScreen: React.FC = () => {
   const tabBarHeight = useBottomTabBarHeight();
   const { colors: themeColors, isDark } = useTheme();
-  const { connectedDevice: realConnectedDevice } = useBluetooth();
+  const { connectedDevice: realConnectedDevice, capabilities: reportedCapabilities } = useBluetooth();
   const { trackConfigChange } = useAnalytics();
   const { showToast } = useToast();
   const navigation = useNavigation();
@@ -163,6 +175,9 @@ const ConfigScreen: React.FC = () => {
   // Use mock device in dev mode if no real device is connected
   const connectedDevice = DEV_MODE && !realConnectedDevice ? MOCK_DEVICE : realConnectedDevice;
 
+  // Fall back to worst-case hardware when the device has not reported its capabilities
+  const capabilities = reportedCapabilities ?? DEFAULT_DEVICE_CAPABILITIES;
+
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -172,6 +187,12 @@ const ConfigScreen: React.FC = () => {
   const [config, setConfig] = useState<DeviceSettings | null>(null);
   const [configModeState, setConfigModeState] = useState<ConfigModeStatus>({ state: 'inactive' });
   const [isInConfigMode, setIsInConfigMode] = useState(false);
+  const [historyState, setHistoryState] = useState<ConfigHistoryState>({ canUndo: false, canRedo: false });
+  const [offlineEditCount, setOfflineEditCount] = useState(0);
+  const [reviewChanges, setReviewChanges] = useState<ConfigChange[] | null>(null); // Shown before committing
+  const [conflict, setConflict] = useState<ConfigConflict | null>(null); // Settings changed on the guitar since they were read
+  const [mergeChoices, setMergeChoices] = useState<ConfigMergeChoices>({});
+  const mergeRows = useMemo(() => (conflict ? describeConfigMerge(conflict) : []), [conflict]);
 
   // Slider refs to prevent flashing (not used directly, kept for potential future use)
   // const brightnessSliderRef = useRef<Slider>(null);
@@ -351,9 +372,8 @@ const ConfigScreen: React.FC = () => {
         setIsInConfigMode(false);
 
         // Setup disconnection listener for graceful handling
-        if (Platform.OS !== 'web' && connectedDevice.id !== MOCK_DEVICE.id) {
-          const { bluetoothService } = require('../utils/bluetoothService');
-          bluetoothService.onDisconnection(connectedDevice.id, (deviceId: string) => {
+        if (connectedDevice.id !== MOCK_DEVICE.id) {
+          getBleTransport().onDisconnection(connectedDevice.id, (deviceId: string) => {
             handleDisconnection();
           });
         }
@@ -371,10 +391,25 @@ const ConfigScreen: React.FC = () => {
             setSpeed(result.config.speed);
             setSelectedColor(result.config.color);
             // Map Arduino pattern to EffectType
-            const mappedEffectType = arduinoPatternToEffectType(result.config.currentPattern);
+            const mappedEffectType = patternToEffectType(result.config.currentPattern);
             setEffectType(mappedEffectType);
             setConfigModeState({ state: 'active' });
             setIsInConfigMode(true);
+
+            // Edits made while the guitar was out of reach are replayed on entering config mode
+            if (result.replay) {
+              const { applied, rejected, error } = result.replay;
+              if (error) {
+                showToast(`Offline edits are still waiting: ${formatErrorForUser(error)}`, 'error');
+              } else if (rejected.length > 0) {
+                showToast(
+                  `Applied ${applied.length} offline edit(s); the guitar rejected ${rejected.map(({ change }) => formatConfigChange(change)).join(', ')}`,
+                  'error'
+                );
+              } else {
+                showToast(`Applied offline edits: ${applied.map(formatConfigChange).join(', ')}`, 'success');
+              }
+            }
           } else if (result.error) {
             setErrorState(result.error);
           }
@@ -409,7 +444,7 @@ const ConfigScreen: React.FC = () => {
       setSpeed(updatedConfig.speed);
       setSelectedColor(updatedConfig.color);
       // Map Arduino pattern to EffectType
-      const mappedEffectType = arduinoPatternToEffectType(updatedConfig.currentPattern);
+      const mappedEffectType = patternToEffectType(updatedConfig.currentPattern);
       setEffectType(mappedEffectType);
     });
 
@@ -418,24 +453,33 @@ const ConfigScreen: React.FC = () => {
       setErrorState(errorEnvelope);
     });
 
+    // Subscribe to undo/redo availability
+    const unsubscribeHistory = configDomainController.subscribeToHistory(setHistoryState);
+    setHistoryState(configDomainController.getHistoryState());
+
+    // Subscribe to edits waiting for the guitar to reconnect
+    const unsubscribeOfflineEdits = configDomainController.subscribeToOfflineEdits(setOfflineEditCount);
+    setOfflineEditCount(configDomainController.getOfflineEditCount());
+
     // Get initial config mode state
     setConfigModeState(configDomainController.getConfigModeState());
 
     // Setup disconnection listener for graceful handling
     let disconnectionCleanup: (() => void) | null = null;
-    if (connectedDevice && Platform.OS !== 'web' && connectedDevice.id !== MOCK_DEVICE.id) {
-      const { bluetoothService } = require('../utils/bluetoothService');
-      bluetoothService.onDisconnection(connectedDevice.id, (deviceId: string) => {
+    if (connectedDevice && connectedDevice.id !== MOCK_DEVICE.id) {
+      getBleTransport().onDisconnection(connectedDevice.id, (deviceId: string) => {
         handleDisconnection();
       });
       disconnectionCleanup = () => {
-        bluetoothService.removeDisconnectionListener(connectedDevice.id);
+        getBleTransport().removeDisconnectionListener(connectedDevice.id);
       };
     }
 
     return () => {
       unsubscribeConfig();
       unsubscribeErrors();
+      unsubscribeHistory();
+      unsubscribeOfflineEdits();
       if (disconnectionCleanup) {
         disconnectionCleanup();
       }
@@ -445,47 +489,10 @@ const ConfigScreen: React.FC = () => {
     };
   }, [connectedDevice]);
 
-  // Map EffectType to Arduino pattern numbers
-  const effectTypeToArduinoPattern = useCallback((effectType: EffectType): number => {
-    // Arduino patterns: OFF=0, SOLID_WHITE=1, RAINBOW=2, PULSE=3, FADE=4, CHASE=5, TWINKLE=6, WAVE=7, BREATH=8, STROBE=9
-    // EffectType: SOLID=0, PULSE=1, RAINBOW=2, WAVE=3, STROBE=4, CUSTOM=5
-    switch (effectType) {
-      case EffectType.SOLID:
-        return 1; // PATTERN_SOLID_WHITE
-      case EffectType.PULSE:
-        return 3; // PATTERN_PULSE
-      case EffectType.RAINBOW:
-        return 2; // PATTERN_RAINBOW
-      case EffectType.WAVE:
-        return 7; // PATTERN_WAVE
-      case EffectType.STROBE:
-        return 9; // PATTERN_STROBE
-      case EffectType.CUSTOM:
-        return 1; // Default to SOLID_WHITE for custom
-      default:
-        return 1; // Default to SOLID_WHITE
-    }
-  }, []);
-  
-  // Map Arduino pattern to EffectType
-  const arduinoPatternToEffectType = useCallback((pattern: number): EffectType => {
-    switch (pattern) {
-      case 0:
-        return EffectType.SOLID; // OFF maps to SOLID
-      case 1:
-        return EffectType.SOLID; // PATTERN_SOLID_WHITE
-      case 2:
-        return EffectType.RAINBOW; // PATTERN_RAINBOW
-      case 3:
-        return EffectType.PULSE; // PATTERN_PULSE
-      case 7:
-        return EffectType.WAVE; // PATTERN_WAVE
-      case 9:
-        return EffectType.STROBE; // PATTERN_STROBE
-      default:
-        return EffectType.SOLID;
-    }
-  }, []);
+  // Only offer effects this device's firmware can run
+  const availableEffects = effects.filter(effect =>
+    capabilities.supportedEffects.includes(effectTypeToPattern(effect.id))
+  );
 
   // Handle graceful disconnection
   const handleDisconnection = useCallback(() => {
@@ -497,25 +504,11 @@ const ConfigScreen: React.FC = () => {
       colorDebounceTimer.current = null;
     }
     
-    // Reset config state
-    configDomainController.reset();
-    setConfig(null);
+    // Keep the config on screen: edits made now are queued and applied when the guitar reconnects
     setIsInConfigMode(false);
-    setError('Device disconnected. Please reconnect to continue.');
-    
-    // Show alert and navigate to home on OK
-    Alert.alert(
-      'Device Disconnected',
-      'The device has been disconnected. Please reconnect to continue configuring.',
-      [{ 
-        text: 'OK',
-        onPress: () => {
-          configDomainController.exitConfigMode().catch(() => {});
-          navigation.navigate('Home' as never);
-        }
-      }]
-    );
-  }, [navigation]);
+    setConfigModeState({ state: 'inactive' });
+    showToast('Guitar disconnected. Your edits are kept and applied when it reconnects.', 'info');
+  }, [showToast]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -538,12 +531,9 @@ const ConfigScreen: React.FC = () => {
       const checkConnection = async () => {
         if (!DEV_MODE && connectedDevice && connectedDevice.id !== MOCK_DEVICE.id) {
           try {
-            const { bluetoothService } = require('../utils/bluetoothService');
-            const isConnected = await bluetoothService.isDeviceConnected(connectedDevice.id);
+            const isConnected = await getBleTransport().isDeviceConnected(connectedDevice.id);
             if (!isConnected) {
-              // Device disconnected - reset state
-              configDomainController.reset();
-              setConfig(null);
+              // Out of reach - keep the controller on this device so edits are still queued for it
               setIsInConfigMode(false);
               setConfigModeState({ state: 'inactive' });
               setError(null);
@@ -585,7 +575,7 @@ const ConfigScreen: React.FC = () => {
     if (!connectedDevice || !config) return;
 
     // Validate parameter before sending
-    const validation = validateParameter(parameterId, value);
+    const validation = validateParameter(parameterId, value, capabilities);
     if (!validation.isValid) {
       setValidationError(validation.error || 'Invalid parameter value');
       // Use corrected value if available
@@ -633,7 +623,7 @@ const ConfigScreen: React.FC = () => {
 
     // Validate power consumption if brightness is changing
     if (parameterId === ParameterId.BRIGHTNESS) {
-      const powerValidation = validateColorAndPower(selectedColor, value, true);
+      const powerValidation = validateColorAndPower(selectedColor, value, true, capabilities);
       if (!powerValidation.isValid) {
         setValidationError(powerValidation.error || 'Power consumption too high');
         // Revert to previous safe value
@@ -690,8 +680,7 @@ const ConfigScreen: React.FC = () => {
       try {
         // Check connection before proceeding
         if (!connectedDevice || (Platform.OS !== 'web' && connectedDevice.id !== MOCK_DEVICE.id)) {
-          const { bluetoothService } = require('../utils/bluetoothService');
-          const isConnected = await bluetoothService.isDeviceConnected(connectedDevice.id);
+          const isConnected = await getBleTransport().isDeviceConnected(connectedDevice.id);
           if (!isConnected) {
             handleDisconnection();
             return;
@@ -752,7 +741,7 @@ const ConfigScreen: React.FC = () => {
 
     // Store timer reference for this parameter
     parameterDebounceTimers.current.set(parameterId, timer);
-  }, [connectedDevice, config, isInConfigMode, brightness, speed, effectType, trackConfigChange]);
+  }, [connectedDevice, config, isInConfigMode, brightness, speed, effectType, trackConfigChange, capabilities]);
 
   // Update color as RGB value
   const updateColor = useCallback(async (hexColor: string) => {
@@ -774,7 +763,7 @@ const ConfigScreen: React.FC = () => {
     }
 
     // Validate power consumption
-    const powerValidation = validateColorAndPower(color, brightness, true);
+    const powerValidation = validateColorAndPower(color, brightness, true, capabilities);
     if (!powerValidation.isValid) {
       setValidationError(powerValidation.error || 'Power consumption too high');
       // Revert to previous safe color
@@ -819,7 +808,7 @@ const ConfigScreen: React.FC = () => {
       await handleColorChange(color);
       colorDebounceTimer.current = null;
     }, 150); // 150ms debounce
-  }, [connectedDevice, config, isInConfigMode, selectedColor, trackConfigChange, brightness]);
+  }, [connectedDevice, config, isInConfigMode, selectedColor, trackConfigChange, brightness, capabilities]);
 
   const handleSave = async () => {
     if (!connectedDevice || !config) {
@@ -838,25 +827,54 @@ const ConfigScreen: React.FC = () => {
       return;
     }
 
-    setIsSaving(true);
     setError(null);
     setErrorEnvelope(null);
 
-    try {
-      // In dev mode with mock device, simulate save
-      if (DEV_MODE && connectedDevice.id === MOCK_DEVICE.id) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-        showToast(AlertMessages.CONFIG_SAVED + ' (Mock Mode)', 'success');
-        setIsSaving(false);
-        return;
-      }
+    // In dev mode with mock device, simulate save
+    if (DEV_MODE && connectedDevice.id === MOCK_DEVICE.id) {
+      setIsSaving(true);
+      await new Promise(resolve => setTimeout(resolve, 500));
+      showToast(AlertMessages.CONFIG_SAVED + ' (Mock Mode)', 'success');
+      setIsSaving(false);
+      return;
+    }
+
+    // Review what will be written to flash first
+    const changes = configDomainController.getPendingChanges();
+    if (changes.length > 0) {
+      setReviewChanges(changes);
+      return;
+    }
 
-      const result = await configDomainController.commitConfig();
+    await commitChanges();
+  };
+
+  const commitChanges = async () => {
+    setReviewChanges(null);
+    await runCommit(() => configDomainController.commitConfig());
+  };
+
+  const handleSaveMerged = async () => {
+    if (!conflict) return;
+    const merged = mergeConfigs(conflict, mergeChoices);
+    setConflict(null);
+    await runCommit(() => configDomainController.resolveConflict(merged));
+  };
+
+  const runCommit = async (commit: () => Promise<ConfigCommitResult>) => {
+    setIsSaving(true);
+
+    try {
+      const result = await commit();
 
       if (result.success) {
         showToast(AlertMessages.CONFIG_SAVED, 'success');
         await configDomainController.exitConfigMode();
         setIsInConfigMode(false);
+      } else if (result.conflict) {
+        // Someone else changed the guitar; let the user merge instead of overwriting their work
+        setMergeChoices({});
+        setConflict(result.conflict);
       } else if (result.error) {
         setErrorState(result.error);
         showToast(formatErrorForUser(result.error), 'error');
@@ -875,11 +893,24 @@ const ConfigScreen: React.FC = () => {
   };
 
 
+  const handleRevertToCommitted = async () => {
+    setReviewChanges(null);
+    const result = await configDomainController.revertToCommitted();
+    if (result.success) {
+      showToast('Reverted to the saved configuration', 'info');
+    } else if (result.error) {
+      setErrorState(result.error);
+      showToast(formatErrorForUser(result.error), 'error');
+    }
+  };
+
   const handleBrightnessChange = async (value: number) => {
     if (!connectedDevice) return;
 
     try {
-      const result = await configDomainController.updateBrightness(Math.round(value));
+      // Goes through the live channel so the final value supersedes anything still pending from the drag
+      configDomainController.updateConfigLive({ brightness: Math.round(value) });
+      const result = await configDomainController.flushLiveUpdates();
       if (!result.success && result.error) {
         setErrorEnvelope(result.error);
         setError(formatErrorForUser(result.error));
@@ -906,7 +937,7 @@ const ConfigScreen: React.FC = () => {
   const handleEffectSelect = async (effectId: EffectType) => {
     setEffectType(effectId);
     // Update pattern immediately when effect is selected
-    const arduinoPattern = effectTypeToArduinoPattern(effectId);
+    const arduinoPattern = effectTypeToPattern(effectId);
     await handlePatternChange(arduinoPattern);
   };
 
@@ -932,7 +963,8 @@ const ConfigScreen: React.FC = () => {
     if (!connectedDevice) return;
 
     try {
-      const result = await configDomainController.updateSpeed(Math.round(value));
+      configDomainController.updateConfigLive({ speed: Math.round(value) });
+      const result = await configDomainController.flushLiveUpdates();
       if (!result.success && result.error) {
         setErrorEnvelope(result.error);
         setError(formatErrorForUser(result.error));
@@ -942,6 +974,27 @@ const ConfigScreen: React.FC = () => {
     }
   };
 
+  const handleUndo = useCallback(async () => {
+    if (!configDomainController.getHistoryState().canUndo) return;
+
+    const result = await configDomainController.undo();
+    if (result.success) {
+      showToast('Change undone', 'info');
+    } else if (result.error) {
+      showToast(formatErrorForUser(result.error), 'error');
+    }
+  }, [showToast]);
+
+  const handleRedo = useCallback(async () => {
+    const result = await configDomainController.redo();
+    if (!result.success && result.error) {
+      showToast(formatErrorForUser(result.error), 'error');
+    }
+  }, [showToast]);
+
+  // Shake to undo the last change
+  useShakeGesture(handleUndo, isInConfigMode);
+
   const ColorPicker: React.FC = () => {
     const [showCustomPicker, setShowCustomPicker] = useState(false);
     const [tempColor, setTempColor] = useState<RGBColor>(selectedColor);
@@ -1207,10 +1260,11 @@ const ConfigScreen: React.FC = () => {
           {/* Power Consumption Indicator */}
           {config && (
             (() => {
-              const currentDraw = calculateTotalCurrent(selectedColor, brightness);
-              const percentage = (currentDraw / 400) * 100; // Percentage of safe limit
-              const isHigh = currentDraw > 400 * 0.8; // Above 80% of safe limit
-              const isOverLimit = currentDraw > 400;
+              const currentDraw = calculateTotalCurrent(selectedColor, brightness, capabilities.ledCount);
+              const safeLimit = getSafeCurrentLimit(capabilities);
+              const percentage = (currentDraw / safeLimit) * 100; // Percentage of safe limit
+              const isHigh = currentDraw > safeLimit * 0.8; // Above 80% of safe limit
+              const isOverLimit = currentDraw > safeLimit;
               const isFirstStatusBar = !(DEV_MODE && connectedDevice?.id === MOCK_DEVICE.id) && !connectedDevice;
               
               return (
@@ -1233,7 +1287,7 @@ const ConfigScreen: React.FC = () => {
                     styles.statusText,
                     { color: isOverLimit ? themeColors.error : isHigh ? themeColors.warning : themeColors.success }
                   ]}>
-                    Power: {currentDraw.toFixed(0)}mA / {400}mA ({percentage.toFixed(0)}%)
+                    Power: {currentDraw.toFixed(0)}mA / {safeLimit}mA ({percentage.toFixed(0)}%)
                   </Text>
                 </View>
               );
@@ -1294,6 +1348,22 @@ const ConfigScreen: React.FC = () => {
             </View>
           )}
 
+          {/* Offline Edits */}
+          {offlineEditCount > 0 && (
+            <View style={[styles.section, { marginTop: 8, paddingTop: 0 }]}>
+              <View style={[styles.statusCardBorder, { borderColor: themeColors.border }]}>
+                <BlurView intensity={30} tint={isDark ? "dark" : "light"} style={[styles.statusCard, { backgroundColor: themeColors.card }]}>
+                  <View style={styles.statusRow}>
+                    <Ionicons name="cloud-offline-outline" size={20} color={themeColors.warning} />
+                    <Text style={[styles.statusText, { color: themeColors.text }]}>
+                      {offlineEditCount === 1 ? '1 edit' : `${offlineEditCount} edits`} waiting for the guitar to reconnect
+                    </Text>
+                  </View>
+                </BlurView>
+              </View>
+            </View>
+          )}
+
           {validationError && (
             <View style={[styles.section, { marginTop: 8, paddingTop: 0 }]}>
               <View style={[styles.errorCardBorder, { borderColor: themeColors.warning }]}>
@@ -1330,6 +1400,7 @@ const ConfigScreen: React.FC = () => {
             onUpdateParameter={async (paramId, value) => {
               await handleBrightnessChange(value);
             }}
+            onLiveChange={(value) => configDomainController.updateConfigLive({ brightness: Math.round(value) })}
           />
         </View>
       )}
@@ -1348,6 +1419,7 @@ const ConfigScreen: React.FC = () => {
               onUpdateParameter={async (paramId, value) => {
               await handleSpeedChange(value);
             }}
+              onLiveChange={(value) => configDomainController.updateConfigLive({ speed: Math.round(value) })}
         />
       </View>
 
@@ -1356,7 +1428,7 @@ const ConfigScreen: React.FC = () => {
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: themeColors.text }]}>Effects</Text>
           <View style={styles.effectsGrid}>
-            {effects.map((effect) => (
+            {availableEffects.map((effect) => (
               <TouchableOpacity
                 key={effect.id}
                 activeOpacity={0.7}
@@ -1420,6 +1492,25 @@ const ConfigScreen: React.FC = () => {
 
       {/* Save Button */}
       <View style={styles.saveSection}>
+        <View style={styles.historyRow}>
+          {([
+            { label: 'Undo', icon: 'arrow-undo', onPress: handleUndo, enabled: historyState.canUndo },
+            { label: 'Redo', icon: 'arrow-redo', onPress: handleRedo, enabled: historyState.canRedo },
+          ] as const).map(({ label, icon, onPress, enabled }) => (
+            <TouchableOpacity
+              key={label}
+              activeOpacity={0.7}
+              onPress={onPress}
+              disabled={!enabled || isSaving}
+              style={[styles.historyButton, { borderColor: themeColors.border, opacity: enabled ? 1 : 0.4 }]}
+              accessibilityRole="button"
+              accessibilityLabel={label}
+            >
+              <Ionicons name={icon} size={18} color={themeColors.text} />
+              <Text style={[styles.historyButtonText, { color: themeColors.text }]}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
         <GradientButton
               text={isSaving ? 'Saving...' : 'Save Configuration'}
           onPress={handleSave}
@@ -1432,6 +1523,124 @@ const ConfigScreen: React.FC = () => {
       </View>
         </ScrollView>
       </SafeAreaView>
+
+      {/* Review changes before committing to flash */}
+      <Modal
+        visible={reviewChanges !== null}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setReviewChanges(null)}
+      >
+        <View style={styles.reviewBackdrop}>
+          <View style={[styles.reviewSheet, { backgroundColor: themeColors.card, borderColor: themeColors.border }]}>
+            <Text style={[styles.sectionTitle, { color: themeColors.text }]}>Review Changes</Text>
+            <Text style={[styles.reviewSubtitle, { color: themeColors.textSecondary }]}>
+              Compared with the configuration saved on the guitar
+            </Text>
+            {reviewChanges?.map(change => (
+              <View key={change.setting} style={[styles.reviewRow, { borderColor: themeColors.border }]}>
+                <Text style={[styles.reviewLabel, { color: themeColors.text }]}>{change.label}</Text>
+                <Text
+                  style={[styles.reviewValues, { color: themeColors.textSecondary }]}
+                  accessibilityLabel={formatConfigChange(change)}
+                >
+                  {change.from} → {change.to}
+                </Text>
+              </View>
+            ))}
+            <GradientButton
+              text="Save to Guitar"
+              onPress={commitChanges}
+              colors={['#2F7CFF', 'rgba(0,86,204,0.85)']}
+              glossColors={['rgba(255,255,255,0.28)', 'rgba(255,255,255,0.00)']}
+              iconName="save"
+              style={styles.reviewSaveButton}
+            />
+            <View style={styles.historyRow}>
+              <TouchableOpacity
+                activeOpacity={0.7}
+                onPress={handleRevertToCommitted}
+                style={[styles.historyButton, { borderColor: themeColors.border }]}
+              >
+                <Ionicons name="refresh" size={18} color={themeColors.error} />
+                <Text style={[styles.historyButtonText, { color: themeColors.error }]}>Revert All</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                activeOpacity={0.7}
+                onPress={() => setReviewChanges(null)}
+                style={[styles.historyButton, { borderColor: themeColors.border }]}
+              >
+                <Text style={[styles.historyButtonText, { color: themeColors.text }]}>Keep Editing</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Merge when the guitar's settings changed since they were read */}
+      <Modal
+        visible={conflict !== null}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setConflict(null)}
+      >
+        <View style={styles.reviewBackdrop}>
+          <View style={[styles.reviewSheet, { backgroundColor: themeColors.card, borderColor: themeColors.border }]}>
+            <Text style={[styles.sectionTitle, { color: themeColors.text }]}>Settings Changed on the Guitar</Text>
+            <Text style={[styles.reviewSubtitle, { color: themeColors.textSecondary }]}>
+              Another phone or the guitar itself saved changes since you started. Pick which value to keep.
+            </Text>
+            {mergeRows.map(row => {
+              const side = mergeChoices[row.setting] ?? row.side;
+              return (
+                <View key={row.setting} style={[styles.mergeRow, { borderColor: themeColors.border }]}>
+                  <View style={[styles.reviewRow, { borderBottomWidth: 0 }]}>
+                    <Text style={[styles.reviewLabel, { color: row.conflicting ? themeColors.warning : themeColors.text }]}>
+                      {row.label}
+                    </Text>
+                    <Text style={[styles.reviewValues, { color: themeColors.textSecondary }]}>Was {row.base}</Text>
+                  </View>
+                  <View style={styles.historyRow}>
+                    {(['theirs', 'ours'] as const).map(option => (
+                      <TouchableOpacity
+                        key={option}
+                        activeOpacity={0.7}
+                        onPress={() => setMergeChoices(choices => ({ ...choices, [row.setting]: option }))}
+                        accessibilityState={{ selected: side === option }}
+                        style={[
+                          styles.historyButton,
+                          { borderColor: side === option ? themeColors.primary : themeColors.border },
+                        ]}
+                      >
+                        <Text style={[styles.historyButtonText, { color: side === option ? themeColors.primary : themeColors.text }]}>
+                          {option === 'theirs' ? 'Theirs' : 'Yours'}: {row[option]}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              );
+            })}
+            <GradientButton
+              text="Save Merged"
+              onPress={handleSaveMerged}
+              colors={['#2F7CFF', 'rgba(0,86,204,0.85)']}
+              glossColors={['rgba(255,255,255,0.28)', 'rgba(255,255,255,0.00)']}
+              iconName="git-merge"
+              style={styles.reviewSaveButton}
+            />
+            <View style={styles.historyRow}>
+              <TouchableOpacity
+                activeOpacity={0.7}
+                onPress={() => setConflict(null)}
+                style={[styles.historyButton, { borderColor: themeColors.border }]}
+              >
+                <Text style={[styles.historyButtonText, { color: themeColors.text }]}>Keep Editing</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 };
@@ -1670,6 +1879,66 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     paddingVertical: 24,
   },
+  historyRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 12,
+    marginBottom: 16,
+  },
+  historyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  historyButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  reviewBackdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  reviewSheet: {
+    padding: 24,
+    paddingBottom: 40,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    borderWidth: 1,
+  },
+  reviewSubtitle: {
+    fontSize: 14,
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  reviewRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  reviewLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  reviewValues: {
+    fontSize: 16,
+  },
+  mergeRow: {
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  reviewSaveButton: {
+    marginTop: 24,
+    marginBottom: 16,
+    paddingVertical: 18,
+    borderRadius: 28,
+    overflow: 'hidden',
+  },
   saveButton: {
     position: 'relative',
     paddingVertical: 20,
@@ -12,7 +12,7 @@ import {
 } from 'react-native';
 
 import { BluetoothDevice } from '../types/bluetooth';
-import { bluetoothService } from '../utils/bluetoothService';
+import { getBleTransport } from '../domain/bluetooth/bleTransport';
 import { BlurView } from 'expo-blur';
 import { getUserPairedDevices, isDevicePaired, getDeviceOwner } from '../utils/devicePairing';
 import { Ionicons } from '@expo/vector-icons';
@@ -22,6 +22,8 @@ import { useBluetoothContext as useBluetooth } from '../contexts/BluetoothContex
 import { useTheme } from '../contexts/ThemeContext';
 import { useUser } from '../contexts/UserContext';
 import { PairedDevice } from '../utils/deviceStorage';
+import { isDemoDevice } from '../simulator/simulatedBluetoothService';
+import { isSimulatorDevice } from '../simulator/webSocketBluetoothService';
 
 // Type declaration for web platform window object
 declare const window: { confirm?: (message?: string) => boolean } | undefined;
@@ -71,7 +73,7 @@ const DeviceDiscoveryScreen: React.FC<DeviceDiscoveryScreenProps> = ({ navigatio
     initialize();
     return () => {
       if (Platform.OS !== 'web' && isScanning) {
-        bluetoothService.stopScan();
+        getBleTransport().stopScan();
       }
     };
   }, []);
@@ -357,6 +359,13 @@ const DeviceDiscoveryScreen: React.FC<DeviceDiscoveryScreenProps> = ({ navigatio
             />
             <Text style={[styles.deviceName, { color: colors.text }]}>{item.name}</Text>
             <View style={styles.badgeContainer}>
+              {(isDemoDevice(item.id) || isSimulatorDevice(item.id)) && (
+                <View style={[styles.connectedBadge, { backgroundColor: colors.warning }]}>
+                  <Text style={[styles.connectedText, { color: colors.text }]}>
+                    {isDemoDevice(item.id) ? 'Demo' : 'Simulator'}
+                  </Text>
+                </View>
+              )}
               {item.isConnected && (
                 <View style={[styles.connectedBadge, { backgroundColor: colors.success }]}>
                   <Text style={[styles.connectedText, { color: colors.text }]}>Connected</Text>
@@ -427,10 +436,10 @@ const DeviceDiscoveryScreen: React.FC<DeviceDiscoveryScreenProps> = ({ navigatio
       ) : (
         <View style={[styles.nativeNotice, { backgroundColor: colors.success + '20', borderColor: colors.success }]}>
           <Text style={[styles.nativeNoticeText, { color: colors.success }]}>
-            {bluetoothService.isAvailable() ? '📱 Using Native Bluetooth API' : '⚠️ Expo Go - UI Testing Only'}
+            {getBleTransport().isAvailable() ? '📱 Using Native Bluetooth API' : '⚠️ Expo Go - UI Testing Only'}
           </Text>
           <Text style={[styles.nativeNoticeSubtext, { color: colors.textSecondary }]}>
-            {bluetoothService.isAvailable() 
+            {getBleTransport().isAvailable() 
               ? (isBluetoothInitialized 
                   ? 'Real Bluetooth functionality available'
                   : 'Initializing Bluetooth...')
@@ -476,7 +485,7 @@ const DeviceDiscoveryScreen: React.FC<DeviceDiscoveryScreenProps> = ({ navigatio
           ? (isWebBluetoothSupported ? 'Bluetooth Supported' : 'Bluetooth Not Supported')
           : (isBluetoothInitialized
               ? 'Bluetooth Ready'
-              : (!bluetoothService.isAvailable() ? 'Expo Go - UI Testing Only' : 'Bluetooth Initializing...'));
+              : (!getBleTransport().isAvailable() ? 'Expo Go - UI Testing Only' : 'Bluetooth Initializing...'));
         return (
           <BlurView intensity={25} tint={isDark ? "dark" : "light"} style={[
             styles.platformInfo, 
@@ -555,7 +564,7 @@ const DeviceDiscoveryScreen: React.FC<DeviceDiscoveryScreenProps> = ({ navigatio
           <Text style={[styles.scanButtonText, { color: '#FFFFFF' }]}>
             {isScanning ? 'Scanning...' : 
              (!isBluetoothInitialized && Platform.OS !== 'web') ? 
-               (!bluetoothService.isAvailable() ? 'Test UI (Mock Data)' : 'Bluetooth Not Ready') : 
+               (!getBleTransport().isAvailable() ? 'Test UI (Mock Data)' : 'Bluetooth Not Ready') : 
              'Scan for Devices'}
           </Text>
         </TouchableOpacity>
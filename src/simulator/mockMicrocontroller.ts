@@ -0,0 +1,826 @@
+/**
+ * Mock Microcontroller
+ * Simulates nRF52 firmware behavior without physical hardware, for tests and the app's demo device
+ */
+
+import { CommandType, ResponseType, ParameterId } from '../types/commands';
+import { ErrorCode } from '../types/errors';
+import { CommandCodec, ResponseCodec } from '../domain/bluetooth/protocolMessages';
+import {
+  BatchRejection,
+  CHALLENGE_NONCE_LENGTH,
+  ConfigParameter,
+  MAX_BATCH_ENTRIES,
+  OWNER_SALT_LENGTH,
+  PixelFrameMessage,
+  UpdateBatchMessage,
+} from '../types/protocol';
+import { deriveOwnerKey, signChallenge } from '../domain/bluetooth/ownershipAuth';
+import { decodePixelData, PixelBuffer } from '../domain/bluetooth/pixelFrameEncoder';
+import { HSVColor } from '../types/config';
+import { DeviceCapabilities, DEFAULT_DEVICE_CAPABILITIES } from '../types/capabilities';
+
+export interface MockMicrocontrollerConfig {
+  simulateDelays?: boolean;
+  delayMs?: number;
+  developerUserIds?: string[];
+  testUserIds?: string[];
+  capabilities?: DeviceCapabilities;
+}
+
+interface OwnershipChallenge {
+  salt: number[];
+  nonce: number[];
+}
+
+interface Config {
+  brightness: number;
+  speed: number;
+  color: HSVColor;
+  effectType: number;
+  powerState: boolean;
+}
+
+interface AnalyticsSession {
+  startTime: number;
+  endTime: number;
+  duration: number;
+  turnedOn: boolean;
+  turnedOff: boolean;
+}
+
+interface AnalyticsData {
+  sessionCount: number;
+  sessions: AnalyticsSession[];
+  flashReads: number;
+  flashWrites: number;
+  errorCount: number;
+  lastErrorCode: number;
+  lastErrorTimestamp: number;
+  averagePowerConsumption: number;
+  peakPowerConsumption: number;
+  batchId: number;
+  hasData: boolean;
+}
+
+export interface MockMicrocontrollerState {
+  currentConfig: Config;
+  pendingConfig: Config;
+  inConfigMode: boolean;
+  ownerKey: number[]; // HMAC-SHA256(userId, ownerSalt); empty while unclaimed
+  ownerSalt: number[];
+  hasOwner: boolean;
+  challenge: OwnershipChallenge | null; // Issued and not yet answered
+  sessionOwnershipVerified: boolean;
+  analytics: AnalyticsData;
+  pixels: PixelBuffer | null; // Last streamed frame; null while the pattern runs
+  revision: number; // Bumped by every commit that changes the config, reported on entering config mode
+}
+
+const DEFAULT_CONFIG: Config = {
+  brightness: 50,
+  speed: 30,
+  color: { h: 160, s: 255, v: 255 }, // iOS blue
+  effectType: 0, // SOLID
+  powerState: false,
+};
+
+const DEFAULT_ANALYTICS: AnalyticsData = {
+  sessionCount: 0,
+  sessions: [],
+  flashReads: 0,
+  flashWrites: 0,
+  errorCount: 0,
+  lastErrorCode: 0,
+  lastErrorTimestamp: 0,
+  averagePowerConsumption: 0,
+  peakPowerConsumption: 0,
+  batchId: 1,
+  hasData: false,
+};
+
+/**
+ * Stand-in for the firmware's hardware RNG
+ */
+const randomBytes = (length: number): number[] => Array.from({ length }, () => Math.floor(Math.random() * 256));
+
+/**
+ * Copy a config, including its color (a shallow copy lets pending edits leak into the current config)
+ */
+const cloneConfig = (config: Config): Config => ({ ...config, color: { ...config.color } });
+
+const configsEqual = (a: Config, b: Config): boolean =>
+  a.brightness === b.brightness &&
+  a.speed === b.speed &&
+  a.effectType === b.effectType &&
+  a.powerState === b.powerState &&
+  a.color.h === b.color.h &&
+  a.color.s === b.color.s &&
+  a.color.v === b.color.v;
+const SAFE_CURRENT_MA = 400;
+const LED_COUNT = 14;
+
+export class MockMicrocontroller {
+  private state: MockMicrocontrollerState;
+  private config: MockMicrocontrollerConfig;
+  private errorToInject: ErrorCode | null = null;
+
+  constructor(config: MockMicrocontrollerConfig = {}) {
+    this.config = {
+      simulateDelays: config.simulateDelays ?? false,
+      delayMs: config.delayMs ?? 50,
+      developerUserIds: config.developerUserIds ?? [],
+      testUserIds: config.testUserIds ?? [],
+      capabilities: config.capabilities ?? DEFAULT_DEVICE_CAPABILITIES,
+    };
+
+    this.state = {
+      currentConfig: cloneConfig(DEFAULT_CONFIG),
+      pendingConfig: cloneConfig(DEFAULT_CONFIG),
+      inConfigMode: false,
+      ownerKey: [],
+      ownerSalt: [],
+      hasOwner: false,
+      challenge: null,
+      sessionOwnershipVerified: false,
+      analytics: { ...DEFAULT_ANALYTICS },
+      pixels: null,
+      revision: 0,
+    };
+  }
+
+  /**
+   * Process a BLE command and return the response
+   */
+  async processCommand(command: Uint8Array): Promise<Uint8Array> {
+    if (this.config.simulateDelays) {
+      await this.delay(this.config.delayMs!);
+    }
+
+    // Check for injected error
+    if (this.errorToInject !== null) {
+      const error = this.errorToInject;
+      this.errorToInject = null;
+      return this.createErrorResponse(error);
+    }
+
+    if (command.length === 0) {
+      return this.createErrorResponse(ErrorCode.INVALID_COMMAND);
+    }
+
+    const commandType = command[0];
+
+    switch (commandType) {
+      case CommandType.ENTER_CONFIG:
+        return this.handleEnterConfig();
+      case CommandType.EXIT_CONFIG:
+        return this.handleExitConfig();
+      case CommandType.COMMIT_CONFIG:
+        return this.handleCommitConfig(command);
+      case CommandType.READ_CONFIG:
+        return this.handleReadConfig();
+      case CommandType.UPDATE_PARAM:
+        return this.handleUpdateParameter(command);
+      case CommandType.UPDATE_COLOR:
+        return this.handleUpdateColor(command);
+      case CommandType.UPDATE_BATCH:
+        return this.handleUpdateBatch(command);
+      case CommandType.PIXEL_FRAME:
+        return this.handlePixelFrame(command);
+      case CommandType.REQUEST_ANALYTICS:
+        return this.handleRequestAnalytics();
+      case CommandType.CONFIRM_ANALYTICS:
+        return this.handleConfirmAnalytics(command);
+      case CommandType.CLAIM_DEVICE:
+        return this.handleClaimDevice(command);
+      case CommandType.VERIFY_OWNERSHIP:
+        return this.handleVerifyOwnership(command);
+      case CommandType.UNCLAIM_DEVICE:
+        return this.handleUnclaimDevice(command);
+      case CommandType.GET_CAPABILITIES:
+        return this.handleGetCapabilities();
+      case CommandType.REQUEST_CHALLENGE:
+        return this.handleRequestChallenge();
+      default:
+        return this.createErrorResponse(ErrorCode.INVALID_COMMAND);
+    }
+  }
+
+  /**
+   * Get current state (for test assertions)
+   */
+  getState(): MockMicrocontrollerState {
+    return { ...this.state };
+  }
+
+  /**
+   * Set state (for test setup)
+   */
+  setState(state: Partial<MockMicrocontrollerState>): void {
+    this.state = { ...this.state, ...state };
+  }
+
+  /**
+   * Inject an error for the next command
+   */
+  simulateError(errorCode: ErrorCode): void {
+    this.errorToInject = errorCode;
+  }
+
+  /**
+   * Reset to default state
+   */
+  reset(): void {
+    this.state = {
+      currentConfig: cloneConfig(DEFAULT_CONFIG),
+      pendingConfig: cloneConfig(DEFAULT_CONFIG),
+      inConfigMode: false,
+      ownerKey: [],
+      ownerSalt: [],
+      hasOwner: false,
+      challenge: null,
+      sessionOwnershipVerified: false,
+      analytics: { ...DEFAULT_ANALYTICS },
+      pixels: null,
+      revision: 0,
+    };
+    this.errorToInject = null;
+  }
+
+  /**
+   * Clear session ownership (simulates disconnect/reconnect)
+   */
+  clearSessionOwnership(): void {
+    this.state.sessionOwnershipVerified = false;
+    this.state.challenge = null;
+  }
+
+  /**
+   * Log a completed power session, as the firmware does when a connection ends
+   */
+  recordSession(startedAtMs: number, endedAtMs: number = Date.now()): void {
+    const startTime = Math.floor(startedAtMs / 1000);
+    const endTime = Math.floor(endedAtMs / 1000);
+    const { analytics } = this.state;
+    const sessions = [...analytics.sessions, { startTime, endTime, duration: endTime - startTime, turnedOn: true, turnedOff: true }];
+    this.state.analytics = { ...analytics, sessions, sessionCount: sessions.length, hasData: true };
+  }
+
+  /**
+   * Claim the device for a user directly (for test setup)
+   */
+  setOwner(userId: string): void {
+    const salt = randomBytes(OWNER_SALT_LENGTH);
+    this.state.ownerSalt = salt;
+    this.state.ownerKey = Array.from(deriveOwnerKey(userId, salt));
+    this.state.hasOwner = true;
+  }
+
+  /**
+   * Whether the stored owner key belongs to a user (for test assertions)
+   */
+  isOwnedBy(userId: string): boolean {
+    return this.state.hasOwner && this.keysEqual(this.state.ownerKey, deriveOwnerKey(userId, this.state.ownerSalt));
+  }
+
+  // ========== Command Handlers ==========
+
+  private handleEnterConfig(): Uint8Array {
+    // Check ownership
+    if (this.state.hasOwner && !this.state.sessionOwnershipVerified) {
+      return this.createErrorResponse(ErrorCode.NOT_OWNER);
+    }
+
+    // Like the firmware, entering again is not an error: it reloads the staged settings from flash
+    this.state.inConfigMode = true;
+    this.state.pendingConfig = cloneConfig(this.state.currentConfig);
+    return this.createConfigSnapshotResponse(this.state.currentConfig, this.state.revision);
+  }
+
+  private handleExitConfig(): Uint8Array {
+    // Check ownership
+    if (this.state.hasOwner && !this.state.sessionOwnershipVerified) {
+      return this.createErrorResponse(ErrorCode.NOT_OWNER);
+    }
+
+    // The firmware acknowledges an exit outside config mode too
+    this.state.inConfigMode = false;
+    this.state.pendingConfig = cloneConfig(this.state.currentConfig);
+    return this.createSuccessResponse();
+  }
+
+  private handleReadConfig(): Uint8Array {
+    // Check ownership
+    if (this.state.hasOwner && !this.state.sessionOwnershipVerified) {
+      return this.createErrorResponse(ErrorCode.NOT_OWNER);
+    }
+
+    if (!this.state.inConfigMode) {
+      return this.createErrorResponse(ErrorCode.INVALID_COMMAND); // The firmware's "Not in config mode"
+    }
+
+    return this.createConfigSnapshotResponse(this.state.pendingConfig, this.state.revision);
+  }
+
+  private handleCommitConfig(command: Uint8Array): Uint8Array {
+    // Check ownership
+    if (this.state.hasOwner && !this.state.sessionOwnershipVerified) {
+      return this.createErrorResponse(ErrorCode.NOT_OWNER);
+    }
+
+    if (!this.state.inConfigMode) {
+      return this.createErrorResponse(ErrorCode.INVALID_COMMAND); // The firmware's "Not in config mode"
+    }
+
+    // A bare commit (older apps) skips the revision check
+    if (command.length > 1) {
+      let expectedRevision: number;
+      try {
+        expectedRevision = CommandCodec.decodeCommitConfig(command).expectedRevision;
+      } catch {
+        return this.createErrorResponse(ErrorCode.INVALID_PARAMETER);
+      }
+      if (expectedRevision !== this.state.revision) {
+        return this.createErrorResponse(ErrorCode.STALE_REVISION);
+      }
+    }
+
+    // Validate config
+    const validationError = this.validateConfig(this.state.pendingConfig);
+    if (validationError !== null) {
+      return this.createErrorResponse(validationError);
+    }
+
+    // Like the firmware, an unchanged config is not written and keeps its revision
+    if (configsEqual(this.state.pendingConfig, this.state.currentConfig)) {
+      return this.createSuccessResponse();
+    }
+
+    // Commit; the device stays in config mode, as the firmware does
+    this.state.currentConfig = cloneConfig(this.state.pendingConfig);
+    this.state.revision = (this.state.revision + 1) & 0xffff;
+    this.state.analytics.flashWrites++;
+    return this.createSuccessResponse();
+  }
+
+  private handleUpdateParameter(command: Uint8Array): Uint8Array {
+    // Check ownership
+    if (this.state.hasOwner && !this.state.sessionOwnershipVerified) {
+      return this.createErrorResponse(ErrorCode.NOT_OWNER);
+    }
+
+    if (!this.state.inConfigMode) {
+      return this.createErrorResponse(ErrorCode.INVALID_COMMAND); // The firmware's "Not in config mode"
+    }
+
+    if (command.length < 3) {
+      return this.createErrorResponse(ErrorCode.INVALID_PARAMETER);
+    }
+
+    const parameterId = command[1];
+    const value = command[2];
+
+    switch (parameterId) {
+      case ParameterId.BRIGHTNESS:
+        this.state.pendingConfig.brightness = value;
+        break;
+      case ParameterId.SPEED:
+        this.state.pendingConfig.speed = value;
+        break;
+      case ParameterId.COLOR_HUE:
+        this.state.pendingConfig.color.h = value;
+        break;
+      case ParameterId.COLOR_SATURATION:
+        this.state.pendingConfig.color.s = value;
+        break;
+      case ParameterId.COLOR_VALUE:
+        this.state.pendingConfig.color.v = value;
+        break;
+      case ParameterId.EFFECT_TYPE:
+        this.state.pendingConfig.effectType = value;
+        break;
+      case ParameterId.POWER_STATE:
+        this.state.pendingConfig.powerState = value > 0;
+        break;
+      default:
+        return this.createErrorResponse(ErrorCode.INVALID_PARAMETER);
+    }
+
+    return this.createSuccessResponse();
+  }
+
+  private handleUpdateColor(command: Uint8Array): Uint8Array {
+    // Check ownership
+    if (this.state.hasOwner && !this.state.sessionOwnershipVerified) {
+      return this.createErrorResponse(ErrorCode.NOT_OWNER);
+    }
+
+    if (!this.state.inConfigMode) {
+      return this.createErrorResponse(ErrorCode.INVALID_COMMAND); // The firmware's "Not in config mode"
+    }
+
+    if (command.length < 4) {
+      return this.createErrorResponse(ErrorCode.INVALID_PARAMETER);
+    }
+
+    this.state.pendingConfig.color = {
+      h: command[1],
+      s: command[2],
+      v: command[3],
+    };
+
+    return this.createSuccessResponse();
+  }
+
+  /**
+   * Validate every entry first; apply all of them or none (like the firmware)
+   * POWER_MODE is validated but not modeled
+   */
+  private handleUpdateBatch(command: Uint8Array): Uint8Array {
+    // Check ownership
+    if (this.state.hasOwner && !this.state.sessionOwnershipVerified) {
+      return this.createErrorResponse(ErrorCode.NOT_OWNER);
+    }
+
+    if (!this.state.inConfigMode) {
+      return this.createErrorResponse(ErrorCode.INVALID_COMMAND); // The firmware's "Not in config mode"
+    }
+
+    let batch: UpdateBatchMessage;
+    try {
+      batch = CommandCodec.decodeUpdateBatch(command);
+    } catch {
+      return this.createErrorResponse(ErrorCode.INVALID_PARAMETER);
+    }
+    if (batch.entryCount < 1 || batch.entryCount > MAX_BATCH_ENTRIES) {
+      return this.createErrorResponse(ErrorCode.INVALID_PARAMETER);
+    }
+
+    const seen = new Set<number>();
+    const rejected: BatchRejection[] = [];
+    batch.entries.forEach((entry, index) => {
+      let code: ErrorCode | null = null;
+      switch (entry.parameter) {
+        case ConfigParameter.BRIGHTNESS:
+        case ConfigParameter.COLOR:
+          break;
+        case ConfigParameter.PATTERN:
+          code = this.config.capabilities!.supportedEffects.includes(entry.value1) ? null : ErrorCode.OUT_OF_RANGE;
+          break;
+        case ConfigParameter.POWER_MODE:
+          code = entry.value1 <= 2 ? null : ErrorCode.OUT_OF_RANGE;
+          break;
+        case ConfigParameter.SPEED:
+          code = entry.value1 <= 100 ? null : ErrorCode.OUT_OF_RANGE;
+          break;
+        default:
+          code = ErrorCode.INVALID_PARAMETER;
+      }
+      if (code === null && seen.has(entry.parameter)) {
+        code = ErrorCode.INVALID_PARAMETER;
+      }
+      seen.add(entry.parameter);
+      if (code !== null) {
+        rejected.push({ index, parameter: entry.parameter, code });
+      }
+    });
+
+    if (rejected.length > 0) {
+      return ResponseCodec.encodeBatchRejected({ rejectedCount: rejected.length, rejected });
+    }
+
+    batch.entries.forEach(entry => {
+      switch (entry.parameter) {
+        case ConfigParameter.BRIGHTNESS:
+          this.state.pendingConfig.brightness = entry.value1;
+          break;
+        case ConfigParameter.PATTERN:
+          this.state.pendingConfig.effectType = entry.value1;
+          break;
+        case ConfigParameter.COLOR:
+          this.state.pendingConfig.color = this.rgbToHsv(entry.value1, entry.value2, entry.value3);
+          break;
+        case ConfigParameter.SPEED:
+          this.state.pendingConfig.speed = entry.value1;
+          break;
+      }
+    });
+
+    return this.createSuccessResponse();
+  }
+
+  private handlePixelFrame(command: Uint8Array): Uint8Array {
+    // Check ownership
+    if (this.state.hasOwner && !this.state.sessionOwnershipVerified) {
+      return this.createErrorResponse(ErrorCode.NOT_OWNER);
+    }
+
+    let frame: PixelFrameMessage;
+    try {
+      frame = CommandCodec.decodePixelFrame(command);
+    } catch {
+      return this.createErrorResponse(ErrorCode.INVALID_PARAMETER);
+    }
+    if (frame.pixelCount !== this.config.capabilities!.ledCount) {
+      return this.createErrorResponse(ErrorCode.OUT_OF_RANGE);
+    }
+
+    try {
+      this.state.pixels = decodePixelData(frame.encoding, frame.pixelCount, frame.data, this.state.pixels ?? undefined);
+    } catch {
+      return this.createErrorResponse(ErrorCode.INVALID_PARAMETER);
+    }
+    return this.createSuccessResponse();
+  }
+
+  private handleRequestAnalytics(): Uint8Array {
+    // Check ownership
+    if (this.state.hasOwner && !this.state.sessionOwnershipVerified) {
+      return this.createErrorResponse(ErrorCode.NOT_OWNER);
+    }
+
+    if (!this.state.analytics.hasData) {
+      // No analytics data to send
+      return this.createSuccessResponse();
+    }
+
+    // Create analytics batch response (layout from protocol/spec.json)
+    const { analytics } = this.state;
+    const batch = ResponseCodec.encodeAnalyticsBatch({
+      batchId: analytics.batchId,
+      sessionCount: analytics.sessionCount,
+      flashReads: analytics.flashReads,
+      flashWrites: analytics.flashWrites,
+      errorCount: analytics.errorCount,
+      averagePower: analytics.averagePowerConsumption,
+      peakPower: analytics.peakPowerConsumption,
+      lastErrorCode: analytics.lastErrorCode,
+      lastErrorTimestamp: analytics.lastErrorTimestamp,
+      sessions: analytics.sessions.slice(0, analytics.sessionCount).map(session => ({
+        startTime: session.startTime,
+        endTime: session.endTime,
+        duration: session.duration,
+        flags: (session.turnedOn ? 1 : 0) | (session.turnedOff ? 2 : 0),
+      })),
+    });
+
+    this.state.analytics.flashReads++;
+    return batch;
+  }
+
+  private handleConfirmAnalytics(command: Uint8Array): Uint8Array {
+    // Check ownership
+    if (this.state.hasOwner && !this.state.sessionOwnershipVerified) {
+      return this.createErrorResponse(ErrorCode.NOT_OWNER);
+    }
+
+    if (command.length < 2) {
+      return this.createErrorResponse(ErrorCode.INVALID_PARAMETER);
+    }
+
+    const batchId = command[1];
+    if (batchId !== this.state.analytics.batchId) {
+      return this.createErrorResponse(ErrorCode.INVALID_PARAMETER);
+    }
+
+    // Clear analytics data
+    this.state.analytics = { ...DEFAULT_ANALYTICS, batchId: batchId + 1 };
+    this.state.analytics.flashWrites++;
+    return this.createSuccessResponse();
+  }
+
+  private handleRequestChallenge(): Uint8Array {
+    // An unclaimed device offers a fresh salt for the next claim
+    const salt = this.state.hasOwner ? this.state.ownerSalt : randomBytes(OWNER_SALT_LENGTH);
+    this.state.challenge = { salt, nonce: randomBytes(CHALLENGE_NONCE_LENGTH) };
+
+    return ResponseCodec.encodeChallenge({
+      claimed: this.state.hasOwner ? 1 : 0,
+      salt,
+      nonce: this.state.challenge.nonce,
+    });
+  }
+
+  private handleClaimDevice(command: Uint8Array): Uint8Array {
+    let ownerKey: number[];
+    try {
+      ownerKey = CommandCodec.decodeClaimDevice(command).ownerKey;
+    } catch {
+      return this.createErrorResponse(ErrorCode.INVALID_PARAMETER);
+    }
+
+    // The key is derived from the challenge salt, so a challenge must come first
+    const challenge = this.state.challenge;
+    if (!challenge) {
+      return this.createErrorResponse(ErrorCode.INVALID_PARAMETER);
+    }
+
+    // Only a verified session (the owner or a developer/test user) can reclaim
+    if (this.state.hasOwner && !this.state.sessionOwnershipVerified) {
+      return this.createErrorResponse(ErrorCode.ALREADY_CLAIMED);
+    }
+
+    this.state.challenge = null;
+    this.state.ownerKey = ownerKey;
+    this.state.ownerSalt = challenge.salt;
+    this.state.hasOwner = true;
+    this.state.analytics.flashWrites++;
+    return this.createSuccessResponse();
+  }
+
+  private handleVerifyOwnership(command: Uint8Array): Uint8Array {
+    let proof: number[];
+    try {
+      proof = CommandCodec.decodeVerifyOwnership(command).proof;
+    } catch {
+      return this.createErrorResponse(ErrorCode.INVALID_PARAMETER);
+    }
+
+    // If no owner, allow anyone
+    if (!this.state.hasOwner) {
+      this.state.sessionOwnershipVerified = true;
+      return this.createSuccessResponse();
+    }
+
+    if (!this.checkProof(proof, CommandType.VERIFY_OWNERSHIP)) {
+      return this.createErrorResponse(ErrorCode.NOT_OWNER);
+    }
+
+    this.state.sessionOwnershipVerified = true;
+    return this.createSuccessResponse();
+  }
+
+  private handleUnclaimDevice(command: Uint8Array): Uint8Array {
+    let proof: number[];
+    try {
+      proof = CommandCodec.decodeUnclaimDevice(command).proof;
+    } catch {
+      return this.createErrorResponse(ErrorCode.INVALID_PARAMETER);
+    }
+
+    // Only owner or developer/test users can unclaim
+    if (!this.state.hasOwner || !this.checkProof(proof, CommandType.UNCLAIM_DEVICE)) {
+      return this.createErrorResponse(ErrorCode.NOT_OWNER);
+    }
+
+    // Unclaim
+    this.state.ownerKey = [];
+    this.state.ownerSalt = [];
+    this.state.hasOwner = false;
+    this.state.sessionOwnershipVerified = false;
+    this.state.analytics.flashWrites++;
+    return this.createSuccessResponse();
+  }
+
+  /**
+   * Check an answer to the current challenge against the owner key and every developer/test key
+   * The nonce is used up by the attempt, right or wrong, so a recorded answer cannot be replayed
+   */
+  private checkProof(proof: number[], opcode: CommandType): boolean {
+    const challenge = this.state.challenge;
+    this.state.challenge = null;
+    if (!challenge) {
+      return false;
+    }
+
+    const developerKeys = [...(this.config.developerUserIds ?? []), ...(this.config.testUserIds ?? [])]
+      .map(userId => deriveOwnerKey(userId, this.state.ownerSalt));
+    return [this.state.ownerKey, ...developerKeys].some(key =>
+      this.keysEqual(proof, signChallenge(key, challenge.nonce, opcode)));
+  }
+
+  private keysEqual(a: ArrayLike<number>, b: ArrayLike<number>): boolean {
+    return a.length === b.length && Array.from(a).every((byte, i) => byte === b[i]);
+  }
+
+  // ========== Helper Methods ==========
+
+  private handleGetCapabilities(): Uint8Array {
+    const capabilities = this.config.capabilities!;
+    const [major, minor, patch] = capabilities.firmwareVersion.split('.').map(n => parseInt(n, 10) || 0);
+    const uint16 = (value: number) => [(value >> 8) & 0xff, value & 0xff];
+
+    return new Uint8Array([
+      ResponseType.CAPABILITIES,
+      capabilities.protocolVersion,
+      major ?? 0,
+      minor ?? 0,
+      patch ?? 0,
+      ...uint16(capabilities.ledCount),
+      ...uint16(capabilities.maxMilliamps),
+      ...uint16(capabilities.batteryCapacityMah),
+      capabilities.supportedEffects.length,
+      ...capabilities.supportedEffects,
+      capabilities.supportedParameters.length,
+      ...capabilities.supportedParameters,
+    ]);
+  }
+
+  private validateConfig(config: Config): ErrorCode | null {
+    // Validate power consumption
+    const currentDraw = this.estimateCurrentDraw(config);
+    if (currentDraw > SAFE_CURRENT_MA) {
+      return ErrorCode.VALIDATION_FAILED;
+    }
+    return null;
+  }
+
+  private estimateCurrentDraw(config: Config): number {
+    if (!config.powerState) {
+      return 0;
+    }
+
+    // Convert HSV to RGB for power estimation
+    const rgb = this.hsvToRgb(config.color);
+    const maxComponent = Math.max(rgb.r, rgb.g, rgb.b);
+    const brightness = config.brightness / 255;
+    const perLedCurrent = (maxComponent / 255) * brightness * 60; // 60mA max per LED
+    return perLedCurrent * LED_COUNT;
+  }
+
+  private hsvToRgb(hsv: HSVColor): { r: number; g: number; b: number } {
+    const h = hsv.h / 255;
+    const s = hsv.s / 255;
+    const v = hsv.v / 255;
+
+    const i = Math.floor(h * 6);
+    const f = h * 6 - i;
+    const p = v * (1 - s);
+    const q = v * (1 - f * s);
+    const t = v * (1 - (1 - f) * s);
+
+    let r, g, b;
+    switch (i % 6) {
+      case 0: r = v; g = t; b = p; break;
+      case 1: r = q; g = v; b = p; break;
+      case 2: r = p; g = v; b = t; break;
+      case 3: r = p; g = q; b = v; break;
+      case 4: r = t; g = p; b = v; break;
+      case 5: r = v; g = p; b = q; break;
+      default: r = 0; g = 0; b = 0;
+    }
+
+    return {
+      r: Math.round(r * 255),
+      g: Math.round(g * 255),
+      b: Math.round(b * 255),
+    };
+  }
+
+  private rgbToHsv(r: number, g: number, b: number): HSVColor {
+    const max = Math.max(r, g, b);
+    const delta = max - Math.min(r, g, b);
+
+    let h = 0;
+    if (delta > 0) {
+      if (max === r) {
+        h = ((g - b) / delta + 6) % 6;
+      } else if (max === g) {
+        h = (b - r) / delta + 2;
+      } else {
+        h = (r - g) / delta + 4;
+      }
+    }
+
+    return {
+      h: Math.round((h / 6) * 255) % 256,
+      s: max === 0 ? 0 : Math.round((delta / max) * 255),
+      v: max,
+    };
+  }
+
+  private createSuccessResponse(): Uint8Array {
+    return new Uint8Array([ResponseType.ACK_SUCCESS]);
+  }
+
+  /**
+   * Config snapshot, as the firmware sends it on entering config mode (stored settings) and for READ_CONFIG (staged ones)
+   */
+  private createConfigSnapshotResponse(config: Config, revision: number): Uint8Array {
+    const rgb = this.hsvToRgb(config.color);
+    return ResponseCodec.encodeAckConfigMode({
+      brightness: config.brightness,
+      speed: config.speed,
+      red: rgb.r,
+      green: rgb.g,
+      blue: rgb.b,
+      effectType: config.effectType,
+      powerState: config.powerState ? 1 : 0,
+      revision,
+    });
+  }
+
+  private createErrorResponse(errorCode: ErrorCode): Uint8Array {
+    this.state.analytics.errorCount++;
+    this.state.analytics.lastErrorCode = errorCode;
+    this.state.analytics.lastErrorTimestamp = Math.floor(Date.now() / 1000);
+    return new Uint8Array([ResponseType.ACK_ERROR, errorCode]);
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+
+
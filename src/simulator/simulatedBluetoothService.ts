@@ -0,0 +1,241 @@
+/**
+ * Simulated Bluetooth Service
+ * A demo guitar behind the BleTransport interface, backed by MockMicrocontroller.
+ *
+ * It shows up in scan results next to real devices. Connecting to it makes it the active
+ * transport, so config mode, commits, ownership and analytics run through the same domain
+ * code as real hardware. The simulated firmware keeps its state until the app restarts.
+ */
+
+import { BluetoothDevice } from '../types/bluetooth';
+import { AnalyticsBatch, CommandResponse, ResponseType } from '../types/commands';
+import { BLEError } from '../types/errors';
+import { BleTransport, SendCommandOptions } from '../domain/bluetooth/bleTransport';
+import { ProtocolCodec, DecodedResponse } from '../domain/bluetooth/protocolCodec';
+import { REQUESTED_ATT_MTU } from '../domain/bluetooth/fragmentation';
+import { configurationModule } from '../domain/bluetooth/configurationModule';
+import { BLECommandEncoder } from '../utils/bleCommandEncoder';
+import { LED_GUITAR_SERVICE_UUID } from '../utils/bleConstants';
+import { MockMicrocontroller } from './mockMicrocontroller';
+
+export const DEMO_DEVICE_ID = 'demo-led-guitar';
+
+export const DEMO_DEVICE: BluetoothDevice = {
+  id: DEMO_DEVICE_ID,
+  name: 'Demo LED Guitar',
+  rssi: -42,
+  isConnected: false,
+  manufacturerData: 'Simulated',
+  serviceUUIDs: [LED_GUITAR_SERVICE_UUID], // Advertised like the firmware, so the guitar filter keeps it
+  localName: 'Demo LED Guitar',
+};
+
+const DEMO_LATENCY_MS = 40; // Roughly one BLE connection interval round trip
+
+/**
+ * Whether a device is the built-in demo guitar
+ */
+export const isDemoDevice = (deviceId: string | undefined | null): boolean => deviceId === DEMO_DEVICE_ID;
+
+class SimulatedBluetoothService implements BleTransport {
+  private device: MockMicrocontroller = new MockMicrocontroller({ simulateDelays: true, delayMs: DEMO_LATENCY_MS });
+  private connected: boolean = false;
+  private sessionStartedAt: number = 0;
+  private disconnectionListeners: Map<string, (deviceId: string) => void> = new Map();
+  private notificationListeners: Set<(response: DecodedResponse) => void> = new Set();
+
+  constructor() {
+    this.seedAnalytics();
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async initialize(): Promise<boolean> {
+    return true;
+  }
+
+  async requestPermissions(): Promise<boolean> {
+    return true;
+  }
+
+  async startScan(onDeviceFound: (device: BluetoothDevice) => void): Promise<void> {
+    onDeviceFound({ ...DEMO_DEVICE, rssi: this.sampleRssi() });
+  }
+
+  async stopScan(): Promise<void> {
+    // Nothing to stop: the demo guitar is reported once per scan
+  }
+
+  async connectToDevice(deviceId: string): Promise<void> {
+    this.assertDemoDevice(deviceId);
+    // Like the firmware, a new connection starts unverified and outside config mode
+    this.device.clearSessionOwnership();
+    this.device.setState({ inConfigMode: false });
+    this.connected = true;
+    this.sessionStartedAt = Date.now();
+    console.log('[Demo] Connected to simulated guitar');
+  }
+
+  async disconnectDevice(deviceId: string): Promise<void> {
+    if (!isDemoDevice(deviceId) || !this.connected) {
+      return;
+    }
+    this.connected = false;
+    this.device.clearSessionOwnership();
+    this.device.setState({ inConfigMode: false });
+    this.device.recordSession(this.sessionStartedAt);
+    console.log('[Demo] Disconnected from simulated guitar');
+  }
+
+  async isDeviceConnected(deviceId: string): Promise<boolean> {
+    return isDemoDevice(deviceId) && this.connected;
+  }
+
+  onDisconnection(deviceId: string, callback: (deviceId: string) => void): void {
+    this.disconnectionListeners.set(deviceId, callback);
+  }
+
+  removeDisconnectionListener(deviceId: string): void {
+    this.disconnectionListeners.delete(deviceId);
+  }
+
+  async sendCommand(
+    deviceId: string,
+    command: Uint8Array,
+    _timeout: number = 5000,
+    options: SendCommandOptions = {}
+  ): Promise<CommandResponse> {
+    if (options.signal?.aborted) {
+      throw new Error('Command cancelled');
+    }
+    const response = await this.exchange(deviceId, command);
+    return ProtocolCodec.toCommandResponse(response);
+  }
+
+  async sendUnacknowledged(deviceId: string, command: Uint8Array): Promise<void> {
+    await this.exchange(deviceId, command);
+  }
+
+  /**
+   * The simulated firmware only speaks the binary protocol
+   */
+  async sendMessage(deviceId: string, _message: string): Promise<string | null> {
+    this.assertConnected(deviceId);
+    return null;
+  }
+
+  subscribeToNotifications(_deviceId: string, listener: (response: DecodedResponse) => void): () => void {
+    this.notificationListeners.add(listener);
+    return () => {
+      this.notificationListeners.delete(listener);
+    };
+  }
+
+  cancelPendingCommands(_deviceId: string, _reason?: Error): void {
+    // Commands are answered in order as soon as the simulated firmware handles them
+  }
+
+  getMtu(_deviceId: string): number {
+    return REQUESTED_ATT_MTU;
+  }
+
+  async readRssi(deviceId: string): Promise<number | null> {
+    this.assertConnected(deviceId);
+    return this.sampleRssi();
+  }
+
+  async requestAnalytics(deviceId: string): Promise<AnalyticsBatch> {
+    const response = await this.exchange(deviceId, BLECommandEncoder.encodeRequestAnalytics());
+    if (ProtocolCodec.isErrorEnvelope(response)) {
+      throw new BLEError(response);
+    }
+    if (!ProtocolCodec.isAnalyticsBatch(response)) {
+      throw new Error('No analytics available');
+    }
+    return response;
+  }
+
+  async confirmAnalytics(deviceId: string, batchId: number): Promise<CommandResponse> {
+    return this.sendCommand(deviceId, BLECommandEncoder.encodeConfirmAnalytics(batchId));
+  }
+
+  /**
+   * Drop the connection as if the guitar went out of range (for demos of reconnect handling)
+   */
+  simulateConnectionLoss(): void {
+    if (!this.connected) {
+      return;
+    }
+    this.connected = false;
+    this.device.clearSessionOwnership();
+    this.device.recordSession(this.sessionStartedAt);
+    this.disconnectionListeners.get(DEMO_DEVICE_ID)?.(DEMO_DEVICE_ID);
+  }
+
+  /**
+   * Factory-reset the simulated guitar (unclaimed, default config, one analytics session)
+   */
+  reset(): void {
+    this.device.reset();
+    this.seedAnalytics();
+  }
+
+  /**
+   * Hand one command to the simulated firmware and notify listeners of its answer
+   */
+  private async exchange(deviceId: string, command: Uint8Array): Promise<DecodedResponse> {
+    this.assertConnected(deviceId);
+    const response = ProtocolCodec.decodeResponse(await this.device.processCommand(command));
+    if (!this.connected) {
+      throw new Error('Device disconnected');
+    }
+
+    this.notificationListeners.forEach(listener => {
+      try {
+        listener(response);
+      } catch (error) {
+        console.error('[Demo] Notification listener failed:', error);
+      }
+    });
+
+    // Config snapshots go to ConfigurationModule, as the real services do
+    if (!ProtocolCodec.isErrorEnvelope(response) && !ProtocolCodec.isAnalyticsBatch(response) &&
+        response.type === ResponseType.ACK_CONFIG_MODE) {
+      configurationModule.handleResponse(response);
+    }
+    return response;
+  }
+
+  private assertDemoDevice(deviceId: string): void {
+    if (!isDemoDevice(deviceId)) {
+      throw new Error(`Unknown demo device: ${deviceId}`);
+    }
+  }
+
+  private assertConnected(deviceId: string): void {
+    this.assertDemoDevice(deviceId);
+    if (!this.connected) {
+      throw new Error('Device not connected');
+    }
+  }
+
+  /**
+   * Give a fresh demo guitar one past session so analytics has something to show
+   */
+  private seedAnalytics(): void {
+    const endedAt = Date.now() - 60 * 60 * 1000;
+    this.device.recordSession(endedAt - 45 * 60 * 1000, endedAt);
+    const { analytics } = this.device.getState();
+    this.device.setState({
+      analytics: { ...analytics, averagePowerConsumption: 180, peakPowerConsumption: 320 },
+    });
+  }
+
+  private sampleRssi(): number {
+    return DEMO_DEVICE.rssi - Math.round(Math.random() * 8);
+  }
+}
+
+export const simulatedBluetoothService = new SimulatedBluetoothService();
@@ -0,0 +1,82 @@
+/**
+ * Simulator Link
+ * The firmware's side of the wire for a MockMicrocontroller: reassembles incoming fragments,
+ * unwraps v2 frames, runs each command and sends the reply back in fragments with the
+ * request's sequence ID. Requests sent with UNSOLICITED_SEQUENCE_ID get no reply, like the firmware.
+ *
+ * Transport agnostic: the WebSocket simulator server feeds it one fragment per message.
+ */
+
+import { Fragmenter, Reassembler, REQUESTED_ATT_MTU } from '../domain/bluetooth/fragmentation';
+import { ProtocolCodec, UNSOLICITED_SEQUENCE_ID } from '../domain/bluetooth/protocolCodec';
+import { MockMicrocontroller } from './mockMicrocontroller';
+
+export class SimulatorLink {
+  private fragmenter: Fragmenter = new Fragmenter(REQUESTED_ATT_MTU);
+  private reassembler: Reassembler = new Reassembler();
+  private connectedAt: number | null = null;
+  private queue: Promise<void> = Promise.resolve(); // The firmware handles one command at a time
+
+  constructor(
+    private readonly device: MockMicrocontroller,
+    private readonly sendPacket: (packet: Uint8Array) => void
+  ) {}
+
+  /**
+   * A central connected: like the firmware, start unverified and outside config mode
+   */
+  connect(): void {
+    this.device.clearSessionOwnership();
+    this.device.setState({ inConfigMode: false });
+    this.reassembler.reset();
+    this.connectedAt = Date.now();
+  }
+
+  /**
+   * The central went away: drop partial messages and log the session
+   */
+  disconnect(): void {
+    if (this.connectedAt === null) {
+      return;
+    }
+    this.device.clearSessionOwnership();
+    this.device.setState({ inConfigMode: false });
+    this.reassembler.reset();
+    this.device.recordSession(this.connectedAt);
+    this.connectedAt = null;
+  }
+
+  /**
+   * Handle one received fragment; resolves once every command it completed has been answered
+   */
+  receive(packet: Uint8Array): Promise<void> {
+    const frames = this.reassembler.push(packet);
+    const handled = this.queue.then(async () => {
+      for (const frameBytes of frames) {
+        await this.handleFrame(frameBytes);
+      }
+    });
+    this.queue = handled.catch(() => {});
+    return handled;
+  }
+
+  private async handleFrame(frameBytes: Uint8Array): Promise<void> {
+    let frame;
+    try {
+      frame = ProtocolCodec.decodeFrame(frameBytes);
+    } catch (error) {
+      // The firmware drops frames that fail validation; the app's request times out
+      console.warn('[Simulator] Dropping invalid frame:', (error as Error).message);
+      return;
+    }
+
+    const response = await this.device.processCommand(frame.payload);
+    if (frame.sequenceId === UNSOLICITED_SEQUENCE_ID || this.connectedAt === null) {
+      return;
+    }
+
+    for (const fragment of this.fragmenter.fragment(ProtocolCodec.encodeFrame(response, frame.sequenceId))) {
+      this.sendPacket(fragment);
+    }
+  }
+}
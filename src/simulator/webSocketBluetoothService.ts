@@ -0,0 +1,344 @@
+/**
+ * WebSocket Bluetooth Service
+ * Talks to the firmware simulator (`npm run simulator`) over a WebSocket instead of BLE.
+ *
+ * Each WebSocket message carries one fragment, exactly as one BLE write or notification would,
+ * so frames, fragmentation and sequence IDs are the same bytes the Feather sees. Web development
+ * then needs neither hardware nor Web Bluetooth.
+ */
+
+import { BluetoothDevice } from '../types/bluetooth';
+import { AnalyticsBatch, CommandResponse, ResponseType } from '../types/commands';
+import { BLEError, ErrorCode, ErrorEnvelope } from '../types/errors';
+import { BleTransport, SendCommandOptions } from '../domain/bluetooth/bleTransport';
+import { configurationModule } from '../domain/bluetooth/configurationModule';
+import { Fragmenter, Reassembler, REQUESTED_ATT_MTU } from '../domain/bluetooth/fragmentation';
+import { PendingRequestTable } from '../domain/bluetooth/pendingRequestTable';
+import { ProtocolCodec, DecodedFrame, DecodedResponse, UNSOLICITED_SEQUENCE_ID } from '../domain/bluetooth/protocolCodec';
+import { trafficRecorder } from '../domain/bluetooth/trafficRecorder';
+import { BLECommandEncoder } from '../utils/bleCommandEncoder';
+import { LED_GUITAR_SERVICE_UUID } from '../utils/bleConstants';
+
+export const SIMULATOR_DEVICE_ID = 'ws-simulator';
+export const DEFAULT_SIMULATOR_URL = 'ws://localhost:8765';
+
+const PROBE_TIMEOUT_MS = 1500;
+const SOCKET_OPEN = 1; // WebSocket.OPEN
+
+/**
+ * Whether a device is the WebSocket firmware simulator
+ */
+export const isSimulatorDevice = (deviceId: string | undefined | null): boolean => deviceId === SIMULATOR_DEVICE_ID;
+
+/**
+ * The parts of the WebSocket API this service uses (browser, React Native and `ws` all provide them)
+ */
+export interface SimulatorSocket {
+  binaryType: string;
+  readyState: number;
+  onopen: ((event: any) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+  send(data: Uint8Array): void;
+  close(): void;
+}
+
+export type SimulatorSocketFactory = (url: string) => SimulatorSocket;
+
+const defaultSocketFactory: SimulatorSocketFactory = (url) => new WebSocket(url) as unknown as SimulatorSocket;
+
+export class WebSocketBluetoothService implements BleTransport {
+  private socket: SimulatorSocket | null = null;
+  private pendingRequests: PendingRequestTable = new PendingRequestTable();
+  private fragmenter: Fragmenter = new Fragmenter(REQUESTED_ATT_MTU);
+  private reassembler: Reassembler = new Reassembler({
+    onIncomplete: (error, firstChunk) => {
+      const sequenceId = firstChunk ? ProtocolCodec.peekSequenceId(firstChunk) : null;
+      if (sequenceId !== null && sequenceId !== UNSOLICITED_SEQUENCE_ID) {
+        this.pendingRequests.reject(sequenceId, error);
+      }
+    },
+  });
+  private disconnectionListeners: Map<string, (deviceId: string) => void> = new Map();
+  private notificationListeners: Set<(response: DecodedResponse) => void> = new Set();
+
+  constructor(
+    private readonly url: string = process.env.EXPO_PUBLIC_SIMULATOR_URL || DEFAULT_SIMULATOR_URL,
+    private readonly createSocket: SimulatorSocketFactory = defaultSocketFactory
+  ) {}
+
+  isAvailable(): boolean {
+    return typeof WebSocket !== 'undefined';
+  }
+
+  async initialize(): Promise<boolean> {
+    return this.isAvailable();
+  }
+
+  async requestPermissions(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Report the simulator if its server answers
+   */
+  async startScan(onDeviceFound: (device: BluetoothDevice) => void): Promise<void> {
+    try {
+      const probe = await this.open();
+      probe.onclose = null;
+      probe.close();
+    } catch {
+      return; // No simulator running
+    }
+
+    onDeviceFound({
+      id: SIMULATOR_DEVICE_ID,
+      name: 'Firmware Simulator',
+      rssi: 0,
+      isConnected: false,
+      manufacturerData: this.url,
+      serviceUUIDs: [LED_GUITAR_SERVICE_UUID],
+      localName: 'Firmware Simulator',
+    });
+  }
+
+  async stopScan(): Promise<void> {
+    // The probe in startScan closes itself
+  }
+
+  async connectToDevice(deviceId: string): Promise<void> {
+    this.assertSimulatorDevice(deviceId);
+    if (this.socket) {
+      return;
+    }
+
+    const socket = await this.open();
+    socket.onmessage = (event) => this.handlePacket(new Uint8Array(event.data));
+    socket.onclose = () => this.handleDisconnection(socket);
+    this.socket = socket;
+    console.log('[Simulator] Connected to', this.url);
+  }
+
+  async disconnectDevice(deviceId: string): Promise<void> {
+    if (!isSimulatorDevice(deviceId) || !this.socket) {
+      return;
+    }
+    const socket = this.socket;
+    socket.onclose = null;
+    this.socket = null;
+    socket.close();
+    this.cancelPendingCommands(deviceId, new Error('Device disconnected'));
+    this.reassembler.reset();
+    console.log('[Simulator] Disconnected');
+  }
+
+  async isDeviceConnected(deviceId: string): Promise<boolean> {
+    return isSimulatorDevice(deviceId) && this.socket?.readyState === SOCKET_OPEN;
+  }
+
+  onDisconnection(deviceId: string, callback: (deviceId: string) => void): void {
+    this.disconnectionListeners.set(deviceId, callback);
+  }
+
+  removeDisconnectionListener(deviceId: string): void {
+    this.disconnectionListeners.delete(deviceId);
+  }
+
+  /**
+   * Send a command in a v2 frame and wait for the response matching its sequence ID
+   */
+  async sendCommand(
+    deviceId: string,
+    command: Uint8Array,
+    timeout: number = 5000,
+    options: SendCommandOptions = {}
+  ): Promise<CommandResponse> {
+    return ProtocolCodec.toCommandResponse(await this.request(deviceId, command, timeout, options));
+  }
+
+  /**
+   * Send a command with no reply (the simulator, like the firmware, does not answer UNSOLICITED_SEQUENCE_ID)
+   */
+  async sendUnacknowledged(deviceId: string, command: Uint8Array): Promise<void> {
+    this.writeFrame(deviceId, ProtocolCodec.encodeFrame(command, UNSOLICITED_SEQUENCE_ID));
+  }
+
+  /**
+   * The simulator only speaks the binary protocol
+   */
+  async sendMessage(_deviceId: string, _message: string): Promise<string | null> {
+    return null;
+  }
+
+  subscribeToNotifications(_deviceId: string, listener: (response: DecodedResponse) => void): () => void {
+    this.notificationListeners.add(listener);
+    return () => {
+      this.notificationListeners.delete(listener);
+    };
+  }
+
+  cancelPendingCommands(_deviceId: string, reason: Error = new Error('Command cancelled')): void {
+    this.pendingRequests.rejectAll(reason);
+  }
+
+  getMtu(_deviceId: string): number {
+    return this.fragmenter.getMtu();
+  }
+
+  /**
+   * A socket has no signal strength
+   */
+  async readRssi(_deviceId: string): Promise<number | null> {
+    return null;
+  }
+
+  async requestAnalytics(deviceId: string): Promise<AnalyticsBatch> {
+    const response = await this.request(deviceId, BLECommandEncoder.encodeRequestAnalytics(), 10000);
+    if (ProtocolCodec.isErrorEnvelope(response)) {
+      throw new BLEError(response);
+    }
+    if (!ProtocolCodec.isAnalyticsBatch(response)) {
+      throw new Error('No analytics available');
+    }
+    return response;
+  }
+
+  async confirmAnalytics(deviceId: string, batchId: number): Promise<CommandResponse> {
+    return this.sendCommand(deviceId, BLECommandEncoder.encodeConfirmAnalytics(batchId));
+  }
+
+  /**
+   * Send a framed command and resolve with the decoded response to its sequence ID
+   */
+  private request(
+    deviceId: string,
+    command: Uint8Array,
+    timeout: number,
+    options: SendCommandOptions = {}
+  ): Promise<DecodedResponse> {
+    const sequenceId = this.pendingRequests.allocateSequenceId();
+    const frame = ProtocolCodec.encodeFrame(command, sequenceId);
+    const responsePromise = this.pendingRequests.register(sequenceId, { timeoutMs: timeout, signal: options.signal });
+
+    try {
+      this.writeFrame(deviceId, frame);
+    } catch (error) {
+      this.pendingRequests.reject(sequenceId, error as Error);
+    }
+    return responsePromise;
+  }
+
+  private writeFrame(deviceId: string, frame: Uint8Array): void {
+    this.assertSimulatorDevice(deviceId);
+    const socket = this.socket;
+    if (!socket || socket.readyState !== SOCKET_OPEN) {
+      throw new Error('Device not connected');
+    }
+    for (const fragment of this.fragmenter.fragment(frame)) {
+      trafficRecorder.record('tx', deviceId, fragment);
+      socket.send(fragment);
+    }
+  }
+
+  /**
+   * Open a socket to the simulator server, rejecting if it does not answer in time
+   */
+  private open(): Promise<SimulatorSocket> {
+    return new Promise((resolve, reject) => {
+      let socket: SimulatorSocket;
+      try {
+        socket = this.createSocket(this.url);
+      } catch (error) {
+        reject(error);
+        return;
+      }
+      socket.binaryType = 'arraybuffer';
+
+      const timeoutId = setTimeout(() => {
+        socket.onopen = socket.onerror = socket.onclose = null;
+        socket.close();
+        reject(new Error(`Firmware simulator at ${this.url} did not answer`));
+      }, PROBE_TIMEOUT_MS);
+
+      socket.onopen = () => {
+        clearTimeout(timeoutId);
+        socket.onopen = socket.onerror = null;
+        resolve(socket);
+      };
+      socket.onerror = socket.onclose = () => {
+        clearTimeout(timeoutId);
+        socket.onopen = socket.onerror = socket.onclose = null;
+        reject(new Error(`Firmware simulator at ${this.url} is not running`));
+      };
+    });
+  }
+
+  /**
+   * The server went away (stopped or restarted)
+   */
+  private handleDisconnection(socket: SimulatorSocket): void {
+    if (socket !== this.socket) {
+      return;
+    }
+    console.log('[Simulator] Connection closed by the server');
+    this.socket = null;
+    this.cancelPendingCommands(SIMULATOR_DEVICE_ID, new Error('Device disconnected'));
+    this.reassembler.reset();
+    this.disconnectionListeners.get(SIMULATOR_DEVICE_ID)?.(SIMULATOR_DEVICE_ID);
+  }
+
+  private handlePacket(packet: Uint8Array): void {
+    trafficRecorder.record('rx', SIMULATOR_DEVICE_ID, packet);
+    for (const frameBytes of this.reassembler.push(packet)) {
+      this.handleFrame(frameBytes);
+    }
+  }
+
+  /**
+   * Decode one complete frame and route it, as the BLE services do
+   */
+  private handleFrame(frameBytes: Uint8Array): void {
+    let frame: DecodedFrame;
+    try {
+      frame = ProtocolCodec.decode(frameBytes);
+    } catch (error) {
+      const envelope: ErrorEnvelope = error instanceof BLEError
+        ? error.envelope
+        : { code: ErrorCode.UNKNOWN_ERROR, message: (error as Error).message || 'Failed to decode response' };
+      const sequenceId = ProtocolCodec.peekSequenceId(frameBytes);
+      if (sequenceId !== null) {
+        this.pendingRequests.reject(sequenceId, new BLEError(envelope));
+      }
+      return;
+    }
+
+    const { response, sequenceId } = frame;
+
+    this.notificationListeners.forEach(listener => {
+      try {
+        listener(response);
+      } catch (error) {
+        console.error('[Simulator] Notification listener failed:', error);
+      }
+    });
+
+    // Config snapshots go to ConfigurationModule, as the real services do
+    if (!ProtocolCodec.isErrorEnvelope(response) && !ProtocolCodec.isAnalyticsBatch(response) &&
+        response.type === ResponseType.ACK_CONFIG_MODE) {
+      configurationModule.handleResponse(response);
+    }
+
+    if (sequenceId !== UNSOLICITED_SEQUENCE_ID && !this.pendingRequests.resolve(sequenceId, response)) {
+      console.warn(`[Simulator] Dropping response for stale sequence ${sequenceId}`);
+    }
+  }
+
+  private assertSimulatorDevice(deviceId: string): void {
+    if (!isSimulatorDevice(deviceId)) {
+      throw new Error(`Unknown simulator device: ${deviceId}`);
+    }
+  }
+}
+
+export const webSocketBluetoothService = new WebSocketBluetoothService();
@@ -0,0 +1,38 @@
+/**
+ * Device Capability Types
+ * Hardware facts reported by the microcontroller in response to GET_CAPABILITIES
+ */
+
+import { ParameterId } from './commands';
+
+export interface DeviceCapabilities {
+  readonly protocolVersion: number;
+  readonly firmwareVersion: string; // "major.minor.patch"
+  readonly ledCount: number;
+  readonly maxMilliamps: number; // Current budget for the LED strip
+  readonly batteryCapacityMah: number;
+  readonly supportedEffects: readonly number[]; // Firmware pattern IDs (PATTERN_* in device_config.h)
+  readonly supportedParameters: readonly ParameterId[];
+}
+
+/**
+ * Fallback for firmware that predates GET_CAPABILITIES
+ * Matches the original hardware build, with the worst-case LED count for power checks
+ */
+export const DEFAULT_DEVICE_CAPABILITIES: DeviceCapabilities = {
+  protocolVersion: 2,
+  firmwareVersion: '0.0.0',
+  ledCount: 14,
+  maxMilliamps: 500,
+  batteryCapacityMah: 500,
+  supportedEffects: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  supportedParameters: [
+    ParameterId.BRIGHTNESS,
+    ParameterId.SPEED,
+    ParameterId.COLOR_HUE,
+    ParameterId.COLOR_SATURATION,
+    ParameterId.COLOR_VALUE,
+    ParameterId.EFFECT_TYPE,
+    ParameterId.POWER_STATE,
+  ],
+};
@@ -19,6 +19,12 @@ export enum EffectType {
 
 export type RGBColor = [number, number, number]; // [R, G, B] where each is 0-255
 
+export interface HSVColor {
+  h: number; // 0-255 (FastLED hue)
+  s: number; // 0-255
+  v: number; // 0-255
+}
+
 export interface LEDConfig {
   readonly brightness: number; // 0-100
   readonly speed: number; // 0-100
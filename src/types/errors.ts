@@ -3,30 +3,9 @@
  * Structured error handling from microcontroller
  */
 
-export enum ErrorCode {
-  // General / legacy error codes
-  NONE = 0x00,
-
-  // Command / config flow errors (match firmware)
-  INVALID_COMMAND = 0x01,
-  INVALID_PARAMETER = 0x02,
-  OUT_OF_RANGE = 0x03,
-  NOT_IN_CONFIG_MODE = 0x04,
-  ALREADY_IN_CONFIG_MODE = 0x05,
-  FLASH_WRITE_FAILED = 0x06,
-  VALIDATION_FAILED = 0x07,
-  NOT_OWNER = 0x08, // User is not the owner and not a developer/test user
-  ALREADY_CLAIMED = 0x09, // Device already has an owner
-
-  // Device health/status errors (from legacy domain/common ErrorEnvelope)
-  SETTINGS_CORRUPT = 0x10,
-  FLASH_FAILURE = 0x11,
-  LED_FAILURE = 0x12,
-  MEMORY_LOW = 0x13,
-  POWER_LOW = 0x14,
-
-  UNKNOWN_ERROR = 0xFF,
-}
+// Error codes are generated from protocol/spec.json
+import { ErrorCode } from './protocol';
+export { ErrorCode };
 
 export interface ErrorEnvelope {
   code: ErrorCode;
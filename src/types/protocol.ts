@@ -0,0 +1,420 @@
+/**
+ * BLE Protocol Definitions
+ * GENERATED by scripts/generate-protocol.js from protocol/spec.json - do not edit by hand.
+ * Run `npm run generate:protocol` after changing the spec.
+ */
+
+export const PROTOCOL_VERSION = 0x02; // First byte of every frame
+export const FRAME_HEADER_SIZE = 4; // [version, sequenceId, payloadLength(2)]
+export const FRAME_TRAILER_SIZE = 2; // [crc16(2)]
+export const MAX_FRAME_PAYLOAD = 512; // Largest [opcode, ...data] message
+export const UNSOLICITED_SEQUENCE_ID = 0x00; // Sequence ID for notifications not tied to a request; requests sent with it get no reply
+export const FRAGMENT_HEADER_SIZE = 4; // [messageId, chunkIndex, chunkCount, chunkLength]
+export const ATT_HEADER_SIZE = 3; // ATT notification/write overhead within the MTU
+export const DEFAULT_ATT_MTU = 23; // BLE minimum MTU
+export const MAX_FRAGMENT_COUNT = 255; // chunkCount is a single byte
+export const MAX_FRAGMENT_DATA = 255; // chunkLength is a single byte
+export const MAX_USER_ID_LENGTH = 64; // Longest user ID an owner key is derived from
+export const OWNER_KEY_LENGTH = 32; // HMAC-SHA256(userId, salt), stored by the device at claim time
+export const OWNER_SALT_LENGTH = 16; // Per-claim salt the owner key is derived with
+export const CHALLENGE_NONCE_LENGTH = 16; // Single-use nonce answered by an ownership proof
+export const OWNERSHIP_PROOF_LENGTH = 32; // HMAC-SHA256(ownerKey, nonce + opcode)
+export const MAX_BATCH_ENTRIES = 8; // Most entries in one UPDATE_BATCH
+
+/**
+ * App-level parameter IDs reported in the capabilities response
+ */
+export enum ParameterId {
+  BRIGHTNESS = 0x01,
+  SPEED = 0x02,
+  COLOR_HUE = 0x03,
+  COLOR_SATURATION = 0x04,
+  COLOR_VALUE = 0x05,
+  EFFECT_TYPE = 0x06,
+  POWER_STATE = 0x07,
+}
+
+/**
+ * Parameter types carried by UPDATE_PARAM
+ */
+export enum ConfigParameter {
+  BRIGHTNESS = 0x00, // [brightness]
+  PATTERN = 0x01, // [pattern]
+  COLOR = 0x02, // [r, g, b]
+  POWER_MODE = 0x03, // [powerMode]
+  SPEED = 0x04, // [speed 0-100]
+}
+
+/**
+ * Firmware pattern IDs
+ */
+export enum LedPattern {
+  OFF = 0,
+  SOLID_WHITE = 1,
+  RAINBOW = 2,
+  PULSE = 3,
+  FADE = 4,
+  CHASE = 5,
+  TWINKLE = 6,
+  WAVE = 7,
+  BREATH = 8,
+  STROBE = 9,
+}
+
+/**
+ * How PIXEL_FRAME data is encoded
+ */
+export enum PixelEncoding {
+  RAW = 0x00, // [r, g, b] for every pixel
+  RLE = 0x01, // [runLength 1-255, r, g, b] runs covering every pixel
+  DELTA = 0x02, // [start(2), count 1-255, ...rgb] spans changed since the previous frame
+}
+
+/**
+ * Error codes carried by the error response
+ */
+export enum ErrorCode {
+  NONE = 0x00,
+  INVALID_COMMAND = 0x01,
+  INVALID_PARAMETER = 0x02,
+  OUT_OF_RANGE = 0x03,
+  NOT_IN_CONFIG_MODE = 0x04,
+  ALREADY_IN_CONFIG_MODE = 0x05,
+  FLASH_WRITE_FAILED = 0x06,
+  VALIDATION_FAILED = 0x07,
+  NOT_OWNER = 0x08, // User is not the owner and not a developer/test user
+  ALREADY_CLAIMED = 0x09, // Device already has an owner
+  SETTINGS_CORRUPT = 0x10,
+  FLASH_FAILURE = 0x11,
+  LED_FAILURE = 0x12,
+  MEMORY_LOW = 0x13,
+  POWER_LOW = 0x14,
+  INCOMPLETE_MESSAGE = 0x15, // Fragmented message not fully received
+  STALE_REVISION = 0x16, // Commit was based on an older config revision than the one in flash
+  UNKNOWN_ERROR = 0xFF, // App-side only: the device never sends this
+}
+
+/**
+ * Command opcodes
+ */
+export enum CommandType {
+  STATUS = 0x00, // Status/ping command for connection verification
+  UPDATE_PARAM = 0x02, // Update a config parameter (staged in RAM until COMMIT_CONFIG)
+  UPDATE_COLOR = 0x03, // Update color as a single command (not handled by firmware; use UPDATE_PARAM COLOR)
+  UPDATE_BATCH = 0x04, // Stage several config parameters at once; all are applied or none are
+  PIXEL_FRAME = 0x05, // Show a whole strip of pixels (pixel streaming); patterns resume when frames stop
+  ENTER_CONFIG = 0x10, // Enter configuration mode
+  COMMIT_CONFIG = 0x11, // Commit staged config to flash
+  EXIT_CONFIG = 0x12, // Exit configuration mode
+  CLAIM_DEVICE = 0x13, // Claim device ownership with a key derived from the user ID and the challenge salt
+  VERIFY_OWNERSHIP = 0x14, // Prove ownership for this session by answering the current challenge
+  UNCLAIM_DEVICE = 0x15, // Unclaim device ownership (removes owner) by answering the current challenge
+  GET_CAPABILITIES = 0x16, // Request hardware/firmware capabilities
+  REQUEST_CHALLENGE = 0x17, // Request a single-use ownership challenge (nonce and owner key salt)
+  READ_CONFIG = 0x18, // Report the staged config (answered with ACK_CONFIG_MODE); only in config mode
+  REQUEST_ANALYTICS = 0x20, // Request analytics batch from controller
+  CONFIRM_ANALYTICS = 0x21, // Confirm receipt of analytics batch
+}
+
+/**
+ * Response opcodes
+ */
+export enum ResponseType {
+  ACK_CONFIG_MODE = 0x90, // Acknowledge config mode entry with the current config, or answer READ_CONFIG with the staged one
+  ACK_COMMIT = 0x91, // Acknowledge config commit
+  ACK_SUCCESS = 0x92, // General success acknowledgment
+  ACK_ERROR = 0x93, // Error envelope
+  CAPABILITIES = 0x94, // Capabilities report
+  BATCH_REJECTED = 0x95, // Batch update rejected; nothing was applied
+  CHALLENGE = 0x96, // Ownership challenge; the nonce is replaced after every answer
+  ANALYTICS_BATCH = 0xA0, // Analytics batch response
+}
+
+/**
+ * Status/ping command for connection verification
+ * [0x00]
+ */
+export interface StatusMessage {
+  type: CommandType.STATUS;
+}
+
+/**
+ * Update a config parameter (staged in RAM until COMMIT_CONFIG)
+ * [0x02, parameter, ...values]
+ */
+export interface UpdateParamMessage {
+  type: CommandType.UPDATE_PARAM;
+  parameter: ConfigParameter;
+  values: number[];
+}
+
+/**
+ * Update color as a single command (not handled by firmware; use UPDATE_PARAM COLOR)
+ * [0x03, hue, saturation, value]
+ */
+export interface UpdateColorMessage {
+  type: CommandType.UPDATE_COLOR;
+  hue: number;
+  saturation: number;
+  value: number;
+}
+
+export interface BatchUpdateEntry {
+  parameter: ConfigParameter;
+  value1: number; // The value (red for COLOR)
+  value2: number; // Green for COLOR, otherwise 0
+  value3: number; // Blue for COLOR, otherwise 0
+}
+
+/**
+ * Stage several config parameters at once; all are applied or none are
+ * [0x04, entryCount, ...entries(4 each)]
+ */
+export interface UpdateBatchMessage {
+  type: CommandType.UPDATE_BATCH;
+  entryCount: number;
+  entries: BatchUpdateEntry[]; // At most MAX_BATCH_ENTRIES, each parameter at most once
+}
+
+/**
+ * Show a whole strip of pixels (pixel streaming); patterns resume when frames stop
+ * [0x05, encoding, pixelCount(2), ...data]
+ */
+export interface PixelFrameMessage {
+  type: CommandType.PIXEL_FRAME;
+  encoding: PixelEncoding;
+  pixelCount: number; // Strip length the frame was built for
+  data: number[];
+}
+
+/**
+ * Enter configuration mode
+ * [0x10]
+ */
+export interface EnterConfigMessage {
+  type: CommandType.ENTER_CONFIG;
+}
+
+/**
+ * Commit staged config to flash
+ * [0x11, expectedRevision(2)]
+ */
+export interface CommitConfigMessage {
+  type: CommandType.COMMIT_CONFIG;
+  expectedRevision: number; // Config revision the edits were based on; a bare [0x11] commits without the check
+}
+
+/**
+ * Exit configuration mode
+ * [0x12]
+ */
+export interface ExitConfigMessage {
+  type: CommandType.EXIT_CONFIG;
+}
+
+/**
+ * Claim device ownership with a key derived from the user ID and the challenge salt
+ * [0x13, ...ownerKey]
+ */
+export interface ClaimDeviceMessage {
+  type: CommandType.CLAIM_DEVICE;
+  ownerKey: number[];
+}
+
+/**
+ * Prove ownership for this session by answering the current challenge
+ * [0x14, ...proof]
+ */
+export interface VerifyOwnershipMessage {
+  type: CommandType.VERIFY_OWNERSHIP;
+  proof: number[];
+}
+
+/**
+ * Unclaim device ownership (removes owner) by answering the current challenge
+ * [0x15, ...proof]
+ */
+export interface UnclaimDeviceMessage {
+  type: CommandType.UNCLAIM_DEVICE;
+  proof: number[];
+}
+
+/**
+ * Request hardware/firmware capabilities
+ * [0x16]
+ */
+export interface GetCapabilitiesMessage {
+  type: CommandType.GET_CAPABILITIES;
+}
+
+/**
+ * Request a single-use ownership challenge (nonce and owner key salt)
+ * [0x17]
+ */
+export interface RequestChallengeMessage {
+  type: CommandType.REQUEST_CHALLENGE;
+}
+
+/**
+ * Report the staged config (answered with ACK_CONFIG_MODE); only in config mode
+ * [0x18]
+ */
+export interface ReadConfigMessage {
+  type: CommandType.READ_CONFIG;
+}
+
+/**
+ * Request analytics batch from controller
+ * [0x20]
+ */
+export interface RequestAnalyticsMessage {
+  type: CommandType.REQUEST_ANALYTICS;
+}
+
+/**
+ * Confirm receipt of analytics batch
+ * [0x21, batchId]
+ */
+export interface ConfirmAnalyticsMessage {
+  type: CommandType.CONFIRM_ANALYTICS;
+  batchId: number;
+}
+
+export type CommandMessage =
+  | StatusMessage
+  | UpdateParamMessage
+  | UpdateColorMessage
+  | UpdateBatchMessage
+  | PixelFrameMessage
+  | EnterConfigMessage
+  | CommitConfigMessage
+  | ExitConfigMessage
+  | ClaimDeviceMessage
+  | VerifyOwnershipMessage
+  | UnclaimDeviceMessage
+  | GetCapabilitiesMessage
+  | RequestChallengeMessage
+  | ReadConfigMessage
+  | RequestAnalyticsMessage
+  | ConfirmAnalyticsMessage;
+
+/**
+ * Acknowledge config mode entry with the current config, or answer READ_CONFIG with the staged one
+ * [0x90, brightness, speed, red, green, blue, effectType, powerState, revision(2)]
+ */
+export interface AckConfigModeMessage {
+  type: ResponseType.ACK_CONFIG_MODE;
+  brightness: number;
+  speed: number;
+  red: number;
+  green: number;
+  blue: number;
+  effectType: LedPattern;
+  powerState: number;
+  revision: number; // Bumped by every commit that changes the config; older firmware omits it
+}
+
+/**
+ * Acknowledge config commit
+ * [0x91]
+ */
+export interface AckCommitMessage {
+  type: ResponseType.ACK_COMMIT;
+}
+
+/**
+ * General success acknowledgment
+ * [0x92]
+ */
+export interface AckSuccessMessage {
+  type: ResponseType.ACK_SUCCESS;
+}
+
+/**
+ * Error envelope
+ * [0x93, code, ...message]
+ */
+export interface AckErrorMessage {
+  type: ResponseType.ACK_ERROR;
+  code: ErrorCode;
+  message: string;
+}
+
+/**
+ * Capabilities report
+ * [0x94, protocolVersion, firmwareMajor, firmwareMinor, firmwarePatch, ledCount(2), maxMilliamps(2), batteryCapacityMah(2), supportedEffectsLength, ...supportedEffects, supportedParametersLength, ...supportedParameters]
+ */
+export interface CapabilitiesMessage {
+  type: ResponseType.CAPABILITIES;
+  protocolVersion: number;
+  firmwareMajor: number;
+  firmwareMinor: number;
+  firmwarePatch: number;
+  ledCount: number;
+  maxMilliamps: number;
+  batteryCapacityMah: number;
+  supportedEffects: LedPattern[];
+  supportedParameters: ParameterId[];
+}
+
+export interface BatchRejection {
+  index: number; // Position of the entry in the batch
+  parameter: ConfigParameter;
+  code: ErrorCode;
+}
+
+/**
+ * Batch update rejected; nothing was applied
+ * [0x95, rejectedCount, ...rejected(3 each)]
+ */
+export interface BatchRejectedMessage {
+  type: ResponseType.BATCH_REJECTED;
+  rejectedCount: number;
+  rejected: BatchRejection[];
+}
+
+/**
+ * Ownership challenge; the nonce is replaced after every answer
+ * [0x96, claimed, saltLength, ...salt, nonceLength, ...nonce]
+ */
+export interface ChallengeMessage {
+  type: ResponseType.CHALLENGE;
+  claimed: number; // 1 if the device has an owner; reclaiming then needs a verified session
+  salt: number[];
+  nonce: number[];
+}
+
+export interface AnalyticsSessionRecord {
+  startTime: number;
+  endTime: number;
+  duration: number;
+  flags: number; // bit 0 = turned on, bit 1 = turned off
+}
+
+/**
+ * Analytics batch response
+ * [0xA0, batchId, sessionCount, flashReads(2), flashWrites(2), errorCount(2), averagePower(2), peakPower(2), lastErrorCode, lastErrorTimestamp(4), ...sessions(13 each)]
+ */
+export interface AnalyticsBatchMessage {
+  type: ResponseType.ANALYTICS_BATCH;
+  batchId: number;
+  sessionCount: number;
+  flashReads: number;
+  flashWrites: number;
+  errorCount: number;
+  averagePower: number; // mA, 0 = not available
+  peakPower: number; // mA, 0 = not available
+  lastErrorCode: ErrorCode; // 0 = no error
+  lastErrorTimestamp: number; // Unix seconds, 0 = no error
+  sessions: AnalyticsSessionRecord[]; // May stop short of sessionCount when the batch was truncated
+}
+
+export type ResponseMessage =
+  | AckConfigModeMessage
+  | AckCommitMessage
+  | AckSuccessMessage
+  | AckErrorMessage
+  | CapabilitiesMessage
+  | BatchRejectedMessage
+  | ChallengeMessage
+  | AnalyticsBatchMessage;
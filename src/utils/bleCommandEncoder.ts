@@ -3,9 +3,10 @@
  * Encodes commands to byte arrays and decodes responses
  */
 
-import { CommandType, ResponseType, ParameterId, BLECommand, CommandResponse, UpdateParameterCommand, AnalyticsBatch, AnalyticsSessionData } from '../types/commands';
-import { ErrorEnvelope, ErrorCode, BLEError } from '../types/errors';
-import { getErrorMessage } from '../domain/common/errorEnvelope';
+import { CommandType, BLECommand, CommandResponse, UpdateParameterCommand, AnalyticsBatch } from '../types/commands';
+import { ErrorEnvelope } from '../types/errors';
+import { ProtocolCodec } from '../domain/bluetooth/protocolCodec';
+import { OWNER_KEY_LENGTH, OWNERSHIP_PROOF_LENGTH } from '../types/protocol';
 import { RGBColor } from '../utils/bleConstants';
 
 // TODO: This class has a lot of data arrangement and some code duplication.
@@ -96,248 +97,70 @@ export class BLECommandEncoder {
   }
 
   /**
-   * Helper to encode user ID into payload format: [userId_length, userId_bytes...]
-   * Returns the payload array
+   * Helper to copy a fixed-length key or proof into a payload
+   * Throws if the length is wrong
    */
-  private static encodeUserIdPayload(userId: string): Uint8Array {
-    const userIdBytes = new TextEncoder().encode(userId);
-    if (userIdBytes.length > 64) {
-      throw new Error('User ID too long (max 64 bytes)');
+  private static encodeFixedPayload(bytes: Uint8Array, length: number, name: string): Uint8Array {
+    if (bytes.length !== length) {
+      throw new Error(`${name} must be ${length} bytes, got ${bytes.length}`);
     }
-    
-    const payload = new Uint8Array(1 + userIdBytes.length);
-    payload[0] = userIdBytes.length;
-    payload.set(userIdBytes, 1);
-    
-    return payload;
+    return Uint8Array.from(bytes);
+  }
+
+  /**
+   * Encode Request Challenge command
+   * The device answers with a salt and a single-use nonce (see ownershipAuth.ts)
+   */
+  static encodeRequestChallenge(): Uint8Array {
+    return this.encodeCommand({ type: CommandType.REQUEST_CHALLENGE });
   }
 
   /**
    * Encode Claim Device command
-   * Payload: [userId_length, userId_bytes...]
+   * Payload: [ownerKey (32 bytes)] - deriveOwnerKey(userId, challenge salt)
    */
-  static encodeClaimDevice(userId: string): Uint8Array {
-    const payload = this.encodeUserIdPayload(userId);
+  static encodeClaimDevice(ownerKey: Uint8Array): Uint8Array {
     return this.encodeCommand({
       type: CommandType.CLAIM_DEVICE,
-      payload,
+      payload: this.encodeFixedPayload(ownerKey, OWNER_KEY_LENGTH, 'Owner key'),
     });
   }
 
   /**
    * Encode Verify Ownership command
-   * Payload: [userId_length, userId_bytes...]
+   * Payload: [proof (32 bytes)] - signChallenge(ownerKey, nonce, VERIFY_OWNERSHIP)
    */
-  static encodeVerifyOwnership(userId: string): Uint8Array {
-    const payload = this.encodeUserIdPayload(userId);
+  static encodeVerifyOwnership(proof: Uint8Array): Uint8Array {
     return this.encodeCommand({
       type: CommandType.VERIFY_OWNERSHIP,
-      payload,
+      payload: this.encodeFixedPayload(proof, OWNERSHIP_PROOF_LENGTH, 'Ownership proof'),
     });
   }
 
   /**
    * Encode Unclaim Device command
-   * Payload: [userId_length, userId_bytes...]
+   * Payload: [proof (32 bytes)] - signChallenge(ownerKey, nonce, UNCLAIM_DEVICE)
    */
-  static encodeUnclaimDevice(userId: string): Uint8Array {
-    const payload = this.encodeUserIdPayload(userId);
+  static encodeUnclaimDevice(proof: Uint8Array): Uint8Array {
     return this.encodeCommand({
       type: CommandType.UNCLAIM_DEVICE,
-      payload,
+      payload: this.encodeFixedPayload(proof, OWNERSHIP_PROOF_LENGTH, 'Ownership proof'),
     });
   }
 
   /**
-   * Decode response from microcontroller
+   * Decode response payload from microcontroller ([opcode, ...data], frame already unwrapped)
+   * Delegates to ProtocolCodec, which owns decoding for every ResponseType
    */
   static decodeResponse(data: Uint8Array): CommandResponse | ErrorEnvelope | AnalyticsBatch {
-    if (data.length === 0) {
-      throw new BLEError({
-        code: ErrorCode.UNKNOWN_ERROR,
-        message: 'Empty response from device',
-      });
-    }
-
-    const responseType = data[0];
-
-    // Handle error envelope: [0x90, errorCode, ...message] (variable length, not 8 bytes)
-    // Note: 0x90 is also used for CONFIG_MODE ack (single byte) and config response (8 bytes)
-    if (responseType === 0x90 && data.length > 1 && data.length !== 8) {
-      if (data.length < 2) {
-        throw new BLEError({
-          code: ErrorCode.UNKNOWN_ERROR,
-          message: 'Malformed error response',
-        });
-      }
-
-      const errorCode = data[1] as ErrorCode;
-      const errorData = data.length > 2 ? data.slice(2) : undefined;
-
-      // Try to extract message from firmware if available, otherwise use default
-      let errorMessage = getErrorMessage(errorCode);
-      if (errorData && errorData.length > 0) {
-        // Convert firmware message bytes to string (filter out null bytes)
-        const firmwareMessage = String.fromCharCode(...Array.from(errorData).filter(b => b !== 0)).trim();
-        if (firmwareMessage.length > 0) {
-          errorMessage = firmwareMessage;
-        }
-      }
-      
-      const envelope: ErrorEnvelope = {
-        code: errorCode,
-        message: errorMessage,
-        data: errorData,
-      };
-
-      return envelope;
-    }
-
-    // Handle config mode acknowledgment: single byte 0x90
-    if (responseType === ResponseType.ACK_CONFIG_MODE && data.length === 1) {
-      return {
-        type: ResponseType.ACK_CONFIG_MODE,
-        isSuccess: true,
-        data: undefined,
-      };
-    }
-
-    // Handle 8-byte config response: [0x90, brightness, speed, r, g, b, effectType, powerState]
-    // This is sent when entering config mode and contains the current device settings
-    if (responseType === ResponseType.ACK_CONFIG_MODE && data.length === 8) {
-      return {
-        type: ResponseType.ACK_CONFIG_MODE,
-        isSuccess: true,
-        data: data.slice(1), // Return the 7 config bytes (brightness, speed, r, g, b, effectType, powerState)
-      };
-    }
-
-    // Handle commit acknowledgment: 0x91
-    if (responseType === ResponseType.ACK_COMMIT) {
-      return {
-        type: ResponseType.ACK_COMMIT,
-        isSuccess: true,
-        data: data.slice(1),
-      };
-    }
-
-    // Handle success acknowledgment: 0x92
-    if (responseType === ResponseType.ACK_SUCCESS) {
-      return {
-        type: ResponseType.ACK_SUCCESS,
-        isSuccess: true,
-        data: data.slice(1),
-      };
-    }
-
-    // Handle analytics batch: 0xA0
-    if (responseType === ResponseType.ANALYTICS_BATCH) {
-      return this.decodeAnalyticsBatch(data);
-    }
-
-    throw new BLEError({
-      code: ErrorCode.UNKNOWN_ERROR,
-      message: `Unknown response type: 0x${responseType.toString(16)}`,
-    });
+    return ProtocolCodec.decodeResponse(data);
   }
 
   /**
-   * Decode analytics batch response
-   * Note: This may be called multiple times with chunks of data
+   * Decode analytics batch response payload
    */
   static decodeAnalyticsBatch(data: Uint8Array): AnalyticsBatch {
-    // Constants for payload structure
-    const RESPONSE_TYPE_SIZE = 1;        // RESP_ANALYTICS_BATCH
-    const BATCH_ID_SIZE = 1;
-    const SESSION_COUNT_SIZE = 1;
-    const FLASH_READS_SIZE = 2;
-    const FLASH_WRITES_SIZE = 2;
-    const ERROR_COUNT_SIZE = 2;
-    const LAST_ERROR_CODE_SIZE = 1;
-    const LAST_ERROR_TIMESTAMP_SIZE = 4;
-    const AVG_POWER_SIZE = 2;
-    const PEAK_POWER_SIZE = 2;
-    const SESSION_SIZE = 13; // startTime(4) + endTime(4) + duration(4) + flags(1)
-    
-    const MIN_HEADER_SIZE = RESPONSE_TYPE_SIZE + BATCH_ID_SIZE + SESSION_COUNT_SIZE +
-      FLASH_READS_SIZE + FLASH_WRITES_SIZE + ERROR_COUNT_SIZE +
-      LAST_ERROR_CODE_SIZE + LAST_ERROR_TIMESTAMP_SIZE +
-      AVG_POWER_SIZE + PEAK_POWER_SIZE;
-    
-    if (data.length < MIN_HEADER_SIZE) {
-      throw new BLEError({
-        code: ErrorCode.UNKNOWN_ERROR,
-        message: 'Analytics batch response too short',
-      });
-    }
-
-    let idx = 1; // Skip response type
-    const batchId = data[idx++];
-    const sessionCount = data[idx++];
-    
-    // Flash reads (2 bytes, big-endian)
-    const flashReads = (data[idx++] << 8) | data[idx++];
-    
-    // Flash writes (2 bytes)
-    const flashWrites = (data[idx++] << 8) | data[idx++];
-    
-    // Error count (2 bytes)
-    const errorCount = (data[idx++] << 8) | data[idx++];
-    
-    // Average power (2 bytes)
-    const averagePowerConsumption = (data[idx++] << 8) | data[idx++];
-    
-    // Peak power (2 bytes)
-    const peakPowerConsumption = (data[idx++] << 8) | data[idx++];
-    
-    // Last error code (1 byte)
-    const lastErrorCode = data[idx++];
-    
-    // Last error timestamp (4 bytes, big-endian)
-    const lastErrorTimestamp = (data[idx++] << 24) | (data[idx++] << 16) | (data[idx++] << 8) | data[idx++];
-    
-    // Decode sessions
-    const sessions: AnalyticsSessionData[] = [];
-    for (let i = 0; i < sessionCount; i++) {
-      if (idx + SESSION_SIZE > data.length) {
-        break; // Not enough data
-      }
-      
-      // startTime (4 bytes, big-endian)
-      const startTime = (data[idx++] << 24) | (data[idx++] << 16) | (data[idx++] << 8) | data[idx++];
-      
-      // endTime (4 bytes)
-      const endTime = (data[idx++] << 24) | (data[idx++] << 16) | (data[idx++] << 8) | data[idx++];
-      
-      // duration (4 bytes)
-      const duration = (data[idx++] << 24) | (data[idx++] << 16) | (data[idx++] << 8) | data[idx++];
-      
-      // flags (1 byte)
-      const flags = data[idx++];
-      const turnedOn = (flags & 0x01) !== 0;
-      const turnedOff = (flags & 0x02) !== 0;
-      
-      sessions.push({
-        startTime,
-        endTime,
-        duration,
-        turnedOn,
-        turnedOff,
-      });
-    }
-
-    return {
-      batchId,
-      sessionCount,
-      sessions,
-      flashReads,
-      flashWrites,
-      errorCount,
-      lastErrorCode: lastErrorCode > 0 ? lastErrorCode : undefined,
-      lastErrorTimestamp: lastErrorTimestamp > 0 ? lastErrorTimestamp : undefined,
-      averagePowerConsumption: averagePowerConsumption > 0 ? averagePowerConsumption : undefined,
-      peakPowerConsumption: peakPowerConsumption > 0 ? peakPowerConsumption : undefined,
-    };
+    return ProtocolCodec.decodeAnalyticsBatch(data);
   }
 
 }
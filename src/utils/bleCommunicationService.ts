@@ -1,25 +1,35 @@
-import { BLE_COMMANDS, RESPONSE_TYPES, parseResponse, DeviceSettings, LED_PATTERNS, POWER_MODES, RESPONSE_CODES } from './bleConstants';
+import {
+  TEXT_COMMANDS,
+  RESPONSE_TYPES,
+  DeviceSettings,
+  DeviceStatus,
+  PowerInfo,
+  DeviceInfo,
+  TextResponse,
+  TextResponseType,
+  LED_PATTERNS,
+  POWER_MODES,
+  RESPONSE_CODES,
+} from './bleConstants';
 import { BluetoothDevice } from '../types/bluetooth';
 import { BLECommandEncoder } from '../domain/bluetooth/bleCommandEncoder';
-import { ErrorEnvelope, parseErrorEnvelope, createErrorEnvelope, ErrorCode } from '../domain/common/errorEnvelope';
-import { bluetoothService } from './bluetoothService';
-import { configurationModule } from '../domain/bluetooth/configurationModule';
+import { parseResponse } from '../domain/bluetooth/textResponseParser';
+import { ErrorEnvelope, createErrorEnvelope, ErrorCode } from '../domain/common/errorEnvelope';
+import { getBleTransport } from '../domain/bluetooth/bleTransport';
 
-export interface BLECommandResult {
+export interface BLECommandResult<T = any> {
   success: boolean;
-  data?: any;
+  data?: T;
+  responseType?: TextResponseType; // Set for text commands
   error?: {
     code: number;
     message: string;
   };
 }
 
-export interface DeviceStatus {
-  connected: boolean;
-  brightness: number;
-  pattern: number;
-  power: number;
-}
+export type { DeviceStatus, PowerInfo, DeviceInfo };
+
+type TextResponseData<K extends TextResponseType> = Extract<TextResponse, { type: K }> extends { data: infer D } ? D : never;
 
 export class BLECommunicationService {
   private static instance: BLECommunicationService;
@@ -104,59 +114,40 @@ export class BLECommunicationService {
       throw new Error('No device connected');
     }
 
-    // Convert command to string if it's a Uint8Array
-    const commandString = command instanceof Uint8Array
-      ? BLECommandEncoder.toBase64(command)
-      : command;
-
-    console.log(`Sending command: ${commandString}`);
+    console.log('Sending command:', command);
     
     try {
-      // Send message using real BluetoothService
-      await bluetoothService.sendMessage(this.connectedDevice.id, commandString);
-      
-      // For binary commands, wait for notification response
+      // Binary commands are framed by the transport and answered by sequence ID
       if (command instanceof Uint8Array) {
-        // Wait a bit for response (in real implementation, this would wait for notification)
-        await new Promise(resolve => setTimeout(resolve, 300));
-        
-        // TODO: Check if we got an error from the configuration module
-        const state = configurationModule.getState();
-        if (state === 'error') {
-          return {
-            success: false,
-            error: {
-              code: ErrorCode.INVALID_COMMAND,
-              message: 'Command failed',
-            },
-          };
-        }
-        
+        const response = await getBleTransport().sendCommand(this.connectedDevice.id, command);
         return {
-          success: true,
-          data: { acknowledged: true },
+          success: response.isSuccess,
+          data: { acknowledged: true, response },
         };
       }
+
+      // Send message over the active transport
+      await getBleTransport().sendMessage(this.connectedDevice.id, command);
       
       // For text commands, parse response
-      const response = await this.sendMessageToDevice(commandString);
+      const response = await this.sendMessageToDevice(command);
       const parsed = parseResponse(response);
       
       if (parsed.type === RESPONSE_TYPES.ERROR) {
         return {
           success: false,
-          error: parsed.error,
+          responseType: parsed.type,
+          error: { code: parsed.error.code, message: parsed.error.message },
         };
       }
       
       return {
         success: true,
         data: parsed.data,
+        responseType: parsed.type,
       };
     } catch (error: any) {
-      const errorEnvelope = parseErrorEnvelope(
-        error?.data || new Uint8Array([ErrorCode.INVALID_COMMAND])
-      ) || createErrorEnvelope(ErrorCode.INVALID_COMMAND, error?.message || 'Command failed');
+      const errorEnvelope = error?.envelope || createErrorEnvelope(ErrorCode.INVALID_COMMAND, error?.message || 'Command failed');
       
       return {
         success: false,
@@ -174,19 +165,23 @@ export class BLECommunicationService {
     return new Promise((resolve) => {
       setTimeout(() => {
         // Simulate different responses based on command
-        if (message === BLE_COMMANDS.VERSION) {
+        if (message === TEXT_COMMANDS.VERSION) {
           resolve('LED_GUITAR_CONTROLLER_v1.0');
-        } else if (message === BLE_COMMANDS.INFO) {
+        } else if (message === TEXT_COMMANDS.INFO) {
           resolve('DEVICE:LED_GUITAR_001,LEDS:16,BRIGHTNESS:128,PATTERN:0,POWER:0');
-        } else if (message === BLE_COMMANDS.SETTINGS_GET) {
-          resolve('SETTINGS:BRIGHTNESS:128,PATTERN:0,POWER:0,AUTOOFF:0,MAXEFFECTS:10,COLOR:255,255,255');
-        } else if (message.startsWith(BLE_COMMANDS.SET_LED)) {
+        } else if (message === TEXT_COMMANDS.SETTINGS_GET) {
+          resolve('SETTINGS:BRIGHTNESS:128,PATTERN:0,POWER:0,AUTOOFF:0,MAXEFFECTS:10,SPEED:50,COLOR:FFFFFF,EFFECT:0,ON:1');
+        } else if (message === TEXT_COMMANDS.POWER_GET) {
+          resolve('POWER:BATTERY:85,VOLTAGE:3.92,CURRENT:120,MODE:0');
+        } else if (message === TEXT_COMMANDS.EFFECTS_GET) {
+          resolve('EFFECTS:Solid,Pulse,Rainbow,Wave,Strobe,Custom');
+        } else if (message.startsWith(TEXT_COMMANDS.SET_LED)) {
           resolve('SUCCESS:LED set');
-        } else if (message === BLE_COMMANDS.CLEAR) {
+        } else if (message === TEXT_COMMANDS.CLEAR) {
           resolve('SUCCESS:All LEDs cleared');
-        } else if (message.startsWith(BLE_COMMANDS.BRIGHTNESS)) {
+        } else if (message.startsWith(TEXT_COMMANDS.BRIGHTNESS)) {
           resolve('SUCCESS:Brightness set');
-        } else if (message.startsWith(BLE_COMMANDS.PATTERN)) {
+        } else if (message.startsWith(TEXT_COMMANDS.PATTERN)) {
           resolve('SUCCESS:Pattern set');
         } else {
           resolve('SUCCESS:Command executed');
@@ -197,59 +192,77 @@ export class BLECommunicationService {
 
   // High-level command methods
   async getVersion(): Promise<BLECommandResult> {
-    return this.sendCommand(BLE_COMMANDS.VERSION);
+    return this.sendCommand(TEXT_COMMANDS.VERSION);
   }
 
-  async getDeviceInfo(): Promise<BLECommandResult> {
-    return this.sendCommand(BLE_COMMANDS.INFO);
+  async getDeviceInfo(): Promise<BLECommandResult<DeviceInfo>> {
+    return this.query(TEXT_COMMANDS.INFO, RESPONSE_TYPES.DEVICE);
   }
 
-  async getSettings(): Promise<BLECommandResult> {
-    return this.sendCommand(BLE_COMMANDS.SETTINGS_GET);
+  async getSettings(): Promise<BLECommandResult<DeviceSettings>> {
+    return this.query(TEXT_COMMANDS.SETTINGS_GET, RESPONSE_TYPES.SETTINGS);
   }
 
   async setSettings(settings: Partial<DeviceSettings>): Promise<BLECommandResult> {
-    const command = `${BLE_COMMANDS.SETTINGS_SET}${settings.brightness || 0}${settings.currentPattern || 0}${settings.powerMode || 0}${settings.autoOff || 0}${settings.maxEffects || 10}${settings.color?.[0] || 255}${settings.color?.[1] || 255}${settings.color?.[2] || 255}`;
+    const command = `${TEXT_COMMANDS.SETTINGS_SET}${settings.brightness || 0}${settings.currentPattern || 0}${settings.powerMode || 0}${settings.autoOff || 0}${settings.maxEffects || 10}${settings.color?.[0] || 255}${settings.color?.[1] || 255}${settings.color?.[2] || 255}`;
     return this.sendCommand(command);
   }
 
   async saveSettings(): Promise<BLECommandResult> {
-    return this.sendCommand(BLE_COMMANDS.SETTINGS_SAVE);
+    return this.sendCommand(TEXT_COMMANDS.SETTINGS_SAVE);
   }
 
   async loadSettings(): Promise<BLECommandResult> {
-    return this.sendCommand(BLE_COMMANDS.SETTINGS_LOAD);
+    return this.sendCommand(TEXT_COMMANDS.SETTINGS_LOAD);
   }
 
   async resetSettings(): Promise<BLECommandResult> {
-    return this.sendCommand(BLE_COMMANDS.SETTINGS_RESET);
+    return this.sendCommand(TEXT_COMMANDS.SETTINGS_RESET);
   }
 
   async setLED(index: number, r: number, g: number, b: number): Promise<BLECommandResult> {
-    const command = `${BLE_COMMANDS.SET_LED}${index}${r}${g}${b}`;
+    const command = `${TEXT_COMMANDS.SET_LED}${index}${r}${g}${b}`;
     return this.sendCommand(command);
   }
 
   async clearLEDs(): Promise<BLECommandResult> {
-    return this.sendCommand(BLE_COMMANDS.CLEAR);
+    return this.sendCommand(TEXT_COMMANDS.CLEAR);
   }
 
   async setBrightness(brightness: number): Promise<BLECommandResult> {
-    const command = `${BLE_COMMANDS.BRIGHTNESS}${brightness}`;
+    const command = `${TEXT_COMMANDS.BRIGHTNESS}${brightness}`;
     return this.sendCommand(command);
   }
 
   async setPattern(pattern: number): Promise<BLECommandResult> {
-    const command = `${BLE_COMMANDS.PATTERN}${pattern}`;
+    const command = `${TEXT_COMMANDS.PATTERN}${pattern}`;
     return this.sendCommand(command);
   }
 
-  async getPowerInfo(): Promise<BLECommandResult> {
-    return this.sendCommand(BLE_COMMANDS.POWER_GET);
+  async getPowerInfo(): Promise<BLECommandResult<PowerInfo>> {
+    return this.query(TEXT_COMMANDS.POWER_GET, RESPONSE_TYPES.POWER);
   }
 
-  async getAvailableEffects(): Promise<BLECommandResult> {
-    return this.sendCommand(BLE_COMMANDS.EFFECTS_GET);
+  async getAvailableEffects(): Promise<BLECommandResult<string[]>> {
+    return this.query(TEXT_COMMANDS.EFFECTS_GET, RESPONSE_TYPES.EFFECTS);
+  }
+
+  /**
+   * Send a text command that must be answered with a specific response type
+   */
+  private async query<K extends TextResponseType>(command: string, expected: K): Promise<BLECommandResult<TextResponseData<K>>> {
+    const result = await this.sendCommand(command);
+    if (!result.success) {
+      return result;
+    }
+    if (result.responseType !== expected) {
+      return {
+        success: false,
+        responseType: result.responseType,
+        error: createErrorEnvelope(ErrorCode.UNKNOWN_ERROR, `Expected a ${expected} response, got ${result.responseType}`),
+      };
+    }
+    return result;
   }
 
   // Config Mode Commands
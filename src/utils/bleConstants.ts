@@ -1,4 +1,6 @@
 import { BluetoothDevice } from "../types/bluetooth";
+import { CommandType, ResponseType, ErrorCode, LedPattern } from "../types/protocol";
+import type { ErrorEnvelope } from "../domain/common/errorEnvelope";
 
 // Common BLE UUID constants for Nordic UART Service (NUS)
 export const NUS_SERVICE_UUID = '6e400001-b5a3-f393-e0a9-e50e24dcca9e';
@@ -111,8 +113,8 @@ export const getDeviceDisplayName = (device: Partial<BluetoothDevice> & any): st
   return 'Unknown Device';
 };
 
-// Enhanced Communication Protocol Commands
-export const BLE_COMMANDS = {
+// Text Protocol Commands (single-character prefixes)
+export const TEXT_COMMANDS = {
   VERSION: 'V',
   SET_LED: 'S',
   CLEAR: 'C',
@@ -126,14 +128,24 @@ export const BLE_COMMANDS = {
   SETTINGS_RESET: 'R',
   POWER_GET: 'W',
   EFFECTS_GET: 'F',
-  // TODO for Agent: Unify commands list by using hex or char, but not both.
-  // Config Mode Commands (binary)
-  CMD_STATUS: 0x00, // Status/ping command for connection verification
-  CMD_CONFIG_UPDATE: 0x02,
-  CMD_UPDATE_COLOR: 0x03,
-  CMD_ENTER_CONFIG: 0x10,
-  CMD_COMMIT_CONFIG: 0x11,
-  CMD_EXIT_CONFIG: 0x12
+} as const;
+
+// Binary Protocol Commands (opcodes generated from protocol/spec.json)
+export const BLE_COMMANDS = {
+  CMD_STATUS: CommandType.STATUS, // Status/ping command for connection verification
+  CMD_CONFIG_UPDATE: CommandType.UPDATE_PARAM,
+  CMD_UPDATE_COLOR: CommandType.UPDATE_COLOR,
+  CMD_UPDATE_BATCH: CommandType.UPDATE_BATCH,
+  CMD_ENTER_CONFIG: CommandType.ENTER_CONFIG,
+  CMD_COMMIT_CONFIG: CommandType.COMMIT_CONFIG,
+  CMD_EXIT_CONFIG: CommandType.EXIT_CONFIG,
+  CMD_READ_CONFIG: CommandType.READ_CONFIG,
+  CMD_CLAIM_DEVICE: CommandType.CLAIM_DEVICE,
+  CMD_VERIFY_OWNERSHIP: CommandType.VERIFY_OWNERSHIP,
+  CMD_UNCLAIM_DEVICE: CommandType.UNCLAIM_DEVICE,
+  CMD_GET_CAPABILITIES: CommandType.GET_CAPABILITIES,
+  CMD_REQUEST_ANALYTICS: CommandType.REQUEST_ANALYTICS,
+  CMD_CONFIRM_ANALYTICS: CommandType.CONFIRM_ANALYTICS,
 } as const;
 
 // Response Types
@@ -145,40 +157,45 @@ export const RESPONSE_TYPES = {
   POWER: 'POWER',
   EFFECTS: 'EFFECTS',
   DEVICE: 'DEVICE',
+  RAW: 'RAW', // Anything without a known prefix (e.g. the version string)
 } as const;
 
 // Error Codes
 export const ERROR_CODES = {
-  NONE: 0x00,
-  INVALID_COMMAND: 0x01,
-  INVALID_PARAMETER: 0x02,
-  SETTINGS_CORRUPT: 0x03,
-  EEPROM_FAILURE: 0x04,
-  FLASH_FAILURE: 0x04, // Alias for EEPROM_FAILURE
-  LED_FAILURE: 0x05,
-  MEMORY_LOW: 0x06,
-  POWER_LOW: 0x07,
+  NONE: ErrorCode.NONE,
+  INVALID_COMMAND: ErrorCode.INVALID_COMMAND,
+  INVALID_PARAMETER: ErrorCode.INVALID_PARAMETER,
+  SETTINGS_CORRUPT: ErrorCode.SETTINGS_CORRUPT,
+  EEPROM_FAILURE: ErrorCode.FLASH_FAILURE, // Alias for FLASH_FAILURE
+  FLASH_FAILURE: ErrorCode.FLASH_FAILURE,
+  LED_FAILURE: ErrorCode.LED_FAILURE,
+  MEMORY_LOW: ErrorCode.MEMORY_LOW,
+  POWER_LOW: ErrorCode.POWER_LOW,
 } as const;
 
 // Response Codes
 export const RESPONSE_CODES = {
-  ACK_CONFIG_MODE: 0x90,
-  ACK_COMMIT: 0x91,
-  ACK_SUCCESS: 0x92,
+  ACK_CONFIG_MODE: ResponseType.ACK_CONFIG_MODE,
+  ACK_COMMIT: ResponseType.ACK_COMMIT,
+  ACK_SUCCESS: ResponseType.ACK_SUCCESS,
+  ERROR: ResponseType.ACK_ERROR,
+  CAPABILITIES: ResponseType.CAPABILITIES,
+  BATCH_REJECTED: ResponseType.BATCH_REJECTED,
+  ANALYTICS_BATCH: ResponseType.ANALYTICS_BATCH,
 } as const;
 
 // LED Patterns
 export const LED_PATTERNS = {
-  OFF: 0,
-  SOLID_WHITE: 1,
-  RAINBOW: 2,
-  PULSE: 3,
-  FADE: 4,
-  CHASE: 5,
-  TWINKLE: 6,
-  WAVE: 7,
-  BREATH: 8,
-  STROBE: 9,
+  OFF: LedPattern.OFF,
+  SOLID_WHITE: LedPattern.SOLID_WHITE,
+  RAINBOW: LedPattern.RAINBOW,
+  PULSE: LedPattern.PULSE,
+  FADE: LedPattern.FADE,
+  CHASE: LedPattern.CHASE,
+  TWINKLE: LedPattern.TWINKLE,
+  WAVE: LedPattern.WAVE,
+  BREATH: LedPattern.BREATH,
+  STROBE: LedPattern.STROBE,
 } as const;
 
 // Power Modes
@@ -200,141 +217,44 @@ export interface DeviceSettings {
   maxEffects: number;
   speed: number; // 0-100
   color: RGBColor; // RGB color
-  effectType: number; // 0-5 (EffectType enum)
   powerState: boolean; // on/off
 }
 
-// Response Parsing
-export const parseResponse = (response: string): {
-  type: string;
-  data: any;
-  error?: { code: number; message: string };
-} => {
-  if (response.startsWith('SUCCESS:')) {
-    return {
-      type: RESPONSE_TYPES.SUCCESS,
-      data: response.substring(8),
-    };
-  }
-  
-  if (response.startsWith('ERROR:')) {
-    const parts = response.substring(6).split(':');
-    return {
-      type: RESPONSE_TYPES.ERROR,
-      data: null,
-      error: {
-        code: parseInt(parts[0]),
-        message: parts[1] || 'Unknown error',
-      },
-    };
-  }
-  
-  if (response.startsWith('STATUS:')) {
-    return {
-      type: RESPONSE_TYPES.STATUS,
-      data: parseStatusResponse(response),
-    };
-  }
-  
-  if (response.startsWith('SETTINGS:')) {
-    return {
-      type: RESPONSE_TYPES.SETTINGS,
-      data: parseSettingsResponse(response),
-    };
-  }
-  
-  if (response.startsWith('POWER:')) {
-    return {
-      type: RESPONSE_TYPES.POWER,
-      data: parsePowerResponse(response),
-    };
-  }
-  
-  if (response.startsWith('EFFECTS:')) {
-    return {
-      type: RESPONSE_TYPES.EFFECTS,
-      data: parseEffectsResponse(response),
-    };
-  }
-  
-  if (response.startsWith('DEVICE:')) {
-    return {
-      type: RESPONSE_TYPES.DEVICE,
-      data: parseDeviceResponse(response),
-    };
-  }
-  
-  // Default: treat as raw data
-  return {
-    type: 'RAW',
-    data: response,
-  };
-};
-
-const parseStatusResponse = (response: string): any => {
-  const data: any = {};
-  const parts = response.substring(7).split(',');
-  
-  parts.forEach(part => {
-    const [key, value] = part.split(':');
-    if (key && value) {
-      data[key.toLowerCase()] = isNaN(Number(value)) ? value : Number(value);
-    }
-  });
-  
-  return data;
-};
-
-const parseSettingsResponse = (response: string): DeviceSettings => {
-  const data: any = {};
-  const parts = response.substring(9).split(',');
-  
-  parts.forEach(part => {
-    const [key, value] = part.split(':');
-    if (key && value) {
-      if (key === 'COLOR') {
-        const colors = value.split(',').map(Number);
-        data.color = colors as [number, number, number];
-      } else {
-        data[key.toLowerCase()] = Number(value);
-      }
-    }
-  });
-  
-  return data as DeviceSettings;
-};
-
-const parsePowerResponse = (response: string): any => {
-  const data: any = {};
-  const parts = response.substring(6).split(',');
-  
-  parts.forEach(part => {
-    const [key, value] = part.split(':');
-    if (key && value) {
-      data[key.toLowerCase()] = Number(value);
-    }
-  });
-  
-  return data;
-};
+// Device Status (STATUS response)
+export interface DeviceStatus {
+  connected: boolean;
+  brightness: number;
+  pattern: number;
+  power: number;
+}
 
-const parseEffectsResponse = (response: string): string[] => {
-  const effects = response.substring(8);
-  return effects.split(',').map(effect => effect.trim());
-};
+// Power Info (POWER response)
+export interface PowerInfo {
+  batteryPercent: number; // 0-100
+  voltage: number; // Volts
+  currentMa: number;
+  powerMode: number; // POWER_MODES
+}
 
-const parseDeviceResponse = (response: string): any => {
-  const data: any = {};
-  const parts = response.substring(7).split(',');
-  
-  parts.forEach(part => {
-    const [key, value] = part.split(':');
-    if (key && value) {
-      data[key.toLowerCase()] = isNaN(Number(value)) ? value : Number(value);
-    }
-  });
-  
-  return data;
-};
+// Device Info (DEVICE response)
+export interface DeviceInfo {
+  name: string;
+  ledCount: number;
+  brightness: number;
+  pattern: number;
+  powerMode: number; // POWER_MODES
+}
 
+// Parsed text protocol response (see domain/bluetooth/textResponseParser.ts)
+// Malformed responses come back as ERROR with an UNKNOWN_ERROR envelope
+export type TextResponse =
+  | { type: typeof RESPONSE_TYPES.SUCCESS; data: string }
+  | { type: typeof RESPONSE_TYPES.ERROR; error: ErrorEnvelope }
+  | { type: typeof RESPONSE_TYPES.STATUS; data: DeviceStatus }
+  | { type: typeof RESPONSE_TYPES.SETTINGS; data: DeviceSettings }
+  | { type: typeof RESPONSE_TYPES.POWER; data: PowerInfo }
+  | { type: typeof RESPONSE_TYPES.EFFECTS; data: string[] }
+  | { type: typeof RESPONSE_TYPES.DEVICE; data: DeviceInfo }
+  | { type: typeof RESPONSE_TYPES.RAW; data: string };
 
+export type TextResponseType = TextResponse['type'];
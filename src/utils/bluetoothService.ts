@@ -1,10 +1,15 @@
 import { Platform } from 'react-native';
 import { BluetoothDevice, BLEConnection } from '../types/bluetooth';
-import { NUS_SERVICE_UUID, NUS_WRITE_CHAR_UUID, NUS_NOTIFY_CHAR_UUID, isUuidLikelyUart } from './bleConstants';
+import { NUS_SERVICE_UUID, NUS_WRITE_CHAR_UUID, NUS_NOTIFY_CHAR_UUID, isUuidLikelyUart, getDeviceDisplayName } from './bleConstants';
 import { CommandResponse, AnalyticsBatch, ResponseType } from '../types/commands';
 import { ErrorEnvelope, BLEError, ErrorCode } from '../types/errors';
 import { BLECommandEncoder } from './bleCommandEncoder';
-import { bluetoothWebService } from './bluetoothWebService';
+import { ProtocolCodec, DecodedFrame, DecodedResponse, UNSOLICITED_SEQUENCE_ID } from '../domain/bluetooth/protocolCodec';
+import { Fragmenter, Reassembler, DEFAULT_ATT_MTU, REQUESTED_ATT_MTU } from '../domain/bluetooth/fragmentation';
+import { PendingRequestTable } from '../domain/bluetooth/pendingRequestTable';
+import { trafficRecorder } from '../domain/bluetooth/trafficRecorder';
+import { WriteCreditGate, selectWriteType } from '../domain/bluetooth/writeFlowControl';
+import type { BleTransport, SendCommandOptions } from '../domain/bluetooth/bleTransport';
 
 // TODO For Agent
 // - We have listeners and callbacks. They should be handled in a more centralized way. RIght now it feels a bit one-shotty.
@@ -23,15 +28,19 @@ if (Platform.OS !== 'web') {
   }
 }
 
-class BluetoothService {
+class BluetoothService implements BleTransport {
   private manager: any;
   private isInitialized: boolean = false;
   private connectedDevices: Map<string, any> = new Map();
   private notificationSubscriptions: Map<string, any> = new Map();
-  private responseCallbacks: Map<string, (response: CommandResponse | ErrorEnvelope | AnalyticsBatch) => void> = new Map();
+  private pendingRequests: Map<string, PendingRequestTable> = new Map(); // In-flight commands keyed by sequence ID
   private analyticsCallbacks: Map<string, (batch: AnalyticsBatch) => void> = new Map();
-  private analyticsBuffers: Map<string, Uint8Array> = new Map(); // Buffer for multi-chunk analytics batches
+  private fragmenters: Map<string, Fragmenter> = new Map(); // Splits outgoing frames to the negotiated MTU
+  private reassemblers: Map<string, Reassembler> = new Map(); // Rebuilds incoming frames from fragments
+  private writeQueues: Map<string, Promise<void>> = new Map(); // Keeps fragments of one frame together
+  private writeCredits: Map<string, WriteCreditGate> = new Map(); // Backpressure for unacknowledged writes
   private disconnectionListeners: Map<string, (deviceId: string) => void> = new Map();
+  private notificationListeners: Map<string, Set<(response: DecodedResponse) => void>> = new Map();
 
   constructor() {
     if (Platform.OS !== 'web' && BleManager) {
@@ -81,7 +90,7 @@ class BluetoothService {
     }
   }
 
-  async startScan(onDeviceFound?: (device: any) => void): Promise<void> {
+  async startScan(onDeviceFound: (device: BluetoothDevice) => void): Promise<void> {
     if (!this.isInitialized) {
       throw new Error('Bluetooth not initialized');
     }
@@ -122,9 +131,15 @@ class BluetoothService {
               });
             }
 
-            if (onDeviceFound) {
-              onDeviceFound(device);
-            }
+            onDeviceFound({
+              id: device.id,
+              name: getDeviceDisplayName(device),
+              rssi: device.rssi || -50,
+              isConnected: false,
+              manufacturerData: device.manufacturerData || 'Unknown',
+              serviceUUIDs: device.serviceUUIDs || [],
+              localName: device.localName ?? undefined,
+            });
           }
         }
       );
@@ -137,21 +152,29 @@ class BluetoothService {
 
   async stopScan(): Promise<void> {
     try {
-      this.manager.stopDeviceScan();
+      this.manager?.stopDeviceScan();
     } catch (error) {
       console.error('Failed to stop scan:', error);
     }
   }
 
-  async connectToDevice(deviceId: string): Promise<any> {
+  async connectToDevice(deviceId: string): Promise<void> {
     try {
-      if (Platform.OS === 'web')
-        return await bluetoothWebService.connectToDevice(deviceId);
-
-      const device = await this.manager.connectToDevice(deviceId);
+      let device = await this.manager.connectToDevice(deviceId);
       await device.discoverAllServicesAndCharacteristics();
       console.log('Successfully connected to device:', device.name || deviceId);
 
+      // Android starts at the minimum MTU and must ask for more; iOS negotiates on its own
+      if (Platform.OS === 'android') {
+        try {
+          device = await device.requestMTU(REQUESTED_ATT_MTU);
+        } catch (mtuError) {
+          console.warn('MTU negotiation failed, using default:', mtuError);
+        }
+      }
+      this.fragmenters.set(deviceId, new Fragmenter(device.mtu || DEFAULT_ATT_MTU));
+      console.log(`Negotiated MTU for ${deviceId}: ${this.getMtu(deviceId)}`);
+
       // Store connected device
       this.connectedDevices.set(deviceId, device);
 
@@ -163,8 +186,6 @@ class BluetoothService {
 
       // Setup notification listener
       await this.setupNotifications(deviceId, device);
-
-      return device;
     } catch (error) {
       console.error('Failed to connect to device:', error);
       throw new Error(`Connection failed: ${(error as Error).message}`);
@@ -199,10 +220,10 @@ class BluetoothService {
       this.notificationSubscriptions.delete(deviceId);
     }
 
-    // Remove callbacks and buffers
-    this.responseCallbacks.delete(deviceId);
+    // Fail in-flight commands and remove callbacks and buffers
+    this.cancelPendingCommands(deviceId, new Error('Device disconnected'));
     this.analyticsCallbacks.delete(deviceId);
-    this.analyticsBuffers.delete(deviceId);
+    this.clearTransportState(deviceId);
     
     // Remove from connected devices
     this.connectedDevices.delete(deviceId);
@@ -228,43 +249,21 @@ class BluetoothService {
     this.disconnectionListeners.delete(deviceId);
   }
 
-  // TODO FOR Agent: The old version used this pattern of subscriptions, with push for responses
-  // Which is a more stable approach?
-  // Implications: converting callbacks to subscriptions
-
- /*    * Subscribe to response notifications
-  subscribeToResponses(listener: (data: Uint8Array | string) => void): () => void {
-    // Delegate to web service if on web platform
-    if (Platform.OS === 'web') {
-      return bluetoothWebService.subscribeToResponses(listener);
+  /**
+   * Listen to every decoded response from a device, including unsolicited notifications
+   */
+  subscribeToNotifications(deviceId: string, listener: (response: DecodedResponse) => void): () => void {
+    let listeners = this.notificationListeners.get(deviceId);
+    if (!listeners) {
+      listeners = new Set();
+      this.notificationListeners.set(deviceId, listeners);
     }
-
-    this.responseListeners.push(listener);
+    listeners.add(listener);
     return () => {
-      this.responseListeners = this.responseListeners.filter(l => l !== listener);
+      listeners!.delete(listener);
     };
   }
 
-  async disconnectDevice(deviceId: string): Promise<void> {
-    // Delegate to web service if on web platform
-    if (Platform.OS === 'web') {
-      return await bluetoothWebService.disconnectDevice(deviceId);
-    }
-
-    try {
-      // Remove notification subscription
-      const subscription = this.notificationSubscriptions.get(deviceId);
-      if (subscription) {
-        subscription.remove();
-        this.notificationSubscriptions.delete(deviceId);
-      }
-
-      await this.manager.cancelDeviceConnection(deviceId);
-    } catch (error) {
-      console.error('Failed to disconnect device:', error);
-    }
-  } */
-
   /**
    * Setup notification listener for device responses
    */
@@ -305,87 +304,8 @@ class BluetoothService {
             bytes[i] = binaryString.charCodeAt(i);
           }
 
-          // Decode response
-          try {
-            // Check if this is an analytics batch (starts with RESP_ANALYTICS_BATCH)
-            if (bytes[0] === ResponseType.ANALYTICS_BATCH) {
-              // Buffer analytics data (may come in multiple chunks)
-              const existingBuffer = this.analyticsBuffers.get(deviceId);
-              const combinedBuffer = existingBuffer 
-                ? new Uint8Array([...existingBuffer, ...bytes])
-                : bytes;
-              
-              // Try to decode (may need more chunks)
-              try {
-                const batch = BLECommandEncoder.decodeAnalyticsBatch(combinedBuffer);
-                // Successfully decoded - clear buffer and call callback
-                this.analyticsBuffers.delete(deviceId);
-                const analyticsCallback = this.analyticsCallbacks.get(deviceId);
-                if (analyticsCallback) {
-                  analyticsCallback(batch);
-                  this.analyticsCallbacks.delete(deviceId);
-                }
-              } catch (decodeError) {
-                // Not enough data yet - buffer it
-                this.analyticsBuffers.set(deviceId, combinedBuffer);
-              }
-              return;
-            }
-
-            // Pass raw bytes to ConfigurationModule to parse config (if it's an enter config response)
-            // This must happen before decodeResponse to preserve the full response
-            // Format: 8 bytes [0x90, brightness, speed, r, g, b, effectType, powerState]
-            if (bytes.length === 8 && bytes[0] === 0x90) {
-              try {
-                const { configurationModule } = require('../domain/bluetooth/configurationModule');
-                configurationModule.handleResponse(bytes);
-                // Skip decodeResponse for config responses - they're handled by ConfigurationModule
-                // Still check for callback in case sendCommand is waiting
-                const callback = this.responseCallbacks.get(deviceId);
-                if (callback) {
-                  // Return a success response for the command
-                  callback({
-                    type: ResponseType.ACK_CONFIG_MODE,
-                    isSuccess: true,
-                    data: bytes.slice(1),
-                  });
-                  this.responseCallbacks.delete(deviceId);
-                }
-                return; // Don't process further
-              } catch (error) {
-                // TODO FOR AGENT: Error envelope pattern
-                console.error('[BluetoothService] Failed to handle config response:', error);
-                // Continue to normal processing if config handling fails
-              }
-            }
-
-            const response = BLECommandEncoder.decodeResponse(bytes);
-
-            // Find callback for this device (if any)
-            const callback = this.responseCallbacks.get(deviceId);
-            if (callback) {
-              callback(response);
-              this.responseCallbacks.delete(deviceId);
-            }
-          } catch (error) {
-            console.error('Failed to decode response:', error);
-
-            // Pass the error to the callback so the promise can reject immediately
-            const callback = this.responseCallbacks.get(deviceId);
-            if (callback) {
-              // If it's a BLEError, pass it as an ErrorEnvelope
-              if (error instanceof BLEError) {
-                callback(error.envelope);
-              } else {
-                // For other errors, wrap in ErrorEnvelope
-                callback({
-                  code: ErrorCode.UNKNOWN_ERROR,
-                  message: (error as Error).message || 'Failed to decode response',
-                });
-              }
-              this.responseCallbacks.delete(deviceId);
-            }
-          }
+          trafficRecorder.record('rx', deviceId, bytes);
+          this.handleNotificationBytes(deviceId, bytes);
         }
       });
 
@@ -395,6 +315,144 @@ class BluetoothService {
     }
   }
 
+  /**
+   * Reassemble frames from notification fragments and dispatch each decoded response
+   */
+  private handleNotificationBytes(deviceId: string, bytes: Uint8Array): void {
+    for (const frameBytes of this.getReassembler(deviceId).push(bytes)) {
+      let frame: DecodedFrame;
+      try {
+        frame = ProtocolCodec.decode(frameBytes);
+      } catch (error) {
+        console.error('Failed to decode response:', error);
+
+        // Best effort: reject the request named in the (unverified) header so it
+        // fails immediately instead of timing out
+        const envelope: ErrorEnvelope = error instanceof BLEError
+          ? error.envelope
+          : { code: ErrorCode.UNKNOWN_ERROR, message: (error as Error).message || 'Failed to decode response' };
+        this.rejectBySequenceId(deviceId, ProtocolCodec.peekSequenceId(frameBytes), new BLEError(envelope));
+        continue;
+      }
+
+      this.dispatchFrame(deviceId, frame);
+    }
+  }
+
+  /**
+   * Get (or create) the fragment reassembler for a device
+   * A message that never completes fails the request it was answering
+   */
+  private getReassembler(deviceId: string): Reassembler {
+    let reassembler = this.reassemblers.get(deviceId);
+    if (!reassembler) {
+      reassembler = new Reassembler({
+        onIncomplete: (error, firstChunk) => {
+          this.rejectBySequenceId(deviceId, firstChunk ? ProtocolCodec.peekSequenceId(firstChunk) : null, error);
+        },
+      });
+      this.reassemblers.set(deviceId, reassembler);
+    }
+    return reassembler;
+  }
+
+  private rejectBySequenceId(deviceId: string, sequenceId: number | null, error: Error): void {
+    if (sequenceId !== null && sequenceId !== UNSOLICITED_SEQUENCE_ID) {
+      this.pendingRequests.get(deviceId)?.reject(sequenceId, error);
+    }
+  }
+
+  /**
+   * Drop fragmentation state for a device
+   */
+  private clearTransportState(deviceId: string): void {
+    this.reassemblers.get(deviceId)?.reset();
+    this.reassemblers.delete(deviceId);
+    this.fragmenters.delete(deviceId);
+    this.writeQueues.delete(deviceId);
+    this.writeCredits.delete(deviceId);
+  }
+
+  /**
+   * Negotiated ATT MTU for a connected device
+   */
+  getMtu(deviceId: string): number {
+    return this.fragmenters.get(deviceId)?.getMtu() ?? DEFAULT_ATT_MTU;
+  }
+
+  /**
+   * Current signal strength in dBm
+   */
+  async readRssi(deviceId: string): Promise<number | null> {
+    const device = this.connectedDevices.get(deviceId);
+    if (!device) {
+      throw new Error('Device not connected');
+    }
+    const updated = await device.readRSSI();
+    return updated.rssi ?? null;
+  }
+
+  /**
+   * Route a decoded frame to listeners, analytics, ConfigurationModule and the pending command
+   */
+  private dispatchFrame(deviceId: string, frame: DecodedFrame): void {
+    const { response, sequenceId } = frame;
+
+    this.notificationListeners.get(deviceId)?.forEach(listener => {
+      try {
+        listener(response);
+      } catch (error) {
+        console.error('[BluetoothService] Notification listener failed:', error);
+      }
+    });
+
+    if (ProtocolCodec.isAnalyticsBatch(response)) {
+      const analyticsCallback = this.analyticsCallbacks.get(deviceId);
+      if (analyticsCallback) {
+        analyticsCallback(response);
+        this.analyticsCallbacks.delete(deviceId);
+      }
+    } else if (!ProtocolCodec.isErrorEnvelope(response) && response.type === ResponseType.ACK_CONFIG_MODE) {
+      // Config snapshot from enter config mode - let ConfigurationModule store it
+      try {
+        const { configurationModule } = require('../domain/bluetooth/configurationModule');
+        configurationModule.handleResponse(response);
+      } catch (error) {
+        console.error('[BluetoothService] Failed to handle config response:', error);
+      }
+    }
+
+    if (sequenceId === UNSOLICITED_SEQUENCE_ID) {
+      console.log('[BluetoothService] Unsolicited notification:', response);
+      return;
+    }
+
+    const resolved = this.pendingRequests.get(deviceId)?.resolve(sequenceId, response);
+    if (!resolved) {
+      console.warn(`[BluetoothService] Dropping response for stale sequence ${sequenceId}`);
+    }
+  }
+
+  /**
+   * Get (or create) the in-flight command table for a device
+   */
+  private getPendingRequests(deviceId: string): PendingRequestTable {
+    let table = this.pendingRequests.get(deviceId);
+    if (!table) {
+      table = new PendingRequestTable();
+      this.pendingRequests.set(deviceId, table);
+    }
+    return table;
+  }
+
+  /**
+   * Reject every command still waiting for a response from a device
+   */
+  cancelPendingCommands(deviceId: string, reason: Error = new Error('Command cancelled')): void {
+    this.pendingRequests.get(deviceId)?.rejectAll(reason);
+    this.pendingRequests.delete(deviceId);
+  }
+
   /**
    * Set callback for analytics batches
    */
@@ -409,7 +467,6 @@ class BluetoothService {
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
         this.analyticsCallbacks.delete(deviceId);
-        this.analyticsBuffers.delete(deviceId);
         reject(new Error('Analytics request timeout'));
       }, 10000); // 10 second timeout
 
@@ -422,7 +479,6 @@ class BluetoothService {
       this.sendCommand(deviceId, command).catch((error) => {
         clearTimeout(timeout);
         this.analyticsCallbacks.delete(deviceId);
-        this.analyticsBuffers.delete(deviceId);
         reject(error);
       });
     });
@@ -432,20 +488,12 @@ class BluetoothService {
    * Confirm receipt of analytics batch
    */
   async confirmAnalytics(deviceId: string, batchId: number): Promise<CommandResponse> {
-    if (Platform.OS === 'web') {
-      console.error('Confirm analytics not supported on web'); // return await bluetoothWebService.confirmAnalytics(deviceId, batchId);
-      throw new Error('Confirm analytics not yet supported on web');
-    }
-
     const command = BLECommandEncoder.encodeConfirmAnalytics(batchId);
     return this.sendCommand(deviceId, command);
   }
 
   async disconnectDevice(deviceId: string): Promise<void> {
     try {
-      if (Platform.OS === 'web')
-        return await bluetoothWebService.disconnectDevice(deviceId);
-
       // Remove notification subscription
       const subscription = this.notificationSubscriptions.get(deviceId);
       if (subscription) {
@@ -453,8 +501,9 @@ class BluetoothService {
         this.notificationSubscriptions.delete(deviceId);
       }
       
-      // Remove response callback
-      this.responseCallbacks.delete(deviceId);
+      // Fail in-flight commands and drop partial messages
+      this.cancelPendingCommands(deviceId, new Error('Device disconnected'));
+      this.clearTransportState(deviceId);
       
       // Remove from connected devices
       this.connectedDevices.delete(deviceId);
@@ -467,52 +516,84 @@ class BluetoothService {
 
   /**
    * Send a BLE command and wait for response
+   * The command is wrapped in a v2 frame and matched to its response by sequence ID,
+   * so several commands may be in flight at once
    */
-  async sendCommand(deviceId: string, command: Uint8Array, timeout: number = 5000): Promise<CommandResponse> {
-    return new Promise((resolve, reject) => {
-      const device = this.connectedDevices.get(deviceId);
-      if (!device) {
-        reject(new Error('Device not connected'));
-        return;
-      }
+  async sendCommand(
+    deviceId: string,
+    command: Uint8Array,
+    timeout: number = 5000,
+    options: SendCommandOptions = {}
+  ): Promise<CommandResponse> {
+    if (!this.connectedDevices.has(deviceId)) {
+      throw new Error('Device not connected');
+    }
 
-      // Setup timeout
-      const timeoutId = setTimeout(() => {
-        this.responseCallbacks.delete(deviceId);
-        reject(new Error('Command timeout'));
-      }, timeout);
-
-      // Setup response callback
-      this.responseCallbacks.set(deviceId, (response: CommandResponse | ErrorEnvelope | AnalyticsBatch) => {
-        clearTimeout(timeoutId);
-
-        if ('code' in response) {
-          // It's an ErrorEnvelope
-          reject(new BLEError(response));
-        } else if ('batchId' in response) {
-          // It's an AnalyticsBatch (shouldn't happen here, but handle for type safety)
-          reject(new Error('Analytics batch received in command response callback'));
-        } else if ('type' in response && 'isSuccess' in response) {
-          // It's a CommandResponse
-          resolve(response as CommandResponse);
-        } else {
-          reject(new Error('Unknown response type'));
-        }
-      });
+    const pendingRequests = this.getPendingRequests(deviceId);
+    const sequenceId = pendingRequests.allocateSequenceId();
+    const frame = ProtocolCodec.encodeFrame(command, sequenceId);
+    const responsePromise = pendingRequests.register(sequenceId, { timeoutMs: timeout, signal: options.signal });
 
-      // Send command
-      this.sendCommandData(deviceId, command).catch((error) => {
-        clearTimeout(timeoutId);
-        this.responseCallbacks.delete(deviceId);
-        reject(error);
-      });
+    this.sendFrame(deviceId, frame).catch((error) => {
+      pendingRequests.reject(sequenceId, error);
+    });
+
+    return ProtocolCodec.toCommandResponse(await responsePromise);
+  }
+
+  /**
+   * Send a command with write-without-response and no reply (fire-and-forget, e.g. live previews)
+   * The frame carries UNSOLICITED_SEQUENCE_ID so the device does not answer. Resolves once the
+   * frame is written; waits first while too many unacknowledged frames are still queued
+   */
+  async sendUnacknowledged(deviceId: string, command: Uint8Array): Promise<void> {
+    if (!this.connectedDevices.has(deviceId)) {
+      throw new Error('Device not connected');
+    }
+
+    let credits = this.writeCredits.get(deviceId);
+    if (!credits) {
+      credits = new WriteCreditGate();
+      this.writeCredits.set(deviceId, credits);
+    }
+
+    await credits.acquire();
+    try {
+      await this.sendFrame(deviceId, ProtocolCodec.encodeFrame(command, UNSOLICITED_SEQUENCE_ID), false);
+    } finally {
+      credits.release();
+    }
+  }
+
+  /**
+   * Fragment a frame to the device's MTU and write the fragments in order
+   * Writes are queued per device so fragments of concurrent frames never interleave
+   */
+  private sendFrame(deviceId: string, frame: Uint8Array, acknowledged: boolean = true): Promise<void> {
+    let fragmenter = this.fragmenters.get(deviceId);
+    if (!fragmenter) {
+      fragmenter = new Fragmenter();
+      this.fragmenters.set(deviceId, fragmenter);
+    }
+    const fragments = fragmenter.fragment(frame);
+
+    const previous = this.writeQueues.get(deviceId) ?? Promise.resolve();
+    const write = previous.then(async () => {
+      for (const fragment of fragments) {
+        await this.sendCommandData(deviceId, fragment, acknowledged);
+      }
     });
+
+    // Keep the queue alive after a failed write
+    this.writeQueues.set(deviceId, write.catch(() => {}));
+    return write;
   }
 
   /**
    * Send command data to device
+   * Acknowledged frames use write-with-response where the characteristic allows it
    */
-  private async sendCommandData(deviceId: string, data: Uint8Array): Promise<void> {
+  private async sendCommandData(deviceId: string, data: Uint8Array, acknowledged: boolean): Promise<void> {
     const device = this.connectedDevices.get(deviceId);
     if (!device) {
       throw new Error('Device not connected');
@@ -540,14 +621,19 @@ class BluetoothService {
         throw new Error('Write characteristic not found');
       }
 
+      trafficRecorder.record('tx', deviceId, data);
+
       // Convert Uint8Array to base64
       const binaryString = String.fromCharCode(...Array.from(data));
       const base64Message = btoa(binaryString);
 
-      // Try writeWithoutResponse first (faster), then writeWithResponse
-      try {
+      const writeType = selectWriteType({
+        write: writeCharacteristic.isWritableWithResponse,
+        writeWithoutResponse: writeCharacteristic.isWritableWithoutResponse,
+      }, acknowledged);
+      if (writeType === 'withoutResponse') {
         await writeCharacteristic.writeWithoutResponse(base64Message);
-      } catch (error) {
+      } else {
         await writeCharacteristic.writeWithResponse(base64Message);
       }
     } catch (error) {
@@ -556,16 +642,14 @@ class BluetoothService {
     }
   }
 
-  async sendMessage(deviceId: string, message: string): Promise<void> {
+  /**
+   * Write raw text; replies to text commands are not captured on native, so this resolves with null
+   */
+  async sendMessage(deviceId: string, message: string): Promise<string | null> {
     try {
       console.log('🔍 Attempting to send message to device:', deviceId);
       console.log('📝 Message:', message);
 
-      if (Platform.OS === 'web') {
-        await bluetoothWebService.sendMessage(deviceId, message);
-        return;
-      }
-
       const device = await this.manager.devices([deviceId]);
       if (device.length === 0) {
         throw new Error('Device not found');
@@ -641,6 +725,7 @@ class BluetoothService {
       }
       
       console.log('✅ Message sent successfully:', message);
+      return null;
     } catch (error) {
       console.error('❌ Failed to send message:', error);
       throw new Error(`Send failed: ${(error as Error).message}`);
@@ -649,9 +734,6 @@ class BluetoothService {
 
   async getConnectedDevices(): Promise<any[]> {
     try {
-      if (Platform.OS === 'web')
-        return await bluetoothWebService.getConnectedDevices();
-
       return await this.manager.connectedDevices([]);
     } catch (error) {
       console.error('Failed to get connected devices:', error);
@@ -1,18 +1,36 @@
 import { BluetoothDevice } from '../types/bluetooth';
 import { NUS_SERVICE_UUID, NUS_NOTIFY_CHAR_UUID, NUS_WRITE_CHAR_UUID } from './bleConstants';
-import { CommandResponse, ResponseType } from '../types/commands';
-import { BLECommandEncoder } from './bleCommandEncoder';
-import { BLEError, ErrorCode } from '../types/errors';
+import { CommandResponse, ResponseType, AnalyticsBatch } from '../types/commands';
+import { BLEError, ErrorCode, ErrorEnvelope } from '../types/errors';
 import { configurationModule } from '../domain/bluetooth/configurationModule';
-import { getErrorMessage } from '../domain/common/errorEnvelope';
+import { ProtocolCodec, DecodedFrame, DecodedResponse, UNSOLICITED_SEQUENCE_ID } from '../domain/bluetooth/protocolCodec';
+import { Fragmenter, Reassembler } from '../domain/bluetooth/fragmentation';
+import { PendingRequestTable } from '../domain/bluetooth/pendingRequestTable';
+import { trafficRecorder } from '../domain/bluetooth/trafficRecorder';
+import { WriteCreditGate, selectWriteType } from '../domain/bluetooth/writeFlowControl';
+import type { BleTransport, SendCommandOptions } from '../domain/bluetooth/bleTransport';
+import { BLECommandEncoder } from './bleCommandEncoder';
 
-class BluetoothWebService {
+class BluetoothWebService implements BleTransport {
   private isSupported: boolean = false;
   private selectedDevice: any = null;
   private gattServer: any = null;
   private notifyCharacteristic: any = null;
   private responseCallback: ((response: string) => void) | null = null;
-  private rawResponseBytes: Uint8Array | null = null;
+  private pendingRequests: PendingRequestTable = new PendingRequestTable();
+  private fragmenter: Fragmenter = new Fragmenter(); // Web Bluetooth does not expose the MTU, so assume the minimum
+  private reassembler: Reassembler = new Reassembler({
+    onIncomplete: (error, firstChunk) => {
+      const sequenceId = firstChunk ? ProtocolCodec.peekSequenceId(firstChunk) : null;
+      if (sequenceId !== null && sequenceId !== UNSOLICITED_SEQUENCE_ID) {
+        this.pendingRequests.reject(sequenceId, error);
+      }
+    },
+  });
+  private writeQueue: Promise<void> = Promise.resolve(); // Web Bluetooth allows one GATT write at a time
+  private writeCredits: WriteCreditGate = new WriteCreditGate(); // Backpressure for unacknowledged writes
+  private disconnectionListeners: Map<string, (deviceId: string) => void> = new Map();
+  private notificationListeners: Set<(response: DecodedResponse) => void> = new Set(); // One device at a time on the web
 
   constructor() {
     this.isSupported = this.checkWebBluetoothSupport();
@@ -23,6 +41,10 @@ class BluetoothWebService {
     return !!(nav && nav.bluetooth && typeof nav.bluetooth.requestDevice === 'function');
   }
 
+  isAvailable(): boolean {
+    return this.isSupported;
+  }
+
   async initialize(): Promise<boolean> {
     if (!this.isSupported) {
       throw new Error('Web Bluetooth is not supported in this browser');
@@ -35,7 +57,10 @@ class BluetoothWebService {
     return true;
   }
 
-  async startScan(): Promise<BluetoothDevice[]> {
+  /**
+   * Open the browser's device picker and report the chosen device
+   */
+  async startScan(onDeviceFound: (device: BluetoothDevice) => void): Promise<void> {
     if (!this.isSupported) {
       throw new Error('Web Bluetooth is not supported');
     }
@@ -64,7 +89,7 @@ class BluetoothWebService {
       };
 
       console.log('Returning device for UI:', bluetoothDevice);
-      return [bluetoothDevice];
+      onDeviceFound(bluetoothDevice);
     } catch (error) {
       console.error('Web Bluetooth scan error:', error);
       throw new Error('Failed to scan for devices: ' + (error as Error).message);
@@ -123,7 +148,7 @@ class BluetoothWebService {
     }
   }
 
-  async connectToDevice(deviceId: string): Promise<any> {
+  async connectToDevice(deviceId: string): Promise<void> {
     if (!this.isSupported) {
       throw new Error('Web Bluetooth is not supported');
     }
@@ -157,18 +182,50 @@ class BluetoothWebService {
 
       // Store the GATT server for later use
       this.gattServer = server;
+      this.selectedDevice.removeEventListener?.('gattserverdisconnected', this.handleDisconnection);
+      this.selectedDevice.addEventListener?.('gattserverdisconnected', this.handleDisconnection);
 
       // Set up notifications for responses
       await this.setupNotifications(server);
 
       console.log('Successfully connected to device via Web Bluetooth');
-      return { device: this.selectedDevice, server };
     } catch (error) {
       console.error('Web Bluetooth connection error:', error);
       throw new Error('Failed to connect to device: ' + (error as Error).message);
     }
   }
 
+  /**
+   * The browser dropped the GATT connection (out of range, device reset, ...)
+   */
+  private handleDisconnection = (): void => {
+    const deviceId = this.selectedDevice?.id ?? '';
+    console.log('Device disconnected via Web Bluetooth:', deviceId);
+    this.notifyCharacteristic = null;
+    this.gattServer = null;
+    this.cancelPendingCommands(deviceId, new Error('Device disconnected'));
+    this.reassembler.reset();
+    this.disconnectionListeners.get(deviceId)?.(deviceId);
+  };
+
+  onDisconnection(deviceId: string, callback: (deviceId: string) => void): void {
+    this.disconnectionListeners.set(deviceId, callback);
+  }
+
+  removeDisconnectionListener(deviceId: string): void {
+    this.disconnectionListeners.delete(deviceId);
+  }
+
+  /**
+   * Listen to every decoded response, including unsolicited notifications
+   */
+  subscribeToNotifications(_deviceId: string, listener: (response: DecodedResponse) => void): () => void {
+    this.notificationListeners.add(listener);
+    return () => {
+      this.notificationListeners.delete(listener);
+    };
+  }
+
   private async setupNotifications(server: any): Promise<void> {
     try {
       console.log('Setting up notifications for responses...');
@@ -195,6 +252,7 @@ class BluetoothWebService {
           
           // Convert DataView to Uint8Array for easier handling
           const bytes = new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+          trafficRecorder.record('rx', this.selectedDevice?.id ?? '', bytes);
           
           // Format as hex for display (more useful for binary protocol)
           const hexString = Array.from(bytes)
@@ -202,33 +260,25 @@ class BluetoothWebService {
             .join(' ');
           console.log('Response bytes:', hexString);
           
-          // Store the raw bytes for sendCommand to use
-          this.rawResponseBytes = bytes;
-
-          // Also pass config responses directly to ConfigurationModule (for async notifications)
-          console.log('[WebBLE] Notification: Checking bytes length and bytes:', bytes.length, 'bytes:', Array.from(bytes).map(b => '0x' + b.toString(16).padStart(2, '0')).join(' '));
-          if (bytes.length === 8 && bytes[0] === 0x90) {
-            try {
-              console.log('[WebBLE] Notification: About to call handleResponse with bytes:', Array.from(bytes));
-              console.log('[WebBLE] Notification: Using imported configurationModule instance');
-              configurationModule.handleResponse(bytes);
-              console.log('[WebBLE] Passed config response to ConfigurationModule from notification');
-            } catch (error) {
-              console.error('[WebBLE] Failed to handle config response in notification:', error);
-              console.error('[WebBLE] Error stack:', error instanceof Error ? error.stack : 'No stack');
-            }
+          // Reassemble frames from fragments and route each decoded response
+          const frames = this.reassembler.push(bytes);
+          const formatted: string[] = [];
+          for (const frameBytes of frames) {
+            formatted.push(this.handleFrame(frameBytes));
           }
 
           // Try to decode as text if it looks like ASCII
           let responseText: string;
-          if (bytes.length > 0 && bytes.every(b => b >= 32 && b <= 126)) {
+          if (frames.length > 0) {
+            responseText = formatted.join(' ');
+            console.log('Formatted binary response:', responseText);
+          } else if (bytes.length > 0 && bytes.every(b => b >= 32 && b <= 126)) {
             const decoder = new TextDecoder();
             responseText = decoder.decode(value);
             console.log('Decoded as text:', responseText);
           } else {
-            // Format binary response with meaning (for logging/display)
-            responseText = this.formatBinaryResponse(bytes);
-            console.log('Formatted binary response:', responseText);
+            // Partial message - wait for the remaining fragments
+            return;
           }
           
           // Call the callback if it exists (for text-based responses)
@@ -259,17 +309,67 @@ class BluetoothWebService {
     }
   }
 
+  /**
+   * Decode one complete frame, dispatch it, and return a readable summary
+   */
+  private handleFrame(frameBytes: Uint8Array): string {
+    let frame: DecodedFrame;
+    try {
+      frame = ProtocolCodec.decode(frameBytes);
+    } catch (error) {
+      console.error('Error decoding response frame:', error);
+      const envelope: ErrorEnvelope = error instanceof BLEError
+        ? error.envelope
+        : { code: ErrorCode.UNKNOWN_ERROR, message: (error as Error).message || 'Failed to decode response' };
+      // Best effort: reject the request named in the (unverified) header
+      const sequenceId = ProtocolCodec.peekSequenceId(frameBytes);
+      if (sequenceId !== null) {
+        this.pendingRequests.reject(sequenceId, new BLEError(envelope));
+      }
+      return `✗ ${envelope.message}`;
+    }
+
+    const { response, sequenceId } = frame;
+
+    this.notificationListeners.forEach(listener => {
+      try {
+        listener(response);
+      } catch (error) {
+        console.error('[WebBLE] Notification listener failed:', error);
+      }
+    });
+
+    // Pass config snapshots to ConfigurationModule (also covers async notifications)
+    if (!ProtocolCodec.isErrorEnvelope(response) && !ProtocolCodec.isAnalyticsBatch(response) &&
+        response.type === ResponseType.ACK_CONFIG_MODE) {
+      try {
+        configurationModule.handleResponse(response);
+      } catch (error) {
+        console.error('[WebBLE] Failed to handle config response in notification:', error);
+      }
+    }
+
+    if (sequenceId !== UNSOLICITED_SEQUENCE_ID && !this.pendingRequests.resolve(sequenceId, response)) {
+      console.warn(`[WebBLE] Dropping response for stale sequence ${sequenceId}`);
+    }
+
+    return this.formatResponse(response, frameBytes);
+  }
+
   async disconnectDevice(deviceId: string): Promise<void> {
     try {
       if (this.notifyCharacteristic) {
         await this.notifyCharacteristic.stopNotifications();
         this.notifyCharacteristic = null;
       }
+      this.selectedDevice?.removeEventListener?.('gattserverdisconnected', this.handleDisconnection);
       if (this.gattServer) {
         await this.gattServer.disconnect();
         this.gattServer = null;
         console.log('Device disconnected via Web Bluetooth');
       }
+      this.cancelPendingCommands(deviceId, new Error('Device disconnected'));
+      this.reassembler.reset();
     } catch (error) {
       console.error('Web Bluetooth disconnect error:', error);
     }
@@ -286,11 +386,10 @@ class BluetoothWebService {
 
     try {
       // Use existing connection or connect if needed
-      let server = this.gattServer;
-      if (!server) {
-        const connection = await this.connectToDevice(deviceId);
-        server = connection.server;
+      if (!this.gattServer) {
+        await this.connectToDevice(deviceId);
       }
+      const server = this.gattServer;
 
       // Get the UART service
       const service = await server.getPrimaryService(NUS_SERVICE_UUID);
@@ -314,6 +413,7 @@ class BluetoothWebService {
       });
 
       // Write the raw bytes directly (no encoding!)
+      trafficRecorder.record('tx', deviceId, bytes);
       await writeCharacteristic.writeValue(bytes);
       const hexBytes = Array.from(bytes).map(b => '0x' + b.toString(16).padStart(2, '0')).join(' ');
       console.log('Raw bytes sent successfully via Web Bluetooth:', hexBytes);
@@ -340,11 +440,10 @@ class BluetoothWebService {
 
     try {
       // Use existing connection or connect if needed
-      let server = this.gattServer;
-      if (!server) {
-        const connection = await this.connectToDevice(deviceId);
-        server = connection.server;
+      if (!this.gattServer) {
+        await this.connectToDevice(deviceId);
       }
+      const server = this.gattServer;
 
       // Get the UART service
       const service = await server.getPrimaryService(NUS_SERVICE_UUID);
@@ -406,83 +505,131 @@ class BluetoothWebService {
   }
 
 
-  async sendCommand(deviceId: string, command: Uint8Array, timeout: number = 5000): Promise<CommandResponse> {
-    // Clear any previous response bytes
-    this.rawResponseBytes = null;
+  /**
+   * Send a BLE command and wait for response
+   * The command is wrapped in a v2 frame and matched to its response by sequence ID,
+   * so several commands may be in flight at once
+   */
+  async sendCommand(
+    deviceId: string,
+    command: Uint8Array,
+    timeout: number = 5000,
+    options: SendCommandOptions = {}
+  ): Promise<CommandResponse> {
+    const sequenceId = this.pendingRequests.allocateSequenceId();
+    const frame = ProtocolCodec.encodeFrame(command, sequenceId);
+    const responsePromise = this.pendingRequests.register(sequenceId, { timeoutMs: timeout, signal: options.signal });
+
+    this.writeFrame(deviceId, frame).catch((error) => {
+      this.pendingRequests.reject(sequenceId, error);
+    });
 
-    // Send command as raw bytes (this will trigger the notification callback which stores raw bytes)
-    await this.sendRawBytes(deviceId, command);
+    const response = await responsePromise;
+    console.log('📥 Received response:', response);
+    return ProtocolCodec.toCommandResponse(response);
+  }
 
-    // Wait for response (simple polling since binary responses are fast and fit in one packet)
-    const responseBytes = await new Promise<Uint8Array>((resolve, reject) => {
-      const checkInterval = setInterval(() => {
-        if (this.rawResponseBytes) {
-          clearInterval(checkInterval);
-          resolve(this.rawResponseBytes);
-        }
-      }, 50);
+  /**
+   * Send a command with write-without-response and no reply (fire-and-forget, e.g. live previews)
+   * Waits first while too many unacknowledged frames are still queued
+   */
+  async sendUnacknowledged(deviceId: string, command: Uint8Array): Promise<void> {
+    await this.writeCredits.acquire();
+    try {
+      await this.writeFrame(deviceId, ProtocolCodec.encodeFrame(command, UNSOLICITED_SEQUENCE_ID), false);
+    } finally {
+      this.writeCredits.release();
+    }
+  }
 
-      // Timeout fallback
-      setTimeout(() => {
-        clearInterval(checkInterval);
-        if (this.rawResponseBytes) {
-          resolve(this.rawResponseBytes);
-        } else {
-          reject(new Error('No response received from device'));
+  /**
+   * Reject every command still waiting for a response
+   */
+  cancelPendingCommands(_deviceId: string, reason: Error = new Error('Command cancelled')): void {
+    this.pendingRequests.rejectAll(reason);
+  }
+
+  /**
+   * Negotiated ATT MTU (Web Bluetooth does not report it, so this is the BLE minimum)
+   */
+  getMtu(_deviceId?: string): number {
+    return this.fragmenter.getMtu();
+  }
+
+  /**
+   * Web Bluetooth does not expose the RSSI of a connected device
+   */
+  async readRssi(_deviceId: string): Promise<number | null> {
+    return null;
+  }
+
+  /**
+   * Request analytics batch from device
+   */
+  async requestAnalytics(deviceId: string): Promise<AnalyticsBatch> {
+    return new Promise((resolve, reject) => {
+      const unsubscribe = this.subscribeToNotifications(deviceId, (response) => {
+        if (ProtocolCodec.isAnalyticsBatch(response)) {
+          clearTimeout(timeout);
+          unsubscribe();
+          resolve(response);
         }
-      }, timeout);
+      });
+      const timeout = setTimeout(() => {
+        unsubscribe();
+        reject(new Error('Analytics request timeout'));
+      }, 10000); // 10 second timeout
+
+      this.sendCommand(deviceId, BLECommandEncoder.encodeRequestAnalytics()).catch((error) => {
+        clearTimeout(timeout);
+        unsubscribe();
+        reject(error);
+      });
     });
+  }
 
-    if (!responseBytes) {
-      throw new Error('No response received from device');
-    }
+  /**
+   * Confirm receipt of analytics batch
+   */
+  async confirmAnalytics(deviceId: string, batchId: number): Promise<CommandResponse> {
+    return this.sendCommand(deviceId, BLECommandEncoder.encodeConfirmAnalytics(batchId));
+  }
 
-    // TypeScript type narrowing - responseBytes is now definitely Uint8Array
-    const responseBytesArray: Uint8Array = responseBytes;
+  /**
+   * Fragment a frame and write it without waiting for a response
+   * Writes are chained because Web Bluetooth rejects overlapping GATT operations,
+   * which also keeps the fragments of one frame together
+   */
+  private writeFrame(deviceId: string, frame: Uint8Array, acknowledged: boolean = true): Promise<void> {
+    const fragments = this.fragmenter.fragment(frame);
+    const write = this.writeQueue.then(async () => {
+      if (!this.selectedDevice) {
+        throw new Error('No device selected. Please scan for devices first.');
+      }
 
-    const hexBytes = Array.from(responseBytesArray).map(b => '0x' + b.toString(16).padStart(2, '0')).join(' ');
-    console.log('📥 Received response bytes:', hexBytes);
+      if (!this.gattServer) {
+        await this.connectToDevice(deviceId);
+      }
+      const server = this.gattServer;
 
-    // Pass to ConfigurationModule if it's a config response (8 bytes: 0x90 + 7 config bytes)
-    // Format: [0x90, brightness, speed, r, g, b, effectType, powerState] (RGB, not HSV)
-    if (responseBytesArray.length === 8 && responseBytesArray[0] === 0x90) {
-      try {
-        
-        // Call handleResponse to parse and store the config
-        configurationModule.handleResponse(responseBytesArray);
-        
-        // Check if the config was set by handleResponse
-        const parsedConfig = configurationModule.getLastReceivedConfig();
-        if (parsedConfig) {
-          console.log('[WebBLE] Config successfully parsed by handleResponse:', parsedConfig);
+      const service = await server.getPrimaryService(NUS_SERVICE_UUID);
+      const writeCharacteristic = await service.getCharacteristic(NUS_WRITE_CHAR_UUID);
+      const writeType = selectWriteType(writeCharacteristic.properties, acknowledged);
+      for (const fragment of fragments) {
+        trafficRecorder.record('tx', deviceId, fragment);
+        if (writeType === 'withoutResponse' && writeCharacteristic.writeValueWithoutResponse) {
+          await writeCharacteristic.writeValueWithoutResponse(fragment);
+        } else if (writeCharacteristic.writeValueWithResponse) {
+          await writeCharacteristic.writeValueWithResponse(fragment);
         } else {
-          console.warn('[WebBLE] handleResponse did not set config');
+          await writeCharacteristic.writeValue(fragment);
         }
-        
-        // Return a success response for the command (skip decodeResponse)
-        return {
-          type: ResponseType.ACK_CONFIG_MODE,
-          isSuccess: true,
-          data: responseBytesArray.slice(1), // Return the 7 config bytes
-        };
-      } catch (error) {
-        // TODO FOR AGENT: Error envelope pattern
-        console.error('[WebBLE] Failed to handle config response:', error);
-        // Continue to normal processing if config handling fails
       }
-    }
-
-    // Use BLECommandEncoder to properly decode the response
-    const decoded = BLECommandEncoder.decodeResponse(responseBytesArray);
-
-    // Check if it's an ErrorEnvelope
-    if ('code' in decoded && 'message' in decoded) {
-      // It's an ErrorEnvelope - throw as BLEError
-      throw new BLEError(decoded);
-    }
+    });
 
-    // It's a CommandResponse
-    return decoded as CommandResponse;
+    // Keep the queue alive after a failed write
+    this.writeQueue = write.catch(() => {});
+    return write;
   }
 
   destroy(): void {
@@ -521,37 +668,27 @@ class BluetoothWebService {
 }
   */
 
-  // Format binary response with meaning
-  private formatBinaryResponse(bytes: Uint8Array): string {
-    if (bytes.length === 0) {
-      return '[empty response]';
-    }
-
-    const firstByte = bytes[0];
-    const hexString = Array.from(bytes)
+  // Format decoded response with meaning
+  private formatResponse(response: DecodedResponse, frameBytes: Uint8Array): string {
+    const hexString = Array.from(frameBytes)
       .map(b => '0x' + b.toString(16).padStart(2, '0').toUpperCase())
       .join(' ');
 
-    // Interpret response based on protocol
-    switch (firstByte) {
-      case 0x90:
-        // 0x90 can be: CONFIG_MODE ack (1 byte), config response (8 bytes), or error envelope (variable)
-        if (bytes.length === 1) {
-          return `✓ ACK_CONFIG_MODE [${hexString}]`;
-        } else if (bytes.length === 8) {
-          return `📋 Config Response [${hexString}]`;
-        } else {
-          // Error envelope
-          const errorCode = bytes.length > 1 ? bytes[1] : ErrorCode.UNKNOWN_ERROR;
-          const errorMsg = getErrorMessage(errorCode);
-          return `✗ Error: ${errorMsg} [${hexString}]`;
-        }
-      case 0x91:
+    if (ProtocolCodec.isErrorEnvelope(response)) {
+      return `✗ Error: ${response.message} [${hexString}]`;
+    }
+
+    if (ProtocolCodec.isAnalyticsBatch(response)) {
+      return `📊 Analytics batch [${hexString}]`;
+    }
+
+    switch (response.type) {
+      case ResponseType.ACK_CONFIG_MODE:
+        return response.data ? `📋 Config Response [${hexString}]` : `✓ ACK_CONFIG_MODE [${hexString}]`;
+      case ResponseType.ACK_COMMIT:
         return `✓ ACK_COMMIT [${hexString}]`;
-      case 0x92:
+      case ResponseType.ACK_SUCCESS:
         return `✓ ACK_SUCCESS [${hexString}]`;
-      case 0xA0:
-        return `📊 Analytics batch [${hexString}]`;
       default:
         return `[${hexString}]`;
     }
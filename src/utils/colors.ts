@@ -1,4 +1,4 @@
-import { RGBColor } from "../types/config";
+import { HSVColor, RGBColor } from "../types/config";
 
 /**
  * Convert hex color to RGB color
@@ -22,4 +22,31 @@ export const rgbToHex = (rgb: RGBColor): string => {
 	const g = Math.round(rgb[1]).toString(16).padStart(2, '0');
 	const b = Math.round(rgb[2]).toString(16).padStart(2, '0');
 	return `#${r}${g}${b}`;
-};
\ No newline at end of file
+};
+
+/**
+ * Convert a FastLED HSV color (each channel 0-255) to RGB
+ * @param hsv - HSV color
+ * @returns RGB color
+ */
+export const hsvToRgb = (hsv: HSVColor): RGBColor => {
+	const h = hsv.h / 255;
+	const s = hsv.s / 255;
+	const v = hsv.v / 255;
+
+	const i = Math.floor(h * 6);
+	const f = h * 6 - i;
+	const p = v * (1 - s);
+	const q = v * (1 - f * s);
+	const t = v * (1 - (1 - f) * s);
+
+	const [r, g, b] = [
+		[v, t, p],
+		[q, v, p],
+		[p, v, t],
+		[p, q, v],
+		[t, p, v],
+		[v, p, q],
+	][i % 6];
+	return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)];
+};
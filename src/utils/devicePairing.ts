@@ -3,9 +3,8 @@
  * Manages device ownership and pairing state in AsyncStorage
  */
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-const PAIRED_DEVICES_KEY = 'paired_devices';
+import { appStorage } from '../domain/storage/appStorage';
+import { STORAGE_KEYS } from '../domain/storage/storageKeys';
 
 export interface PairedDevice {
   deviceId: string;
@@ -19,10 +18,7 @@ export interface PairedDevice {
  */
 export async function getPairedDevices(): Promise<PairedDevice[]> {
   try {
-    const data = await AsyncStorage.getItem(PAIRED_DEVICES_KEY);
-    if (data) {
-      return JSON.parse(data);
-    }
+    return await appStorage.readJSON<PairedDevice[]>(STORAGE_KEYS.PAIRED_DEVICES, [], Array.isArray);
   } catch (error) {
     console.error('Failed to load paired devices:', error);
   }
@@ -99,7 +95,7 @@ export async function pairDevice(
     };
     
     filtered.push(newPairing);
-    await AsyncStorage.setItem(PAIRED_DEVICES_KEY, JSON.stringify(filtered));
+    await appStorage.writeJSON(STORAGE_KEYS.PAIRED_DEVICES, filtered);
     console.log(`Paired device ${deviceId} to user ${userId}`);
   } catch (error) {
     console.error('Failed to pair device:', error);
@@ -114,7 +110,7 @@ export async function unpairDevice(deviceId: string): Promise<void> {
   try {
     const pairedDevices = await getPairedDevices();
     const filtered = pairedDevices.filter((d) => d.deviceId !== deviceId);
-    await AsyncStorage.setItem(PAIRED_DEVICES_KEY, JSON.stringify(filtered));
+    await appStorage.writeJSON(STORAGE_KEYS.PAIRED_DEVICES, filtered);
     console.log(`Unpaired device ${deviceId}`);
   } catch (error) {
     console.error('Failed to unpair device:', error);
@@ -1,4 +1,5 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { appStorage } from '../domain/storage/appStorage';
+import { STORAGE_KEYS } from '../domain/storage/storageKeys';
 import { BluetoothDevice } from '../types/bluetooth';
 
 export interface PairedDevice extends BluetoothDevice {
@@ -9,12 +10,6 @@ export interface PairedDevice extends BluetoothDevice {
   firmwareVersion?: string;
 }
 
-const STORAGE_KEYS = {
-  PAIRED_DEVICES: 'paired_devices',
-  LAST_CONNECTED_DEVICE: 'last_connected_device',
-  AUTO_RECONNECT_ENABLED: 'auto_reconnect_enabled',
-};
-
 export class DeviceStorageService {
   private static instance: DeviceStorageService;
   private pairedDevices: PairedDevice[] = [];
@@ -38,17 +33,11 @@ export class DeviceStorageService {
 
   private async loadPairedDevices(): Promise<void> {
     try {
-      const stored = await AsyncStorage.getItem(STORAGE_KEYS.PAIRED_DEVICES);
-      
-      if (stored) {
-        const devices = JSON.parse(stored);
-        this.pairedDevices = devices.map((device: any) => ({
-          ...device,
-          lastConnected: new Date(device.lastConnected),
-        }));
-      } else {
-        this.pairedDevices = [];
-      }
+      const devices = await appStorage.readJSON<any[]>(STORAGE_KEYS.SAVED_DEVICES, [], Array.isArray);
+      this.pairedDevices = devices.map((device: any) => ({
+        ...device,
+        lastConnected: new Date(device.lastConnected),
+      }));
     } catch (error) {
       console.error('Failed to load paired devices:', error);
       this.pairedDevices = [];
@@ -57,7 +46,7 @@ export class DeviceStorageService {
 
   private async loadLastConnectedDevice(): Promise<void> {
     try {
-      const stored = await AsyncStorage.getItem(STORAGE_KEYS.LAST_CONNECTED_DEVICE);
+      const stored = await appStorage.readString(STORAGE_KEYS.LAST_CONNECTED_DEVICE);
       this.lastConnectedDeviceId = stored || null;
     } catch (error) {
       console.error('Failed to load last connected device:', error);
@@ -67,13 +56,7 @@ export class DeviceStorageService {
 
   private async savePairedDevices(): Promise<void> {
     try {
-      const dataToSave = JSON.stringify(this.pairedDevices);
-      
-      await AsyncStorage.setItem(STORAGE_KEYS.PAIRED_DEVICES, dataToSave);
-      
-      // Verify the save worked by reading it back
-      const savedData = await AsyncStorage.getItem(STORAGE_KEYS.PAIRED_DEVICES);
-      
+      await appStorage.writeJSON(STORAGE_KEYS.SAVED_DEVICES, this.pairedDevices);
     } catch (error) {
       console.error('Failed to save paired devices:', error);
       throw error; // Re-throw to let caller know about the failure
@@ -83,9 +66,9 @@ export class DeviceStorageService {
   private async saveLastConnectedDevice(): Promise<void> {
     try {
       if (this.lastConnectedDeviceId) {
-        await AsyncStorage.setItem(STORAGE_KEYS.LAST_CONNECTED_DEVICE, this.lastConnectedDeviceId);
+        await appStorage.writeString(STORAGE_KEYS.LAST_CONNECTED_DEVICE, this.lastConnectedDeviceId);
       } else {
-        await AsyncStorage.removeItem(STORAGE_KEYS.LAST_CONNECTED_DEVICE);
+        await appStorage.remove(STORAGE_KEYS.LAST_CONNECTED_DEVICE);
       }
     } catch (error) {
       console.error('Failed to save last connected device:', error);
@@ -153,11 +136,9 @@ export class DeviceStorageService {
   // Clear all storage (for testing purposes)
   async clearAllStorage(): Promise<void> {
     try {
-      await AsyncStorage.multiRemove([
-        STORAGE_KEYS.PAIRED_DEVICES,
-        STORAGE_KEYS.LAST_CONNECTED_DEVICE,
-        STORAGE_KEYS.AUTO_RECONNECT_ENABLED
-      ]);
+      await appStorage.remove(STORAGE_KEYS.SAVED_DEVICES);
+      await appStorage.remove(STORAGE_KEYS.LAST_CONNECTED_DEVICE);
+      await appStorage.remove(STORAGE_KEYS.AUTO_RECONNECT_ENABLED);
       this.pairedDevices = [];
       this.lastConnectedDeviceId = null;
     } catch (error) {
@@ -214,7 +195,7 @@ export class DeviceStorageService {
 
   async setAutoReconnectEnabled(enabled: boolean): Promise<void> {
     try {
-      await AsyncStorage.setItem(STORAGE_KEYS.AUTO_RECONNECT_ENABLED, JSON.stringify(enabled));
+      await appStorage.writeJSON(STORAGE_KEYS.AUTO_RECONNECT_ENABLED, enabled);
     } catch (error) {
       console.error('Failed to save auto reconnect setting:', error);
     }
@@ -222,8 +203,7 @@ export class DeviceStorageService {
 
   async getAutoReconnectEnabled(): Promise<boolean> {
     try {
-      const stored = await AsyncStorage.getItem(STORAGE_KEYS.AUTO_RECONNECT_ENABLED);
-      return stored ? JSON.parse(stored) : true; // Default to true
+      return await appStorage.readJSON(STORAGE_KEYS.AUTO_RECONNECT_ENABLED, true, value => typeof value === 'boolean'); // Default to true
     } catch (error) {
       console.error('Failed to load auto reconnect setting:', error);
       return true;
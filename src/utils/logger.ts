@@ -1,4 +1,5 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { appStorage } from '../domain/storage/appStorage';
+import { STORAGE_KEYS } from '../domain/storage/storageKeys';
 
 // TODO FOR AGENT: INTEGRATE THIS LOGGEER EVERYWHERE. IT SHOULD REPLACE CONSOLE.LOG AND CONSOLE.ERROR AND CONSOLE.WARN AND CONSOLE.DEBUG.
 
@@ -29,7 +30,6 @@ export interface LogEntry {
   metadata?: Record<string, any>;
 }
 
-const LOG_STORAGE_KEY = '@led_guitar:logs';
 const MAX_LOCAL_LOGS = 1000; // Keep last 1000 log entries locally
 const LOG_UPLOAD_BATCH_SIZE = 100; // Upload in batches
 
@@ -56,13 +56,10 @@ class Logger {
     }
 
     try {
-      const stored = await AsyncStorage.getItem(LOG_STORAGE_KEY);
-      if (stored) {
-        this.logs = JSON.parse(stored);
-        // Trim to max size
-        if (this.logs.length > MAX_LOCAL_LOGS) {
-          this.logs = this.logs.slice(-MAX_LOCAL_LOGS);
-        }
+      this.logs = await appStorage.readJSON<LogEntry[]>(STORAGE_KEYS.LOGS, [], Array.isArray);
+      // Trim to max size
+      if (this.logs.length > MAX_LOCAL_LOGS) {
+        this.logs = this.logs.slice(-MAX_LOCAL_LOGS);
       }
     } catch (error) {
       console.error('Failed to load logs:', error);
@@ -131,7 +128,7 @@ class Logger {
    */
   private async persistLogs(): Promise<void> {
     try {
-      await AsyncStorage.setItem(LOG_STORAGE_KEY, JSON.stringify(this.logs));
+      await appStorage.writeJSON(STORAGE_KEYS.LOGS, this.logs);
     } catch (error) {
       console.error('Failed to persist logs:', error);
     }
@@ -192,7 +189,7 @@ class Logger {
   async clearLogs(): Promise<void> {
     this.logs = [];
     try {
-      await AsyncStorage.removeItem(LOG_STORAGE_KEY);
+      await appStorage.remove(STORAGE_KEYS.LOGS);
     } catch (error) {
       console.error('Failed to clear logs:', error);
     }
@@ -4,6 +4,7 @@
  */
 
 import { ParameterId } from '../types/commands';
+import { DeviceCapabilities, DEFAULT_DEVICE_CAPABILITIES } from '../types/capabilities';
 import { RGBColor } from '../utils/bleConstants';
 
 /**
@@ -22,15 +23,31 @@ export interface ValidationResult {
 }
 
 // Power consumption constants
-const MAX_LED_COUNT = 14; // Worst case: 14 LEDs
 const MAX_CURRENT_PER_LED_WHITE = 60; // mA per LED at full white, full brightness
-const BATTERY_MAX_CURRENT = 500; // mA - 500mAh battery
-const SAFE_CURRENT_LIMIT = 400; // mA - 80% of max for safety margin
+const SAFE_CURRENT_FACTOR = 0.8; // Stay at 80% of the device's current budget for safety margin
+
+/**
+ * Safe current limit for a device (mA)
+ */
+export function getSafeCurrentLimit(capabilities: DeviceCapabilities = DEFAULT_DEVICE_CAPABILITIES): number {
+  return Math.floor(capabilities.maxMilliamps * SAFE_CURRENT_FACTOR);
+}
 
 /**
  * Validate a parameter value before sending
  */
-export function validateParameter(parameterId: ParameterId, value: number): ValidationResult {
+export function validateParameter(
+  parameterId: ParameterId,
+  value: number,
+  capabilities: DeviceCapabilities = DEFAULT_DEVICE_CAPABILITIES
+): ValidationResult {
+  if (!capabilities.supportedParameters.includes(parameterId)) {
+    return {
+      isValid: false,
+      error: `${ParameterId[parameterId] || `Parameter ${parameterId}`} is not supported by this device`,
+    };
+  }
+
   switch (parameterId) {
     case ParameterId.BRIGHTNESS:
       if (value < 0 || value > 100) {
@@ -89,6 +106,22 @@ export function validateParameter(parameterId: ParameterId, value: number): Vali
   return { isValid: true };
 }
 
+/**
+ * Validate an effect (firmware pattern ID) against the device's supported effects
+ */
+export function validateEffect(
+  pattern: number,
+  capabilities: DeviceCapabilities = DEFAULT_DEVICE_CAPABILITIES
+): ValidationResult {
+  if (!capabilities.supportedEffects.includes(pattern)) {
+    return {
+      isValid: false,
+      error: `Effect ${pattern} is not supported by this device`,
+    };
+  }
+  return { isValid: true };
+}
+
 /**
  * Calculate current draw for a single LED based on color and brightness
  * @param color RGB color [R, G, B] (0-255 for each component)
@@ -115,13 +148,13 @@ export function calculateLEDCurrent(color: RGBColor, brightness: number): number
  * Calculate total current draw for all LEDs
  * @param color RGB color [R, G, B]
  * @param brightness Brightness level (0-100)
- * @param ledCount Number of LEDs (defaults to MAX_LED_COUNT for worst case)
+ * @param ledCount Number of LEDs (defaults to the worst case when capabilities are unknown)
  * @returns Total current draw in mA
  */
 export function calculateTotalCurrent(
   color: RGBColor,
   brightness: number,
-  ledCount: number = MAX_LED_COUNT
+  ledCount: number = DEFAULT_DEVICE_CAPABILITIES.ledCount
 ): number {
   const currentPerLED = calculateLEDCurrent(color, brightness);
   return currentPerLED * ledCount;
@@ -130,34 +163,36 @@ export function calculateTotalCurrent(
 /**
  * Validate power consumption for a configuration
  * @param config LED configuration
- * @param ledCount Number of LEDs (defaults to MAX_LED_COUNT for worst case)
+ * @param capabilities Device capabilities (LED count and current budget)
  * @returns Validation result
  */
 export function validatePowerConsumption(
   config: PowerValidationConfig,
-  ledCount: number = MAX_LED_COUNT
+  capabilities: DeviceCapabilities = DEFAULT_DEVICE_CAPABILITIES
 ): ValidationResult {
   // Only validate if power is on
   if (!config.powerState) {
     return { isValid: true };
   }
   
+  const ledCount = capabilities.ledCount;
+  const safeCurrentLimit = getSafeCurrentLimit(capabilities);
   const totalCurrent = calculateTotalCurrent(config.color, config.brightness, ledCount);
   
-  if (totalCurrent > SAFE_CURRENT_LIMIT) {
+  if (totalCurrent > safeCurrentLimit) {
     const maxSafeBrightness = Math.floor(
-      (SAFE_CURRENT_LIMIT / (ledCount * calculateLEDCurrent(config.color, 100))) * 100
+      (safeCurrentLimit / (ledCount * calculateLEDCurrent(config.color, 100))) * 100
     );
     
     return {
       isValid: false,
-      error: `Power consumption too high: ${totalCurrent.toFixed(0)}mA (limit: ${SAFE_CURRENT_LIMIT}mA). ` +
+      error: `Power consumption too high: ${totalCurrent.toFixed(0)}mA (limit: ${safeCurrentLimit}mA). ` +
              `Reduce brightness to ${maxSafeBrightness}% or change color to reduce current draw.`,
     };
   }
   
-  // Warn if approaching limit (above 80% of safe limit = 320mA)
-  if (totalCurrent > SAFE_CURRENT_LIMIT * 0.8) {
+  // Warn if approaching limit (above 80% of safe limit)
+  if (totalCurrent > safeCurrentLimit * 0.8) {
     return {
       isValid: true, // Still valid, but warn
       error: `High power consumption: ${totalCurrent.toFixed(0)}mA. Consider reducing brightness or changing color.`,
@@ -203,14 +238,14 @@ export function validateColor(color: RGBColor): ValidationResult {
  * @param color RGB color [R, G, B]
  * @param brightness Brightness level (0-100)
  * @param powerState Whether power is on
- * @param ledCount Number of LEDs (defaults to MAX_LED_COUNT)
+ * @param capabilities Device capabilities (defaults to the worst case)
  * @returns Validation result
  */
 export function validateColorAndPower(
   color: RGBColor,
   brightness: number,
   powerState: boolean,
-  ledCount: number = MAX_LED_COUNT
+  capabilities: DeviceCapabilities = DEFAULT_DEVICE_CAPABILITIES
 ): ValidationResult {
   // First validate color components
   const colorValidation = validateColor(color);
@@ -225,7 +260,7 @@ export function validateColorAndPower(
       color,
       powerState: true,
     };
-    return validatePowerConsumption(mockConfig, ledCount);
+    return validatePowerConsumption(mockConfig, capabilities);
   }
   
   return { isValid: true };